@@ -1,7 +1,19 @@
 import { Card } from '@/components/ui';
 import { useDatabase } from '@/contexts/DatabaseContext';
 import { useTheme } from '@/contexts/ThemeContext';
-import { getDatabase } from '@/lib/database';
+import { getDailyTrends, getPeriodStats, getTopSymptoms } from '@/lib/analysis';
+import {
+    CORRELATION_CONFIDENCE_LABELS,
+    CorrelationWindow,
+    FoodCorrelation,
+    getFoodCorrelations,
+} from '@/lib/correlation';
+import {
+    getSensitivityProfile,
+    SENSITIVITY_VERDICT_LABELS,
+    SensitivityProfile,
+    SensitivityVerdict,
+} from '@/lib/sensitivity';
 import { Ionicons } from '@expo/vector-icons';
 import { useFocusEffect } from 'expo-router';
 import React, { useCallback, useEffect, useState } from 'react';
@@ -26,13 +38,6 @@ interface WeeklyStats {
   avgSymptomIntensity: number;
 }
 
-interface SymptomCorrelation {
-  food: string;
-  symptomCount: number;
-  avgIntensity: number;
-  occurrences: number;
-}
-
 interface DailyTrend {
   date: string;
   dayName: string;
@@ -43,6 +48,12 @@ interface DailyTrend {
 
 type TimeRange = '7d' | '14d' | '30d';
 
+const CORRELATION_WINDOWS: (CorrelationWindow & { label: string })[] = [
+  { startHours: 2, endHours: 6, label: '2-6 h' },
+  { startHours: 2, endHours: 24, label: '2-24 h' },
+  { startHours: 2, endHours: 48, label: '2-48 h' },
+];
+
 export default function AnalysisScreen() {
   const { colors } = useTheme();
   const { isReady } = useDatabase();
@@ -54,7 +65,9 @@ export default function AnalysisScreen() {
     bowel: 0,
     avgSymptomIntensity: 0,
   });
-  const [correlations, setCorrelations] = useState<SymptomCorrelation[]>([]);
+  const [correlationWindow, setCorrelationWindow] = useState(CORRELATION_WINDOWS[2]);
+  const [correlations, setCorrelations] = useState<FoodCorrelation[]>([]);
+  const [sensitivity, setSensitivity] = useState<SensitivityProfile | null>(null);
   const [dailyTrends, setDailyTrends] = useState<DailyTrend[]>([]);
   const [topSymptoms, setTopSymptoms] = useState<{ type: string; count: number; avgIntensity: number }[]>([]);
   const [bristolAvg, setBristolAvg] = useState<number>(0);
@@ -63,14 +76,14 @@ export default function AnalysisScreen() {
     if (isReady) {
       loadAnalysis();
     }
-  }, [isReady, timeRange]);
+  }, [isReady, timeRange, correlationWindow]);
 
   useFocusEffect(
     useCallback(() => {
       if (isReady) {
         loadAnalysis();
       }
-    }, [isReady, timeRange])
+    }, [isReady, timeRange, correlationWindow])
   );
 
   const getDaysAgo = (days: number): string => {
@@ -87,93 +100,33 @@ export default function AnalysisScreen() {
 
   const loadAnalysis = async () => {
     try {
-      const db = await getDatabase();
       const days = timeRange === '7d' ? 7 : timeRange === '14d' ? 14 : 30;
       const startDate = getDaysAgo(days);
       const today = new Date().toISOString().split('T')[0];
 
-      // Weekly/Period stats
-      const [mealsResult, waterResult, symptomsResult, bowelResult, avgIntensityResult] = await Promise.all([
-        db.getFirstAsync<{ count: number }>('SELECT COUNT(*) as count FROM meals WHERE date >= ?', [startDate]),
-        db.getFirstAsync<{ total: number }>('SELECT COALESCE(SUM(glasses), 0) as total FROM water_intake WHERE date >= ?', [startDate]),
-        db.getFirstAsync<{ count: number }>('SELECT COUNT(*) as count FROM symptoms WHERE date >= ?', [startDate]),
-        db.getFirstAsync<{ count: number }>('SELECT COUNT(*) as count FROM bowel_movements WHERE date >= ?', [startDate]),
-        db.getFirstAsync<{ avg: number }>('SELECT COALESCE(AVG(intensity), 0) as avg FROM symptoms WHERE date >= ?', [startDate]),
+      const [stats, topSymptomsResult, trends, correlationResult, sensitivityProfile] = await Promise.all([
+        getPeriodStats(startDate, today),
+        getTopSymptoms(startDate, today),
+        // Daily trends (last 7 days for chart)
+        getDailyTrends(getDaysAgo(6), today),
+        // Food-symptom correlations within the selected window
+        getFoodCorrelations(startDate, today, correlationWindow),
+        getSensitivityProfile(startDate, today, correlationWindow),
       ]);
 
       setWeeklyStats({
-        meals: mealsResult?.count || 0,
-        water: waterResult?.total || 0,
-        symptoms: symptomsResult?.count || 0,
-        bowel: bowelResult?.count || 0,
-        avgSymptomIntensity: avgIntensityResult?.avg || 0,
+        meals: stats.meals,
+        water: stats.water,
+        symptoms: stats.symptoms,
+        bowel: stats.bowel,
+        avgSymptomIntensity: stats.avgSymptomIntensity,
       });
-
-      // Bristol average
-      const bristolResult = await db.getFirstAsync<{ avg: number }>(
-        'SELECT COALESCE(AVG(bristol_type), 0) as avg FROM bowel_movements WHERE date >= ?',
-        [startDate]
-      );
-      setBristolAvg(bristolResult?.avg || 0);
-
-      // Top symptoms
-      const topSymptomsResult = await db.getAllAsync<{ type: string; count: number; avg_intensity: number }>(
-        `SELECT type, COUNT(*) as count, AVG(intensity) as avg_intensity 
-         FROM symptoms WHERE date >= ? 
-         GROUP BY type ORDER BY count DESC LIMIT 5`,
-        [startDate]
-      );
-      setTopSymptoms(topSymptomsResult.map(s => ({
-        type: s.type,
-        count: s.count || 0,
-        avgIntensity: s.avg_intensity || 0,
-      })));
-
-      // Daily trends (last 7 days for chart)
-      const trends: DailyTrend[] = [];
-      for (let i = 6; i >= 0; i--) {
-        const date = getDaysAgo(i);
-        const dayMeals = await db.getFirstAsync<{ count: number }>(
-          'SELECT COUNT(*) as count FROM meals WHERE date = ?', [date]
-        );
-        const daySymptoms = await db.getFirstAsync<{ count: number }>(
-          'SELECT COUNT(*) as count FROM symptoms WHERE date = ?', [date]
-        );
-        const dayWater = await db.getFirstAsync<{ total: number }>(
-          'SELECT COALESCE(SUM(glasses), 0) as total FROM water_intake WHERE date = ?', [date]
-        );
-        
-        trends.push({
-          date,
-          dayName: getDayName(date),
-          meals: dayMeals?.count || 0,
-          symptoms: daySymptoms?.count || 0,
-          water: dayWater?.total || 0,
-        });
-      }
-      setDailyTrends(trends);
-
-      // Food-symptom correlations (simplified analysis)
-      // Look for meals that occurred within 4 hours before symptoms
-      const correlationsResult = await db.getAllAsync<{ name: string; symptom_count: number }>(
-        `SELECT m.name, COUNT(s.id) as symptom_count
-         FROM meals m
-         LEFT JOIN symptoms s ON m.date = s.date 
-           AND s.time > m.time 
-         WHERE m.date >= ? AND s.id IS NOT NULL
-         GROUP BY m.name
-         HAVING symptom_count > 0
-         ORDER BY symptom_count DESC
-         LIMIT 10`,
-        [startDate]
-      );
-      
-      setCorrelations(correlationsResult.map(c => ({
-        food: c.name,
-        symptomCount: c.symptom_count,
-        avgIntensity: 0,
-        occurrences: 1,
-      })));
+      setBristolAvg(stats.avgBristol);
+      setTopSymptoms(topSymptomsResult);
+      setDailyTrends(trends.map(trend => ({ ...trend, dayName: getDayName(trend.date) })));
+      // Only foods followed by more symptoms than the days without them
+      setCorrelations(correlationResult.foods.filter(food => food.relativeRisk > 1 && food.attributedSymptoms > 0));
+      setSensitivity(sensitivityProfile);
 
     } catch (error) {
       console.error('Error loading analysis:', error);
@@ -186,6 +139,13 @@ export default function AnalysisScreen() {
     { id: '30d', label: '30 días' },
   ];
 
+  const verdictColors: Record<SensitivityVerdict, string> = {
+    elevated: colors.fodmapHigh,
+    possible: colors.fodmapMedium,
+    none: colors.fodmapLow,
+    insufficient: colors.textMuted,
+  };
+
   const maxTrendValue = Math.max(...dailyTrends.map(d => Math.max(d.symptoms, d.meals, d.water)), 1);
 
   const StatBox = ({ icon, label, value, color, subtitle }: { 
@@ -425,50 +385,81 @@ export default function AnalysisScreen() {
         }}>
           Posibles correlaciones
         </Text>
+        <View style={{ flexDirection: 'row', alignItems: 'center', gap: 8, marginBottom: 12 }}>
+          <Text style={{ fontSize: 12, color: colors.textSecondary }}>Síntomas tras comer:</Text>
+          {CORRELATION_WINDOWS.map((option) => (
+            <Pressable
+              key={option.label}
+              onPress={() => setCorrelationWindow(option)}
+              style={{
+                paddingHorizontal: 10,
+                paddingVertical: 6,
+                borderRadius: 8,
+                backgroundColor: correlationWindow === option ? colors.primary : colors.cardElevated,
+              }}
+            >
+              <Text style={{
+                fontSize: 12,
+                fontWeight: '600',
+                color: correlationWindow === option ? '#FFFFFF' : colors.textSecondary,
+              }}>
+                {option.label}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
         {correlations.length > 0 ? (
           <Card style={{ padding: 0, overflow: 'hidden' }}>
-            {correlations.slice(0, 5).map((correlation, index) => (
-              <View 
-                key={correlation.food}
-                style={{
-                  flexDirection: 'row',
-                  alignItems: 'center',
-                  padding: 14,
-                  borderBottomWidth: index < Math.min(correlations.length, 5) - 1 ? 1 : 0,
-                  borderBottomColor: colors.border,
-                }}
-              >
-                <View style={{
-                  width: 36,
-                  height: 36,
-                  borderRadius: 18,
-                  backgroundColor: colors.fodmapHigh + '20',
-                  alignItems: 'center',
-                  justifyContent: 'center',
-                  marginRight: 12,
-                }}>
-                  <Ionicons name="alert-circle" size={18} color={colors.fodmapHigh} />
-                </View>
-                <View style={{ flex: 1 }}>
-                  <Text style={{ fontSize: 14, fontWeight: '500', color: colors.text }}>
-                    {correlation.food}
-                  </Text>
-                  <Text style={{ fontSize: 12, color: colors.textSecondary }}>
-                    Síntomas registrados el mismo día
-                  </Text>
-                </View>
-                <View style={{
-                  backgroundColor: colors.fodmapHigh + '20',
-                  paddingHorizontal: 10,
-                  paddingVertical: 4,
-                  borderRadius: 12,
-                }}>
-                  <Text style={{ fontSize: 13, fontWeight: '600', color: colors.fodmapHigh }}>
-                    {correlation.symptomCount} sínt.
-                  </Text>
+            {correlations.slice(0, 5).map((correlation, index) => {
+              const riskColor = correlation.relativeRisk >= 2 ? colors.fodmapHigh : colors.fodmapMedium;
+              return (
+                <View 
+                  key={correlation.key}
+                  style={{
+                    flexDirection: 'row',
+                    alignItems: 'center',
+                    padding: 14,
+                    borderBottomWidth: index < Math.min(correlations.length, 5) - 1 ? 1 : 0,
+                    borderBottomColor: colors.border,
+                  }}
+                >
+                  <View style={{
+                    width: 36,
+                    height: 36,
+                    borderRadius: 18,
+                    backgroundColor: riskColor + '20',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                    marginRight: 12,
+                  }}>
+                    <Ionicons name="alert-circle" size={18} color={riskColor} />
+                  </View>
+                  <View style={{ flex: 1 }}>
+                    <Text style={{ fontSize: 14, fontWeight: '500', color: colors.text }}>
+                      {correlation.name}
+                    </Text>
+                    <Text style={{ fontSize: 12, color: colors.textSecondary }}>
+                      {correlation.attributedSymptoms} sínt. tras {correlation.exposures} tomas · intensidad {correlation.avgIntensity.toFixed(1)}/10
+                    </Text>
+                  </View>
+                  <View style={{ alignItems: 'flex-end' }}>
+                    <View style={{
+                      backgroundColor: riskColor + '20',
+                      paddingHorizontal: 10,
+                      paddingVertical: 4,
+                      borderRadius: 12,
+                    }}>
+                      <Text style={{ fontSize: 13, fontWeight: '600', color: riskColor }}>
+                        ×{correlation.relativeRisk.toFixed(1)}
+                      </Text>
+                    </View>
+                    <Text style={{ fontSize: 10, color: colors.textMuted, marginTop: 2 }}>
+                      {CORRELATION_CONFIDENCE_LABELS[correlation.confidence]}
+                    </Text>
+                  </View>
                 </View>
-              </View>
-            ))}
+              );
+            })}
           </Card>
         ) : (
           <Card>
@@ -491,8 +482,85 @@ export default function AnalysisScreen() {
         )}
       </Animated.View>
 
+      {/* FODMAP Sensitivity Profile */}
+      {sensitivity && sensitivity.analyzedDays > 0 && (
+        <Animated.View entering={FadeInDown.delay(350).springify()} style={{ marginTop: 20 }}>
+          <Text style={{ 
+            fontSize: 16, 
+            fontWeight: '600', 
+            color: colors.text,
+            marginBottom: 12,
+          }}>
+            Perfil de sensibilidad FODMAP
+          </Text>
+          <Card style={{ padding: 0, overflow: 'hidden' }}>
+            <Text style={{
+              fontSize: 14,
+              color: colors.text,
+              padding: 14,
+              borderBottomWidth: 1,
+              borderBottomColor: colors.border,
+            }}>
+              {sensitivity.summary}
+            </Text>
+            {sensitivity.subgroups.map((subgroup, index) => {
+              const color = verdictColors[subgroup.verdict];
+              return (
+                <View 
+                  key={subgroup.subgroup}
+                  style={{
+                    flexDirection: 'row',
+                    alignItems: 'center',
+                    padding: 14,
+                    borderBottomWidth: index < sensitivity.subgroups.length - 1 ? 1 : 0,
+                    borderBottomColor: colors.border,
+                  }}
+                >
+                  <View style={{
+                    width: 36,
+                    height: 36,
+                    borderRadius: 18,
+                    backgroundColor: color + '20',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                    marginRight: 12,
+                  }}>
+                    <Ionicons name={subgroup.icon as keyof typeof Ionicons.glyphMap} size={18} color={color} />
+                  </View>
+                  <View style={{ flex: 1 }}>
+                    <Text style={{ fontSize: 14, fontWeight: '500', color: colors.text }}>
+                      {subgroup.label}
+                    </Text>
+                    <Text style={{ fontSize: 12, color: colors.textSecondary }}>
+                      {subgroup.exposedDays} días con nivel medio/alto · {subgroup.unexposedDays} sin
+                    </Text>
+                  </View>
+                  <View style={{ alignItems: 'flex-end' }}>
+                    <View style={{
+                      backgroundColor: color + '20',
+                      paddingHorizontal: 10,
+                      paddingVertical: 4,
+                      borderRadius: 12,
+                    }}>
+                      <Text style={{ fontSize: 12, fontWeight: '600', color }}>
+                        {SENSITIVITY_VERDICT_LABELS[subgroup.verdict]}
+                      </Text>
+                    </View>
+                    {subgroup.verdict !== 'insufficient' && (
+                      <Text style={{ fontSize: 10, color: colors.textMuted, marginTop: 2 }}>
+                        ×{subgroup.relativeRisk.toFixed(1)}
+                      </Text>
+                    )}
+                  </View>
+                </View>
+              );
+            })}
+          </Card>
+        </Animated.View>
+      )}
+
       {/* Info Card */}
-      <Animated.View entering={FadeInDown.delay(350).springify()} style={{ marginTop: 20 }}>
+      <Animated.View entering={FadeInDown.delay(400).springify()} style={{ marginTop: 20 }}>
         <Card style={{ backgroundColor: colors.water + '10', borderColor: colors.water + '30' }}>
           <View style={{ flexDirection: 'row', alignItems: 'flex-start', gap: 12 }}>
             <Ionicons name="information-circle" size={24} color={colors.water} />
@@ -502,7 +570,7 @@ export default function AnalysisScreen() {
                 color: colors.textSecondary,
                 lineHeight: 18,
               }}>
-                Las correlaciones son orientativas. Consulta con un profesional de salud para interpretar los resultados y ajustar tu dieta FODMAP.
+                El riesgo (×) compara los días en que comiste cada alimento con los días sin él, según la intensidad de los síntomas en la ventana elegida. Las correlaciones son orientativas. Consulta con un profesional de salud para interpretar los resultados y ajustar tu dieta FODMAP.
               </Text>
             </View>
           </View>
@@ -2,7 +2,9 @@ import { Card } from '@/components/ui';
 import { useDatabase } from '@/contexts/DatabaseContext';
 import { useTheme } from '@/contexts/ThemeContext';
 import { getDatabase } from '@/lib/database';
-import { BRISTOL_SCALE, DAY_LABELS, MEAL_TYPE_LABELS } from '@/lib/types';
+import { getProgramDays, getSubgroupLabel, ProgramDay } from '@/lib/fodmap-program';
+import { MealRepository, SymptomRepository, TreatmentRepository } from '@/lib/repositories';
+import { BRISTOL_SCALE, DAY_LABELS, MEAL_TYPE_LABELS, PROGRAM_PHASE_LABELS, ProgramPhase } from '@/lib/types';
 import { Ionicons } from '@expo/vector-icons';
 import React, { useCallback, useEffect, useState } from 'react';
 import {
@@ -38,10 +40,18 @@ export default function CalendarScreen() {
   const [currentDate, setCurrentDate] = useState(new Date());
   const [selectedDate, setSelectedDate] = useState<string>(new Date().toISOString().split('T')[0]);
   const [monthData, setMonthData] = useState<Record<string, DayEvents>>({});
+  const [programDays, setProgramDays] = useState<Record<string, ProgramDay>>({});
   const [dayDetails, setDayDetails] = useState<any>(null);
 
   const activityColor = '#FF9800';
 
+  // FODMAP program phases marked on the calendar
+  const programPhaseColors: Partial<Record<ProgramPhase, string>> = {
+    elimination: colors.primary,
+    challenge: colors.warning,
+    washout: colors.textMuted,
+  };
+
   useEffect(() => {
     if (isReady) {
       loadMonthData();
@@ -115,6 +125,7 @@ export default function CalendarScreen() {
       });
 
       setMonthData(data);
+      setProgramDays(await getProgramDays(startDate, endDate));
     } catch (error) {
       console.error('Error loading month data:', error);
     }
@@ -124,32 +135,21 @@ export default function CalendarScreen() {
     try {
       const db = await getDatabase();
 
-      const meals = await db.getAllAsync(
-        'SELECT * FROM meals WHERE date = ? ORDER BY time',
-        [selectedDate]
-      );
+      const meals = await MealRepository.getByDate(selectedDate);
 
       const water = await db.getAllAsync(
         'SELECT * FROM water_intake WHERE date = ? ORDER BY time',
         [selectedDate]
       );
 
-      const symptoms = await db.getAllAsync(
-        'SELECT * FROM symptoms WHERE date = ? ORDER BY time',
-        [selectedDate]
-      );
+      const symptoms = await SymptomRepository.getByDate(selectedDate);
 
       const bowelMovements = await db.getAllAsync(
         'SELECT * FROM bowel_movements WHERE date = ? ORDER BY time',
         [selectedDate]
       );
 
-      const treatments = await db.getAllAsync(
-        `SELECT tl.*, t.name, t.dosage FROM treatment_logs tl 
-         JOIN treatments t ON tl.treatment_id = t.id 
-         WHERE tl.date = ? ORDER BY tl.time`,
-        [selectedDate]
-      );
+      const treatments = await TreatmentRepository.getLogsByDate(selectedDate);
 
       const activities = await db.getAllAsync(
         `SELECT al.*, at.name as type_name, at.icon, at.color 
@@ -159,7 +159,9 @@ export default function CalendarScreen() {
         [selectedDate]
       );
 
-      setDayDetails({ meals, water, symptoms, bowelMovements, treatments, activities });
+      const programDay = (await getProgramDays(selectedDate, selectedDate))[selectedDate];
+
+      setDayDetails({ meals, water, symptoms, bowelMovements, treatments, activities, programDay });
     } catch (error) {
       console.error('Error loading day details:', error);
     }
@@ -281,8 +283,44 @@ export default function CalendarScreen() {
       dayDetails.treatments.length === 0 &&
       dayDetails.activities.length === 0;
 
+    const programDay: ProgramDay | undefined = dayDetails.programDay;
+    const programColor = programDay && programPhaseColors[programDay.phase] || colors.primary;
+
     return (
       <View style={{ gap: 12 }}>
+        {/* FODMAP program */}
+        {programDay && (
+          <Card>
+            <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+              <View style={{
+                width: 36,
+                height: 36,
+                borderRadius: 18,
+                backgroundColor: programColor + '20',
+                alignItems: 'center',
+                justifyContent: 'center',
+                marginRight: 12,
+              }}>
+                <Ionicons name={programDay.phase === 'challenge' ? 'flask' : 'flag'} size={18} color={programColor} />
+              </View>
+              <View style={{ flex: 1 }}>
+                <Text style={{ fontSize: 14, color: colors.text, fontWeight: '600' }}>
+                  Programa FODMAP · {PROGRAM_PHASE_LABELS[programDay.phase]}
+                </Text>
+                <Text style={{ fontSize: 12, color: colors.textSecondary }}>
+                  {programDay.phase === 'challenge' && programDay.challenge && programDay.dose
+                    ? `${getSubgroupLabel(programDay.challenge.subgroup)}: ${String(programDay.challenge.doses[programDay.dose - 1]).replace('.', ',')} ${programDay.challenge.dose_unit || ''} de ${programDay.challenge.food_name.toLowerCase()} (dosis ${programDay.dose})`
+                    : programDay.phase === 'washout' && programDay.challenge
+                    ? `Descanso tras el reto de ${getSubgroupLabel(programDay.challenge.subgroup).toLowerCase()}`
+                    : programDay.phase === 'elimination' || programDay.phase === 'reintroduction'
+                    ? 'Dieta baja en FODMAP'
+                    : 'Dieta personalizada'}
+                </Text>
+              </View>
+            </View>
+          </Card>
+        )}
+
         {/* Activities */}
         {dayDetails.activities.length > 0 && (
           <Card>
@@ -503,10 +541,10 @@ export default function CalendarScreen() {
                 borderTopColor: colors.border,
               }}>
                 <Text style={{ fontSize: 14, color: colors.text, fontWeight: '500' }}>
-                  {treatment.name}
+                  {treatment.treatment_name || 'Tratamiento'}
                 </Text>
                 <Text style={{ fontSize: 12, color: colors.textSecondary }}>
-                  {treatment.time} {treatment.dosage ? `· ${treatment.dosage}` : ''}
+                  {treatment.time} {treatment.dosage_amount ? `· ${treatment.dosage_amount} ${treatment.dosage_unit || ''}` : ''}
                 </Text>
               </View>
             ))}
@@ -640,6 +678,7 @@ export default function CalendarScreen() {
                 const isToday = dateStr === today;
                 const isSelected = dateStr === selectedDate;
                 const hasEvents = monthData[dateStr];
+                const phaseColor = programDays[dateStr] && programPhaseColors[programDays[dateStr].phase];
 
                 return (
                   <Pressable
@@ -671,6 +710,11 @@ export default function CalendarScreen() {
                         {day}
                       </Text>
                     </View>
+
+                    {/* FODMAP program phase */}
+                    {phaseColor && (
+                      <View style={{ width: 20, height: 2, borderRadius: 1, marginTop: 1, backgroundColor: phaseColor }} />
+                    )}
                     
                     {/* Event indicators */}
                     {hasEvents && (
@@ -711,6 +755,7 @@ export default function CalendarScreen() {
                 const isToday = dayInfo.date === today;
                 const isSelected = dayInfo.date === selectedDate;
                 const hasEvents = monthData[dayInfo.date];
+                const phaseColor = programDays[dayInfo.date] && programPhaseColors[programDays[dayInfo.date].phase];
 
                 return (
                   <Pressable
@@ -739,6 +784,11 @@ export default function CalendarScreen() {
                     }}>
                       {dayInfo.day}
                     </Text>
+
+                    {/* FODMAP program phase */}
+                    {phaseColor && (
+                      <View style={{ width: 20, height: 2, borderRadius: 1, marginTop: 4, backgroundColor: isSelected ? '#FFFFFF' : phaseColor }} />
+                    )}
                     
                     {/* Event indicators */}
                     {hasEvents && (
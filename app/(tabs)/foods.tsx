@@ -1,11 +1,12 @@
-import { Card, FODMAPBadge } from '@/components/ui';
+import { BarcodeLookupModal, Card, FODMAPBadge } from '@/components/ui';
 import { useDatabase } from '@/contexts/DatabaseContext';
 import { useTheme } from '@/contexts/ThemeContext';
 import { getDatabase } from '@/lib/database';
+import { createSearchIndex, getRankingBoost, loadRecentUsage, RecentUsage } from '@/lib/search';
 import { FODMAPLevel, Food, FOOD_CATEGORIES } from '@/lib/types';
 import { Ionicons } from '@expo/vector-icons';
-import { useFocusEffect, useRouter } from 'expo-router';
-import React, { useCallback, useState } from 'react';
+import { useFocusEffect, useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import {
   Image,
   Pressable,
@@ -34,6 +35,8 @@ export default function FoodsScreen() {
   const { colors } = useTheme();
   const { isReady } = useDatabase();
   const router = useRouter();
+  // Barcode passed in by a scanner
+  const { barcode } = useLocalSearchParams<{ barcode?: string }>();
   
   const [searchQuery, setSearchQuery] = useState('');
   const [filterLevel, setFilterLevel] = useState<FilterLevel>('all');
@@ -43,8 +46,14 @@ export default function FoodsScreen() {
   const [foods, setFoods] = useState<Food[]>([]);
   const [tags, setTags] = useState<Tag[]>([]);
   const [foodTags, setFoodTags] = useState<Record<number, Tag[]>>({});
+  const [usage, setUsage] = useState<RecentUsage | null>(null);
   const [refreshing, setRefreshing] = useState(false);
   const [showCategoryFilter, setShowCategoryFilter] = useState(false);
+  const [showBarcodeLookup, setShowBarcodeLookup] = useState(false);
+
+  useEffect(() => {
+    if (barcode) setShowBarcodeLookup(true);
+  }, [barcode]);
 
   useFocusEffect(
     useCallback(() => {
@@ -80,6 +89,7 @@ export default function FoodsScreen() {
       });
       setFoodTags(tagsByFood);
       
+      setUsage(await loadRecentUsage());
     } catch (error) {
       console.error('Error loading data:', error);
     }
@@ -91,12 +101,16 @@ export default function FoodsScreen() {
     setRefreshing(false);
   };
 
-  const filteredFoods = foods.filter(item => {
-    const matchesSearch = item.name.toLowerCase().includes(searchQuery.toLowerCase());
+  const searchIndex = useMemo(() => createSearchIndex(foods, {
+    fields: food => [food.name, food.brand, ...(foodTags[food.id] || []).map(t => t.name)],
+    boost: food => getRankingBoost(food.is_favorite, usage?.foods.get(food.id)),
+  }), [foods, foodTags, usage]);
+
+  const filteredFoods = searchIndex.search(searchQuery).filter(item => {
     const matchesLevel = filterLevel === 'all' || item.fodmap_level === filterLevel;
     const matchesCategory = filterCategory === 'all' || item.category === filterCategory;
     const matchesTag = filterTag === null || (foodTags[item.id] || []).some(t => t.id === filterTag);
-    return matchesSearch && matchesLevel && matchesCategory && matchesTag;
+    return matchesLevel && matchesCategory && matchesTag;
   });
 
   const categories = [
@@ -366,6 +380,21 @@ export default function FoodsScreen() {
               </Pressable>
             )}
           </View>
+
+          {/* Barcode Lookup */}
+          <Pressable
+            onPress={() => setShowBarcodeLookup(true)}
+            style={{
+              paddingHorizontal: 10,
+              justifyContent: 'center',
+              backgroundColor: colors.card,
+              borderRadius: 10,
+              borderWidth: 1,
+              borderColor: colors.border,
+            }}
+          >
+            <Ionicons name="barcode-outline" size={20} color={colors.textSecondary} />
+          </Pressable>
           
           {/* View Mode Toggle */}
           <View style={{ flexDirection: 'row', backgroundColor: colors.card, borderRadius: 10, padding: 4 }}>
@@ -597,6 +626,15 @@ export default function FoodsScreen() {
           <Ionicons name="add" size={28} color="#FFFFFF" />
         </Pressable>
       </Animated.View>
+
+      <BarcodeLookupModal
+        visible={showBarcodeLookup}
+        initialCode={barcode}
+        onClose={() => {
+          setShowBarcodeLookup(false);
+          loadData();
+        }}
+      />
     </View>
   );
 }
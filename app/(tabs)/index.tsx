@@ -1,4 +1,4 @@
-import { Card, DailyNutritionCard, ProfileCard, TodayActivitiesCard, TodayTreatmentsCard } from '@/components/ui';
+import { Card, DailyNutritionCard, FODMAPProgramCard, ProfileCard, TodayActivitiesCard, TodayTreatmentsCard } from '@/components/ui';
 import { useDatabase } from '@/contexts/DatabaseContext';
 import { useTheme } from '@/contexts/ThemeContext';
 import { getDatabase } from '@/lib/database';
@@ -251,6 +251,11 @@ export default function HomeScreen() {
           </>
         )}
 
+        {/* Elimination / reintroduction program */}
+        <Animated.View entering={FadeInDown.delay(225).springify()}>
+          <FODMAPProgramCard />
+        </Animated.View>
+
         {/* Treatments and Activities Row (Large Screens) */}
         {isLargeScreen ? (
           <View style={{ flexDirection: 'row', gap: 16, marginBottom: 16 }}>
@@ -1,22 +1,39 @@
-import { Button, Card } from '@/components/ui';
+import { BarcodeLookupModal, Button, Card } from '@/components/ui';
 import { useDatabase } from '@/contexts/DatabaseContext';
 import { useTheme } from '@/contexts/ThemeContext';
-import { deleteRow, getDatabase, insertRow } from '@/lib/database';
+import { getDatabase, insertRow } from '@/lib/database';
+import { getPortionFODMAPLevel } from '@/lib/fodmap-servings';
+import { calculateMealStacking, StackingItem } from '@/lib/fodmap-stacking';
+import { getRecipeServingGrams } from '@/lib/food-rollup';
+import { createSearchIndex, getRankingBoost, loadRecentUsage, RecentUsage } from '@/lib/search';
+import { MEASURE_UNITS, parseServingGrams } from '@/lib/units';
+import {
+  FoodRepository,
+  MealRepository,
+  RecipeRepository,
+  SymptomRepository,
+  TreatmentRepository,
+} from '@/lib/repositories';
 import {
   ActivityType,
   BRISTOL_SCALE,
   BristolType,
+  DosageUnit,
+  FODMAPLevel,
+  Food,
   INTENSITY_LABELS,
   MEAL_TYPE_LABELS,
   MealType,
   NutritionInfo,
+  RecipeIngredient,
   SYMPTOM_TYPES,
+  SymptomType,
   Treatment
 } from '@/lib/types';
 import { Ionicons } from '@expo/vector-icons';
 import * as ImagePicker from 'expo-image-picker';
 import { useFocusEffect, useRouter } from 'expo-router';
-import React, { useCallback, useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import {
   ActivityIndicator,
   Alert,
@@ -151,79 +168,45 @@ export default function LogScreen() {
       const db = await getDatabase();
 
       // Load meals with their items
-      const mealsRaw = await db.getAllAsync(
-        'SELECT * FROM meals WHERE date = ? ORDER BY time',
-        [selectedDate]
-      );
+      const meals = await MealRepository.getByDate(selectedDate);
       
-      const mealsWithItems: MealWithItems[] = [];
-      for (const meal of mealsRaw as any[]) {
-        const items = await db.getAllAsync(
-          `SELECT mi.*, 
-                  f.name as food_name, f.fodmap_level as food_fodmap, f.nutrition as food_nutrition,
-                  r.name as recipe_name, r.fodmap_level as recipe_fodmap, r.nutrition as recipe_nutrition
-           FROM meal_items mi
-           LEFT JOIN foods f ON mi.food_id = f.id
-           LEFT JOIN recipes r ON mi.recipe_id = r.id
-           WHERE mi.meal_id = ?`,
-          [meal.id]
-        );
-        
+      const mealsWithItems: MealWithItems[] = meals.map(meal => {
         let totalCalories = 0;
-        const processedItems = items.map((item: any) => {
-          // Parse nutrition JSON if available
-          let nutrition: NutritionInfo | undefined;
-          try {
-            const nutritionStr = item.food_nutrition || item.recipe_nutrition;
-            if (nutritionStr) {
-              nutrition = typeof nutritionStr === 'string' ? JSON.parse(nutritionStr) : nutritionStr;
-            }
-          } catch (e) {
-            nutrition = undefined;
-          }
-          
-          const itemCalories = nutrition?.calories ? (nutrition.calories * (item.quantity || 1)) : 0;
+        const processedItems = (meal.items || []).map(item => {
+          const itemCalories = item.nutrition?.calories || 0;
           totalCalories += itemCalories;
           
           return {
             ...item,
-            name: item.name || item.food_name || item.recipe_name || 'Item',
-            fodmap_level: item.fodmap_level || item.food_fodmap || item.recipe_fodmap,
+            food_id: item.food_id ?? null,
+            recipe_id: item.recipe_id ?? null,
+            name: item.name || 'Item',
             calories: itemCalories,
-            nutrition,
           };
         });
         
-        mealsWithItems.push({
+        return {
           ...meal,
+          notes: meal.notes || null,
           image_uri: meal.image_uri || null,
           total_calories: totalCalories,
           items: processedItems,
-        });
-      }
+        };
+      });
 
       const water = await db.getAllAsync(
         'SELECT * FROM water_intake WHERE date = ? ORDER BY time',
         [selectedDate]
       );
 
-      const symptoms = await db.getAllAsync(
-        'SELECT * FROM symptoms WHERE date = ? ORDER BY time',
-        [selectedDate]
-      );
+      const symptoms = await SymptomRepository.getByDate(selectedDate);
 
       const bowelMovements = await db.getAllAsync(
         'SELECT * FROM bowel_movements WHERE date = ? ORDER BY time',
         [selectedDate]
       );
 
-      const treatments = await db.getAllAsync(
-        `SELECT tl.*, t.name, t.dosage_amount, t.dosage_unit 
-         FROM treatment_logs tl 
-         LEFT JOIN treatments t ON tl.treatment_id = t.id 
-         WHERE tl.date = ? ORDER BY tl.time`,
-        [selectedDate]
-      );
+      const treatments = await TreatmentRepository.getLogsByDate(selectedDate);
 
       const activities = await db.getAllAsync(
         `SELECT al.*, at.name as type_name, at.icon, at.color 
@@ -342,21 +325,20 @@ export default function LogScreen() {
 
       if (!result.canceled && result.assets[0]) {
         const imageUri = result.assets[0].uri;
-        const db = await getDatabase();
         const meal = getMealForType(mealType);
         
         if (meal) {
-          await db.runAsync(
-            'UPDATE meals SET image_uri = ? WHERE id = ?',
-            [imageUri, meal.id]
-          );
+          await MealRepository.update(meal.id, { image_uri: imageUri });
         } else {
           // Create meal if it doesn't exist
           const now = new Date();
-          await db.runAsync(
-            'INSERT INTO meals (name, meal_type, date, time, image_uri) VALUES (?, ?, ?, ?, ?)',
-            [MEAL_TYPE_LABELS[mealType], mealType, selectedDate, now.toTimeString().slice(0, 5), imageUri]
-          );
+          await MealRepository.create({
+            name: MEAL_TYPE_LABELS[mealType],
+            meal_type: mealType,
+            date: selectedDate,
+            time: now.toTimeString().slice(0, 5),
+            image_uri: imageUri,
+          });
         }
         await loadDayDetails();
       }
@@ -1206,14 +1188,14 @@ export default function LogScreen() {
                         </View>
                         <View style={{ flex: 1 }}>
                           <Text style={{ fontSize: 15, fontWeight: '600', color: colors.text }}>
-                            {treatment.treatment_name || treatment.name || 'Tratamiento'}
+                            {treatment.treatment_name || 'Tratamiento'}
                           </Text>
                           <Text style={{ fontSize: 13, color: colors.textSecondary, marginTop: 2 }}>
                             {treatment.time}
                             {treatment.dosage_amount ? ` · ${treatment.dosage_amount} ${treatment.dosage_unit || ''}` : ''}
                           </Text>
                         </View>
-                        {treatment.taken === 1 && (
+                        {treatment.taken && (
                           <View style={{
                             width: 28,
                             height: 28,
@@ -1499,8 +1481,10 @@ function MealEditor({ colors, selectedDate, mealType, existingMeal, onClose, onS
   
   const [recipes, setRecipes] = useState<any[]>([]);
   const [foods, setFoods] = useState<any[]>([]);
+  const [usage, setUsage] = useState<RecentUsage | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const [showSearch, setShowSearch] = useState(false);
+  const [showBarcodeLookup, setShowBarcodeLookup] = useState(false);
   const [loading, setLoading] = useState(false);
   
   // Quantity modal state
@@ -1514,7 +1498,7 @@ function MealEditor({ colors, selectedDate, mealType, existingMeal, onClose, onS
   const [pendingQuantity, setPendingQuantity] = useState('1');
   const [pendingUnit, setPendingUnit] = useState('porción');
 
-  const UNITS = ['g', 'ml', 'porción', 'unidad', 'taza', 'cucharada', 'cucharadita', 'pieza'];
+  const UNITS = MEASURE_UNITS.map(u => u.id);
 
   useEffect(() => {
     loadRecipesAndFoods();
@@ -1522,23 +1506,26 @@ function MealEditor({ colors, selectedDate, mealType, existingMeal, onClose, onS
 
   const loadRecipesAndFoods = async () => {
     try {
-      const db = await getDatabase();
-      const recipesData = await db.getAllAsync('SELECT * FROM recipes ORDER BY name ASC');
-      const foodsData = await db.getAllAsync('SELECT * FROM foods ORDER BY name ASC');
-      setRecipes(recipesData);
-      setFoods(foodsData);
+      setRecipes(await RecipeRepository.getAll());
+      setFoods(await FoodRepository.getAll());
+      setUsage(await loadRecentUsage());
     } catch (error) {
       console.error('Error loading recipes/foods:', error);
     }
   };
 
-  const filteredRecipes = recipes.filter(r => 
-    r.name?.toLowerCase().includes(searchQuery.toLowerCase())
-  );
+  const recipeIndex = useMemo(() => createSearchIndex(recipes, {
+    fields: r => [r.name, r.description],
+    boost: r => getRankingBoost(r.is_favorite, usage?.recipes.get(r.id)),
+  }), [recipes, usage]);
 
-  const filteredFoods = foods.filter(f => 
-    f.name?.toLowerCase().includes(searchQuery.toLowerCase())
-  );
+  const foodIndex = useMemo(() => createSearchIndex(foods, {
+    fields: f => [f.name, f.brand],
+    boost: f => getRankingBoost(f.is_favorite, usage?.foods.get(f.id)),
+  }), [foods, usage]);
+
+  const filteredRecipes = recipeIndex.search(searchQuery);
+  const filteredFoods = foodIndex.search(searchQuery);
 
   const handleSelectRecipe = (recipe: any) => {
     // Check if already added
@@ -1574,15 +1561,39 @@ function MealEditor({ colors, selectedDate, mealType, existingMeal, onClose, onS
     setShowSearch(false);
   };
 
+  // A packaged food found by barcode is added right away, one serving of it
+  const handleBarcodeFood = async (food: Food) => {
+    // It may have just been saved from OpenFoodFacts
+    setFoods(await FoodRepository.getAll());
+    if (selectedItems.some(item => item.food_id === food.id)) return;
+
+    const quantity = parseServingGrams(food.serving_size, food) ?? 100;
+    setSelectedItems(items => [...items, {
+      food_id: food.id,
+      name: food.name,
+      quantity,
+      unit: 'g',
+      fodmap_level: getPortionFODMAPLevel(food, quantity, 'g'),
+    }]);
+  };
+
+  // FODMAP level of the quantity eaten; recipes keep their own level
+  const getItemFodmapLevel = (item: SelectedMealItem): FODMAPLevel | undefined => {
+    const food = item.food_id ? foods.find(f => f.id === item.food_id) : undefined;
+    if (!food) return item.fodmap_level as FODMAPLevel | undefined;
+    return getPortionFODMAPLevel(food, item.quantity, item.unit);
+  };
+
   const handleConfirmQuantity = () => {
     if (!pendingItem) return;
     
     const qty = parseFloat(pendingQuantity) || 1;
-    setSelectedItems([...selectedItems, {
+    const item: SelectedMealItem = {
       ...pendingItem,
       quantity: qty,
       unit: pendingUnit,
-    }]);
+    };
+    setSelectedItems([...selectedItems, { ...item, fodmap_level: getItemFodmapLevel(item) }]);
     
     setShowQuantityModal(false);
     setPendingItem(null);
@@ -1594,6 +1605,27 @@ function MealEditor({ colors, selectedDate, mealType, existingMeal, onClose, onS
     setSelectedItems(selectedItems.filter((_, i) => i !== index));
   };
 
+  // Per-subgroup FODMAP load of the whole meal, updated as items change
+  const stacking = useMemo(() => {
+    const items: StackingItem[] = selectedItems.map(item => {
+      const food = item.food_id ? foods.find(f => f.id === item.food_id) : undefined;
+      const recipe = item.recipe_id ? recipes.find(r => r.id === item.recipe_id) : undefined;
+      // Recipe thresholds are in grams of the recipe's own serving
+      const servingGrams = recipe ? getRecipeServingGrams(
+        recipe.ingredients.map((ing: RecipeIngredient) => ({ ...ing, food: ing.food_id ? foods.find(f => f.id === ing.food_id) : undefined })),
+        recipe.servings
+      ) : 0;
+      return {
+        name: item.name,
+        quantity: item.quantity,
+        unit: item.unit,
+        details: food?.fodmap_details || recipe?.fodmap_details,
+        food: food ?? (servingGrams > 0 ? { serving_size: `${Math.round(servingGrams)}g` } : undefined),
+      };
+    });
+    return calculateMealStacking(items);
+  }, [selectedItems, foods, recipes]);
+
   const getFodmapColor = (level: string | undefined) => {
     switch (level) {
       case 'low': return colors.fodmapLow;
@@ -1606,45 +1638,27 @@ function MealEditor({ colors, selectedDate, mealType, existingMeal, onClose, onS
   const handleSave = async () => {
     setLoading(true);
     try {
-      const db = await getDatabase();
       const now = new Date();
-      
-      let mealId: number;
+      const items = selectedItems.map(item => ({
+        food_id: item.food_id,
+        recipe_id: item.recipe_id,
+        name: item.name,
+        quantity: item.quantity,
+        unit: item.unit,
+        fodmap_level: getItemFodmapLevel(item),
+      }));
       
       if (existingMeal) {
-        // Update existing meal
-        mealId = existingMeal.id;
-        await db.runAsync(
-          'UPDATE meals SET notes = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
-          [notes.trim() || null, mealId]
-        );
-        
-        // Delete all existing items
-        await db.runAsync('DELETE FROM meal_items WHERE meal_id = ?', [mealId]);
+        // Update existing meal, replacing all items
+        await MealRepository.update(existingMeal.id, { notes: notes.trim() || null, items });
       } else {
-        // Create new meal
-        const result = await db.runAsync(
-          'INSERT INTO meals (name, meal_type, date, time, notes) VALUES (?, ?, ?, ?, ?)',
-          [
-            MEAL_TYPE_LABELS[mealType],
-            mealType,
-            selectedDate,
-            now.toTimeString().slice(0, 5),
-            notes.trim() || null,
-          ]
-        );
-        mealId = result.lastInsertRowId;
-      }
-      
-      // Insert new items with quantity and unit
-      for (const item of selectedItems) {
-        await insertRow('meal_items', {
-          meal_id: mealId,
-          food_id: item.food_id || null,
-          recipe_id: item.recipe_id || null,
-          name: item.name,
-          quantity: item.quantity,
-          unit: item.unit,
+        await MealRepository.create({
+          name: MEAL_TYPE_LABELS[mealType],
+          meal_type: mealType,
+          date: selectedDate,
+          time: now.toTimeString().slice(0, 5),
+          notes: notes.trim() || null,
+          items,
         });
       }
       
@@ -1705,6 +1719,9 @@ function MealEditor({ colors, selectedDate, mealType, existingMeal, onClose, onS
                   <Ionicons name="close-circle" size={18} color={colors.textMuted} />
                 </Pressable>
               )}
+              <Pressable onPress={() => setShowBarcodeLookup(true)} style={{ marginLeft: 10 }}>
+                <Ionicons name="barcode-outline" size={20} color={colors.primary} />
+              </Pressable>
             </View>
 
             {/* Search Results */}
@@ -1817,6 +1834,39 @@ function MealEditor({ colors, selectedDate, mealType, existingMeal, onClose, onS
                     </Pressable>
                   </View>
                 ))}
+
+                {/* FODMAP stacking warnings */}
+                {stacking.warnings.map(warning => {
+                  const warningColor = getFodmapColor(warning.level);
+                  return (
+                    <View
+                      key={warning.subgroup}
+                      style={{
+                        flexDirection: 'row',
+                        alignItems: 'flex-start',
+                        padding: 12,
+                        backgroundColor: warningColor + '15',
+                        borderRadius: 12,
+                        borderLeftWidth: 3,
+                        borderLeftColor: warningColor,
+                      }}
+                    >
+                      <Ionicons name="warning" size={18} color={warningColor} style={{ marginRight: 10, marginTop: 1 }} />
+                      <View style={{ flex: 1 }}>
+                        <Text style={{ fontSize: 13, fontWeight: '600', color: colors.text }}>
+                          {warning.label}: carga {warning.level === 'high' ? 'alta' : 'moderada'}
+                          {warning.stacked ? ' al sumar raciones' : ''}
+                        </Text>
+                        <Text style={{ fontSize: 12, color: colors.textSecondary, marginTop: 2 }}>
+                          {warning.contributions
+                            .map(c => `${c.name} (${Math.round(c.load * 100)}%)`)
+                            .join(' + ')}
+                          {' '}= {Math.round(warning.load * 100)}% del límite moderado
+                        </Text>
+                      </View>
+                    </View>
+                  );
+                })}
               </View>
             ) : (
               <View style={{
@@ -1863,6 +1913,14 @@ function MealEditor({ colors, selectedDate, mealType, existingMeal, onClose, onS
         </View>
       </ScrollView>
 
+      {/* Barcode Lookup */}
+      <BarcodeLookupModal
+        visible={showBarcodeLookup}
+        onSelectFood={handleBarcodeFood}
+        selectLabel="Registrar en la comida"
+        onClose={() => setShowBarcodeLookup(false)}
+      />
+
       {/* Quantity Modal */}
       <Modal
         visible={showQuantityModal}
@@ -2032,7 +2090,7 @@ function MealItemEditor({ colors, item, mealTypes, onClose, onSuccess }: MealIte
   const [loading, setLoading] = useState(false);
   const [showNutrition, setShowNutrition] = useState(false);
 
-  const UNITS = ['g', 'ml', 'porción', 'unidad', 'taza', 'cucharada', 'cucharadita', 'pieza'];
+  const UNITS = MEASURE_UNITS.map(u => u.id);
 
   const getFodmapColor = (level: string | undefined) => {
     switch (level) {
@@ -2055,46 +2113,33 @@ function MealItemEditor({ colors, item, mealTypes, onClose, onSuccess }: MealIte
   const handleSave = async () => {
     setLoading(true);
     try {
-      const db = await getDatabase();
       const qty = parseFloat(quantity) || 1;
       
-      // Update quantity and unit
-      await db.runAsync(
-        'UPDATE meal_items SET quantity = ?, unit = ? WHERE id = ?',
-        [qty, unit, item.id]
-      );
+      // Update quantity and unit; the FODMAP level follows the quantity eaten
+      const food = item.food_id ? await FoodRepository.getById(item.food_id) : null;
+      const fodmapLevel = food
+        ? getPortionFODMAPLevel(food, qty, unit)
+        : item.fodmap_level as FODMAPLevel | undefined;
+      await MealRepository.updateItem(item.id, { quantity: qty, unit, fodmap_level: fodmapLevel });
 
       // Move to different meal type if selected
-      if (targetMealType) {
+      const currentMeal = targetMealType ? await MealRepository.getById(item.meal_id) : null;
+      if (targetMealType && currentMeal) {
         // Get target meal for this date
-        const targetMeal = await db.getFirstAsync(
-          'SELECT id FROM meals WHERE date = (SELECT date FROM meals WHERE id = (SELECT meal_id FROM meal_items WHERE id = ?)) AND meal_type = ?',
-          [item.id, targetMealType]
-        ) as { id: number } | null;
+        const targetMeal = await MealRepository.findByDateAndType(currentMeal.date, targetMealType);
 
         if (targetMeal) {
-          await db.runAsync(
-            'UPDATE meal_items SET meal_id = ? WHERE id = ?',
-            [targetMeal.id, item.id]
-          );
+          await MealRepository.updateItem(item.id, { meal_id: targetMeal.id });
         } else {
           // Create new meal for target type
           const now = new Date();
-          const mealDate = await db.getFirstAsync(
-            'SELECT date FROM meals WHERE id = ?',
-            [item.meal_id]
-          ) as { date: string } | null;
-          
-          if (mealDate) {
-            const result = await db.runAsync(
-              'INSERT INTO meals (name, meal_type, date, time) VALUES (?, ?, ?, ?)',
-              [MEAL_TYPE_LABELS[targetMealType], targetMealType, mealDate.date, now.toTimeString().slice(0, 5)]
-            );
-            await db.runAsync(
-              'UPDATE meal_items SET meal_id = ? WHERE id = ?',
-              [result.lastInsertRowId, item.id]
-            );
-          }
+          const newMealId = await MealRepository.create({
+            name: MEAL_TYPE_LABELS[targetMealType],
+            meal_type: targetMealType,
+            date: currentMeal.date,
+            time: now.toTimeString().slice(0, 5),
+          });
+          await MealRepository.updateItem(item.id, { meal_id: newMealId });
         }
       }
 
@@ -2120,7 +2165,7 @@ function MealItemEditor({ colors, item, mealTypes, onClose, onSuccess }: MealIte
           onPress: async () => {
             setLoading(true);
             try {
-              await deleteRow('meal_items', item.id);
+              await MealRepository.removeItem(item.id);
               Alert.alert('Eliminado', 'Elemento eliminado');
               onSuccess();
             } catch (error) {
@@ -2475,8 +2520,8 @@ function SymptomForm({ colors, onSuccess, selectedDate }: { colors: any; onSucce
 
     setLoading(true);
     try {
-      await insertRow('symptoms', {
-        type: symptomType,
+      await SymptomRepository.create({
+        type: symptomType as SymptomType,
         intensity,
         date: selectedDate,
         time: customTime,
@@ -2715,9 +2760,7 @@ function TreatmentForm({ colors, onSuccess, selectedDate, router }: { colors: an
 
   const loadTreatments = async () => {
     try {
-      const db = await getDatabase();
-      const data = await db.getAllAsync('SELECT * FROM treatments WHERE is_active = 1 ORDER BY name');
-      setTreatments(data as Treatment[]);
+      setTreatments(await TreatmentRepository.getActive());
     } catch (error) {
       console.error('Error loading treatments:', error);
     } finally {
@@ -2729,13 +2772,13 @@ function TreatmentForm({ colors, onSuccess, selectedDate, router }: { colors: an
     setLoading(true);
     try {
       const now = new Date();
-      await insertRow('treatment_logs', {
+      await TreatmentRepository.createLog({
         treatment_id: treatment.id,
         treatment_name: treatment.name,
         date: selectedDate,
         time: now.toTimeString().slice(0, 5),
-        taken: 1,
-        skipped: 0,
+        taken: true,
+        skipped: false,
         amount_taken: treatment.dosage_amount,
         unit: treatment.dosage_unit,
       });
@@ -2756,31 +2799,28 @@ function TreatmentForm({ colors, onSuccess, selectedDate, router }: { colors: an
 
     setLoading(true);
     try {
-      const db = await getDatabase();
       const now = new Date();
       
-      const existing = await db.getFirstAsync('SELECT id FROM treatments WHERE name = ?', [quickName.trim()]) as { id: number } | null;
-      let treatmentId: number;
-      
-      if (existing) {
-        treatmentId = existing.id;
-      } else {
-        const result = await db.runAsync(
-          'INSERT INTO treatments (name, dosage_amount, dosage_unit, frequency, is_active) VALUES (?, ?, ?, ?, 1)',
-          [quickName.trim(), parseFloat(dosageAmount) || null, dosageUnit, 'as_needed']
-        );
-        treatmentId = result.lastInsertRowId;
-      }
-
-      await insertRow('treatment_logs', {
+      const existing = await TreatmentRepository.findByName(quickName.trim());
+      const treatmentId = existing
+        ? existing.id
+        : await TreatmentRepository.create({
+            name: quickName.trim(),
+            dosage_amount: parseFloat(dosageAmount) || null,
+            dosage_unit: dosageUnit as DosageUnit,
+            frequency: 'as_needed',
+            is_active: true,
+          });
+
+      await TreatmentRepository.createLog({
         treatment_id: treatmentId,
         treatment_name: quickName.trim(),
         date: selectedDate,
         time: now.toTimeString().slice(0, 5),
-        taken: 1,
-        skipped: 0,
+        taken: true,
+        skipped: false,
         amount_taken: parseFloat(dosageAmount) || null,
-        unit: dosageAmount.trim() ? dosageUnit : null,
+        unit: dosageAmount.trim() ? dosageUnit as DosageUnit : null,
       });
 
       Alert.alert('¡Guardado!', `Toma de ${quickName.trim()} registrada`);
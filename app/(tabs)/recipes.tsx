@@ -1,11 +1,12 @@
-import { Card, FODMAPBadge } from '@/components/ui';
+import { Button, Card, FODMAPBadge, RecipeExportModal, RecipeImportModal } from '@/components/ui';
 import { useDatabase } from '@/contexts/DatabaseContext';
 import { useTheme } from '@/contexts/ThemeContext';
 import { getDatabase } from '@/lib/database';
+import { createSearchIndex, getRankingBoost, loadRecentUsage, RecentUsage } from '@/lib/search';
 import { FODMAPLevel, Recipe, MEAL_TYPE_LABELS, DIFFICULTY_LABELS, MealType, RecipeDifficulty } from '@/lib/types';
 import { Ionicons } from '@expo/vector-icons';
 import { useFocusEffect, useRouter } from 'expo-router';
-import React, { useCallback, useState } from 'react';
+import React, { useCallback, useMemo, useState } from 'react';
 import {
   Image,
   Pressable,
@@ -43,8 +44,14 @@ export default function RecipesScreen() {
   const [recipes, setRecipes] = useState<Recipe[]>([]);
   const [tags, setTags] = useState<Tag[]>([]);
   const [recipeTags, setRecipeTags] = useState<Record<number, Tag[]>>({});
+  const [usage, setUsage] = useState<RecentUsage | null>(null);
   const [refreshing, setRefreshing] = useState(false);
   const [showMealTypeFilter, setShowMealTypeFilter] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
+  // Multi-select to export recipes
+  const [selecting, setSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [showExportModal, setShowExportModal] = useState(false);
 
   useFocusEffect(
     useCallback(() => {
@@ -80,6 +87,7 @@ export default function RecipesScreen() {
       });
       setRecipeTags(tagsByRecipe);
       
+      setUsage(await loadRecentUsage());
     } catch (error) {
       console.error('Error loading data:', error);
     }
@@ -91,14 +99,17 @@ export default function RecipesScreen() {
     setRefreshing(false);
   };
 
-  const filteredRecipes = recipes.filter(item => {
-    const matchesSearch = item.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      (item.description || '').toLowerCase().includes(searchQuery.toLowerCase());
+  const searchIndex = useMemo(() => createSearchIndex(recipes, {
+    fields: recipe => [recipe.name, recipe.description, recipe.cuisine, ...(recipeTags[recipe.id] || []).map(t => t.name)],
+    boost: recipe => getRankingBoost(recipe.is_favorite, usage?.recipes.get(recipe.id)),
+  }), [recipes, recipeTags, usage]);
+
+  const filteredRecipes = searchIndex.search(searchQuery).filter(item => {
     const matchesLevel = filterLevel === 'all' || item.fodmap_level === filterLevel;
     const matchesMealType = filterMealType === 'all' || 
       (item.meal_types && JSON.parse(item.meal_types as string || '[]').includes(filterMealType));
     const matchesTag = filterTag === null || (recipeTags[item.id] || []).some(t => t.id === filterTag);
-    return matchesSearch && matchesLevel && matchesMealType && matchesTag;
+    return matchesLevel && matchesMealType && matchesTag;
   });
 
   const mealTypes: { id: MealType | 'all'; label: string; icon: string }[] = [
@@ -125,6 +136,25 @@ export default function RecipesScreen() {
     setFilterTag(filterTag === tagId ? null : tagId);
   };
 
+  const toggleSelecting = () => {
+    setSelecting(!selecting);
+    setSelectedIds([]);
+  };
+
+  const toggleSelected = (recipeId: number) => {
+    setSelectedIds(selectedIds.includes(recipeId)
+      ? selectedIds.filter(id => id !== recipeId)
+      : [...selectedIds, recipeId]);
+  };
+
+  const handleRecipePress = (recipe: Recipe) => {
+    if (selecting) {
+      toggleSelected(recipe.id);
+    } else {
+      router.push(`/recipe/${recipe.id}`);
+    }
+  };
+
   const getTotalTime = (recipe: Recipe) => {
     return (recipe.prep_time || 0) + (recipe.cook_time || 0);
   };
@@ -185,10 +215,21 @@ export default function RecipesScreen() {
       layout={Layout.springify()}
     >
       <Card 
-        onPress={() => router.push(`/recipe/${item.id}`)}
-        style={{ marginBottom: 10 }}
+        onPress={() => handleRecipePress(item)}
+        style={{
+          marginBottom: 10,
+          ...(selectedIds.includes(item.id) && { borderColor: colors.primary }),
+        }}
       >
         <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+          {selecting && (
+            <Ionicons
+              name={selectedIds.includes(item.id) ? 'checkbox' : 'square-outline'}
+              size={22}
+              color={selectedIds.includes(item.id) ? colors.primary : colors.textMuted}
+              style={{ marginRight: 10 }}
+            />
+          )}
           {item.image_uri ? (
             <Image 
               source={{ uri: item.image_uri }}
@@ -278,9 +319,22 @@ export default function RecipesScreen() {
       style={{ width: '48%', marginBottom: 12 }}
     >
       <Card 
-        onPress={() => router.push(`/recipe/${item.id}`)}
-        style={{ padding: 0, overflow: 'hidden' }}
+        onPress={() => handleRecipePress(item)}
+        style={{
+          padding: 0,
+          overflow: 'hidden',
+          ...(selectedIds.includes(item.id) && { borderColor: colors.primary }),
+        }}
       >
+        {selecting && (
+          <View style={{ position: 'absolute', top: 8, left: 8, zIndex: 1, backgroundColor: colors.card, borderRadius: 6 }}>
+            <Ionicons
+              name={selectedIds.includes(item.id) ? 'checkbox' : 'square-outline'}
+              size={22}
+              color={selectedIds.includes(item.id) ? colors.primary : colors.textMuted}
+            />
+          </View>
+        )}
         {item.image_uri ? (
           <Image 
             source={{ uri: item.image_uri }}
@@ -426,6 +480,34 @@ export default function RecipesScreen() {
             )}
           </View>
           
+          {/* Select recipes to export */}
+          <Pressable
+            onPress={toggleSelecting}
+            style={{
+              width: 44,
+              borderRadius: 10,
+              backgroundColor: selecting ? colors.primary : colors.card,
+              alignItems: 'center',
+              justifyContent: 'center',
+            }}
+          >
+            <Ionicons name="share-outline" size={20} color={selecting ? '#FFF' : colors.textSecondary} />
+          </Pressable>
+
+          {/* Import collection */}
+          <Pressable
+            onPress={() => setShowImportModal(true)}
+            style={{
+              width: 44,
+              borderRadius: 10,
+              backgroundColor: colors.card,
+              alignItems: 'center',
+              justifyContent: 'center',
+            }}
+          >
+            <Ionicons name="download-outline" size={20} color={colors.textSecondary} />
+          </Pressable>
+
           {/* View Mode Toggle */}
           <View style={{ flexDirection: 'row', backgroundColor: colors.card, borderRadius: 10, padding: 4 }}>
             <Pressable
@@ -587,6 +669,41 @@ export default function RecipesScreen() {
         </Animated.View>
       )}
 
+      {/* Selection bar */}
+      {selecting && (
+        <Animated.View
+          entering={FadeInDown.springify()}
+          style={{
+            flexDirection: 'row',
+            alignItems: 'center',
+            gap: 10,
+            marginHorizontal: 16,
+            marginBottom: 8,
+            padding: 10,
+            backgroundColor: colors.card,
+            borderRadius: 12,
+            borderWidth: 1,
+            borderColor: colors.border,
+          }}
+        >
+          <Text style={{ flex: 1, fontSize: 13, color: colors.textSecondary }}>
+            {selectedIds.length > 0
+              ? `${selectedIds.length} seleccionada${selectedIds.length !== 1 ? 's' : ''}`
+              : 'Toca las recetas que quieres exportar'}
+          </Text>
+          <Pressable onPress={() => setSelectedIds(filteredRecipes.map(recipe => recipe.id))}>
+            <Text style={{ fontSize: 13, fontWeight: '600', color: colors.primary }}>Todas</Text>
+          </Pressable>
+          <Button
+            size="sm"
+            onPress={() => setShowExportModal(true)}
+            disabled={selectedIds.length === 0}
+          >
+            Exportar
+          </Button>
+        </Animated.View>
+      )}
+
       {/* Results count */}
       <View style={{ paddingHorizontal: 16, paddingBottom: 8 }}>
         <Text style={{ fontSize: 12, color: colors.textMuted }}>
@@ -656,6 +773,19 @@ export default function RecipesScreen() {
           <Ionicons name="add" size={28} color="#FFFFFF" />
         </Pressable>
       </Animated.View>
+
+      <RecipeImportModal
+        visible={showImportModal}
+        onImported={loadData}
+        onClose={() => setShowImportModal(false)}
+      />
+
+      <RecipeExportModal
+        visible={showExportModal}
+        recipeIds={selectedIds}
+        onExported={toggleSelecting}
+        onClose={() => setShowExportModal(false)}
+      />
     </View>
   );
 }
@@ -1,6 +1,28 @@
-import { Button, Card } from '@/components/ui';
+import { Button, Card, PassphraseModal } from '@/components/ui';
 import { useTheme } from '@/contexts/ThemeContext';
+import {
+  disableAppLock,
+  enableAppLock,
+  isAppLockEnabled,
+  MIN_APP_LOCK_PASSCODE_LENGTH,
+  verifyAppLockPasscode,
+} from '@/lib/app-lock';
+import { Backup, countBackupRows, createBackup, restoreBackup, validateBackup } from '@/lib/backup';
+import { mergeBackup, MergeSide, MergeSummary, MergeWinners, previewMerge } from '@/lib/backup-merge';
+import { createClinicalReport } from '@/lib/clinical-report';
+import { createCsvExport } from '@/lib/csv-export';
 import { getDatabase } from '@/lib/database';
+import {
+  decryptBackup,
+  deriveKey,
+  DerivedKey,
+  encryptBackup,
+  forgetBackupKey,
+  getRememberedBackupKey,
+  isEncryptedBackup,
+  MIN_BACKUP_PASSPHRASE_LENGTH,
+  rememberBackupKey,
+} from '@/lib/encryption';
 import {
   cancelAllNotifications,
   checkNotificationPermissions,
@@ -10,13 +32,14 @@ import {
   testNotification
 } from '@/lib/notifications';
 import { Ionicons } from '@expo/vector-icons';
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import {
   Alert,
   Modal,
   Platform,
   Pressable,
   ScrollView,
+  Share,
   Switch,
   Text,
   TextInput,
@@ -27,6 +50,25 @@ import Animated, {
 } from 'react-native-reanimated';
 
 type ThemeOption = 'light' | 'dark' | 'auto';
+type ImportMode = 'merge' | 'replace';
+type PassphraseDialog = 'export' | 'lock-enable' | 'lock-disable';
+type RangeExport = 'csv' | 'report';
+type ReportFormat = 'pdf' | 'html';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const getDaysAgo = (days: number): string => {
+  const date = new Date();
+  date.setDate(date.getDate() - days);
+  return date.toISOString().split('T')[0];
+};
+
+const RANGE_PRESETS = [
+  { days: 7, label: '7 días' },
+  { days: 30, label: '30 días' },
+  { days: 90, label: '3 meses' },
+  { days: 365, label: '1 año' },
+];
 
 export default function SettingsScreen() {
   const { colors, themeMode, setThemeMode } = useTheme();
@@ -36,7 +78,31 @@ export default function SettingsScreen() {
   const [showImportModal, setShowImportModal] = useState(false);
   const [importData, setImportData] = useState('');
   const [importing, setImporting] = useState(false);
+  const [importMode, setImportMode] = useState<ImportMode>('merge');
+  // Validated backup and its merge preview, shown before merging
+  const [pendingBackup, setPendingBackup] = useState<Backup | null>(null);
+  const [mergePreview, setMergePreview] = useState<MergeSummary[]>([]);
+  const [mergeWinners, setMergeWinners] = useState<MergeWinners>({});
+  const [importPassphrase, setImportPassphrase] = useState('');
+  const [appLock, setAppLock] = useState(false);
+  const [passphraseDialog, setPassphraseDialog] = useState<PassphraseDialog | null>(null);
+  // Backup key kept in secure storage, used for encrypted exports without asking
+  const [rememberedKey, setRememberedKey] = useState<DerivedKey | null>(null);
+  // Secure storage is only a real keychain/keystore on native
+  const [rememberKey, setRememberKey] = useState(Platform.OS !== 'web');
+
+  const importIsEncrypted = useMemo(() => {
+    try {
+      return isEncryptedBackup(JSON.parse(importData));
+    } catch (e) {
+      return false;
+    }
+  }, [importData]);
   const [exporting, setExporting] = useState(false);
+  const [rangeExport, setRangeExport] = useState<RangeExport | null>(null);
+  const [rangeStartDate, setRangeStartDate] = useState(getDaysAgo(30));
+  const [rangeEndDate, setRangeEndDate] = useState(getDaysAgo(0));
+  const [reportFormat, setReportFormat] = useState<ReportFormat>('pdf');
 
   // Check notification permission on mount
   useEffect(() => {
@@ -44,6 +110,8 @@ export default function SettingsScreen() {
       setNotifications(hasPermission);
     });
     loadScheduledNotifications();
+    isAppLockEnabled().then(setAppLock);
+    getRememberedBackupKey().then(setRememberedKey);
   }, []);
 
   const loadScheduledNotifications = async () => {
@@ -87,198 +155,316 @@ export default function SettingsScreen() {
     { id: 'auto', label: 'Auto', icon: 'phone-portrait' },
   ];
 
+  // Web: download as file. Native: send the content to the share sheet.
+  // Returns false when the user closed the share sheet without sharing.
+  const downloadFile = async (content: string, fileName: string, mimeType: string): Promise<boolean> => {
+    if (Platform.OS !== 'web') {
+      const result = await Share.share({ title: fileName, message: content });
+      return result.action === Share.sharedAction;
+    }
+
+    const blob = new Blob([content], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+    return true;
+  };
+
+  const saveExportFile = async (content: string, fileName: string) => {
+    if (await downloadFile(content, fileName, 'application/json') && Platform.OS === 'web') {
+      Alert.alert('Éxito', 'Datos exportados correctamente. El archivo se ha descargado.');
+    }
+  };
+
   const handleExportData = async () => {
     setExporting(true);
     try {
-      const db = await getDatabase();
-      
-      // Gather only USER data (exclude internal/downloaded data)
-      const data = {
-        // Only user-created foods (source = 'user')
-        foods: await db.getAllAsync("SELECT * FROM foods WHERE source = 'user'"),
-        food_components: await db.getAllAsync("SELECT fc.* FROM food_components fc INNER JOIN foods f ON fc.parent_food_id = f.id WHERE f.source = 'user'"),
-        // Only user-created recipes (source = 'user')
-        recipes: await db.getAllAsync("SELECT * FROM recipes WHERE source = 'user' OR source IS NULL"),
-        recipe_steps: await db.getAllAsync("SELECT rs.* FROM recipe_steps rs INNER JOIN recipes r ON rs.recipe_id = r.id WHERE r.source = 'user' OR r.source IS NULL"),
-        recipe_ingredients: await db.getAllAsync("SELECT ri.* FROM recipe_ingredients ri INNER JOIN recipes r ON ri.recipe_id = r.id WHERE r.source = 'user' OR r.source IS NULL"),
-        // User logs (always user data)
-        meals: await db.getAllAsync('SELECT * FROM meals'),
-        meal_items: await db.getAllAsync('SELECT * FROM meal_items'),
-        water_intake: await db.getAllAsync('SELECT * FROM water_intake'),
-        symptoms: await db.getAllAsync('SELECT * FROM symptoms'),
-        bowel_movements: await db.getAllAsync('SELECT * FROM bowel_movements'),
-        // Treatments and logs (user data)
-        treatments: await db.getAllAsync('SELECT * FROM treatments'),
-        treatment_logs: await db.getAllAsync('SELECT * FROM treatment_logs'),
-        // User activity logs
-        activity_logs: await db.getAllAsync('SELECT * FROM activity_logs'),
-        // User-created activity types only
-        activity_types: await db.getAllAsync("SELECT * FROM activity_types WHERE is_custom = 1"),
-        // User tags and folders
-        tags: await db.getAllAsync('SELECT * FROM tags'),
-        folders: await db.getAllAsync('SELECT * FROM folders'),
-        // Scheduled activities (user data)
-        scheduled_activities: await db.getAllAsync('SELECT * FROM scheduled_activities'),
-        scheduled_activity_logs: await db.getAllAsync('SELECT * FROM scheduled_activity_logs'),
-        // Metadata
-        exportDate: new Date().toISOString(),
-        version: '1.0.0',
-        dataType: 'user_only', // Flag to indicate this is user data only
-      };
+      const backup = await createBackup();
+      const jsonString = JSON.stringify(backup, null, 2);
+      await saveExportFile(jsonString, `fodmap-tracker-backup-${new Date().toISOString().split('T')[0]}.json`);
+    } catch (error) {
+      console.error('Error exporting data:', error);
+      Alert.alert('Error', 'No se pudieron exportar los datos');
+    } finally {
+      setExporting(false);
+    }
+  };
 
-      const jsonString = JSON.stringify(data, null, 2);
-
-      if (Platform.OS === 'web') {
-        // Web: Download as file
-        const blob = new Blob([jsonString], { type: 'application/json' });
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = `fodmap-tracker-backup-${new Date().toISOString().split('T')[0]}.json`;
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
-        
-        Alert.alert('Éxito', 'Datos exportados correctamente. El archivo se ha descargado.');
-      } else {
-        // Native: Use expo-file-system and expo-sharing (would need to be installed)
-        console.log('Export data:', jsonString);
-        Alert.alert('Exportar datos', 'Función de descarga disponible en la versión nativa.');
+  // Web: open the print dialog, where the page can be saved as PDF.
+  // Returns false on native, where the report is shared instead, or when
+  // popups are blocked.
+  const printHtml = (html: string): boolean => {
+    if (Platform.OS !== 'web') return false;
+
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) return false;
+    printWindow.document.open();
+    printWindow.document.write(html);
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.print();
+    return true;
+  };
+
+  const isValidRange = (): boolean => {
+    if (!DATE_PATTERN.test(rangeStartDate) || !DATE_PATTERN.test(rangeEndDate)) {
+      Alert.alert('Error', 'Las fechas deben tener el formato AAAA-MM-DD');
+      return false;
+    }
+    if (rangeStartDate > rangeEndDate) {
+      Alert.alert('Error', 'La fecha de inicio es posterior a la fecha de fin');
+      return false;
+    }
+    return true;
+  };
+
+  const handleExportCsv = async () => {
+    if (!isValidRange()) return;
+
+    setExporting(true);
+    try {
+      const files = await createCsvExport(rangeStartDate, rangeEndDate);
+      let saved = 0;
+      for (const file of files) {
+        if (!(await downloadFile(file.content, file.name, 'text/csv;charset=utf-8'))) break;
+        saved++;
+      }
+
+      setRangeExport(null);
+      if (saved > 0) {
+        const total = files.slice(0, saved).reduce((sum, file) => sum + file.rows, 0);
+        Alert.alert(
+          'Éxito',
+          `Se ${Platform.OS === 'web' ? 'descargaron' : 'compartieron'} ${saved} archivos CSV con ${total} registros.`
+        );
       }
     } catch (error) {
-      console.error('Error exporting data:', error);
+      console.error('Error exporting CSV:', error);
+      Alert.alert('Error', 'No se pudieron exportar los datos');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleExportReport = async () => {
+    if (!isValidRange()) return;
+
+    setExporting(true);
+    try {
+      const report = await createClinicalReport(rangeStartDate, rangeEndDate);
+
+      if (reportFormat === 'pdf' && printHtml(report.html)) {
+        setRangeExport(null);
+      } else if (Platform.OS !== 'web') {
+        // Native: no print dialog, the HTML goes to the share sheet
+        if (await downloadFile(report.html, report.name, 'text/html;charset=utf-8')) {
+          setRangeExport(null);
+        }
+      } else if (await downloadFile(report.html, report.name, 'text/html;charset=utf-8')) {
+        setRangeExport(null);
+        Alert.alert(
+          'Éxito',
+          reportFormat === 'pdf'
+            ? 'No se pudo abrir la ventana de impresión. Se ha descargado el informe en HTML; ábrelo e imprímelo como PDF.'
+            : 'Informe descargado. Puedes abrirlo en cualquier navegador.'
+        );
+      }
+    } catch (error) {
+      console.error('Error creating clinical report:', error);
+      Alert.alert('Error', 'No se pudo generar el informe');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const exportEncrypted = async (key: DerivedKey) => {
+    setExporting(true);
+    try {
+      const encrypted = encryptBackup(await createBackup(), key);
+      await saveExportFile(
+        JSON.stringify(encrypted),
+        `fodmap-tracker-backup-${new Date().toISOString().split('T')[0]}.encrypted.json`
+      );
+    } catch (error) {
+      console.error('Error exporting encrypted data:', error);
       Alert.alert('Error', 'No se pudieron exportar los datos');
     } finally {
       setExporting(false);
     }
   };
 
+  const handleExportEncrypted = () => {
+    if (rememberedKey) {
+      exportEncrypted(rememberedKey);
+    } else {
+      setPassphraseDialog('export');
+    }
+  };
+
+  const handleForgetBackupKey = async () => {
+    const message = 'Las próximas copias cifradas pedirán la contraseña de nuevo. ¿Continuar?';
+    const confirmed = Platform.OS === 'web'
+      ? window.confirm(message)
+      : await new Promise<boolean>(resolve => {
+          Alert.alert('Olvidar contraseña', message, [
+            { text: 'Cancelar', style: 'cancel', onPress: () => resolve(false) },
+            { text: 'Olvidar', style: 'destructive', onPress: () => resolve(true) },
+          ]);
+        });
+    if (!confirmed) return;
+
+    await forgetBackupKey();
+    setRememberedKey(null);
+  };
+
+  const handlePassphraseSubmit = async (passphrase: string) => {
+    if (passphraseDialog === 'export') {
+      const key = await deriveKey(passphrase);
+      if (rememberKey) {
+        await rememberBackupKey(key);
+        setRememberedKey(key);
+      }
+      setPassphraseDialog(null);
+      await exportEncrypted(key);
+    } else if (passphraseDialog === 'lock-enable') {
+      await enableAppLock(passphrase);
+      setAppLock(true);
+      setPassphraseDialog(null);
+    } else if (passphraseDialog === 'lock-disable') {
+      if (!(await verifyAppLockPasscode(passphrase))) {
+        throw new Error('Código incorrecto');
+      }
+      await disableAppLock();
+      setAppLock(false);
+      setPassphraseDialog(null);
+    }
+  };
+
   const handleImportData = async () => {
     if (!importData.trim()) {
       Alert.alert('Error', 'Por favor, pega los datos JSON a importar');
       return;
     }
 
-    setImporting(true);
+    let data: unknown;
     try {
-      const data = JSON.parse(importData);
-      const db = await getDatabase();
+      data = JSON.parse(importData);
+    } catch (e) {
+      Alert.alert('Error', 'El texto no es un JSON válido');
+      return;
+    }
 
-      // Validate data structure
-      if (!data.version && !data.exportDate) {
-        throw new Error('Formato de datos no válido');
+    if (isEncryptedBackup(data)) {
+      const secret = importPassphrase || rememberedKey;
+      if (!secret) {
+        Alert.alert('Copia cifrada', 'Introduce la contraseña de la copia');
+        return;
       }
 
-      let importedCount = 0;
-
-      // Import foods (alimentos)
-      if (data.foods && Array.isArray(data.foods)) {
-        for (const item of data.foods) {
-          await db.runAsync(
-            `INSERT OR REPLACE INTO foods (id, name, fodmap_level, category, serving_size, notes, source, created_at) 
-             VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
-            [item.id, item.name, item.fodmap_level, item.category, item.serving_size, item.notes, item.source || 'user', item.created_at]
-          );
-          importedCount++;
-        }
+      setImporting(true);
+      try {
+        data = await decryptBackup(data, secret);
+      } catch (error) {
+        Alert.alert('Error', error instanceof Error ? error.message : 'No se pudo descifrar la copia');
+        return;
+      } finally {
+        setImporting(false);
       }
+    }
 
-      // Import recipes
-      if (data.recipes && Array.isArray(data.recipes)) {
-        for (const item of data.recipes) {
-          await db.runAsync(
-            `INSERT OR REPLACE INTO recipes (id, name, description, instructions, prep_time, cook_time, servings, fodmap_level, created_at) 
-             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-            [item.id, item.name, item.description, item.instructions, item.prep_time, item.cook_time, item.servings, item.fodmap_level, item.created_at]
-          );
-          importedCount++;
-        }
-      }
+    // Validate everything before touching the database
+    const { valid, errors, backup } = await validateBackup(data);
+    if (!valid || !backup) {
+      Alert.alert('Copia no válida', errors.slice(0, 5).join('\n'));
+      return;
+    }
 
-      // Import meals
-      if (data.meals && Array.isArray(data.meals)) {
-        for (const item of data.meals) {
-          await db.runAsync(
-            `INSERT OR REPLACE INTO meals (id, name, meal_type, date, time, notes, created_at) 
-             VALUES (?, ?, ?, ?, ?, ?, ?)`,
-            [item.id, item.name, item.meal_type, item.date, item.time, item.notes, item.created_at]
-          );
-          importedCount++;
-        }
+    if (importMode === 'merge') {
+      setImporting(true);
+      try {
+        setMergePreview(await previewMerge(backup));
+        setMergeWinners({});
+        setPendingBackup(backup);
+      } catch (error) {
+        console.error('Error previewing merge:', error);
+        Alert.alert('Error', 'No se pudo comparar la copia con los datos actuales');
+      } finally {
+        setImporting(false);
       }
+      return;
+    }
 
-      // Import water intake
-      if (data.water_intake && Array.isArray(data.water_intake)) {
-        for (const item of data.water_intake) {
-          await db.runAsync(
-            `INSERT OR REPLACE INTO water_intake (id, glasses, amount_ml, date, time, created_at) 
-             VALUES (?, ?, ?, ?, ?, ?)`,
-            [item.id, item.glasses, item.amount_ml, item.date, item.time, item.created_at]
-          );
-          importedCount++;
-        }
-      }
+    const message = `Se reemplazarán los datos actuales por los ${countBackupRows(backup)} registros de la copia del ${backup.exportDate.split('T')[0] || 'archivo'}. ¿Continuar?`;
+    const confirmed = Platform.OS === 'web'
+      ? window.confirm(message)
+      : await new Promise<boolean>(resolve => {
+          Alert.alert('Restaurar copia de seguridad', message, [
+            { text: 'Cancelar', style: 'cancel', onPress: () => resolve(false) },
+            { text: 'Restaurar', style: 'destructive', onPress: () => resolve(true) },
+          ]);
+        });
+    if (!confirmed) return;
 
-      // Import symptoms
-      if (data.symptoms && Array.isArray(data.symptoms)) {
-        for (const item of data.symptoms) {
-          await db.runAsync(
-            `INSERT OR REPLACE INTO symptoms (id, type, intensity, date, time, notes, created_at) 
-             VALUES (?, ?, ?, ?, ?, ?, ?)`,
-            [item.id, item.type, item.intensity, item.date, item.time, item.notes, item.created_at]
-          );
-          importedCount++;
-        }
-      }
+    setImporting(true);
+    try {
+      const restored = await restoreBackup(backup);
 
-      // Import bowel movements
-      if (data.bowel_movements && Array.isArray(data.bowel_movements)) {
-        for (const item of data.bowel_movements) {
-          await db.runAsync(
-            `INSERT OR REPLACE INTO bowel_movements (id, bristol_type, urgency, pain, discomfort, date, time, notes, created_at) 
-             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-            [item.id, item.bristol_type, item.urgency, item.pain, item.discomfort, item.date, item.time, item.notes, item.created_at]
-          );
-          importedCount++;
-        }
+      // Treatment IDs change on restore, reschedule their reminders
+      if (notifications) {
+        await syncAllTreatmentNotifications();
+        await loadScheduledNotifications();
       }
 
-      // Import treatments
-      if (data.treatments && Array.isArray(data.treatments)) {
-        for (const item of data.treatments) {
-          await db.runAsync(
-            `INSERT OR REPLACE INTO treatments (id, name, dosage, frequency, time_of_day, notes, is_active, created_at) 
-             VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
-            [item.id, item.name, item.dosage, item.frequency, item.time_of_day, item.notes, item.is_active, item.created_at]
-          );
-          importedCount++;
-        }
-      }
+      closeImportModal();
+      Alert.alert('Éxito', `Se restauraron ${restored} registros correctamente`);
+    } catch (error) {
+      console.error('Error importing data:', error);
+      Alert.alert('Error', 'No se pudieron importar los datos. No se ha modificado nada.');
+    } finally {
+      setImporting(false);
+    }
+  };
 
-      // Import treatment logs
-      if (data.treatment_logs && Array.isArray(data.treatment_logs)) {
-        for (const item of data.treatment_logs) {
-          await db.runAsync(
-            `INSERT OR REPLACE INTO treatment_logs (id, treatment_id, treatment_name, date, time, taken, notes, created_at) 
-             VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
-            [item.id, item.treatment_id, item.treatment_name, item.date, item.time, item.taken, item.notes, item.created_at]
-          );
-          importedCount++;
-        }
+  const handleConfirmMerge = async () => {
+    if (!pendingBackup) return;
+
+    setImporting(true);
+    try {
+      const summaries = await mergeBackup(pendingBackup, mergeWinners);
+      const added = summaries.reduce((sum, s) => sum + s.added, 0);
+      const updated = summaries.reduce(
+        (sum, s) => sum + s.updated + (mergeWinners[s.category] === 'backup' ? s.conflicts : 0),
+        0
+      );
+
+      if (notifications) {
+        await syncAllTreatmentNotifications();
+        await loadScheduledNotifications();
       }
 
-      setShowImportModal(false);
-      setImportData('');
-      Alert.alert('Éxito', `Se importaron ${importedCount} registros correctamente`);
+      closeImportModal();
+      Alert.alert('Éxito', `Se añadieron ${added} registros y se actualizaron ${updated}`);
     } catch (error) {
-      console.error('Error importing data:', error);
-      Alert.alert('Error', 'No se pudieron importar los datos. Verifica que el formato JSON sea correcto.');
+      console.error('Error merging data:', error);
+      Alert.alert('Error', 'No se pudieron combinar los datos. No se ha modificado nada.');
     } finally {
       setImporting(false);
     }
   };
 
+  const closeImportModal = () => {
+    setShowImportModal(false);
+    setImportData('');
+    setImportPassphrase('');
+    setPendingBackup(null);
+    setMergePreview([]);
+  };
+
   const handleFileImport = () => {
     if (Platform.OS === 'web') {
       // Create file input for web
@@ -317,12 +503,6 @@ export default function SettingsScreen() {
             try {
               const db = await getDatabase();
               
-              // For web, clear the mock storage
-              if (Platform.OS === 'web' && typeof window !== 'undefined') {
-                localStorage.removeItem('everyday_fodmap_webdb');
-                (window as any).__webStorage = {};
-              }
-              
               await db.runAsync('DELETE FROM treatment_logs');
               await db.runAsync('DELETE FROM treatments');
               await db.runAsync('DELETE FROM bowel_movements');
@@ -331,13 +511,16 @@ export default function SettingsScreen() {
               await db.runAsync('DELETE FROM meals');
               await db.runAsync('DELETE FROM water_intake');
               await db.runAsync('DELETE FROM activity_logs');
+              await db.runAsync('DELETE FROM fodmap_challenges');
+              await db.runAsync('DELETE FROM fodmap_programs');
               await db.runAsync('DELETE FROM recipe_ingredients');
               await db.runAsync('DELETE FROM recipe_steps');
               await db.runAsync('DELETE FROM recipe_tags');
               await db.runAsync('DELETE FROM recipes');
               await db.runAsync('DELETE FROM food_tags');
               await db.runAsync('DELETE FROM food_components');
-              await db.runAsync("DELETE FROM foods WHERE source = 'user'"); // Keep internal FODMAP data
+              await db.runAsync("DELETE FROM foods WHERE source IN ('user', 'external')"); // Keep internal FODMAP data
+              await db.runAsync('DELETE FROM off_cache');
               await db.runAsync('DELETE FROM tags');
               await db.runAsync('DELETE FROM folders');
               
@@ -596,6 +779,28 @@ export default function SettingsScreen() {
               loading={exporting}
             />
             <View style={{ height: 1, backgroundColor: colors.border, marginVertical: 4 }} />
+            <SettingRow 
+              icon="grid"
+              label="Exportar CSV"
+              subtitle="Diario de comidas, síntomas y deposiciones para tu dietista"
+              onPress={() => setRangeExport('csv')}
+            />
+            <View style={{ height: 1, backgroundColor: colors.border, marginVertical: 4 }} />
+            <SettingRow 
+              icon="document-text"
+              label="Informe para el especialista"
+              subtitle="Resumen imprimible (PDF/HTML) para tu consulta de digestivo"
+              onPress={() => setRangeExport('report')}
+            />
+            <View style={{ height: 1, backgroundColor: colors.border, marginVertical: 4 }} />
+            <SettingRow 
+              icon="lock-closed"
+              label="Exportar copia cifrada"
+              subtitle={rememberedKey ? 'Con la contraseña guardada en este dispositivo' : 'Protegida con contraseña'}
+              onPress={handleExportEncrypted}
+              loading={exporting}
+            />
+            <View style={{ height: 1, backgroundColor: colors.border, marginVertical: 4 }} />
             <SettingRow 
               icon="push"
               label="Importar datos"
@@ -605,6 +810,47 @@ export default function SettingsScreen() {
           </Card>
         </Animated.View>
 
+        {/* Privacy */}
+        <Animated.View entering={FadeInDown.delay(225).springify()}>
+          <Text style={{ 
+            fontSize: 13, 
+            fontWeight: '600', 
+            color: colors.textSecondary,
+            marginBottom: 8,
+            marginLeft: 4,
+            textTransform: 'uppercase',
+            letterSpacing: 0.5,
+          }}>
+            Privacidad
+          </Text>
+          <Card style={{ marginBottom: 20 }}>
+            <SettingRow 
+              icon="keypad"
+              label="Bloqueo de la app"
+              subtitle={appLock ? 'Se pide el código al abrir la app' : 'Pide un código al abrir la app'}
+              rightElement={
+                <Switch
+                  value={appLock}
+                  onValueChange={(value) => setPassphraseDialog(value ? 'lock-enable' : 'lock-disable')}
+                  trackColor={{ false: colors.border, true: colors.primary + '60' }}
+                  thumbColor={appLock ? colors.primary : colors.textMuted}
+                />
+              }
+            />
+            {rememberedKey && (
+              <>
+                <View style={{ height: 1, backgroundColor: colors.border, marginVertical: 4 }} />
+                <SettingRow 
+                  icon="key"
+                  label="Olvidar contraseña de copias"
+                  subtitle="Guardada de forma segura en este dispositivo"
+                  onPress={handleForgetBackupKey}
+                />
+              </>
+            )}
+          </Card>
+        </Animated.View>
+
         {/* Danger Zone */}
         <Animated.View entering={FadeInDown.delay(250).springify()}>
           <Text style={{ 
@@ -680,7 +926,7 @@ export default function SettingsScreen() {
         visible={showImportModal}
         animationType="slide"
         transparent={true}
-        onRequestClose={() => setShowImportModal(false)}
+        onRequestClose={closeImportModal}
       >
         <View style={{
           flex: 1,
@@ -696,56 +942,378 @@ export default function SettingsScreen() {
           }}>
             <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 16 }}>
               <Text style={{ fontSize: 18, fontWeight: '700', color: colors.text }}>
-                Importar datos
+                {pendingBackup ? 'Combinar datos' : 'Importar datos'}
               </Text>
-              <Pressable onPress={() => { setShowImportModal(false); setImportData(''); }}>
+              <Pressable onPress={closeImportModal}>
+                <Ionicons name="close" size={24} color={colors.textSecondary} />
+              </Pressable>
+            </View>
+
+            {pendingBackup ? (
+              <>
+                <Text style={{ fontSize: 14, color: colors.textSecondary, marginBottom: 12 }}>
+                  Los registros se comparan por fecha, hora y nombre. Elige qué versión se conserva cuando ambas son distintas.
+                </Text>
+
+                <ScrollView style={{ marginBottom: 16 }}>
+                  {mergePreview.map((summary) => (
+                    <View
+                      key={summary.category}
+                      style={{
+                        padding: 12,
+                        backgroundColor: colors.cardElevated,
+                        borderRadius: 10,
+                        marginBottom: 8,
+                      }}
+                    >
+                      <Text style={{ fontSize: 15, fontWeight: '600', color: colors.text }}>
+                        {summary.label}
+                      </Text>
+                      <Text style={{ fontSize: 12, color: colors.textSecondary, marginTop: 2 }}>
+                        {summary.added} nuevos · {summary.updated} completados · {summary.conflicts} en conflicto · {summary.unchanged} iguales
+                      </Text>
+
+                      {summary.conflicts > 0 && (
+                        <>
+                          {summary.examples.map((example, index) => (
+                            <Text key={index} style={{ fontSize: 12, color: colors.textMuted, marginTop: 4 }}>
+                              • {example}
+                            </Text>
+                          ))}
+                          <View style={{ flexDirection: 'row', gap: 8, marginTop: 10 }}>
+                            {([
+                              { id: 'local', label: 'Este dispositivo' },
+                              { id: 'backup', label: 'La copia' },
+                            ] as { id: MergeSide; label: string }[]).map((option) => {
+                              const selected = (mergeWinners[summary.category] ?? 'local') === option.id;
+                              return (
+                                <Pressable
+                                  key={option.id}
+                                  onPress={() => setMergeWinners({ ...mergeWinners, [summary.category]: option.id })}
+                                  style={{
+                                    flex: 1,
+                                    alignItems: 'center',
+                                    paddingVertical: 8,
+                                    borderRadius: 8,
+                                    backgroundColor: selected ? colors.primary : colors.surface,
+                                  }}
+                                >
+                                  <Text style={{
+                                    fontSize: 13,
+                                    fontWeight: '600',
+                                    color: selected ? '#FFFFFF' : colors.textSecondary,
+                                  }}>
+                                    {option.label}
+                                  </Text>
+                                </Pressable>
+                              );
+                            })}
+                          </View>
+                        </>
+                      )}
+                    </View>
+                  ))}
+                </ScrollView>
+
+                <View style={{ flexDirection: 'row', gap: 12 }}>
+                  <Button
+                    variant="outline"
+                    onPress={() => setPendingBackup(null)}
+                    style={{ flex: 1 }}
+                  >
+                    Atrás
+                  </Button>
+                  <Button
+                    onPress={handleConfirmMerge}
+                    loading={importing}
+                    style={{ flex: 1 }}
+                  >
+                    Combinar
+                  </Button>
+                </View>
+              </>
+            ) : (
+              <>
+                <View style={{ flexDirection: 'row', gap: 8, marginBottom: 12 }}>
+                  {([
+                    { id: 'merge', label: 'Combinar', icon: 'git-merge' },
+                    { id: 'replace', label: 'Reemplazar todo', icon: 'swap-horizontal' },
+                  ] as { id: ImportMode; label: string; icon: keyof typeof Ionicons.glyphMap }[]).map((option) => (
+                    <Pressable
+                      key={option.id}
+                      onPress={() => setImportMode(option.id)}
+                      style={{
+                        flex: 1,
+                        flexDirection: 'row',
+                        alignItems: 'center',
+                        justifyContent: 'center',
+                        gap: 8,
+                        paddingVertical: 10,
+                        borderRadius: 10,
+                        backgroundColor: importMode === option.id ? colors.primary : colors.cardElevated,
+                      }}
+                    >
+                      <Ionicons
+                        name={option.icon}
+                        size={16}
+                        color={importMode === option.id ? '#FFFFFF' : colors.textSecondary}
+                      />
+                      <Text style={{
+                        fontSize: 13,
+                        fontWeight: '600',
+                        color: importMode === option.id ? '#FFFFFF' : colors.textSecondary,
+                      }}>
+                        {option.label}
+                      </Text>
+                    </Pressable>
+                  ))}
+                </View>
+
+                <Text style={{ fontSize: 14, color: colors.textSecondary, marginBottom: 12 }}>
+                  {importMode === 'merge'
+                    ? 'Se añadirán los registros de la copia a los actuales. Pega el contenido del archivo JSON exportado:'
+                    : 'Pega el contenido del archivo JSON exportado:'}
+                </Text>
+
+                <TextInput
+                  value={importData}
+                  onChangeText={setImportData}
+                  placeholder='{"format": "everyday-fodmap-backup", ...}'
+                  placeholderTextColor={colors.textMuted}
+                  multiline
+                  numberOfLines={10}
+                  style={{
+                    fontSize: 13,
+                    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+                    color: colors.text,
+                    padding: 12,
+                    backgroundColor: colors.cardElevated,
+                    borderRadius: 10,
+                    minHeight: 200,
+                    textAlignVertical: 'top',
+                    marginBottom: 16,
+                  }}
+                />
+
+                {importIsEncrypted && (
+                  <TextInput
+                    value={importPassphrase}
+                    onChangeText={setImportPassphrase}
+                    placeholder={rememberedKey ? 'Contraseña (opcional, hay una guardada)' : 'Contraseña de la copia'}
+                    placeholderTextColor={colors.textMuted}
+                    secureTextEntry
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                    style={{
+                      fontSize: 15,
+                      color: colors.text,
+                      padding: 12,
+                      backgroundColor: colors.cardElevated,
+                      borderRadius: 10,
+                      marginBottom: 16,
+                    }}
+                  />
+                )}
+
+                <View style={{ flexDirection: 'row', gap: 12 }}>
+                  <Button 
+                    variant="outline" 
+                    onPress={closeImportModal}
+                    style={{ flex: 1 }}
+                  >
+                    Cancelar
+                  </Button>
+                  <Button 
+                    onPress={handleImportData}
+                    loading={importing}
+                    style={{ flex: 1 }}
+                  >
+                    {importMode === 'merge' ? 'Revisar' : 'Importar'}
+                  </Button>
+                </View>
+              </>
+            )}
+          </View>
+        </View>
+      </Modal>
+
+      {/* Date Range Export Modal (CSV / clinical report) */}
+      <Modal
+        visible={rangeExport !== null}
+        animationType="slide"
+        transparent={true}
+        onRequestClose={() => setRangeExport(null)}
+      >
+        <View style={{
+          flex: 1,
+          backgroundColor: 'rgba(0,0,0,0.5)',
+          justifyContent: 'flex-end',
+        }}>
+          <View style={{
+            backgroundColor: colors.surface,
+            borderTopLeftRadius: 24,
+            borderTopRightRadius: 24,
+            padding: 20,
+          }}>
+            <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 16 }}>
+              <Text style={{ fontSize: 18, fontWeight: '700', color: colors.text }}>
+                {rangeExport === 'report' ? 'Informe para el especialista' : 'Exportar CSV'}
+              </Text>
+              <Pressable onPress={() => setRangeExport(null)}>
                 <Ionicons name="close" size={24} color={colors.textSecondary} />
               </Pressable>
             </View>
 
             <Text style={{ fontSize: 14, color: colors.textSecondary, marginBottom: 12 }}>
-              Pega el contenido del archivo JSON exportado:
+              {rangeExport === 'report'
+                ? 'Incluye intensidad de síntomas, escala de Bristol, nivel FODMAP por día, adherencia al tratamiento, peso y alimentos sospechosos.'
+                : 'Se genera un archivo por registro: comidas, síntomas, deposiciones, tratamientos, agua y actividad.'}
             </Text>
 
-            <TextInput
-              value={importData}
-              onChangeText={setImportData}
-              placeholder='{"version": "1.0.0", ...}'
-              placeholderTextColor={colors.textMuted}
-              multiline
-              numberOfLines={10}
-              style={{
-                fontSize: 13,
-                fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
-                color: colors.text,
-                padding: 12,
-                backgroundColor: colors.cardElevated,
-                borderRadius: 10,
-                minHeight: 200,
-                textAlignVertical: 'top',
-                marginBottom: 16,
-              }}
-            />
+            <View style={{ flexDirection: 'row', gap: 8, marginBottom: 16 }}>
+              {RANGE_PRESETS.map((preset) => {
+                const selected = rangeStartDate === getDaysAgo(preset.days) && rangeEndDate === getDaysAgo(0);
+                return (
+                  <Pressable
+                    key={preset.days}
+                    onPress={() => {
+                      setRangeStartDate(getDaysAgo(preset.days));
+                      setRangeEndDate(getDaysAgo(0));
+                    }}
+                    style={{
+                      flex: 1,
+                      alignItems: 'center',
+                      paddingVertical: 10,
+                      borderRadius: 10,
+                      backgroundColor: selected ? colors.primary : colors.cardElevated,
+                    }}
+                  >
+                    <Text style={{
+                      fontSize: 13,
+                      fontWeight: '600',
+                      color: selected ? '#FFFFFF' : colors.textSecondary,
+                    }}>
+                      {preset.label}
+                    </Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+
+            <View style={{ flexDirection: 'row', gap: 12, marginBottom: 20 }}>
+              {[
+                { label: 'Desde', value: rangeStartDate, onChange: setRangeStartDate },
+                { label: 'Hasta', value: rangeEndDate, onChange: setRangeEndDate },
+              ].map((field) => (
+                <View key={field.label} style={{ flex: 1 }}>
+                  <Text style={{ fontSize: 12, color: colors.textMuted, marginBottom: 6 }}>
+                    {field.label}
+                  </Text>
+                  <TextInput
+                    value={field.value}
+                    onChangeText={field.onChange}
+                    placeholder="AAAA-MM-DD"
+                    placeholderTextColor={colors.textMuted}
+                    style={{
+                      fontSize: 14,
+                      color: colors.text,
+                      padding: 12,
+                      backgroundColor: colors.cardElevated,
+                      borderRadius: 10,
+                    }}
+                  />
+                </View>
+              ))}
+            </View>
+
+            {rangeExport === 'report' && Platform.OS === 'web' && (
+              <View style={{ flexDirection: 'row', gap: 8, marginTop: -8, marginBottom: 20 }}>
+                {([
+                  { id: 'pdf', label: 'Imprimir / PDF' },
+                  { id: 'html', label: 'Descargar HTML' },
+                ] as { id: ReportFormat; label: string }[]).map((option) => (
+                  <Pressable
+                    key={option.id}
+                    onPress={() => setReportFormat(option.id)}
+                    style={{
+                      flex: 1,
+                      alignItems: 'center',
+                      paddingVertical: 10,
+                      borderRadius: 10,
+                      backgroundColor: reportFormat === option.id ? colors.primary : colors.cardElevated,
+                    }}
+                  >
+                    <Text style={{
+                      fontSize: 13,
+                      fontWeight: '600',
+                      color: reportFormat === option.id ? '#FFFFFF' : colors.textSecondary,
+                    }}>
+                      {option.label}
+                    </Text>
+                  </Pressable>
+                ))}
+              </View>
+            )}
 
             <View style={{ flexDirection: 'row', gap: 12 }}>
               <Button 
                 variant="outline" 
-                onPress={() => { setShowImportModal(false); setImportData(''); }}
+                onPress={() => setRangeExport(null)}
                 style={{ flex: 1 }}
               >
                 Cancelar
               </Button>
               <Button 
-                onPress={handleImportData}
-                loading={importing}
+                onPress={rangeExport === 'report' ? handleExportReport : handleExportCsv}
+                loading={exporting}
                 style={{ flex: 1 }}
               >
-                Importar
+                {rangeExport === 'report' ? 'Generar' : 'Exportar'}
               </Button>
             </View>
           </View>
         </View>
       </Modal>
+
+      <PassphraseModal
+        visible={passphraseDialog !== null}
+        title={
+          passphraseDialog === 'export' ? 'Cifrar copia de seguridad'
+            : passphraseDialog === 'lock-enable' ? 'Bloqueo de la app'
+            : 'Desactivar bloqueo'
+        }
+        message={
+          passphraseDialog === 'export'
+            ? 'Necesitarás esta contraseña para restaurar la copia. Si la olvidas, no se podrá recuperar.'
+            : passphraseDialog === 'lock-enable'
+              ? 'Elige el código que se pedirá al abrir la app.'
+              : 'Introduce el código actual.'
+        }
+        placeholder={passphraseDialog === 'export' ? 'Contraseña' : 'Código'}
+        submitLabel={
+          passphraseDialog === 'export' ? 'Exportar'
+            : passphraseDialog === 'lock-enable' ? 'Activar'
+            : 'Desactivar'
+        }
+        confirm={passphraseDialog !== 'lock-disable'}
+        minLength={passphraseDialog === 'export' ? MIN_BACKUP_PASSPHRASE_LENGTH : MIN_APP_LOCK_PASSCODE_LENGTH}
+        onSubmit={handlePassphraseSubmit}
+        onCancel={() => setPassphraseDialog(null)}
+      >
+        {passphraseDialog === 'export' && Platform.OS !== 'web' && (
+          <View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', marginBottom: 16 }}>
+            <Text style={{ fontSize: 14, color: colors.text, flex: 1 }}>
+              Recordar en este dispositivo
+            </Text>
+            <Switch
+              value={rememberKey}
+              onValueChange={setRememberKey}
+              trackColor={{ false: colors.border, true: colors.primary + '60' }}
+              thumbColor={rememberKey ? colors.primary : colors.textMuted}
+            />
+          </View>
+        )}
+      </PassphraseModal>
     </>
   );
 }
@@ -7,6 +7,7 @@ import { useEffect } from 'react';
 import 'react-native-reanimated';
 import '../global.css';
 
+import { AppLockGate } from '@/components/ui';
 import { ThemeProvider, useTheme } from '@/contexts/ThemeContext';
 import { DatabaseProvider } from '@/contexts/DatabaseContext';
 
@@ -84,7 +85,9 @@ export default function RootLayout() {
   return (
     <ThemeProvider>
       <DatabaseProvider>
-        <RootLayoutNav />
+        <AppLockGate>
+          <RootLayoutNav />
+        </AppLockGate>
       </DatabaseProvider>
     </ThemeProvider>
   );
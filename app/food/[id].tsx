@@ -1,19 +1,28 @@
 import { Button, Card, FODMAPBadge, ImagePickerButton } from '@/components/ui';
 import { useTheme } from '@/contexts/ThemeContext';
-import { deleteRow, getDatabase, getRowById, insertRow, updateRow } from '@/lib/database';
+import { getServingThresholds, getTrafficLight, ServingThresholds, TrafficLightBand } from '@/lib/fodmap-servings';
+import { rollUpFood } from '@/lib/food-rollup';
+import { refreshProduct } from '@/lib/off-products';
+import { Changes, FoodInput, FoodRepository } from '@/lib/repositories';
+import { createSearchIndex, getRankingBoost } from '@/lib/search';
+import { getUnitGrams, MEASURE_UNITS } from '@/lib/units';
 import {
+  FODMAP_CATEGORIES,
   FODMAPDetails,
   FODMAPLevel,
+  FODMAPServingThreshold,
+  FODMAPSubgroup,
   Food,
   FOOD_CATEGORIES,
   FoodCategory,
   NutriScore,
   NUTRISCORE_COLORS,
-  NutritionInfo
+  NutritionInfo,
+  UnitWeights
 } from '@/lib/types';
 import { Ionicons } from '@expo/vector-icons';
 import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import {
   Alert,
   Image,
@@ -67,6 +76,10 @@ export default function FoodScreen() {
   });
   const [safeServing, setSafeServing] = useState('');
   const [limitServing, setLimitServing] = useState('');
+  // Grams at which each subgroup turns medium/high, as typed
+  const [thresholdInputs, setThresholdInputs] = useState<
+    Partial<Record<FODMAPSubgroup, Partial<Record<keyof FODMAPServingThreshold, string>>>>
+  >({});
   
   // Nutrition info - always enabled for new foods
   const [showNutrition, setShowNutrition] = useState(true);
@@ -90,6 +103,10 @@ export default function FoodScreen() {
     'Alto en fibra', 'Bajo en grasa', 'Rico en proteínas', 'Sin conservantes'
   ];
   
+  // Unit conversion (empty = category default)
+  const [densityInput, setDensityInput] = useState('');
+  const [unitWeightInputs, setUnitWeightInputs] = useState<Partial<Record<keyof UnitWeights, string>>>({});
+  
   // Components (always available)
   const [components, setComponents] = useState<LocalComponent[]>([]);
   const [showComponentModal, setShowComponentModal] = useState(false);
@@ -98,6 +115,10 @@ export default function FoodScreen() {
   const [componentQuantity, setComponentQuantity] = useState('');
   const [componentUnit, setComponentUnit] = useState('g');
   const [componentFodmap, setComponentFodmap] = useState<FODMAPLevel>('low');
+  const [componentFoodId, setComponentFoodId] = useState<number | undefined>(undefined);
+  // FODMAP data and nutrition computed from the components (until edited by hand)
+  const [fodmapDerived, setFodmapDerived] = useState(isNew);
+  const [nutritionDerived, setNutritionDerived] = useState(isNew);
   
   // Food search for components
   const [showFoodSearch, setShowFoodSearch] = useState(false);
@@ -111,6 +132,9 @@ export default function FoodScreen() {
   const [loading, setLoading] = useState(false);
   const [initialLoading, setInitialLoading] = useState(!isNew);
   const [isInternal, setIsInternal] = useState(false);
+  // OpenFoodFacts product code of a food saved from OFF
+  const [offProductCode, setOffProductCode] = useState<string | null>(null);
+  const [refreshingProduct, setRefreshingProduct] = useState(false);
   const [isEditing, setIsEditing] = useState(isNew);
 
   useEffect(() => {
@@ -122,18 +146,38 @@ export default function FoodScreen() {
 
   const loadAvailableFoods = async () => {
     try {
-      const db = await getDatabase();
-      const foodsData = await db.getAllAsync('SELECT * FROM foods ORDER BY name ASC');
-      setAvailableFoods(foodsData as Food[]);
+      setAvailableFoods(await FoodRepository.getAll());
     } catch (error) {
       console.error('Error loading foods:', error);
     }
   };
 
+  const applyThresholds = (thresholds: ServingThresholds) => {
+    setThresholdInputs(Object.fromEntries(Object.entries(thresholds).map(([subgroup, threshold]) => [subgroup, {
+      medium_g: threshold?.medium_g?.toString(),
+      high_g: threshold?.high_g?.toString(),
+    }])));
+  };
+
+  const applyNutrition = (values: NutritionInfo) => {
+    const nutri = values as Record<string, any>;
+    setNutrition(values);
+    setShowNutrition(true);
+    
+    // Detect which minerals and vitamins have values
+    const minerals = ['potassium_mg', 'calcium_mg', 'iron_mg', 'magnesium_mg', 'phosphorus_mg', 'zinc_mg', 'copper_mg', 'manganese_mg', 'selenium_mcg'];
+    const vitamins = ['vitamin_a_mcg', 'vitamin_b1_mg', 'vitamin_b2_mg', 'vitamin_b3_mg', 'vitamin_b5_mg', 'vitamin_b6_mg', 'vitamin_b9_mcg', 'vitamin_b12_mcg', 'vitamin_c_mg', 'vitamin_d_mcg', 'vitamin_e_mg', 'vitamin_k_mcg'];
+    
+    const hasMinerals = minerals.filter(m => nutri[m] !== undefined && nutri[m] !== null);
+    const hasVitamins = vitamins.filter(v => nutri[v] !== undefined && nutri[v] !== null);
+    
+    setSelectedMinerals(hasMinerals);
+    setSelectedVitamins(hasVitamins);
+  };
+
   const loadFood = async () => {
     try {
-      const db = await getDatabase();
-      const food = await getRowById<Food>('foods', parseInt(id!));
+      const food = await FoodRepository.getById(parseInt(id!));
       if (food) {
         setName(food.name);
         setCategory(food.category || 'other');
@@ -154,59 +198,37 @@ export default function FoodScreen() {
         setBrand(food.brand || '');
         setImageUri(food.image_uri || null);
         setIsInternal(food.source === 'internal');
+        setOffProductCode(food.source === 'external' && food.source_id ? food.source_id : null);
         
-        // Load components (always available, not just for compound foods)
-        const componentsData = await db.getAllAsync(
-          'SELECT * FROM food_components WHERE parent_food_id = ?',
-          [parseInt(id!)]
-        );
-        
-        setComponents((componentsData as any[]).map((c: any) => ({
+        // Components (always available, not just for compound foods)
+        setComponents((food.sub_foods || []).map(c => ({
           id: c.id,
-          component_food_id: c.component_food_id,
-          name: c.name || 'Ingrediente',
+          component_food_id: c.food_id,
+          name: c.food_name || 'Ingrediente',
           quantity: c.quantity,
-          unit: c.unit || 'g',
+          unit: c.unit,
           fodmap_level: c.fodmap_level,
         })));
         
-        // Parse FODMAP details
+        // FODMAP details
         if (food.fodmap_details) {
-          try {
-            const details = typeof food.fodmap_details === 'string' 
-              ? JSON.parse(food.fodmap_details) 
-              : food.fodmap_details;
-            setFodmapDetails(details);
-            setSafeServing(details.safe_serving || '');
-            setLimitServing(details.limit_serving || '');
-            setShowDetailedFodmap(true);
-          } catch (e) {
-            console.log('Error parsing fodmap_details:', e);
-          }
+          const details = food.fodmap_details;
+          setFodmapDetails(details);
+          setSafeServing(details.safe_serving || '');
+          setLimitServing(details.limit_serving || '');
+          applyThresholds(getServingThresholds(details, food.serving_size));
+          setShowDetailedFodmap(true);
         }
+        setFodmapDerived(!!food.fodmap_derived);
+        setNutritionDerived(!!food.nutrition_derived);
+        setDensityInput(food.density_g_ml ? String(food.density_g_ml).replace('.', ',') : '');
+        setUnitWeightInputs(Object.fromEntries(
+          Object.entries(food.unit_weights || {}).map(([unit, grams]) => [unit, String(grams).replace('.', ',')])
+        ));
         
-        // Parse nutrition
+        // Nutrition
         if (food.nutrition) {
-          try {
-            const nutri = typeof food.nutrition === 'string'
-              ? JSON.parse(food.nutrition)
-              : food.nutrition;
-            console.log('[FoodScreen] Parsed nutrition:', nutri);
-            setNutrition(nutri);
-            setShowNutrition(true);
-            
-            // Detect which minerals and vitamins have values
-            const minerals = ['potassium_mg', 'calcium_mg', 'iron_mg', 'magnesium_mg', 'phosphorus_mg', 'zinc_mg', 'copper_mg', 'manganese_mg', 'selenium_mcg'];
-            const vitamins = ['vitamin_a_mcg', 'vitamin_b1_mg', 'vitamin_b2_mg', 'vitamin_b3_mg', 'vitamin_b5_mg', 'vitamin_b6_mg', 'vitamin_b9_mcg', 'vitamin_b12_mcg', 'vitamin_c_mg', 'vitamin_d_mcg', 'vitamin_e_mg', 'vitamin_k_mcg'];
-            
-            const hasMinerals = minerals.filter(m => nutri[m] !== undefined && nutri[m] !== null);
-            const hasVitamins = vitamins.filter(v => nutri[v] !== undefined && nutri[v] !== null);
-            
-            setSelectedMinerals(hasMinerals);
-            setSelectedVitamins(hasVitamins);
-          } catch (e) {
-            console.log('Error parsing nutrition:', e);
-          }
+          applyNutrition(food.nutrition);
         } else {
           console.log('[FoodScreen] No nutrition data found for food:', food.name);
           setSelectedMinerals([]);
@@ -217,21 +239,8 @@ export default function FoodScreen() {
           setNutriScore(food.nutri_score as NutriScore);
         }
         
-        // Parse tags
-        if (food.tags) {
-          try {
-            const parsedTags = typeof food.tags === 'string' ? JSON.parse(food.tags) : food.tags;
-            setTags(Array.isArray(parsedTags) ? parsedTags : []);
-          } catch (e) {
-            console.log('Error parsing tags:', e);
-            setTags([]);
-          }
-        } else {
-          setTags([]);
-        }
-        
-        // Load digestive effect
-        setDigestiveEffect((food as any).digestive_effect !== undefined && (food as any).digestive_effect !== null ? (food as any).digestive_effect : 0);
+        setTags(food.tags || []);
+        setDigestiveEffect(food.digestive_effect ?? 0);
       }
     } catch (error) {
       console.error('Error loading food:', error);
@@ -241,64 +250,102 @@ export default function FoodScreen() {
     }
   };
 
+  // Values computed from the components, for the derived fields
+  const rollup = useMemo(() => {
+    if (components.length === 0) return null;
+    return rollUpFood(
+      components.map(comp => ({
+        name: comp.name,
+        quantity: comp.quantity,
+        unit: comp.unit,
+        fodmap_level: comp.fodmap_level,
+        food: availableFoods.find(f => f.id === comp.component_food_id),
+      })),
+      { category, serving_size: servingSize.trim() ? `${servingSize.trim()} ${servingUnit}` : undefined }
+    );
+  }, [components, availableFoods, servingSize, servingUnit, category]);
+
+  useEffect(() => {
+    if (!isEditing || !rollup) return;
+    if (fodmapDerived) {
+      setFodmapLevel(rollup.fodmap_level === 'unknown' ? 'low' : rollup.fodmap_level);
+      if (rollup.fodmap_details) {
+        setFodmapDetails(rollup.fodmap_details);
+        applyThresholds(rollup.fodmap_details.thresholds || {});
+        setShowDetailedFodmap(true);
+      }
+    }
+    if (nutritionDerived && rollup.nutrition) {
+      applyNutrition(rollup.nutrition);
+    }
+  }, [rollup, fodmapDerived, nutritionDerived, isEditing]);
+
+  // Unit weights typed in the editor; blank or invalid fields fall back to the defaults
+  const parseUnitWeightInputs = (): UnitWeights | null => {
+    const weights: UnitWeights = {};
+    for (const [unit, value] of Object.entries(unitWeightInputs)) {
+      const grams = parseFloat((value || '').replace(',', '.'));
+      if (grams > 0) weights[unit as keyof UnitWeights] = grams;
+    }
+    return Object.keys(weights).length > 0 ? weights : null;
+  };
+
   const handleSave = async () => {
     if (!name.trim()) {
       Alert.alert('Error', 'Por favor, introduce un nombre');
       return;
     }
 
+    const thresholds = parseThresholdInputs();
+    if (showDetailedFodmap && Object.values(thresholds).some(t => t?.medium_g && t.high_g && t.high_g <= t.medium_g)) {
+      Alert.alert('Error', 'La porción de nivel alto debe ser mayor que la de nivel medio');
+      return;
+    }
+
     setLoading(true);
     try {
-      const db = await getDatabase();
-      
       // Build FODMAP details object
       const fullFodmapDetails: Partial<FODMAPDetails> | null = showDetailedFodmap ? {
         ...fodmapDetails,
         overall: fodmapLevel,
         safe_serving: safeServing || undefined,
         limit_serving: limitServing || undefined,
+        thresholds,
       } : null;
       
-      const data: Record<string, any> = {
+      const data: Changes<FoodInput> = {
         name: name.trim(),
         category,
         fodmap_level: fodmapLevel,
-        fodmap_details: fullFodmapDetails ? JSON.stringify(fullFodmapDetails) : null,
+        fodmap_details: fullFodmapDetails as FODMAPDetails | null,
         serving_size: servingSize.trim() ? `${servingSize.trim()} ${servingUnit}` : null,
+        density_g_ml: parseFloat(densityInput.replace(',', '.')) || null,
+        unit_weights: parseUnitWeightInputs(),
         notes: notes.trim() || null,
         brand: brand.trim() || null,
-        nutrition: showNutrition && Object.keys(nutrition).length > 0 
-          ? JSON.stringify(nutrition) 
-          : null,
+        nutrition: showNutrition && Object.keys(nutrition).length > 0 ? nutrition as NutritionInfo : null,
         nutri_score: nutriScore,
-        is_compound: components.length > 0 ? 1 : 0,
+        is_compound: components.length > 0,
+        fodmap_derived: components.length > 0 && fodmapDerived,
+        nutrition_derived: components.length > 0 && nutritionDerived,
         image_uri: imageUri,
-        tags: tags.length > 0 ? JSON.stringify(tags) : null,
+        tags,
         digestive_effect: digestiveEffect,
-        source: 'user',
+        // Edits keep the link of foods saved from OpenFoodFacts
+        source: isNew ? 'user' : undefined,
+        sub_foods: components.map(comp => ({
+          food_id: comp.component_food_id,
+          food_name: comp.name,
+          quantity: comp.quantity,
+          unit: comp.unit,
+          fodmap_level: comp.fodmap_level,
+        })),
       };
 
-      let foodId: number;
-      
       if (isNew) {
-        foodId = await insertRow('foods', data);
+        await FoodRepository.create({ ...data, name: name.trim() });
       } else {
-        foodId = parseInt(id!);
-        await updateRow('foods', foodId, data);
-        
-        // Delete existing components to re-insert
-        await db.runAsync('DELETE FROM food_components WHERE parent_food_id = ?', [foodId]);
-      }
-      
-      // Insert components (always, if any exist)
-      if (components.length > 0) {
-        for (const comp of components) {
-          await db.runAsync(
-            `INSERT INTO food_components (parent_food_id, component_food_id, name, quantity, unit, fodmap_level)
-             VALUES (?, ?, ?, ?, ?, ?)`,
-            [foodId, comp.component_food_id || null, comp.name, comp.quantity, comp.unit, comp.fodmap_level || null]
-          );
-        }
+        await FoodRepository.update(parseInt(id!), data);
       }
       
       Alert.alert('¡Guardado!', isNew ? 'Alimento añadido correctamente' : 'Alimento actualizado correctamente');
@@ -311,6 +358,20 @@ export default function FoodScreen() {
     }
   };
 
+  const handleRefreshProduct = async () => {
+    setRefreshingProduct(true);
+    try {
+      await refreshProduct(parseInt(id!));
+      await loadFood();
+      Alert.alert('Actualizado', 'Datos del producto actualizados desde OpenFoodFacts');
+    } catch (error) {
+      console.error('Error refreshing product:', error);
+      Alert.alert('Error', 'No se pudo actualizar el producto desde OpenFoodFacts');
+    } finally {
+      setRefreshingProduct(false);
+    }
+  };
+
   const handleDelete = async () => {
     if (isInternal) {
       Alert.alert('No permitido', 'Los alimentos de la base de datos FODMAP no pueden eliminarse');
@@ -333,7 +394,7 @@ export default function FoodScreen() {
     
     if (confirmed) {
       try {
-        await deleteRow('foods', parseInt(id!));
+        await FoodRepository.remove(parseInt(id!));
         if (Platform.OS === 'web') {
           alert('Alimento eliminado correctamente');
         } else {
@@ -348,6 +409,7 @@ export default function FoodScreen() {
   };
 
   const updateFodmapDetail = (key: keyof FODMAPDetails, value: FODMAPLevel) => {
+    setFodmapDerived(false);
     setFodmapDetails(prev => ({ ...prev, [key]: value }));
     // Auto-calculate overall level
     const newDetails = { ...fodmapDetails, [key]: value };
@@ -360,7 +422,31 @@ export default function FoodScreen() {
     }
   };
 
+  const updateThresholdInput = (subgroup: FODMAPSubgroup, field: keyof FODMAPServingThreshold, value: string) => {
+    setFodmapDerived(false);
+    setThresholdInputs(prev => ({ ...prev, [subgroup]: { ...prev[subgroup], [field]: value } }));
+  };
+
+  const parseThresholdInputs = (): ServingThresholds => {
+    const thresholds: ServingThresholds = {};
+    for (const { key } of FODMAP_CATEGORIES) {
+      const medium = parseFloat(thresholdInputs[key]?.medium_g?.replace(',', '.') || '');
+      const high = parseFloat(thresholdInputs[key]?.high_g?.replace(',', '.') || '');
+      if (medium > 0 || high > 0) {
+        thresholds[key] = { medium_g: medium > 0 ? medium : undefined, high_g: high > 0 ? high : undefined };
+      }
+    }
+    return thresholds;
+  };
+
+  const formatBandRange = (band: TrafficLightBand): string => {
+    if (band.to_g === undefined) return band.from_g === 0 ? 'Cualquier cantidad' : `${band.from_g} g o más`;
+    if (band.from_g === 0) return `Menos de ${band.to_g} g`;
+    return `De ${band.from_g} a ${band.to_g} g`;
+  };
+
   const updateNutrition = (key: keyof NutritionInfo, value: string) => {
+    setNutritionDerived(false);
     const numValue = parseFloat(value);
     if (value === '' || isNaN(numValue)) {
       const newNutrition = { ...nutrition };
@@ -379,12 +465,14 @@ export default function FoodScreen() {
       setComponentQuantity(component.quantity.toString());
       setComponentUnit(component.unit || 'g');
       setComponentFodmap(component.fodmap_level || 'low');
+      setComponentFoodId(component.component_food_id);
     } else {
       setEditingComponent(null);
       setComponentName('');
       setComponentQuantity('');
       setComponentUnit('g');
       setComponentFodmap('low');
+      setComponentFoodId(undefined);
     }
     setShowComponentModal(true);
   };
@@ -400,6 +488,7 @@ export default function FoodScreen() {
     }
     
     const newComponent: LocalComponent = {
+      component_food_id: componentFoodId,
       name: componentName.trim(),
       quantity: parseFloat(componentQuantity),
       unit: componentUnit.trim() || 'g',
@@ -428,6 +517,7 @@ export default function FoodScreen() {
 
   const selectFoodForComponent = (food: Food) => {
     setComponentName(food.name);
+    setComponentFoodId(food.id);
     setComponentFodmap(food.fodmap_level || 'low');
     if (food.serving_size) {
       const match = food.serving_size.match(/(\d+)/);
@@ -437,10 +527,11 @@ export default function FoodScreen() {
     setFoodSearchQuery('');
   };
 
-  const filteredFoods = availableFoods.filter(f => 
-    f.name.toLowerCase().includes(foodSearchQuery.toLowerCase()) &&
-    f.id !== parseInt(id || '0') // Exclude current food
-  );
+  const foodIndex = useMemo(() => createSearchIndex(
+    availableFoods.filter(f => f.id !== parseInt(id || '0')), // Exclude current food
+    { fields: f => [f.name, f.brand], boost: f => getRankingBoost(f.is_favorite) }
+  ), [availableFoods, id]);
+  const filteredFoods = foodIndex.search(foodSearchQuery);
 
   // Modern Nutrition Input Component
   const NutritionInput = ({ 
@@ -578,9 +669,56 @@ export default function FoodScreen() {
   );
 
   // UI Components
+  const DerivedSwitch = ({ value, onValueChange }: { value: boolean; onValueChange: (value: boolean) => void }) => (
+    <View style={{
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      padding: 12,
+      marginBottom: 16,
+      borderRadius: 10,
+      backgroundColor: colors.primary + '10',
+    }}>
+      <View style={{ flex: 1, marginRight: 12 }}>
+        <Text style={{ fontSize: 14, fontWeight: '600', color: colors.text }}>
+          Calcular a partir de los ingredientes
+        </Text>
+        <Text style={{ fontSize: 12, color: colors.textSecondary, marginTop: 2 }}>
+          {value ? 'Se recalcula al cambiar un ingrediente. Edita un valor para fijarlo a mano' : 'Valores introducidos a mano'}
+        </Text>
+      </View>
+      <Switch
+        value={value}
+        onValueChange={onValueChange}
+        trackColor={{ false: colors.border, true: colors.primary + '50' }}
+        thumbColor={value ? colors.primary : colors.textMuted}
+      />
+    </View>
+  );
+
+  const DerivedTag = ({ style }: { style?: any }) => (
+    <View style={{
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 4,
+      paddingHorizontal: 8,
+      paddingVertical: 3,
+      borderRadius: 8,
+      backgroundColor: colors.primary + '15',
+      ...style,
+    }}>
+      <Ionicons name="calculator" size={12} color={colors.primary} />
+      <Text style={{ fontSize: 11, fontWeight: '600', color: colors.primary }}>Calculado</Text>
+    </View>
+  );
+
   const FODMAPOption = ({ level, label, small }: { level: FODMAPLevel; label: string; small?: boolean }) => (
     <Pressable
-      onPress={() => !isInternal && setFodmapLevel(level)}
+      onPress={() => {
+        if (isInternal) return;
+        setFodmapDerived(false);
+        setFodmapLevel(level);
+      }}
       style={{
         flex: small ? undefined : 1,
         paddingVertical: small ? 8 : 12,
@@ -721,6 +859,12 @@ export default function FoodScreen() {
   // Food Read View Component
   const FoodReadView = () => {
     const cat = FOOD_CATEGORIES.find(c => c.id === category);
+    const trafficLight = showDetailedFodmap ? getTrafficLight({ ...fodmapDetails, thresholds: parseThresholdInputs() }) : [];
+    const bandColors: Record<TrafficLightBand['level'], string> = {
+      low: colors.fodmapLow,
+      medium: colors.fodmapMedium,
+      high: colors.fodmapHigh,
+    };
     
     return (
       <ScrollView
@@ -789,6 +933,7 @@ export default function FoodScreen() {
                 <Text style={{ fontSize: 16, fontWeight: '600', color: colors.text }}>
                   Información Nutricional
                 </Text>
+                {nutritionDerived && components.length > 0 && <DerivedTag />}
                 {servingSize && (
                   <Text style={{ fontSize: 12, color: colors.textMuted, marginLeft: 'auto' }}>
                     por {servingSize} {servingUnit}
@@ -896,6 +1041,7 @@ export default function FoodScreen() {
               <Text style={{ fontSize: 16, fontWeight: '600', color: colors.text }}>
                 Información FODMAP
               </Text>
+              {fodmapDerived && components.length > 0 && <DerivedTag style={{ marginLeft: 'auto' }} />}
             </View>
 
             <View style={{ marginBottom: 12 }}>
@@ -943,6 +1089,32 @@ export default function FoodScreen() {
                     <FODMAPBadge level={fodmapDetails.mannitol as FODMAPLevel} size="sm" />
                   </View>
                 )}
+                {trafficLight.length > 0 && (
+                  <View style={{ marginTop: 12, paddingTop: 12, borderTopWidth: 1, borderTopColor: colors.border }}>
+                    <Text style={{ fontSize: 13, fontWeight: '600', color: colors.textSecondary, marginBottom: 8 }}>
+                      Semáforo por porción
+                    </Text>
+                    <View style={{ flexDirection: 'row', gap: 3, marginBottom: 8 }}>
+                      {trafficLight.map(band => (
+                        <View
+                          key={band.from_g}
+                          style={{ flex: 1, height: 8, borderRadius: 4, backgroundColor: bandColors[band.level] }}
+                        />
+                      ))}
+                    </View>
+                    {trafficLight.map(band => (
+                      <View key={band.from_g} style={{ flexDirection: 'row', alignItems: 'center', gap: 8, paddingVertical: 4 }}>
+                        <View style={{ width: 10, height: 10, borderRadius: 5, backgroundColor: bandColors[band.level] }} />
+                        <Text style={{ flex: 1, fontSize: 13, color: colors.text }}>{formatBandRange(band)}</Text>
+                        {band.subgroups.length > 0 && (
+                          <Text style={{ fontSize: 12, color: bandColors[band.level], fontWeight: '600' }}>
+                            {band.subgroups.map(subgroup => FODMAP_CATEGORIES.find(c => c.key === subgroup)?.label).join(', ')}
+                          </Text>
+                        )}
+                      </View>
+                    ))}
+                  </View>
+                )}
                 {(safeServing || limitServing) && (
                   <View style={{ marginTop: 12, paddingTop: 12, borderTopWidth: 1, borderTopColor: colors.border }}>
                     {safeServing && (
@@ -1181,6 +1353,26 @@ export default function FoodScreen() {
             </Button>
           </Animated.View>
         )}
+
+        {/* Refresh from OpenFoodFacts */}
+        {offProductCode && (
+          <Animated.View entering={FadeInDown.delay(350).springify()}>
+            <Button
+              variant="outline"
+              onPress={handleRefreshProduct}
+              disabled={refreshingProduct}
+              style={{ marginBottom: 16 }}
+            >
+              <Ionicons name="refresh" size={18} color={colors.primary} />
+              <Text style={{ color: colors.primary, fontWeight: '600', marginLeft: 8 }}>
+                {refreshingProduct ? 'Actualizando...' : 'Actualizar desde OpenFoodFacts'}
+              </Text>
+            </Button>
+            <Text style={{ fontSize: 12, color: colors.textMuted, textAlign: 'center', marginTop: -8, marginBottom: 16 }}>
+              Producto {offProductCode} · Actualiza nutrición, Nutri-Score, marca e imagen
+            </Text>
+          </Animated.View>
+        )}
       </ScrollView>
     );
   };
@@ -1456,6 +1648,10 @@ export default function FoodScreen() {
                     </View>
                   </View>
 
+                  {components.length > 0 && (
+                    <DerivedSwitch value={nutritionDerived} onValueChange={setNutritionDerived} />
+                  )}
+
                   {/* Calories - Hero */}
                   <View style={{
                     backgroundColor: colors.primary + '10',
@@ -1827,6 +2023,10 @@ export default function FoodScreen() {
                   </Text>
                 </View>
 
+                {components.length > 0 && (
+                  <DerivedSwitch value={fodmapDerived} onValueChange={setFodmapDerived} />
+                )}
+
                 {/* Overall Level */}
                 <View style={{ marginBottom: 16 }}>
                   <Text style={{ fontSize: 13, fontWeight: '600', color: colors.textSecondary, marginBottom: 12 }}>
@@ -1934,11 +2134,110 @@ export default function FoodScreen() {
                         }}
                       />
                     </View>
+
+                    {/* Serving thresholds per category */}
+                    <View style={{ marginTop: 16 }}>
+                      <Text style={{ fontSize: 12, fontWeight: '600', color: colors.textMuted, marginBottom: 4 }}>
+                        SEMÁFORO POR PORCIÓN (g)
+                      </Text>
+                      <Text style={{ fontSize: 12, color: colors.textSecondary, marginBottom: 12 }}>
+                        Cantidad a partir de la cual cada categoría pasa a nivel medio o alto
+                      </Text>
+                      {FODMAP_CATEGORIES.map(({ key, label }) => (
+                        <View key={key} style={{ flexDirection: 'row', alignItems: 'center', gap: 8, marginBottom: 8 }}>
+                          <Text style={{ flex: 1, fontSize: 14, color: colors.text }}>{label}</Text>
+                          {(['medium_g', 'high_g'] as const).map(field => (
+                            <TextInput
+                              key={field}
+                              value={thresholdInputs[key]?.[field] || ''}
+                              onChangeText={value => updateThresholdInput(key, field, value)}
+                              placeholder={field === 'medium_g' ? '🟡 g' : '🔴 g'}
+                              placeholderTextColor={colors.textMuted}
+                              keyboardType="decimal-pad"
+                              style={{
+                                width: 72,
+                                fontSize: 14,
+                                color: colors.text,
+                                padding: 8,
+                                textAlign: 'center',
+                                backgroundColor: colors.cardElevated,
+                                borderRadius: 8,
+                                borderLeftWidth: 3,
+                                borderLeftColor: field === 'medium_g' ? colors.fodmapMedium : colors.fodmapHigh,
+                              }}
+                            />
+                          ))}
+                        </View>
+                      ))}
+                    </View>
                   </View>
                 )}
               </Card>
             </Animated.View>
 
+            {/* Row 5: Unit conversion */}
+            <Animated.View entering={FadeInDown.delay(250).springify()}>
+              <Card style={{ marginBottom: 16 }}>
+                <View style={{ flexDirection: 'row', alignItems: 'center', gap: 8, marginBottom: 4 }}>
+                  <View style={{
+                    width: 32,
+                    height: 32,
+                    borderRadius: 8,
+                    backgroundColor: colors.primary + '15',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                  }}>
+                    <Ionicons name="scale" size={16} color={colors.primary} />
+                  </View>
+                  <Text style={{ fontSize: 15, fontWeight: '600', color: colors.text }}>
+                    Equivalencias
+                  </Text>
+                </View>
+                <Text style={{ fontSize: 12, color: colors.textSecondary, marginBottom: 12 }}>
+                  Para convertir medidas caseras a gramos. Si lo dejas vacío se usa el valor típico de la categoría
+                </Text>
+                {[
+                  { key: 'density', label: 'Densidad (g/ml)' },
+                  { key: 'pieza', label: '1 pieza (g)' },
+                  { key: 'diente', label: '1 diente (g)' },
+                  { key: 'taza', label: '1 taza (g)' },
+                  { key: 'cucharada', label: '1 cucharada (g)' },
+                  { key: 'cucharadita', label: '1 cucharadita (g)' },
+                ].map(({ key, label }) => {
+                  const isDensity = key === 'density';
+                  const defaultValue = isDensity
+                    ? getUnitGrams('ml', { category })
+                    : getUnitGrams(key as keyof UnitWeights, {
+                        category,
+                        density_g_ml: parseFloat(densityInput.replace(',', '.')) || undefined,
+                      });
+                  return (
+                    <View key={key} style={{ flexDirection: 'row', alignItems: 'center', gap: 8, marginBottom: 8 }}>
+                      <Text style={{ flex: 1, fontSize: 14, color: colors.text }}>{label}</Text>
+                      <TextInput
+                        value={isDensity ? densityInput : unitWeightInputs[key as keyof UnitWeights] || ''}
+                        onChangeText={value => isDensity
+                          ? setDensityInput(value)
+                          : setUnitWeightInputs(prev => ({ ...prev, [key]: value }))}
+                        placeholder={String(Math.round((defaultValue || 0) * 100) / 100).replace('.', ',')}
+                        placeholderTextColor={colors.textMuted}
+                        keyboardType="decimal-pad"
+                        style={{
+                          width: 88,
+                          fontSize: 14,
+                          color: colors.text,
+                          padding: 8,
+                          textAlign: 'center',
+                          backgroundColor: colors.cardElevated,
+                          borderRadius: 8,
+                        }}
+                      />
+                    </View>
+                  );
+                })}
+              </Card>
+            </Animated.View>
+
             {/* Tags - Full width at bottom */}
             <Animated.View entering={FadeInDown.delay(300).springify()}>
               <Card style={{ marginBottom: 16 }}>
@@ -2079,7 +2378,11 @@ export default function FoodScreen() {
                 <View style={{ flexDirection: 'row', gap: 8 }}>
                   <TextInput
                     value={componentName}
-                    onChangeText={setComponentName}
+                    onChangeText={value => {
+                      // A typed name is a free-text ingredient
+                      setComponentName(value);
+                      setComponentFoodId(undefined);
+                    }}
                     placeholder="Nombre..."
                     placeholderTextColor={colors.textMuted}
                     style={{
@@ -2132,7 +2435,7 @@ export default function FoodScreen() {
                       showsHorizontalScrollIndicator={false}
                       contentContainerStyle={{ gap: 6 }}
                     >
-                      {['g', 'ml', 'unidad'].map(unit => (
+                      {MEASURE_UNITS.map(({ id: unit }) => (
                         <Pressable
                           key={unit}
                           onPress={() => setComponentUnit(unit)}
@@ -2256,11 +2559,7 @@ export default function FoodScreen() {
               </View>
 
               <ScrollView style={{ maxHeight: 400 }}>
-                {availableFoods
-                  .filter(f => 
-                    f.name.toLowerCase().includes(foodSearchQuery.toLowerCase()) &&
-                    f.id !== (id ? parseInt(id) : -1)
-                  )
+                {filteredFoods
                   .slice(0, 20)
                   .map(food => (
                     <Pressable
@@ -2336,6 +2635,7 @@ export default function FoodScreen() {
                     <Pressable
                       key={mineral.field}
                       onPress={() => {
+                        setNutritionDerived(false);
                         if (isSelected) {
                           setSelectedMinerals(selectedMinerals.filter(m => m !== mineral.field));
                           // Remove from nutrition
@@ -2431,6 +2731,7 @@ export default function FoodScreen() {
                     <Pressable
                       key={vitamin.field}
                       onPress={() => {
+                        setNutritionDerived(false);
                         if (isSelected) {
                           setSelectedVitamins(selectedVitamins.filter(v => v !== vitamin.field));
                           // Remove from nutrition
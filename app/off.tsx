@@ -1,7 +1,12 @@
+import { FODMAPBadge } from '@/components/ui';
 import { useTheme } from '@/contexts/ThemeContext';
+import { classifyIngredients } from '@/lib/fodmap-classifier';
+import { getOFFClient, OFFTaxonomy, ProductDetails, ProductSearchParams, ProductSummary } from '@/lib/off-client';
+import { findFoodByBarcode, saveProduct } from '@/lib/off-products';
+import { FODMAP_CATEGORIES } from '@/lib/types';
 import { Ionicons } from '@expo/vector-icons';
 import { Stack, useRouter } from 'expo-router';
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import {
     ActivityIndicator,
     Alert,
@@ -15,216 +20,6 @@ import {
     View,
 } from 'react-native';
 
-// OpenFoodFacts API base URL - Using public API endpoints that work from browser
-const OFF_API_BASE = 'https://world.openfoodfacts.org';
-const OFF_API_V0 = 'https://world.openfoodfacts.org/api/v0';
-
-// Helper functions to call OpenFoodFacts API directly
-const offAPI = {
-  async search(params: any) {
-    // Use the search.pl endpoint which works better from browser
-    const queryParams = new URLSearchParams();
-    queryParams.append('action', 'process');
-    queryParams.append('json', '1');
-    queryParams.append('page_size', params.page_size || '24');
-    queryParams.append('page', params.page || '1');
-    
-    if (params.search_terms) {
-      queryParams.append('search_terms', params.search_terms);
-    }
-    if (params.brands) {
-      queryParams.append('brands_tags', params.brands);
-    }
-    if (params.categories) {
-      queryParams.append('categories_tags', params.categories);
-    }
-    if (params.countries) {
-      queryParams.append('countries_tags', params.countries);
-    }
-    if (params.additives) {
-      queryParams.append('additives_tags', params.additives);
-    }
-    if (params.allergens) {
-      queryParams.append('allergens_tags', params.allergens);
-    }
-    if (params.stores) {
-      queryParams.append('stores_tags', params.stores);
-    }
-
-    const response = await fetch(`${OFF_API_BASE}/cgi/search.pl?${queryParams.toString()}`, {
-      method: 'GET',
-      headers: {
-        'Accept': 'application/json',
-      },
-    });
-    
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-    
-    return response.json();
-  },
-
-  async getProductV3(code: string) {
-    const response = await fetch(`${OFF_API_V0}/product/${code}.json`, {
-      method: 'GET',
-      headers: {
-        'Accept': 'application/json',
-      },
-    });
-    
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-    
-    return response.json();
-  },
-
-  async getBrands() {
-    // Use the taxonomy endpoint
-    const response = await fetch(`${OFF_API_BASE}/data/taxonomies/brands.json`, {
-      method: 'GET',
-      headers: {
-        'Accept': 'application/json',
-      },
-    });
-    
-    if (!response.ok) {
-      return { tags: [] };
-    }
-    
-    const data = await response.json();
-    // Extract keys from the taxonomy object
-    return { tags: Object.keys(data).slice(0, 50) };
-  },
-
-  async getCategories() {
-    const response = await fetch(`${OFF_API_BASE}/data/taxonomies/categories.json`, {
-      method: 'GET',
-      headers: {
-        'Accept': 'application/json',
-      },
-    });
-    
-    if (!response.ok) {
-      return { tags: [] };
-    }
-    
-    const data = await response.json();
-    return { tags: Object.keys(data).slice(0, 50) };
-  },
-
-  async getCountries() {
-    const response = await fetch(`${OFF_API_BASE}/data/taxonomies/countries.json`, {
-      method: 'GET',
-      headers: {
-        'Accept': 'application/json',
-      },
-    });
-    
-    if (!response.ok) {
-      return { tags: [] };
-    }
-    
-    const data = await response.json();
-    return { tags: Object.keys(data).slice(0, 50) };
-  },
-
-  async getAdditives() {
-    const response = await fetch(`${OFF_API_BASE}/data/taxonomies/additives.json`, {
-      method: 'GET',
-      headers: {
-        'Accept': 'application/json',
-      },
-    });
-    
-    if (!response.ok) {
-      return { tags: [] };
-    }
-    
-    const data = await response.json();
-    // Filter only 'en:' tags and remove the prefix
-    const enTags = Object.keys(data)
-      .filter(key => key.startsWith('en:'))
-      .map(key => key.replace(/^en:/, ''))
-      .slice(0, 50);
-    return { tags: enTags };
-  },
-
-  async getAllergens() {
-    const response = await fetch(`${OFF_API_BASE}/data/taxonomies/allergens.json`, {
-      method: 'GET',
-      headers: {
-        'Accept': 'application/json',
-      },
-    });
-    
-    if (!response.ok) {
-      return { tags: [] };
-    }
-    
-    const data = await response.json();
-    // Filter only 'en:' tags and remove the prefix
-    const enTags = Object.keys(data)
-      .filter(key => key.startsWith('en:'))
-      .map(key => key.replace(/^en:/, ''))
-      .slice(0, 50);
-    return { tags: enTags };
-  },
-
-  async getStores() {
-    const response = await fetch(`${OFF_API_BASE}/data/taxonomies/stores.json`, {
-      method: 'GET',
-      headers: {
-        'Accept': 'application/json',
-      },
-    });
-    
-    if (!response.ok) {
-      return { tags: [] };
-    }
-    
-    const data = await response.json();
-    return { tags: Object.keys(data).slice(0, 50) };
-  },
-};
-
-interface Product {
-  code: string;
-  product_name?: string;
-  image_url?: string;
-  image_front_url?: string;
-  image_front_small_url?: string;
-  brands?: string;
-  categories?: string;
-  nutriscore_grade?: string;
-  ecoscore_grade?: string;
-  nova_group?: number;
-}
-
-interface ProductDetails {
-  code: string;
-  product_name?: string;
-  image_url?: string;
-  image_front_url?: string;
-  brands?: string;
-  categories?: string;
-  categories_tags?: string[];
-  nutriments?: any;
-  nutriscore_grade?: string;
-  ecoscore_grade?: string;
-  nova_group?: number;
-  ingredients_text?: string;
-  ingredients?: any[];
-  additives_tags?: string[];
-  allergens_tags?: string[];
-  stores?: string;
-  countries?: string;
-  packaging?: string;
-  quantity?: string;
-  serving_size?: string;
-}
-
 type FilterType = 'brand' | 'category' | 'country' | 'additive' | 'allergen' | 'store';
 
 export default function OpenFoodFactsScreen() {
@@ -233,7 +28,7 @@ export default function OpenFoodFactsScreen() {
   
   // Search state
   const [searchQuery, setSearchQuery] = useState('');
-  const [products, setProducts] = useState<Product[]>([]);
+  const [products, setProducts] = useState<ProductSummary[]>([]);
   const [loading, setLoading] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
   
@@ -259,6 +54,14 @@ export default function OpenFoodFactsScreen() {
   const [selectedProduct, setSelectedProduct] = useState<ProductDetails | null>(null);
   const [loadingProduct, setLoadingProduct] = useState(false);
   const [showProductModal, setShowProductModal] = useState(false);
+  const [savedFoodId, setSavedFoodId] = useState<number | undefined>();
+  const [savingProduct, setSavingProduct] = useState(false);
+
+  // Provisional FODMAP rating of the product's ingredients
+  const fodmapEstimate = useMemo(
+    () => selectedProduct ? classifyIngredients(selectedProduct) : undefined,
+    [selectedProduct]
+  );
 
   useEffect(() => {
     loadFilterOptions();
@@ -267,22 +70,24 @@ export default function OpenFoodFactsScreen() {
   const loadFilterOptions = async () => {
     setLoadingFilters(true);
     try {
-      // Load all filter options in parallel
+      // Load all filter options in parallel (cached by the client for 30 days)
+      const client = getOFFClient();
+      const load = (taxonomy: OFFTaxonomy) => client.getTaxonomyTags(taxonomy).catch(() => [] as string[]);
       const [brandsData, categoriesData, countriesData, additivesData, allergensData, storesData] = await Promise.all([
-        offAPI.getBrands().catch(() => ({ tags: [] })),
-        offAPI.getCategories().catch(() => ({ tags: [] })),
-        offAPI.getCountries().catch(() => ({ tags: [] })),
-        offAPI.getAdditives().catch(() => ({ tags: [] })),
-        offAPI.getAllergens().catch(() => ({ tags: [] })),
-        offAPI.getStores().catch(() => ({ tags: [] })),
+        load('brands'),
+        load('categories'),
+        load('countries'),
+        load('additives'),
+        load('allergens'),
+        load('stores'),
       ]);
 
-      setBrands((brandsData as any).tags?.slice(0, 50) || []);
-      setCategories((categoriesData as any).tags?.slice(0, 50) || []);
-      setCountries((countriesData as any).tags?.slice(0, 50) || []);
-      setAdditives((additivesData as any).tags?.slice(0, 50) || []);
-      setAllergens((allergensData as any).tags?.slice(0, 50) || []);
-      setStores((storesData as any).tags?.slice(0, 50) || []);
+      setBrands(brandsData);
+      setCategories(categoriesData);
+      setCountries(countriesData);
+      setAdditives(additivesData);
+      setAllergens(allergensData);
+      setStores(storesData);
     } catch (error) {
       console.error('Error loading filter options:', error);
     } finally {
@@ -300,7 +105,7 @@ export default function OpenFoodFactsScreen() {
     setLoading(true);
     try {
       // Build search parameters
-      const searchParams: any = {
+      const searchParams: ProductSearchParams = {
         page_size: 24,
         page: 1,
       };
@@ -328,10 +133,8 @@ export default function OpenFoodFactsScreen() {
         searchParams.stores = selectedStore;
       }
 
-      const result = await offAPI.search(searchParams);
-      // Search.pl returns products in 'products' array
-      const productsList = (result as any).products || [];
-      setProducts(productsList);
+      const result = await getOFFClient().searchProducts(searchParams);
+      setProducts(result.products);
     } catch (error) {
       console.error('Error searching products:', error);
       Alert.alert('Error', 'No se pudo realizar la búsqueda');
@@ -343,9 +146,13 @@ export default function OpenFoodFactsScreen() {
   const loadProductDetails = async (code: string) => {
     setLoadingProduct(true);
     try {
-      const result = await offAPI.getProductV3(code);
-      const product = (result as any).product || result;
-      setSelectedProduct(product as ProductDetails);
+      const product = await getOFFClient().getProduct(code);
+      if (!product) {
+        Alert.alert('No encontrado', 'Este producto no está en OpenFoodFacts');
+        return;
+      }
+      setSelectedProduct(product);
+      setSavedFoodId((await findFoodByBarcode(product.code))?.id);
       setShowProductModal(true);
     } catch (error) {
       console.error('Error loading product details:', error);
@@ -355,6 +162,48 @@ export default function OpenFoodFactsScreen() {
     }
   };
 
+  const openSavedFood = (foodId: number) => {
+    setShowProductModal(false);
+    router.push(`/food/${foodId}`);
+  };
+
+  const handleSaveProduct = async (updateLocalFood = false) => {
+    if (!selectedProduct) return;
+    setSavingProduct(true);
+    try {
+      const { id, created, updated } = await saveProduct(selectedProduct, { updateLocalFood });
+      setSavedFoodId(id);
+      if (!created && !updated) {
+        // One of the user's own foods (or the FODMAP database) has this barcode
+        Alert.alert(
+          'Alimento existente',
+          'Ya tienes un alimento con este código de barras. ¿Actualizar sus datos nutricionales, la marca y la imagen con los de OpenFoodFacts? Su nombre y nivel FODMAP no cambian.',
+          [
+            { text: 'Cancelar', style: 'cancel' },
+            { text: 'Ver alimento', onPress: () => openSavedFood(id) },
+            { text: 'Actualizar', onPress: () => handleSaveProduct(true) },
+          ]
+        );
+        return;
+      }
+      Alert.alert(
+        created ? 'Alimento añadido' : 'Alimento actualizado',
+        created
+          ? 'El producto se ha guardado en tus alimentos. Su nivel FODMAP es una estimación a partir de los ingredientes: revísalo.'
+          : 'Se han actualizado los datos nutricionales, la marca y la imagen del producto.',
+        [
+          { text: 'Cerrar', style: 'cancel' },
+          { text: 'Ver alimento', onPress: () => openSavedFood(id) },
+        ]
+      );
+    } catch (error) {
+      console.error('Error saving product:', error);
+      Alert.alert('Error', 'No se pudo guardar el producto');
+    } finally {
+      setSavingProduct(false);
+    }
+  };
+
   const onRefresh = async () => {
     setRefreshing(true);
     await performSearch();
@@ -856,6 +705,38 @@ export default function OpenFoodFactsScreen() {
                       )}
                     </View>
 
+                    {/* Save as local food */}
+                    <Pressable
+                      onPress={() => handleSaveProduct()}
+                      disabled={savingProduct}
+                      style={{
+                        flexDirection: 'row',
+                        alignItems: 'center',
+                        justifyContent: 'center',
+                        gap: 8,
+                        padding: 14,
+                        borderRadius: 12,
+                        backgroundColor: savedFoodId ? colors.cardElevated : colors.primary,
+                        opacity: savingProduct ? 0.6 : 1,
+                      }}
+                    >
+                      {savingProduct ? (
+                        <ActivityIndicator size="small" color={savedFoodId ? colors.primary : '#FFFFFF'} />
+                      ) : (
+                        <Ionicons name={savedFoodId ? 'refresh' : 'add-circle'} size={20} color={savedFoodId ? colors.primary : '#FFFFFF'} />
+                      )}
+                      <Text style={{ fontSize: 15, fontWeight: '600', color: savedFoodId ? colors.primary : '#FFFFFF' }}>
+                        {savedFoodId ? 'Actualizar en mis alimentos' : 'Añadir a mis alimentos'}
+                      </Text>
+                    </Pressable>
+                    {savedFoodId && (
+                      <Pressable onPress={() => openSavedFood(savedFoodId)}>
+                        <Text style={{ fontSize: 13, color: colors.primary, textAlign: 'center', marginTop: -8 }}>
+                          Ya está en tus alimentos · Ver alimento
+                        </Text>
+                      </Pressable>
+                    )}
+
                     {/* Scores */}
                     <View style={{ flexDirection: 'row', gap: 12 }}>
                       {selectedProduct.nutriscore_grade && (
@@ -967,6 +848,30 @@ export default function OpenFoodFactsScreen() {
                       </View>
                     )}
 
+                    {/* FODMAP estimate */}
+                    {fodmapEstimate && (
+                      <View style={{ padding: 12, backgroundColor: colors.cardElevated, borderRadius: 12 }}>
+                        <View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', marginBottom: 4 }}>
+                          <Text style={{ fontSize: 14, fontWeight: '600', color: colors.textSecondary }}>
+                            FODMAP estimado
+                          </Text>
+                          <FODMAPBadge level={fodmapEstimate.level} size="sm" />
+                        </View>
+                        <Text style={{ fontSize: 12, color: colors.textMuted, marginBottom: 8 }}>
+                          Estimación a partir de {fodmapEstimate.ingredientCount} ingredientes, sin conocer sus cantidades. Revísala antes de fiarte de ella.
+                        </Text>
+                        {FODMAP_CATEGORIES.map(({ key, label }) => (
+                          <View key={key} style={{ flexDirection: 'row', gap: 8, paddingVertical: 4 }}>
+                            <FODMAPBadge level={fodmapEstimate.details[key]} size="sm" showLabel={false} />
+                            <Text style={{ flex: 1, fontSize: 13, color: colors.text }}>
+                              <Text style={{ fontWeight: '600' }}>{label}: </Text>
+                              {fodmapEstimate.explanations[key]}
+                            </Text>
+                          </View>
+                        ))}
+                      </View>
+                    )}
+
                     {/* Additives */}
                     {selectedProduct.additives_tags && selectedProduct.additives_tags.length > 0 && (
                       <View>
@@ -0,0 +1,599 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  Pressable,
+  TextInput,
+  Alert,
+  Platform,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Stack, useFocusEffect } from 'expo-router';
+import Animated, { FadeInDown, FadeInRight } from 'react-native-reanimated';
+import { useTheme } from '@/contexts/ThemeContext';
+import { Card, Button } from '@/components/ui';
+import { getDatesInRange } from '@/lib/analysis';
+import { FODMAPProgramRepository } from '@/lib/repositories';
+import {
+  CHALLENGE_DOSE_DAYS,
+  CHALLENGE_ORDER,
+  CHALLENGE_STATUS_LABELS,
+  CHALLENGE_TEST_FOODS,
+  ChallengeResult,
+  findOverlappingChallenge,
+  getSubgroupLabel,
+  loadProgramPlan,
+  ProgramPlan,
+} from '@/lib/fodmap-program';
+import {
+  CHALLENGE_VERDICT_LABELS,
+  ChallengeVerdict,
+  FODMAP_CATEGORIES,
+  FODMAPSubgroup,
+  PROGRAM_PHASE_LABELS,
+} from '@/lib/types';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Elimination usually lasts 2-6 weeks
+const ELIMINATION_WEEKS = [2, 4, 6];
+const WASHOUT_OPTIONS = [2, 3, 4];
+
+const getToday = () => new Date().toISOString().split('T')[0];
+
+const addDays = (date: string, days: number) => {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().split('T')[0];
+};
+
+const formatShortDate = (date: string) => {
+  const [, month, day] = date.split('-');
+  return `${day}/${month}`;
+};
+
+const formatDose = (dose: number) => String(dose).replace('.', ',');
+
+export default function FODMAPProgramScreen() {
+  const { colors } = useTheme();
+  const [plan, setPlan] = useState<ProgramPlan | null>(null);
+  const [loaded, setLoaded] = useState(false);
+  const [startingNew, setStartingNew] = useState(false);
+
+  // New program
+  const [eliminationStart, setEliminationStart] = useState(getToday());
+  const [eliminationWeeks, setEliminationWeeks] = useState(4);
+  const [washoutDays, setWashoutDays] = useState(3);
+
+  // New challenge
+  const [subgroup, setSubgroup] = useState<FODMAPSubgroup>(CHALLENGE_ORDER[0]);
+  const [foodName, setFoodName] = useState(CHALLENGE_TEST_FOODS[CHALLENGE_ORDER[0]].food);
+  const [doses, setDoses] = useState<string[]>(CHALLENGE_TEST_FOODS[CHALLENGE_ORDER[0]].doses.map(formatDose));
+  const [doseUnit, setDoseUnit] = useState(CHALLENGE_TEST_FOODS[CHALLENGE_ORDER[0]].unit);
+  const [challengeStart, setChallengeStart] = useState('');
+
+  const verdictColors: Record<ChallengeVerdict, string> = {
+    tolerated: colors.fodmapLow,
+    partial: colors.fodmapMedium,
+    not_tolerated: colors.fodmapHigh,
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadPlan();
+    }, [])
+  );
+
+  const selectSubgroup = (value: FODMAPSubgroup) => {
+    const testFood = CHALLENGE_TEST_FOODS[value];
+    setSubgroup(value);
+    setFoodName(testFood.food);
+    setDoses(testFood.doses.map(formatDose));
+    setDoseUnit(testFood.unit);
+  };
+
+  const loadPlan = async () => {
+    try {
+      // The finished program stays visible (personalization) until a new one starts
+      const program = await FODMAPProgramRepository.getActive()
+        ?? (await FODMAPProgramRepository.getAll()).find(p => p.status === 'completed')
+        ?? null;
+      const result = await loadProgramPlan(program);
+      setPlan(result);
+      setStartingNew(false);
+      if (result) {
+        setChallengeStart(result.nextChallengeDate);
+        if (result.pendingSubgroups.length > 0) selectSubgroup(result.pendingSubgroups[0]);
+      }
+    } catch (error) {
+      console.error('Error loading FODMAP program:', error);
+    } finally {
+      setLoaded(true);
+    }
+  };
+
+  const handleStartProgram = async () => {
+    if (!DATE_PATTERN.test(eliminationStart)) {
+      Alert.alert('Error', 'La fecha debe tener el formato AAAA-MM-DD');
+      return;
+    }
+    try {
+      await FODMAPProgramRepository.create({
+        elimination_start: eliminationStart,
+        elimination_end: addDays(eliminationStart, eliminationWeeks * 7 - 1),
+        washout_days: washoutDays,
+        status: 'active',
+      });
+      loadPlan();
+    } catch (error) {
+      console.error('Error creating FODMAP program:', error);
+      Alert.alert('Error', 'No se pudo crear el programa');
+    }
+  };
+
+  const handleAddChallenge = async () => {
+    if (!plan) return;
+    const { program } = plan;
+
+    if (!foodName.trim()) {
+      Alert.alert('Error', 'Indica el alimento de prueba');
+      return;
+    }
+    const amounts = doses.map(dose => parseFloat(dose.replace(',', '.')));
+    if (amounts.some(amount => isNaN(amount) || amount <= 0)) {
+      Alert.alert('Error', 'Indica las tres dosis del reto');
+      return;
+    }
+    if (!DATE_PATTERN.test(challengeStart)) {
+      Alert.alert('Error', 'La fecha debe tener el formato AAAA-MM-DD');
+      return;
+    }
+    if (challengeStart <= program.elimination_end) {
+      Alert.alert('Error', 'Los retos empiezan cuando termina la fase de eliminación');
+      return;
+    }
+    const overlapping = findOverlappingChallenge(
+      program,
+      plan.challenges.map(result => result.challenge),
+      challengeStart
+    );
+    if (overlapping) {
+      Alert.alert('Error', `Coincide con el reto de ${getSubgroupLabel(overlapping.subgroup).toLowerCase()} y sus días de descanso`);
+      return;
+    }
+
+    try {
+      await FODMAPProgramRepository.createChallenge({
+        program_id: program.id,
+        subgroup,
+        food_name: foodName.trim(),
+        start_date: challengeStart,
+        doses: amounts,
+        dose_unit: doseUnit.trim() || null,
+      });
+      loadPlan();
+    } catch (error) {
+      console.error('Error creating challenge:', error);
+      Alert.alert('Error', 'No se pudo añadir el reto');
+    }
+  };
+
+  const confirmAction = (title: string, message: string, action: string, onConfirm: () => void) => {
+    if (Platform.OS === 'web') {
+      if (window.confirm(message)) {
+        onConfirm();
+      }
+    } else {
+      Alert.alert(title, message, [
+        { text: 'Cancelar', style: 'cancel' },
+        { text: action, style: 'destructive', onPress: onConfirm },
+      ]);
+    }
+  };
+
+  const handleDeleteChallenge = (result: ChallengeResult) => {
+    confirmAction(
+      'Eliminar reto',
+      `¿Eliminar el reto de ${getSubgroupLabel(result.challenge.subgroup).toLowerCase()} (${result.challenge.food_name})?`,
+      'Eliminar',
+      () => {
+        FODMAPProgramRepository.removeChallenge(result.challenge.id)
+          .then(loadPlan)
+          .catch(error => {
+            console.error('Error deleting challenge:', error);
+            Alert.alert('Error', 'No se pudo eliminar el reto');
+          });
+      }
+    );
+  };
+
+  const handleFinishProgram = (status: 'completed' | 'cancelled') => {
+    if (!plan) return;
+    confirmAction(
+      status === 'completed' ? 'Finalizar programa' : 'Cancelar programa',
+      status === 'completed'
+        ? '¿Dar por terminada la reintroducción y pasar a la fase de personalización?'
+        : '¿Cancelar el programa? Los retos registrados se conservan pero dejarán de mostrarse.',
+      status === 'completed' ? 'Finalizar' : 'Cancelar programa',
+      () => {
+        FODMAPProgramRepository.update(plan.program.id, { status })
+          .then(loadPlan)
+          .catch(error => {
+            console.error('Error updating program:', error);
+            Alert.alert('Error', 'No se pudo actualizar el programa');
+          });
+      }
+    );
+  };
+
+  const Chip = ({ label, selected, onPress }: { label: string; selected: boolean; onPress: () => void }) => (
+    <Pressable
+      onPress={onPress}
+      style={{
+        paddingHorizontal: 14,
+        paddingVertical: 8,
+        borderRadius: 20,
+        backgroundColor: selected ? colors.primary : colors.cardElevated,
+      }}
+    >
+      <Text style={{
+        fontSize: 13,
+        fontWeight: '600',
+        color: selected ? '#FFFFFF' : colors.textSecondary,
+      }}>
+        {label}
+      </Text>
+    </Pressable>
+  );
+
+  const inputStyle = {
+    fontSize: 14,
+    color: colors.text,
+    padding: 12,
+    backgroundColor: colors.cardElevated,
+    borderRadius: 10,
+  };
+
+  const renderNewProgram = () => (
+    <>
+      <Animated.View entering={FadeInDown.delay(100).springify()}>
+        <Card style={{ marginBottom: 16 }}>
+          <View style={{ flexDirection: 'row', alignItems: 'center', marginBottom: 12 }}>
+            <Ionicons name="flag" size={22} color={colors.primary} />
+            <Text style={{ fontSize: 16, fontWeight: '600', color: colors.text, marginLeft: 8 }}>
+              Programa de eliminación y reintroducción
+            </Text>
+          </View>
+          <Text style={{ fontSize: 13, color: colors.textSecondary, lineHeight: 20 }}>
+            1. Eliminación: dieta baja en FODMAP durante 2-6 semanas.{'\n'}
+            2. Reintroducción: un reto por subgrupo FODMAP, con un alimento de prueba en dosis crecientes durante {CHALLENGE_DOSE_DAYS} días y días de descanso entre retos.{'\n'}
+            3. Personalización: vuelve a incluir lo que toleras.
+          </Text>
+        </Card>
+      </Animated.View>
+
+      <Animated.View entering={FadeInDown.delay(150).springify()}>
+        <Card style={{ marginBottom: 16, gap: 16 }}>
+          <View>
+            <Text style={{ fontSize: 12, color: colors.textMuted, marginBottom: 6 }}>
+              Inicio de la eliminación
+            </Text>
+            <TextInput
+              value={eliminationStart}
+              onChangeText={setEliminationStart}
+              placeholder="AAAA-MM-DD"
+              placeholderTextColor={colors.textMuted}
+              style={inputStyle}
+            />
+          </View>
+
+          <View>
+            <Text style={{ fontSize: 12, color: colors.textMuted, marginBottom: 6 }}>
+              Duración de la eliminación
+            </Text>
+            <View style={{ flexDirection: 'row', gap: 8 }}>
+              {ELIMINATION_WEEKS.map(weeks => (
+                <Chip
+                  key={weeks}
+                  label={`${weeks} semanas`}
+                  selected={eliminationWeeks === weeks}
+                  onPress={() => setEliminationWeeks(weeks)}
+                />
+              ))}
+            </View>
+          </View>
+
+          <View>
+            <Text style={{ fontSize: 12, color: colors.textMuted, marginBottom: 6 }}>
+              Días de descanso entre retos
+            </Text>
+            <View style={{ flexDirection: 'row', gap: 8 }}>
+              {WASHOUT_OPTIONS.map(days => (
+                <Chip
+                  key={days}
+                  label={`${days} días`}
+                  selected={washoutDays === days}
+                  onPress={() => setWashoutDays(days)}
+                />
+              ))}
+            </View>
+          </View>
+        </Card>
+      </Animated.View>
+
+      <Animated.View entering={FadeInDown.delay(200).springify()}>
+        <Button onPress={handleStartProgram} fullWidth size="lg">
+          <View style={{ flexDirection: 'row', alignItems: 'center', gap: 8 }}>
+            <Ionicons name="play" size={20} color="#FFFFFF" />
+            <Text style={{ color: '#FFFFFF', fontWeight: '600', fontSize: 16 }}>
+              Empezar programa
+            </Text>
+          </View>
+        </Button>
+      </Animated.View>
+    </>
+  );
+
+  const renderChallenge = (result: ChallengeResult, index: number) => {
+    const { challenge } = result;
+    const category = FODMAP_CATEGORIES.find(c => c.key === challenge.subgroup);
+    const badgeColor = result.verdict ? verdictColors[result.verdict] : colors.textMuted;
+
+    return (
+      <Animated.View key={challenge.id} entering={FadeInRight.delay(250 + index * 50).springify()}>
+        <View style={{
+          padding: 14,
+          borderBottomWidth: index < (plan?.challenges.length || 0) - 1 ? 1 : 0,
+          borderBottomColor: colors.border,
+        }}>
+          <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+            <View style={{
+              width: 36,
+              height: 36,
+              borderRadius: 18,
+              backgroundColor: badgeColor + '20',
+              alignItems: 'center',
+              justifyContent: 'center',
+              marginRight: 12,
+            }}>
+              <Ionicons name={(category?.icon || 'leaf') as any} size={18} color={badgeColor} />
+            </View>
+            <View style={{ flex: 1 }}>
+              <Text style={{ fontSize: 15, fontWeight: '600', color: colors.text }}>
+                {getSubgroupLabel(challenge.subgroup)} · {challenge.food_name}
+              </Text>
+              <Text style={{ fontSize: 12, color: colors.textMuted, marginTop: 2 }}>
+                {formatShortDate(challenge.start_date)} - {formatShortDate(result.endDate)} · {challenge.doses.map(formatDose).join(' / ')} {challenge.dose_unit || ''}
+              </Text>
+            </View>
+            <View style={{
+              paddingHorizontal: 8,
+              paddingVertical: 4,
+              borderRadius: 10,
+              backgroundColor: badgeColor + '20',
+              marginRight: 8,
+            }}>
+              <Text style={{ fontSize: 11, fontWeight: '600', color: badgeColor }}>
+                {result.verdict ? CHALLENGE_VERDICT_LABELS[result.verdict] : CHALLENGE_STATUS_LABELS[result.status]}
+              </Text>
+            </View>
+            <Pressable onPress={() => handleDeleteChallenge(result)} style={{ padding: 4 }}>
+              <Ionicons name="trash-outline" size={18} color={colors.error} />
+            </Pressable>
+          </View>
+
+          {/* Dose days */}
+          <View style={{ flexDirection: 'row', gap: 6, marginTop: 10, marginLeft: 48 }}>
+            {result.days.map(day => (
+              <View
+                key={day.date}
+                style={{
+                  flex: 1,
+                  paddingVertical: 4,
+                  borderRadius: 6,
+                  alignItems: 'center',
+                  backgroundColor: day.reaction ? colors.fodmapHigh + '30'
+                    : day.dose ? colors.primary + '15'
+                    : colors.cardElevated,
+                }}
+              >
+                <Text style={{ fontSize: 10, fontWeight: '600', color: colors.textSecondary }}>
+                  {day.dose ? `D${day.dose}` : 'Desc.'}
+                </Text>
+                <Text style={{ fontSize: 10, color: colors.textMuted }}>
+                  {day.maxIntensity > 0 ? day.maxIntensity : '-'}
+                </Text>
+              </View>
+            ))}
+          </View>
+
+          {result.reactionDose && (
+            <Text style={{ fontSize: 12, color: colors.textSecondary, marginTop: 8, marginLeft: 48 }}>
+              Síntomas tras la dosis {result.reactionDose}
+              {result.reactionDose > 1 && ` · tolera hasta ${formatDose(challenge.doses[result.reactionDose - 2])} ${challenge.dose_unit || ''}`}
+            </Text>
+          )}
+        </View>
+      </Animated.View>
+    );
+  };
+
+  const renderPlan = (current: ProgramPlan) => {
+    const { program } = current;
+    const phase = current.today?.phase;
+    const eliminationDays = getDatesInRange(program.elimination_start, program.elimination_end).length;
+    const eliminationDay = getDatesInRange(program.elimination_start, getToday()).length;
+    const challengedSubgroups = new Set(current.challenges.map(result => result.challenge.subgroup));
+
+    return (
+      <>
+        {/* Current phase */}
+        <Animated.View entering={FadeInDown.delay(100).springify()}>
+          <Card style={{ marginBottom: 20 }}>
+            <Text style={{ fontSize: 12, color: colors.textMuted }}>Fase actual</Text>
+            <Text style={{ fontSize: 22, fontWeight: '700', color: colors.primary, marginTop: 2 }}>
+              {phase ? PROGRAM_PHASE_LABELS[phase] : 'Pendiente de empezar'}
+            </Text>
+            <Text style={{ fontSize: 13, color: colors.textSecondary, marginTop: 6 }}>
+              {phase === 'elimination' && `Día ${eliminationDay} de ${eliminationDays} · dieta baja en FODMAP`}
+              {phase === 'challenge' && current.today?.challenge &&
+                `Dosis ${current.today.dose} de ${CHALLENGE_DOSE_DAYS}: ${formatDose(current.today.challenge.doses[(current.today.dose || 1) - 1])} ${current.today.challenge.dose_unit || ''} de ${current.today.challenge.food_name.toLowerCase()}`}
+              {phase === 'washout' && 'Vuelve a la dieta baja en FODMAP hasta el siguiente reto'}
+              {phase === 'reintroduction' && `Siguiente reto a partir del ${formatShortDate(current.nextChallengeDate)}`}
+              {phase === 'personalization' && 'Incluye los alimentos que toleras y limita los que no'}
+              {!phase && `La eliminación empieza el ${formatShortDate(program.elimination_start)}`}
+            </Text>
+            <Text style={{ fontSize: 12, color: colors.textMuted, marginTop: 8 }}>
+              Eliminación: {formatShortDate(program.elimination_start)} - {formatShortDate(program.elimination_end)} · {program.washout_days} días de descanso entre retos
+            </Text>
+            {current.challenges.length > 0 && (
+              <Text style={{ fontSize: 12, color: colors.textMuted, marginTop: 4 }}>
+                Se considera reacción un día con intensidad {formatDose(Math.round(current.threshold * 10) / 10)} o más (media en eliminación: {formatDose(Math.round(current.baseline * 10) / 10)})
+              </Text>
+            )}
+          </Card>
+        </Animated.View>
+
+        {/* Challenges */}
+        <Animated.View entering={FadeInDown.delay(200).springify()}>
+          <Text style={{ fontSize: 16, fontWeight: '600', color: colors.text, marginBottom: 12 }}>
+            Retos de reintroducción ({challengedSubgroups.size}/{CHALLENGE_ORDER.length})
+          </Text>
+          {current.challenges.length === 0 ? (
+            <Card style={{ marginBottom: 20 }}>
+              <Text style={{ fontSize: 14, color: colors.textMuted, textAlign: 'center', paddingVertical: 12 }}>
+                Aún no hay retos programados
+              </Text>
+            </Card>
+          ) : (
+            <Card style={{ padding: 0, overflow: 'hidden', marginBottom: 20 }}>
+              {current.challenges.map(renderChallenge)}
+            </Card>
+          )}
+        </Animated.View>
+
+        {program.status === 'completed' ? (
+          <Animated.View entering={FadeInDown.delay(300).springify()}>
+            <Button onPress={() => setStartingNew(true)} variant="secondary" fullWidth>
+              Empezar un nuevo programa
+            </Button>
+          </Animated.View>
+        ) : (
+          <>
+            {/* New challenge */}
+            <Animated.View entering={FadeInDown.delay(300).springify()}>
+              <Text style={{ fontSize: 16, fontWeight: '600', color: colors.text, marginBottom: 12 }}>
+                Nuevo reto
+              </Text>
+              <Card style={{ marginBottom: 20, gap: 16 }}>
+                <View>
+                  <Text style={{ fontSize: 12, color: colors.textMuted, marginBottom: 6 }}>
+                    Subgrupo FODMAP
+                  </Text>
+                  <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 8 }}>
+                    {CHALLENGE_ORDER.map(key => (
+                      <Chip
+                        key={key}
+                        label={`${getSubgroupLabel(key)}${challengedSubgroups.has(key) ? ' ✓' : ''}`}
+                        selected={subgroup === key}
+                        onPress={() => selectSubgroup(key)}
+                      />
+                    ))}
+                  </View>
+                </View>
+
+                <View>
+                  <Text style={{ fontSize: 12, color: colors.textMuted, marginBottom: 6 }}>
+                    Alimento de prueba
+                  </Text>
+                  <TextInput
+                    value={foodName}
+                    onChangeText={setFoodName}
+                    placeholder="Ej: Pan de trigo"
+                    placeholderTextColor={colors.textMuted}
+                    style={inputStyle}
+                  />
+                </View>
+
+                <View>
+                  <Text style={{ fontSize: 12, color: colors.textMuted, marginBottom: 6 }}>
+                    Dosis de cada día
+                  </Text>
+                  <View style={{ flexDirection: 'row', gap: 8 }}>
+                    {doses.map((dose, index) => (
+                      <TextInput
+                        key={index}
+                        value={dose}
+                        onChangeText={value => setDoses(doses.map((d, i) => (i === index ? value : d)))}
+                        placeholder={`Día ${index + 1}`}
+                        placeholderTextColor={colors.textMuted}
+                        keyboardType="decimal-pad"
+                        style={{ ...inputStyle, flex: 1, textAlign: 'center' }}
+                      />
+                    ))}
+                    <TextInput
+                      value={doseUnit}
+                      onChangeText={setDoseUnit}
+                      placeholder="Unidad"
+                      placeholderTextColor={colors.textMuted}
+                      style={{ ...inputStyle, flex: 1.5 }}
+                    />
+                  </View>
+                </View>
+
+                <View>
+                  <Text style={{ fontSize: 12, color: colors.textMuted, marginBottom: 6 }}>
+                    Fecha de inicio
+                  </Text>
+                  <TextInput
+                    value={challengeStart}
+                    onChangeText={setChallengeStart}
+                    placeholder="AAAA-MM-DD"
+                    placeholderTextColor={colors.textMuted}
+                    style={inputStyle}
+                  />
+                </View>
+
+                <Button onPress={handleAddChallenge} fullWidth>
+                  Añadir reto
+                </Button>
+              </Card>
+            </Animated.View>
+
+            {/* Program actions */}
+            <Animated.View entering={FadeInDown.delay(400).springify()}>
+              <View style={{ gap: 12 }}>
+                <Button onPress={() => handleFinishProgram('completed')} variant="secondary" fullWidth>
+                  Finalizar reintroducción
+                </Button>
+                <Button onPress={() => handleFinishProgram('cancelled')} variant="ghost" fullWidth>
+                  Cancelar programa
+                </Button>
+              </View>
+            </Animated.View>
+          </>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          title: 'Programa FODMAP',
+          headerStyle: { backgroundColor: colors.surface },
+          headerTintColor: colors.text,
+        }}
+      />
+      <ScrollView
+        style={{ flex: 1, backgroundColor: colors.background }}
+        contentContainerStyle={{ padding: 16, paddingBottom: 100 }}
+      >
+        {loaded && (plan && !startingNew ? renderPlan(plan) : renderNewProgram())}
+      </ScrollView>
+    </>
+  );
+}
+
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   View,
   Text,
@@ -8,15 +8,21 @@ import {
   Alert,
   Modal,
   Platform,
+  Switch,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useLocalSearchParams, useRouter, Stack } from 'expo-router';
 import Animated, { FadeInDown, FadeInRight, Layout } from 'react-native-reanimated';
 import { useTheme } from '@/contexts/ThemeContext';
-import { Card, Button, FODMAPBadge, ImagePickerButton } from '@/components/ui';
-import { getDatabase, insertRow, updateRow, deleteRow, getRowById } from '@/lib/database';
+import { Card, Button, FODMAPBadge, ImagePickerButton, RecipeExportModal } from '@/components/ui';
+import { Changes, FoodRepository, RecipeInput, RecipeRepository } from '@/lib/repositories';
+import { rollUpRecipe } from '@/lib/food-rollup';
+import { parseIngredientLines, ParsedIngredientLine, REVIEW_REASON_LABELS } from '@/lib/ingredient-parser';
+import { createSearchIndex, getRankingBoost } from '@/lib/search';
 import { 
+  FODMAP_CATEGORIES,
   FODMAPLevel, 
+  NutritionInfo,
   Recipe, 
   RecipeStep,
   RecipeIngredient,
@@ -64,6 +70,10 @@ export default function RecipeScreen() {
   
   // FODMAP
   const [fodmapLevel, setFodmapLevel] = useState<FODMAPLevel>('low');
+  // Computed from the ingredients instead of set by hand
+  const [fodmapDerived, setFodmapDerived] = useState(isNew);
+  const [nutritionDerived, setNutritionDerived] = useState(isNew);
+  const [nutrition, setNutrition] = useState<NutritionInfo | undefined>(undefined);
   
   // Meal types
   const [mealTypes, setMealTypes] = useState<MealType[]>([]);
@@ -86,11 +96,17 @@ export default function RecipeScreen() {
   const [ingredientNotes, setIngredientNotes] = useState('');
   const [ingredientOptional, setIngredientOptional] = useState(false);
   const [ingredientFodmap, setIngredientFodmap] = useState<FODMAPLevel>('low');
+  const [ingredientFoodId, setIngredientFoodId] = useState<number | undefined>(undefined);
   
   // Food search
   const [showFoodSearch, setShowFoodSearch] = useState(false);
   const [foodSearchQuery, setFoodSearchQuery] = useState('');
   const [availableFoods, setAvailableFoods] = useState<Food[]>([]);
+
+  // Paste ingredient list
+  const [showPasteModal, setShowPasteModal] = useState(false);
+  const [pasteText, setPasteText] = useState('');
+  const [parsedLines, setParsedLines] = useState<ParsedIngredientLine[] | null>(null);
   
   // Image
   const [imageUri, setImageUri] = useState<string | null>(null);
@@ -105,6 +121,7 @@ export default function RecipeScreen() {
   const [initialLoading, setInitialLoading] = useState(!isNew);
   const [isInternal, setIsInternal] = useState(false);
   const [activeSection, setActiveSection] = useState<'basic' | 'ingredients' | 'steps'>('basic');
+  const [showExportModal, setShowExportModal] = useState(false);
 
   useEffect(() => {
     loadFoods();
@@ -115,9 +132,7 @@ export default function RecipeScreen() {
 
   const loadFoods = async () => {
     try {
-      const db = await getDatabase();
-      const foodsData = await db.getAllAsync('SELECT * FROM foods ORDER BY name ASC');
-      setAvailableFoods(foodsData as Food[]);
+      setAvailableFoods(await FoodRepository.getAll());
     } catch (error) {
       console.error('Error loading foods:', error);
     }
@@ -125,8 +140,7 @@ export default function RecipeScreen() {
 
   const loadRecipe = async () => {
     try {
-      const db = await getDatabase();
-      const recipe = await getRowById<Recipe>('recipes', parseInt(id!));
+      const recipe = await RecipeRepository.getById(parseInt(id!));
       
       if (recipe) {
         setName(recipe.name);
@@ -138,53 +152,21 @@ export default function RecipeScreen() {
         setCuisine(recipe.cuisine || '');
         setNotes(recipe.notes || '');
         setFodmapLevel(recipe.fodmap_level);
+        setFodmapDerived(!!recipe.fodmap_derived);
+        setNutritionDerived(!!recipe.nutrition_derived);
+        setNutrition(recipe.nutrition);
         setImageUri(recipe.image_uri || null);
         setIsInternal(recipe.source === 'internal');
         setIsExternal(recipe.source === 'external' || !!recipe.original_recipe_id);
         setOriginalRecipeId(recipe.original_recipe_id || null);
         
-        // Parse meal types
-        if (recipe.meal_types) {
-          try {
-            const types = typeof recipe.meal_types === 'string' 
-              ? JSON.parse(recipe.meal_types) 
-              : recipe.meal_types;
-            setMealTypes(types);
-          } catch (e) {}
-        }
-        
-        // Load steps
-        const stepsData = await db.getAllAsync(
-          'SELECT * FROM recipe_steps WHERE recipe_id = ? ORDER BY step_order ASC',
-          [parseInt(id!)]
-        );
-        setSteps(stepsData.map((s: any) => ({
-          id: s.id,
-          order: s.step_order,
-          title: s.title,
-          instruction: s.instruction,
-          duration_minutes: s.duration_minutes,
-        })));
-        
-        // Load ingredients
-        const ingredientsData = await db.getAllAsync(
-          'SELECT * FROM recipe_ingredients WHERE recipe_id = ?',
-          [parseInt(id!)]
-        );
-        setIngredients(ingredientsData.map((i: any) => ({
-          id: i.id,
-          food_id: i.food_id,
-          name: i.name,
-          quantity: i.quantity,
-          unit: i.unit,
-          fodmap_level: i.fodmap_level,
-          notes: i.notes,
-          optional: i.is_optional === 1,
-        })));
+        setMealTypes(recipe.meal_types || []);
+        setSteps(recipe.steps);
+        setIngredients(recipe.ingredients);
         
         // Load original recipe if this is a modified copy
         if (recipe.original_recipe_id) {
-          const original = await getRowById<Recipe>('recipes', recipe.original_recipe_id);
+          const original = await RecipeRepository.getById(recipe.original_recipe_id);
           setOriginalRecipe(original);
         }
       }
@@ -196,6 +178,32 @@ export default function RecipeScreen() {
     }
   };
 
+  // Values computed from the ingredients, per serving
+  const rollup = useMemo(() => {
+    if (ingredients.length === 0) return null;
+    return rollUpRecipe(
+      ingredients.map(ing => ({
+        name: ing.name,
+        quantity: ing.quantity,
+        unit: ing.unit,
+        fodmap_level: ing.fodmap_level,
+        optional: ing.optional,
+        food: availableFoods.find(f => f.id === ing.food_id),
+      })),
+      parseInt(servings) || 1
+    );
+  }, [ingredients, availableFoods, servings]);
+
+  useEffect(() => {
+    if (fodmapDerived && rollup && rollup.fodmap_level !== 'unknown') {
+      setFodmapLevel(rollup.fodmap_level);
+    }
+  }, [rollup, fodmapDerived]);
+
+  const fodmapDisagrees = !fodmapDerived && !!rollup && rollup.fodmap_level !== 'unknown' && rollup.fodmap_level !== fodmapLevel;
+  const nutritionDisagrees = !nutritionDerived && !!rollup?.nutrition && nutrition?.calories !== undefined
+    && Math.round(nutrition.calories) !== Math.round(rollup.nutrition.calories ?? 0);
+
   const handleSave = async () => {
     if (!name.trim()) {
       Alert.alert('Error', 'Por favor, introduce un nombre');
@@ -204,9 +212,7 @@ export default function RecipeScreen() {
 
     setLoading(true);
     try {
-      const db = await getDatabase();
-      
-      const data: Record<string, any> = {
+      const data: Changes<RecipeInput> = {
         name: name.trim(),
         description: description.trim() || null,
         prep_time: prepTime ? parseInt(prepTime) : null,
@@ -216,40 +222,19 @@ export default function RecipeScreen() {
         cuisine: cuisine.trim() || null,
         notes: notes.trim() || null,
         fodmap_level: fodmapLevel,
-        meal_types: mealTypes.length > 0 ? JSON.stringify(mealTypes) : null,
+        fodmap_derived: ingredients.length > 0 && fodmapDerived,
+        nutrition_derived: ingredients.length > 0 && nutritionDerived,
+        meal_types: mealTypes,
         image_uri: imageUri,
         source: 'user',
+        steps,
+        ingredients,
       };
 
-      let recipeId: number;
-      
       if (isNew) {
-        recipeId = await insertRow('recipes', data);
+        await RecipeRepository.create({ ...data, name: name.trim() });
       } else {
-        recipeId = parseInt(id!);
-        await updateRow('recipes', recipeId, data);
-        
-        // Delete existing steps and ingredients to re-insert
-        await db.runAsync('DELETE FROM recipe_steps WHERE recipe_id = ?', [recipeId]);
-        await db.runAsync('DELETE FROM recipe_ingredients WHERE recipe_id = ?', [recipeId]);
-      }
-      
-      // Insert steps
-      for (const step of steps) {
-        await db.runAsync(
-          `INSERT INTO recipe_steps (recipe_id, step_order, title, instruction, duration_minutes)
-           VALUES (?, ?, ?, ?, ?)`,
-          [recipeId, step.order, step.title || null, step.instruction, step.duration_minutes || null]
-        );
-      }
-      
-      // Insert ingredients
-      for (const ing of ingredients) {
-        await db.runAsync(
-          `INSERT INTO recipe_ingredients (recipe_id, food_id, name, quantity, unit, fodmap_level, notes, is_optional)
-           VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
-          [recipeId, ing.food_id || null, ing.name, ing.quantity, ing.unit, ing.fodmap_level || null, ing.notes || null, ing.optional ? 1 : 0]
-        );
+        await RecipeRepository.update(parseInt(id!), data);
       }
       
       Alert.alert('¡Guardado!', isNew ? 'Receta añadida correctamente' : 'Receta actualizada correctamente');
@@ -284,7 +269,7 @@ export default function RecipeScreen() {
     
     if (confirmed) {
       try {
-        await deleteRow('recipes', parseInt(id!));
+        await RecipeRepository.remove(parseInt(id!));
         if (Platform.OS === 'web') {
           alert('Receta eliminada correctamente');
         } else {
@@ -301,9 +286,7 @@ export default function RecipeScreen() {
   const handleCreateCopy = async () => {
     // Create an editable copy of an internal/external recipe
     try {
-      const db = await getDatabase();
-      
-      const copyData = {
+      const newId = await RecipeRepository.create({
         name: `${name} (Mi versión)`,
         description,
         prep_time: prepTime ? parseInt(prepTime) : null,
@@ -313,31 +296,13 @@ export default function RecipeScreen() {
         cuisine,
         notes,
         fodmap_level: fodmapLevel,
-        meal_types: mealTypes.length > 0 ? JSON.stringify(mealTypes) : null,
+        meal_types: mealTypes,
         source: 'user',
         original_recipe_id: parseInt(id!),
-        is_modified_copy: 1,
-      };
-      
-      const newId = await insertRow('recipes', copyData);
-      
-      // Copy steps
-      for (const step of steps) {
-        await db.runAsync(
-          `INSERT INTO recipe_steps (recipe_id, step_order, title, instruction, duration_minutes)
-           VALUES (?, ?, ?, ?, ?)`,
-          [newId, step.order, step.title || null, step.instruction, step.duration_minutes || null]
-        );
-      }
-      
-      // Copy ingredients
-      for (const ing of ingredients) {
-        await db.runAsync(
-          `INSERT INTO recipe_ingredients (recipe_id, food_id, name, quantity, unit, fodmap_level, notes, is_optional)
-           VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
-          [newId, ing.food_id || null, ing.name, ing.quantity, ing.unit, ing.fodmap_level || null, ing.notes || null, ing.optional ? 1 : 0]
-        );
-      }
+        is_modified_copy: true,
+        steps,
+        ingredients,
+      });
       
       Alert.alert('¡Copiado!', 'Se ha creado una copia editable de esta receta');
       router.replace(`/recipe/${newId}`);
@@ -418,6 +383,7 @@ export default function RecipeScreen() {
       setIngredientNotes(ingredient.notes || '');
       setIngredientOptional(ingredient.optional || false);
       setIngredientFodmap(ingredient.fodmap_level || 'low');
+      setIngredientFoodId(ingredient.food_id);
     } else {
       setEditingIngredient(null);
       setIngredientName('');
@@ -426,6 +392,7 @@ export default function RecipeScreen() {
       setIngredientNotes('');
       setIngredientOptional(false);
       setIngredientFodmap('low');
+      setIngredientFoodId(undefined);
     }
     setShowIngredientModal(true);
   };
@@ -441,6 +408,7 @@ export default function RecipeScreen() {
     }
     
     const newIngredient: LocalIngredient = {
+      food_id: ingredientFoodId,
       name: ingredientName.trim(),
       quantity: parseFloat(ingredientQuantity),
       unit: ingredientUnit.trim() || 'g',
@@ -457,11 +425,6 @@ export default function RecipeScreen() {
       setIngredients([...ingredients, newIngredient]);
     }
     
-    // Auto-calculate overall FODMAP level
-    const allLevels = [...ingredients.map(i => i.fodmap_level), ingredientFodmap];
-    if (allLevels.includes('high')) setFodmapLevel('high');
-    else if (allLevels.includes('medium')) setFodmapLevel('medium');
-    
     setShowIngredientModal(false);
   };
 
@@ -469,8 +432,34 @@ export default function RecipeScreen() {
     setIngredients(ingredients.filter(i => i !== ingredient));
   };
 
+  const openPasteModal = () => {
+    setPasteText('');
+    setParsedLines(null);
+    setShowPasteModal(true);
+  };
+
+  const analyzePastedText = () => {
+    const lines = parseIngredientLines(pasteText, availableFoods);
+    if (lines.length === 0) {
+      Alert.alert('Error', 'Pega al menos un ingrediente, uno por línea');
+      return;
+    }
+    setParsedLines(lines);
+  };
+
+  const addParsedIngredients = () => {
+    if (!parsedLines || parsedLines.length === 0) return;
+    setIngredients([...ingredients, ...parsedLines.map(({ ingredient }) => ingredient)]);
+    setShowPasteModal(false);
+    const toReview = parsedLines.filter(line => line.needsReview).length;
+    if (toReview > 0) {
+      Alert.alert('Ingredientes añadidos', `Revisa ${toReview} ${toReview === 1 ? 'ingrediente marcado' : 'ingredientes marcados'}: falta el alimento o la cantidad.`);
+    }
+  };
+
   const selectFood = (food: Food) => {
     setIngredientName(food.name);
+    setIngredientFoodId(food.id);
     setIngredientFodmap(food.fodmap_level || 'low');
     if (food.serving_size) {
       // Try to parse serving size
@@ -481,9 +470,11 @@ export default function RecipeScreen() {
     setFoodSearchQuery('');
   };
 
-  const filteredFoods = availableFoods.filter(f => 
-    f.name.toLowerCase().includes(foodSearchQuery.toLowerCase())
-  );
+  const foodIndex = useMemo(() => createSearchIndex(availableFoods, {
+    fields: f => [f.name, f.brand],
+    boost: f => getRankingBoost(f.is_favorite),
+  }), [availableFoods]);
+  const filteredFoods = foodIndex.search(foodSearchQuery);
 
   // Toggle meal type
   const toggleMealType = (type: MealType) => {
@@ -534,9 +525,64 @@ export default function RecipeScreen() {
     </Pressable>
   );
 
+  const DerivedSwitch = ({ value, onValueChange }: { value: boolean; onValueChange: (value: boolean) => void }) => (
+    <View style={{
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      padding: 12,
+      marginBottom: 12,
+      borderRadius: 10,
+      backgroundColor: colors.primary + '10',
+    }}>
+      <View style={{ flex: 1, marginRight: 12 }}>
+        <Text style={{ fontSize: 14, fontWeight: '600', color: colors.text }}>
+          Calcular a partir de los ingredientes
+        </Text>
+        <Text style={{ fontSize: 12, color: colors.textSecondary, marginTop: 2 }}>
+          {value ? 'Se recalcula al cambiar un ingrediente' : 'Valor introducido a mano'}
+        </Text>
+      </View>
+      <Switch
+        value={value}
+        onValueChange={onValueChange}
+        trackColor={{ false: colors.border, true: colors.primary + '50' }}
+        thumbColor={value ? colors.primary : colors.textMuted}
+      />
+    </View>
+  );
+
+  // Warning that the value set by hand differs from the computed one
+  const Disagreement = ({ text, onUseComputed }: { text: string; onUseComputed: () => void }) => (
+    <View style={{
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+      padding: 10,
+      marginTop: 12,
+      borderRadius: 8,
+      backgroundColor: colors.fodmapMedium + '15',
+    }}>
+      <Ionicons name="alert-circle" size={18} color={colors.fodmapMedium} />
+      <Text style={{ flex: 1, fontSize: 12, color: colors.text }}>{text}</Text>
+      {!isInternal && (
+        <Pressable onPress={onUseComputed}>
+          <Text style={{ fontSize: 12, fontWeight: '700', color: colors.primary }}>Usar calculado</Text>
+        </Pressable>
+      )}
+    </View>
+  );
+
+  const formatSubgroups = (subgroups: string[]) =>
+    subgroups.map(subgroup => FODMAP_CATEGORIES.find(c => c.key === subgroup)?.label.toLowerCase()).join(', ');
+
   const FODMAPOption = ({ level, label }: { level: FODMAPLevel; label: string }) => (
     <Pressable
-      onPress={() => !isInternal && setFodmapLevel(level)}
+      onPress={() => {
+        if (isInternal) return;
+        setFodmapDerived(false);
+        setFodmapLevel(level);
+      }}
       style={{
         flex: 1,
         paddingVertical: 10,
@@ -576,6 +622,14 @@ export default function RecipeScreen() {
           title: isNew ? 'Nueva receta' : (isInternal ? 'Ver receta' : 'Editar receta'),
           headerStyle: { backgroundColor: colors.surface },
           headerTintColor: colors.text,
+          headerRight: () => !isNew ? (
+            <Pressable
+              onPress={() => setShowExportModal(true)}
+              style={{ marginRight: 16 }}
+            >
+              <Ionicons name="share-outline" size={24} color={colors.primary} />
+            </Pressable>
+          ) : null,
         }}
       />
       <View style={{ flex: 1, backgroundColor: colors.background }}>
@@ -811,14 +865,89 @@ export default function RecipeScreen() {
                   <Text style={{ fontSize: 14, fontWeight: '600', color: colors.textSecondary, marginBottom: 12 }}>
                     Nivel FODMAP
                   </Text>
+                  {!isInternal && ingredients.length > 0 && (
+                    <DerivedSwitch value={fodmapDerived} onValueChange={setFodmapDerived} />
+                  )}
                   <View style={{ flexDirection: 'row', gap: 10 }}>
                     <FODMAPOption level="low" label="Bajo" />
                     <FODMAPOption level="medium" label="Medio" />
                     <FODMAPOption level="high" label="Alto" />
                   </View>
+
+                  {fodmapDisagrees && rollup && (
+                    <Disagreement
+                      text={`Según los ingredientes, una porción es de nivel ${rollup.fodmap_level === 'high' ? 'alto' : rollup.fodmap_level === 'medium' ? 'medio' : 'bajo'}`}
+                      onUseComputed={() => setFodmapDerived(true)}
+                    />
+                  )}
+
+                  {/* Ingredients responsible for a medium/high result */}
+                  {rollup && rollup.culprits.length > 0 && (
+                    <View style={{ marginTop: 12 }}>
+                      <Text style={{ fontSize: 12, fontWeight: '600', color: colors.textSecondary, marginBottom: 6 }}>
+                        Ingredientes responsables
+                      </Text>
+                      {rollup.culprits.map(culprit => (
+                        <View key={culprit.name} style={{ flexDirection: 'row', alignItems: 'center', gap: 6, marginBottom: 4 }}>
+                          <Ionicons
+                            name="warning"
+                            size={14}
+                            color={culprit.level === 'high' ? colors.fodmapHigh : colors.fodmapMedium}
+                          />
+                          <Text style={{ flex: 1, fontSize: 13, color: colors.text }}>
+                            {culprit.name}
+                            {culprit.subgroups.length > 0 && (
+                              <Text style={{ color: colors.textMuted }}> · {formatSubgroups(culprit.subgroups)}</Text>
+                            )}
+                          </Text>
+                        </View>
+                      ))}
+                    </View>
+                  )}
                 </Card>
               </Animated.View>
 
+              {/* Nutrition per serving */}
+              {(rollup?.nutrition || nutrition) && (
+                <Animated.View entering={FadeInDown.delay(325).springify()}>
+                  <Card style={{ marginBottom: 16 }}>
+                    <Text style={{ fontSize: 14, fontWeight: '600', color: colors.textSecondary, marginBottom: 12 }}>
+                      Nutrición por porción
+                    </Text>
+                    {!isInternal && !!rollup?.nutrition && (
+                      <DerivedSwitch value={nutritionDerived} onValueChange={setNutritionDerived} />
+                    )}
+                    {(() => {
+                      const shown = nutritionDerived && rollup?.nutrition ? rollup.nutrition : nutrition;
+                      if (!shown) return null;
+                      return (
+                        <View style={{ flexDirection: 'row', gap: 10 }}>
+                          {([
+                            ['calories', 'kcal'],
+                            ['protein_g', 'g proteína'],
+                            ['carbs_g', 'g carbohidratos'],
+                            ['fat_g', 'g grasa'],
+                          ] as const).map(([key, label]) => (
+                            <View key={key} style={{ flex: 1, backgroundColor: colors.cardElevated, borderRadius: 10, padding: 10, alignItems: 'center' }}>
+                              <Text style={{ fontSize: 16, fontWeight: '700', color: colors.text }}>
+                                {shown[key] !== undefined ? Math.round(shown[key]! * 10) / 10 : '-'}
+                              </Text>
+                              <Text style={{ fontSize: 10, color: colors.textMuted, textAlign: 'center' }}>{label}</Text>
+                            </View>
+                          ))}
+                        </View>
+                      );
+                    })()}
+                    {nutritionDisagrees && rollup?.nutrition && (
+                      <Disagreement
+                        text={`Según los ingredientes, una porción tiene ${Math.round(rollup.nutrition.calories ?? 0)} kcal`}
+                        onUseComputed={() => setNutritionDerived(true)}
+                      />
+                    )}
+                  </Card>
+                </Animated.View>
+              )}
+
               {/* Meal Types */}
               <Animated.View entering={FadeInDown.delay(350).springify()}>
                 <Card style={{ marginBottom: 16 }}>
@@ -908,6 +1037,25 @@ export default function RecipeScreen() {
                       Añadir ingrediente
                     </Text>
                   </Pressable>
+                  <Pressable
+                    onPress={openPasteModal}
+                    style={{
+                      flexDirection: 'row',
+                      alignItems: 'center',
+                      justifyContent: 'center',
+                      padding: 12,
+                      backgroundColor: colors.cardElevated,
+                      borderRadius: 12,
+                      marginTop: -6,
+                      marginBottom: 16,
+                      gap: 8,
+                    }}
+                  >
+                    <Ionicons name="clipboard-outline" size={18} color={colors.textSecondary} />
+                    <Text style={{ fontSize: 14, fontWeight: '600', color: colors.textSecondary }}>
+                      Pegar lista de ingredientes
+                    </Text>
+                  </Pressable>
                 </Animated.View>
               )}
 
@@ -947,6 +1095,20 @@ export default function RecipeScreen() {
                             {ing.quantity} {ing.unit}
                             {ing.notes && ` • ${ing.notes}`}
                           </Text>
+                          {(() => {
+                            const culprit = rollup?.culprits.find(c => c.name === ing.name);
+                            if (!culprit) return null;
+                            const color = culprit.level === 'high' ? colors.fodmapHigh : colors.fodmapMedium;
+                            return (
+                              <View style={{ flexDirection: 'row', alignItems: 'center', gap: 4, marginTop: 4 }}>
+                                <Ionicons name="warning" size={12} color={color} />
+                                <Text style={{ fontSize: 12, color }}>
+                                  {culprit.level === 'high' ? 'Sube el nivel a alto' : 'Sube el nivel a medio'}
+                                  {culprit.subgroups.length > 0 && ` (${formatSubgroups(culprit.subgroups)})`}
+                                </Text>
+                              </View>
+                            );
+                          })()}
                         </View>
                         {!isInternal && (
                           <View style={{ flexDirection: 'row', gap: 8 }}>
@@ -1090,6 +1252,15 @@ export default function RecipeScreen() {
         )}
       </View>
 
+      {!isNew && (
+        <RecipeExportModal
+          visible={showExportModal}
+          recipeIds={[Number(id)]}
+          defaultName={name}
+          onClose={() => setShowExportModal(false)}
+        />
+      )}
+
       {/* Step Modal */}
       <Modal
         visible={showStepModal}
@@ -1272,7 +1443,11 @@ export default function RecipeScreen() {
               </Text>
               <TextInput
                 value={ingredientName}
-                onChangeText={setIngredientName}
+                onChangeText={text => {
+                  setIngredientName(text);
+                  // A typed name no longer refers to the picked food
+                  setIngredientFoodId(undefined);
+                }}
                 placeholder="Ej: Pollo, Arroz..."
                 placeholderTextColor={colors.textMuted}
                 style={{
@@ -1412,6 +1587,131 @@ export default function RecipeScreen() {
           </View>
         </View>
       </Modal>
+      {/* Paste Ingredients Modal */}
+      <Modal
+        visible={showPasteModal}
+        animationType="slide"
+        transparent={true}
+        onRequestClose={() => setShowPasteModal(false)}
+      >
+        <View style={{ flex: 1, justifyContent: 'flex-end', backgroundColor: 'rgba(0,0,0,0.5)' }}>
+          <View style={{ 
+            backgroundColor: colors.surface, 
+            borderTopLeftRadius: 20, 
+            borderTopRightRadius: 20,
+            padding: 20,
+            maxHeight: '90%',
+          }}>
+            <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 20 }}>
+              <Text style={{ fontSize: 18, fontWeight: '700', color: colors.text }}>
+                Pegar ingredientes
+              </Text>
+              <Pressable onPress={() => setShowPasteModal(false)}>
+                <Ionicons name="close" size={24} color={colors.textSecondary} />
+              </Pressable>
+            </View>
+
+            <ScrollView>
+              {parsedLines === null ? (
+                <>
+                  <Text style={{ fontSize: 13, color: colors.textMuted, marginBottom: 8 }}>
+                    Un ingrediente por línea, por ejemplo "2 dientes de ajo picados" o "1/2 taza de leche sin lactosa"
+                  </Text>
+                  <TextInput
+                    value={pasteText}
+                    onChangeText={setPasteText}
+                    placeholder={'200 g de arroz basmati\n2 zanahorias en dados\nSal al gusto'}
+                    placeholderTextColor={colors.textMuted}
+                    multiline
+                    textAlignVertical="top"
+                    style={{
+                      fontSize: 15,
+                      color: colors.text,
+                      padding: 12,
+                      backgroundColor: colors.cardElevated,
+                      borderRadius: 10,
+                      minHeight: 180,
+                      marginBottom: 16,
+                    }}
+                  />
+                  <Button onPress={analyzePastedText} fullWidth size="lg">
+                    Analizar
+                  </Button>
+                </>
+              ) : (
+                <>
+                  {parsedLines.map((parsed, index) => {
+                    const { ingredient, match, needsReview, reviewReasons } = parsed;
+                    return (
+                      <View
+                        key={`${parsed.line}-${index}`}
+                        style={{
+                          flexDirection: 'row',
+                          alignItems: 'center',
+                          padding: 12,
+                          backgroundColor: needsReview ? colors.fodmapMedium + '15' : colors.cardElevated,
+                          borderRadius: 10,
+                          marginBottom: 8,
+                        }}
+                      >
+                        <View style={{ 
+                          width: 10, 
+                          height: 10, 
+                          borderRadius: 5, 
+                          backgroundColor: ingredient.fodmap_level === 'low' ? colors.fodmapLow 
+                            : ingredient.fodmap_level === 'medium' ? colors.fodmapMedium 
+                            : ingredient.fodmap_level === 'high' ? colors.fodmapHigh 
+                            : colors.textMuted,
+                          marginRight: 12,
+                        }} />
+                        <View style={{ flex: 1 }}>
+                          <Text style={{ fontSize: 15, fontWeight: '600', color: colors.text }}>
+                            {ingredient.name}
+                            {ingredient.optional && <Text style={{ color: colors.textMuted }}> (opcional)</Text>}
+                          </Text>
+                          <Text style={{ fontSize: 13, color: colors.textSecondary }}>
+                            {ingredient.quantity} {ingredient.unit}
+                            {ingredient.notes && ` • ${ingredient.notes}`}
+                          </Text>
+                          {match && (
+                            <Text style={{ fontSize: 12, color: colors.textMuted, marginTop: 2 }}>
+                              → {match.food.name}
+                            </Text>
+                          )}
+                          {needsReview && (
+                            <View style={{ flexDirection: 'row', alignItems: 'center', gap: 4, marginTop: 4 }}>
+                              <Ionicons name="alert-circle" size={12} color={colors.fodmapMedium} />
+                              <Text style={{ fontSize: 12, color: colors.fodmapMedium }}>
+                                {reviewReasons.map(reason => REVIEW_REASON_LABELS[reason]).join(' • ')}
+                              </Text>
+                            </View>
+                          )}
+                        </View>
+                        <Pressable onPress={() => setParsedLines(parsedLines.filter(line => line !== parsed))}>
+                          <Ionicons name="trash-outline" size={18} color={colors.error} />
+                        </Pressable>
+                      </View>
+                    );
+                  })}
+
+                  <View style={{ flexDirection: 'row', gap: 12, marginTop: 8, marginBottom: 20 }}>
+                    <View style={{ flex: 1 }}>
+                      <Button onPress={() => setParsedLines(null)} variant="outline" fullWidth>
+                        Editar texto
+                      </Button>
+                    </View>
+                    <View style={{ flex: 1 }}>
+                      <Button onPress={addParsedIngredients} fullWidth disabled={parsedLines.length === 0}>
+                        {`Añadir ${parsedLines.length}`}
+                      </Button>
+                    </View>
+                  </View>
+                </>
+              )}
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
     </>
   );
 }
@@ -0,0 +1,125 @@
+import { useTheme } from '@/contexts/ThemeContext';
+import { isAppLockEnabled, verifyAppLockPasscode } from '@/lib/app-lock';
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import { AppState, Modal, Text, TextInput, View } from 'react-native';
+import { Button } from './Button';
+
+/**
+ * Covers the app with a passcode screen when the app lock is enabled, on
+ * start and every time the app comes back from the background.
+ */
+export function AppLockGate({ children }: { children: React.ReactNode }) {
+  const { colors } = useTheme();
+  // null while reading the lock from secure storage
+  const [locked, setLocked] = useState<boolean | null>(null);
+  const [passcode, setPasscode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [checking, setChecking] = useState(false);
+
+  useEffect(() => {
+    isAppLockEnabled()
+      .then(setLocked)
+      .catch(err => {
+        console.error('[AppLock] Could not read lock state:', err);
+        setLocked(false);
+      });
+
+    const subscription = AppState.addEventListener('change', async state => {
+      if (state === 'background' && await isAppLockEnabled()) {
+        setPasscode('');
+        setError(null);
+        setLocked(true);
+      }
+    });
+    return () => subscription.remove();
+  }, []);
+
+  const handleUnlock = async () => {
+    if (!passcode) return;
+
+    setChecking(true);
+    try {
+      if (await verifyAppLockPasscode(passcode)) {
+        setLocked(false);
+        setPasscode('');
+        setError(null);
+      } else {
+        setError('Código incorrecto');
+      }
+    } catch (err) {
+      console.error('[AppLock] Could not verify passcode:', err);
+      setError('No se pudo comprobar el código. Inténtalo de nuevo.');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  return (
+    <>
+      {children}
+      <Modal visible={locked !== false} animationType="none" onRequestClose={() => {}}>
+        <View style={{
+          flex: 1,
+          backgroundColor: colors.background,
+          alignItems: 'center',
+          justifyContent: 'center',
+          padding: 32,
+        }}>
+          {locked && (
+            <>
+              <View style={{
+                width: 64,
+                height: 64,
+                borderRadius: 16,
+                backgroundColor: colors.primary + '20',
+                alignItems: 'center',
+                justifyContent: 'center',
+                marginBottom: 16,
+              }}>
+                <Ionicons name="lock-closed" size={32} color={colors.primary} />
+              </View>
+              <Text style={{ fontSize: 18, fontWeight: '700', color: colors.text, marginBottom: 4 }}>
+                Everyday FODMAP
+              </Text>
+              <Text style={{ fontSize: 14, color: colors.textSecondary, marginBottom: 24 }}>
+                Introduce tu código para continuar
+              </Text>
+
+              <TextInput
+                value={passcode}
+                onChangeText={setPasscode}
+                placeholder="Código"
+                placeholderTextColor={colors.textMuted}
+                secureTextEntry
+                autoFocus
+                autoCapitalize="none"
+                autoCorrect={false}
+                onSubmitEditing={handleUnlock}
+                style={{
+                  width: '100%',
+                  maxWidth: 320,
+                  fontSize: 16,
+                  textAlign: 'center',
+                  color: colors.text,
+                  padding: 14,
+                  backgroundColor: colors.cardElevated,
+                  borderRadius: 12,
+                  marginBottom: 12,
+                }}
+              />
+              {error && (
+                <Text style={{ fontSize: 13, color: colors.error, marginBottom: 12 }}>
+                  {error}
+                </Text>
+              )}
+              <Button onPress={handleUnlock} loading={checking} style={{ width: '100%', maxWidth: 320 }}>
+                Desbloquear
+              </Button>
+            </>
+          )}
+        </View>
+      </Modal>
+    </>
+  );
+}
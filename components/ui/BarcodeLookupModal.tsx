@@ -0,0 +1,267 @@
+import { useTheme } from '@/contexts/ThemeContext';
+import { classifyIngredients } from '@/lib/fodmap-classifier';
+import { getOFFClient } from '@/lib/off-client';
+import { BarcodeLookup, lookupBarcode, normalizeBarcode, saveProduct } from '@/lib/off-products';
+import { FoodRepository } from '@/lib/repositories';
+import { Food } from '@/lib/types';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import React, { useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, Image, Modal, Pressable, ScrollView, Text, TextInput, View } from 'react-native';
+import { Button } from './Button';
+import { FODMAPBadge } from './FODMAPBadge';
+
+interface BarcodeLookupModalProps {
+  visible: boolean;
+  // Code read by a scanner, looked up as soon as the modal opens
+  initialCode?: string;
+  // Use the food found or saved (e.g. add it to a meal); without it the food is opened
+  onSelectFood?: (food: Food) => void;
+  selectLabel?: string;
+  onClose: () => void;
+}
+
+export function BarcodeLookupModal({ visible, initialCode, onSelectFood, selectLabel = 'Usar este alimento', onClose }: BarcodeLookupModalProps) {
+  const { colors } = useTheme();
+  const router = useRouter();
+  const [code, setCode] = useState('');
+  const [result, setResult] = useState<BarcodeLookup | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!visible) return;
+    setCode(initialCode || '');
+    setResult(null);
+    setError(null);
+    if (initialCode) search(initialCode);
+  }, [visible, initialCode]);
+
+  const search = async (input: string) => {
+    const barcode = normalizeBarcode(input);
+    if (!barcode) {
+      Alert.alert('Código no válido', 'Introduce un código de barras EAN o UPC (de 8 a 14 dígitos)');
+      return;
+    }
+    setSearching(true);
+    setResult(null);
+    setError(null);
+    try {
+      setResult(await lookupBarcode(barcode));
+    } catch (lookupError) {
+      console.error('Error looking up barcode:', lookupError);
+      setError('No se pudo consultar OpenFoodFacts. Comprueba la conexión e inténtalo de nuevo.');
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const openFood = (food: Food) => {
+    onClose();
+    router.push(`/food/${food.id}`);
+  };
+
+  const selectFood = (food: Food) => {
+    if (onSelectFood) {
+      onSelectFood(food);
+      onClose();
+    } else {
+      openFood(food);
+    }
+  };
+
+  // Save the OFF product as a local food, or update the local one from OFF
+  const handleSaveProduct = async (updateLocalFood = false) => {
+    if (!result) return;
+    setSaving(true);
+    try {
+      const product = result.product ?? await getOFFClient().getProduct(result.code);
+      if (!product) {
+        Alert.alert('No encontrado', 'Este producto no está en OpenFoodFacts');
+        return;
+      }
+      const { id, created, updated } = await saveProduct(product, { updateLocalFood });
+      const food = await FoodRepository.getById(id);
+      if (!food) return;
+      if (!created && !updated) {
+        // The user's own food keeps its data unless they confirm the update
+        Alert.alert(
+          'Actualizar alimento',
+          `¿Actualizar los datos nutricionales, la marca y la imagen de "${food.name}" con los de OpenFoodFacts? Su nombre y nivel FODMAP no cambian.`,
+          [
+            { text: 'Cancelar', style: 'cancel' },
+            { text: 'Actualizar', onPress: () => handleSaveProduct(true) },
+          ]
+        );
+        return;
+      }
+      if (created && onSelectFood) {
+        selectFood(food);
+        return;
+      }
+      setResult({ code: result.code, food, product: null });
+      Alert.alert(
+        created ? 'Alimento añadido' : 'Alimento actualizado',
+        created
+          ? 'Su nivel FODMAP es una estimación a partir de los ingredientes: revísalo.'
+          : 'Datos del producto actualizados desde OpenFoodFacts'
+      );
+    } catch (saveError) {
+      console.error('Error saving product:', saveError);
+      Alert.alert('Error', 'No se pudo guardar el producto');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderFood = (food: Food) => (
+    <View style={{ gap: 12 }}>
+      <View style={{ flexDirection: 'row', alignItems: 'center', gap: 12, padding: 12, backgroundColor: colors.cardElevated, borderRadius: 12 }}>
+        {food.image_uri ? (
+          <Image source={{ uri: food.image_uri }} style={{ width: 56, height: 56, borderRadius: 8 }} resizeMode="contain" />
+        ) : (
+          <View style={{ width: 56, height: 56, borderRadius: 8, backgroundColor: colors.card, alignItems: 'center', justifyContent: 'center' }}>
+            <Ionicons name="cube-outline" size={24} color={colors.textMuted} />
+          </View>
+        )}
+        <View style={{ flex: 1 }}>
+          <Text style={{ fontSize: 16, fontWeight: '600', color: colors.text }}>{food.name}</Text>
+          {food.brand && <Text style={{ fontSize: 13, color: colors.textSecondary }}>{food.brand}</Text>}
+          <Text style={{ fontSize: 12, color: colors.primary, marginTop: 2 }}>En tus alimentos</Text>
+        </View>
+        <FODMAPBadge level={food.fodmap_level} size="sm" />
+      </View>
+      <Button onPress={() => selectFood(food)} fullWidth>
+        {onSelectFood ? selectLabel : 'Ver alimento'}
+      </Button>
+      {food.source !== 'internal' && (
+        <Button variant="outline" onPress={() => handleSaveProduct()} loading={saving} fullWidth>
+          Actualizar desde OpenFoodFacts
+        </Button>
+      )}
+    </View>
+  );
+
+  const renderProduct = (lookup: BarcodeLookup) => {
+    const product = lookup.product!;
+    const estimate = classifyIngredients(product);
+    return (
+      <View style={{ gap: 12 }}>
+        <View style={{ flexDirection: 'row', alignItems: 'center', gap: 12, padding: 12, backgroundColor: colors.cardElevated, borderRadius: 12 }}>
+          {product.image_front_url || product.image_url ? (
+            <Image source={{ uri: product.image_front_url || product.image_url }} style={{ width: 56, height: 56, borderRadius: 8 }} resizeMode="contain" />
+          ) : (
+            <View style={{ width: 56, height: 56, borderRadius: 8, backgroundColor: colors.card, alignItems: 'center', justifyContent: 'center' }}>
+              <Ionicons name="cube-outline" size={24} color={colors.textMuted} />
+            </View>
+          )}
+          <View style={{ flex: 1 }}>
+            <Text style={{ fontSize: 16, fontWeight: '600', color: colors.text }}>
+              {product.product_name || 'Producto sin nombre'}
+            </Text>
+            {product.brands && <Text style={{ fontSize: 13, color: colors.textSecondary }}>{product.brands}</Text>}
+            <Text style={{ fontSize: 12, color: colors.textMuted, marginTop: 2 }}>OpenFoodFacts · no está en tus alimentos</Text>
+          </View>
+          {estimate && <FODMAPBadge level={estimate.level} size="sm" />}
+        </View>
+        {estimate && (
+          <Text style={{ fontSize: 12, color: colors.textMuted }}>
+            FODMAP estimado a partir de los ingredientes; revísalo después de añadirlo.
+          </Text>
+        )}
+        <Button onPress={() => handleSaveProduct()} loading={saving} fullWidth>
+          {onSelectFood ? `Añadir a mis alimentos y ${selectLabel.toLowerCase()}` : 'Añadir a mis alimentos'}
+        </Button>
+      </View>
+    );
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={{ flex: 1, backgroundColor: 'rgba(0,0,0,0.5)', justifyContent: 'flex-end' }}>
+        <View style={{
+          backgroundColor: colors.surface,
+          borderTopLeftRadius: 20,
+          borderTopRightRadius: 20,
+          padding: 20,
+          maxHeight: '90%',
+        }}>
+          <View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', marginBottom: 16 }}>
+            <Text style={{ fontSize: 18, fontWeight: '700', color: colors.text }}>
+              Buscar por código de barras
+            </Text>
+            <Pressable onPress={onClose}>
+              <Ionicons name="close" size={24} color={colors.text} />
+            </Pressable>
+          </View>
+
+          <ScrollView showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+            <View style={{ flexDirection: 'row', gap: 8, marginBottom: 16 }}>
+              <View style={{
+                flex: 1,
+                flexDirection: 'row',
+                alignItems: 'center',
+                backgroundColor: colors.cardElevated,
+                borderRadius: 12,
+                paddingHorizontal: 12,
+              }}>
+                <Ionicons name="barcode-outline" size={20} color={colors.textMuted} />
+                <TextInput
+                  value={code}
+                  onChangeText={setCode}
+                  onSubmitEditing={() => search(code)}
+                  placeholder="Código EAN / UPC"
+                  placeholderTextColor={colors.textMuted}
+                  keyboardType="number-pad"
+                  returnKeyType="search"
+                  autoFocus={!initialCode}
+                  style={{ flex: 1, fontSize: 16, color: colors.text, padding: 12, letterSpacing: 1 }}
+                />
+              </View>
+              <Pressable
+                onPress={() => search(code)}
+                disabled={searching}
+                style={{
+                  width: 48,
+                  borderRadius: 12,
+                  backgroundColor: colors.primary,
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                }}
+              >
+                <Ionicons name="search" size={22} color="#FFFFFF" />
+              </Pressable>
+            </View>
+
+            {searching ? (
+              <View style={{ padding: 32, alignItems: 'center' }}>
+                <ActivityIndicator size="large" color={colors.primary} />
+              </View>
+            ) : error ? (
+              <Text style={{ fontSize: 14, color: colors.error, textAlign: 'center', padding: 16 }}>{error}</Text>
+            ) : result?.food ? (
+              renderFood(result.food)
+            ) : result?.product ? (
+              renderProduct(result)
+            ) : result ? (
+              <View style={{ alignItems: 'center', gap: 12, padding: 16 }}>
+                <Ionicons name="help-circle-outline" size={40} color={colors.textMuted} />
+                <Text style={{ fontSize: 14, color: colors.textSecondary, textAlign: 'center' }}>
+                  El código {result.code} no está en tus alimentos ni en OpenFoodFacts
+                </Text>
+                <Button variant="outline" onPress={() => { onClose(); router.push('/food/new'); }}>
+                  Crear alimento
+                </Button>
+              </View>
+            ) : (
+              <Text style={{ fontSize: 13, color: colors.textMuted, textAlign: 'center', padding: 16 }}>
+                Escribe el código que aparece bajo las barras del envase. Se busca primero en tus alimentos y después en OpenFoodFacts.
+              </Text>
+            )}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
@@ -1,12 +1,14 @@
 import { useDatabase } from '@/contexts/DatabaseContext';
 import { useTheme } from '@/contexts/ThemeContext';
 import { getDatabase, insertRow } from '@/lib/database';
-import { calculateAge, calculateDailyCalories, calculateMacroGrams, NutritionInfo, UserProfile, WeightLog } from '@/lib/types';
+import { getFiberAdvice, loadIntakeReport, NutrientIntake } from '@/lib/nutrient-intake';
+import { calculateAge, calculateDailyCalories, calculateMacroGrams, UserProfile, WeightLog } from '@/lib/types';
 import { Ionicons } from '@expo/vector-icons';
 import { useFocusEffect } from 'expo-router';
 import React, { useCallback, useEffect, useState } from 'react';
 import { Alert, Modal, Pressable, ScrollView, Text, TextInput, View } from 'react-native';
 import { Card } from './Card';
+import { NutrientIntakeModal } from './NutrientIntakeModal';
 
 interface DailyNutritionCardProps {
   profile: UserProfile | null;
@@ -14,6 +16,24 @@ interface DailyNutritionCardProps {
   onProfileUpdated?: () => void; // Optional callback to notify parent when profile is updated
 }
 
+type DetailedTargetField =
+  | 'target_fiber_g'
+  | 'target_sugars_g'
+  | 'target_sodium_mg'
+  | 'target_potassium_mg'
+  | 'target_saturated_fat_g'
+  | 'target_cholesterol_mg';
+
+// Optional targets; empty ones fall back to the reference intakes
+const DETAILED_TARGETS: { field: DetailedTargetField; label: string; unit: string; placeholder: string }[] = [
+  { field: 'target_fiber_g', label: 'Fibra (mín.)', unit: 'g', placeholder: '25-30' },
+  { field: 'target_sugars_g', label: 'Azúcares (máx.)', unit: 'g', placeholder: '50' },
+  { field: 'target_sodium_mg', label: 'Sodio (máx.)', unit: 'mg', placeholder: '2000' },
+  { field: 'target_potassium_mg', label: 'Potasio (mín.)', unit: 'mg', placeholder: '3500' },
+  { field: 'target_saturated_fat_g', label: 'Grasas saturadas (máx.)', unit: 'g', placeholder: '22' },
+  { field: 'target_cholesterol_mg', label: 'Colesterol (máx.)', unit: 'mg', placeholder: '300' },
+];
+
 export function DailyNutritionCard({ profile, style, onProfileUpdated }: DailyNutritionCardProps) {
   const { colors } = useTheme();
   const { isReady } = useDatabase();
@@ -22,10 +42,12 @@ export function DailyNutritionCard({ profile, style, onProfileUpdated }: DailyNu
   const [todayCalories, setTodayCalories] = useState(0);
   const [todayMacros, setTodayMacros] = useState({ protein: 0, carbs: 0, fat: 0 });
   const [todayWater, setTodayWater] = useState(0); // in liters
+  const [todayFiber, setTodayFiber] = useState<NutrientIntake | null>(null);
   const [latestWeight, setLatestWeight] = useState<WeightLog | null>(null);
   
   // Modal states
   const [showNutritionTargetsModal, setShowNutritionTargetsModal] = useState(false);
+  const [showNutrientsModal, setShowNutrientsModal] = useState(false);
   
   // Form states
   const [editTargetCalories, setEditTargetCalories] = useState('');
@@ -33,6 +55,9 @@ export function DailyNutritionCard({ profile, style, onProfileUpdated }: DailyNu
   const [editTargetCarbs, setEditTargetCarbs] = useState('');
   const [editTargetFat, setEditTargetFat] = useState('');
   const [editTargetWater, setEditTargetWater] = useState('');
+  const [editDetailedTargets, setEditDetailedTargets] = useState<Record<DetailedTargetField, string>>(
+    () => Object.fromEntries(DETAILED_TARGETS.map(({ field }) => [field, ''])) as Record<DetailedTargetField, string>
+  );
   
   // Load data
   const loadLatestWeight = useCallback(async () => {
@@ -52,46 +77,17 @@ export function DailyNutritionCard({ profile, style, onProfileUpdated }: DailyNu
       const db = await getDatabase();
       const today = new Date().toISOString().split('T')[0];
       
-      // Get all meal items for today
-      const items = await db.getAllAsync(
-        `SELECT mi.quantity, f.nutrition as food_nutrition, r.nutrition as recipe_nutrition
-         FROM meal_items mi
-         JOIN meals m ON mi.meal_id = m.id
-         LEFT JOIN foods f ON mi.food_id = f.id
-         LEFT JOIN recipes r ON mi.recipe_id = r.id
-         WHERE m.date = ?`,
-        [today]
-      ) as any[];
-      
-      let totalCalories = 0;
-      let totalProtein = 0;
-      let totalCarbs = 0;
-      let totalFat = 0;
+      // Meal items carry the nutrition of the amount eaten
+      const report = await loadIntakeReport(profile, today);
+      const amountOf = (key: string) => report.nutrients.find(nutrient => nutrient.key === key)?.amount || 0;
       
-      for (const item of items) {
-        const nutritionStr = item.food_nutrition || item.recipe_nutrition;
-        if (nutritionStr) {
-          try {
-            const nutrition: NutritionInfo = typeof nutritionStr === 'string' 
-              ? JSON.parse(nutritionStr) 
-              : nutritionStr;
-            const qty = item.quantity || 1;
-            totalCalories += (nutrition.calories || 0) * qty;
-            totalProtein += (nutrition.protein_g || 0) * qty;
-            totalCarbs += (nutrition.carbs_g || 0) * qty;
-            totalFat += (nutrition.fat_g || 0) * qty;
-          } catch (e) {
-            // Skip invalid nutrition data
-          }
-        }
-      }
-      
-      setTodayCalories(Math.round(totalCalories));
+      setTodayCalories(Math.round(amountOf('calories')));
       setTodayMacros({
-        protein: Math.round(totalProtein),
-        carbs: Math.round(totalCarbs),
-        fat: Math.round(totalFat),
+        protein: Math.round(amountOf('protein_g')),
+        carbs: Math.round(amountOf('carbs_g')),
+        fat: Math.round(amountOf('fat_g')),
       });
+      setTodayFiber(report.fiber);
       
       // Load today's water intake
       const waterIntake = await db.getAllAsync(
@@ -104,7 +100,7 @@ export function DailyNutritionCard({ profile, style, onProfileUpdated }: DailyNu
     } catch (error) {
       console.error('Error loading today nutrition:', error);
     }
-  }, []);
+  }, [profile]);
   
   const loadData = useCallback(async () => {
     await Promise.all([loadTodayNutrition(), loadLatestWeight()]);
@@ -132,6 +128,9 @@ export function DailyNutritionCard({ profile, style, onProfileUpdated }: DailyNu
       setEditTargetCarbs(profile.target_carbs_pct?.toString() || '');
       setEditTargetFat(profile.target_fat_pct?.toString() || '');
       setEditTargetWater((profile.target_water_l || 2.5).toString());
+      setEditDetailedTargets(Object.fromEntries(
+        DETAILED_TARGETS.map(({ field }) => [field, profile[field]?.toString() || ''])
+      ) as Record<DetailedTargetField, string>);
     }
   }, [profile]);
   
@@ -146,6 +145,7 @@ export function DailyNutritionCard({ profile, style, onProfileUpdated }: DailyNu
           target_carbs_pct = ?, 
           target_fat_pct = ?,
           target_water_l = ?,
+          ${DETAILED_TARGETS.map(({ field }) => `${field} = ?,`).join(' ')}
           updated_at = CURRENT_TIMESTAMP
         WHERE id = 1`,
         [
@@ -154,6 +154,7 @@ export function DailyNutritionCard({ profile, style, onProfileUpdated }: DailyNu
           parseInt(editTargetCarbs) || 50,
           parseInt(editTargetFat) || 30,
           parseFloat(editTargetWater) || 2.5,
+          ...DETAILED_TARGETS.map(({ field }) => parseFloat(editDetailedTargets[field].replace(',', '.')) || null),
         ]
       );
       setShowNutritionTargetsModal(false);
@@ -387,7 +388,62 @@ export function DailyNutritionCard({ profile, style, onProfileUpdated }: DailyNu
               );
             })}
           </View>
-          
+
+          {/* Fiber */}
+          {todayFiber && (
+            <View style={{ marginTop: 14 }}>
+              <View style={{ flexDirection: 'row', alignItems: 'center', gap: 8, marginBottom: 6 }}>
+                <Ionicons name="leaf-outline" size={16} color={todayFiber.status === 'met' ? colors.fodmapLow : colors.fodmapMedium} />
+                <Text style={{ flex: 1, fontSize: 13, fontWeight: '600', color: colors.text }}>
+                  Fibra
+                </Text>
+                <Text style={{ fontSize: 13, fontWeight: '700', color: todayFiber.status === 'met' ? colors.fodmapLow : colors.fodmapMedium }}>
+                  {Math.round(todayFiber.amount)}g
+                </Text>
+                <Text style={{ fontSize: 12, color: colors.textMuted }}>
+                  / {Math.round(todayFiber.target?.value || 0)}g
+                </Text>
+              </View>
+              <View style={{
+                height: 6,
+                backgroundColor: colors.cardElevated,
+                borderRadius: 3,
+                overflow: 'hidden',
+              }}>
+                <View style={{
+                  width: `${Math.min((todayFiber.ratio || 0) * 100, 100)}%`,
+                  height: '100%',
+                  backgroundColor: todayFiber.status === 'met' ? colors.fodmapLow : colors.fodmapMedium,
+                  borderRadius: 3,
+                }} />
+              </View>
+              {getFiberAdvice(todayFiber) && (
+                <Text style={{ fontSize: 11, color: colors.textMuted, marginTop: 6 }}>
+                  {getFiberAdvice(todayFiber)}
+                </Text>
+              )}
+            </View>
+          )}
+
+          <Pressable
+            onPress={() => setShowNutrientsModal(true)}
+            style={{
+              flexDirection: 'row',
+              alignItems: 'center',
+              justifyContent: 'center',
+              gap: 6,
+              marginTop: 14,
+              paddingVertical: 10,
+              borderRadius: 12,
+              backgroundColor: colors.cardElevated,
+            }}
+          >
+            <Ionicons name="list" size={16} color={colors.primary} />
+            <Text style={{ fontSize: 13, fontWeight: '600', color: colors.primary }}>
+              Ver todos los nutrientes
+            </Text>
+          </Pressable>
+
           {/* Water Section */}
           <View style={{ 
             marginTop: 20, 
@@ -732,6 +788,43 @@ export function DailyNutritionCard({ profile, style, onProfileUpdated }: DailyNu
                 </Text>
               </View>
 
+              {/* Detailed Targets */}
+              <View style={{ marginBottom: 20 }}>
+                <View style={{ flexDirection: 'row', alignItems: 'center', gap: 8, marginBottom: 4 }}>
+                  <Ionicons name="options" size={18} color={colors.primary} />
+                  <Text style={{ fontSize: 14, fontWeight: '600', color: colors.textSecondary }}>
+                    Objetivos detallados (opcional)
+                  </Text>
+                </View>
+                <Text style={{ fontSize: 12, color: colors.textMuted, marginBottom: 10 }}>
+                  Vacío = valor de referencia según tu edad y sexo
+                </Text>
+                {DETAILED_TARGETS.map(({ field, label, unit, placeholder }) => (
+                  <View key={field} style={{ flexDirection: 'row', alignItems: 'center', gap: 8, marginBottom: 8 }}>
+                    <Text style={{ flex: 1, fontSize: 13, color: colors.text }}>{label}</Text>
+                    <TextInput
+                      value={editDetailedTargets[field]}
+                      onChangeText={value => setEditDetailedTargets(prev => ({ ...prev, [field]: value }))}
+                      placeholder={placeholder}
+                      placeholderTextColor={colors.textMuted}
+                      keyboardType="numeric"
+                      style={{
+                        width: 90,
+                        fontSize: 15,
+                        fontWeight: '600',
+                        color: colors.text,
+                        paddingVertical: 8,
+                        paddingHorizontal: 10,
+                        backgroundColor: colors.cardElevated,
+                        borderRadius: 10,
+                        textAlign: 'center',
+                      }}
+                    />
+                    <Text style={{ width: 28, fontSize: 13, color: colors.textMuted }}>{unit}</Text>
+                  </View>
+                ))}
+              </View>
+
               {/* Save Button */}
               <Pressable
                 onPress={handleSaveTargets}
@@ -755,6 +848,12 @@ export function DailyNutritionCard({ profile, style, onProfileUpdated }: DailyNu
           </View>
         </View>
       </Modal>
+
+      <NutrientIntakeModal
+        visible={showNutrientsModal}
+        profile={profile}
+        onClose={() => setShowNutrientsModal(false)}
+      />
     </>
   );
 }
@@ -0,0 +1,136 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { View, Text, Pressable } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Card } from './Card';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useDatabase } from '@/contexts/DatabaseContext';
+import {
+  CHALLENGE_DOSE_DAYS,
+  CHALLENGE_ORDER,
+  getSubgroupLabel,
+  loadProgramPlan,
+  ProgramPlan,
+} from '@/lib/fodmap-program';
+import { CHALLENGE_VERDICT_LABELS, ChallengeVerdict, PROGRAM_PHASE_LABELS } from '@/lib/types';
+import { useFocusEffect, useRouter } from 'expo-router';
+
+interface FODMAPProgramCardProps {
+  style?: any;
+}
+
+export function FODMAPProgramCard({ style }: FODMAPProgramCardProps) {
+  const { colors } = useTheme();
+  const { isReady } = useDatabase();
+  const router = useRouter();
+
+  const [plan, setPlan] = useState<ProgramPlan | null>(null);
+
+  const loadPlan = useCallback(async () => {
+    try {
+      setPlan(await loadProgramPlan());
+    } catch (error) {
+      console.error('Error loading FODMAP program:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isReady) {
+      loadPlan();
+    }
+  }, [isReady, loadPlan]);
+
+  useFocusEffect(
+    useCallback(() => {
+      if (isReady) {
+        loadPlan();
+      }
+    }, [isReady, loadPlan])
+  );
+
+  const verdictColors: Record<ChallengeVerdict, string> = {
+    tolerated: colors.fodmapLow,
+    partial: colors.fodmapMedium,
+    not_tolerated: colors.fodmapHigh,
+  };
+
+  const today = plan?.today;
+  const challengeToday = today?.phase === 'challenge' ? today.challenge : undefined;
+
+  const getSubtitle = (): string => {
+    if (!plan) return 'Eliminación, reintroducción y personalización';
+    if (!today) return `Empieza el ${plan.program.elimination_start.split('-').reverse().join('/')}`;
+    if (challengeToday && today.dose) {
+      const dose = String(challengeToday.doses[today.dose - 1]).replace('.', ',');
+      return `Hoy: ${dose} ${challengeToday.dose_unit || ''} de ${challengeToday.food_name.toLowerCase()} (dosis ${today.dose}/${CHALLENGE_DOSE_DAYS})`;
+    }
+    if (today.phase === 'elimination') return 'Dieta baja en FODMAP';
+    if (today.phase === 'washout') return 'Descanso: dieta baja en FODMAP';
+    if (plan.pendingSubgroups.length > 0) return `Siguiente reto: ${getSubgroupLabel(plan.pendingSubgroups[0]).toLowerCase()}`;
+    return 'Todos los subgrupos probados';
+  };
+
+  return (
+    <Card style={{ marginBottom: 16, padding: 0, overflow: 'hidden', ...style }}>
+      <Pressable
+        onPress={() => router.push('/program')}
+        style={{
+          flexDirection: 'row',
+          alignItems: 'center',
+          padding: 16,
+          backgroundColor: colors.primary + '10',
+        }}
+      >
+        <View style={{
+          width: 44,
+          height: 44,
+          borderRadius: 22,
+          backgroundColor: colors.primary + '20',
+          alignItems: 'center',
+          justifyContent: 'center',
+          marginRight: 12,
+        }}>
+          <Ionicons name={challengeToday ? 'flask' : 'flag'} size={22} color={colors.primary} />
+        </View>
+        <View style={{ flex: 1 }}>
+          <Text style={{ fontSize: 16, fontWeight: '700', color: colors.text }}>
+            {plan && today ? `Programa FODMAP · ${PROGRAM_PHASE_LABELS[today.phase]}` : 'Programa FODMAP'}
+          </Text>
+          <Text style={{ fontSize: 12, color: colors.textSecondary, marginTop: 1 }}>
+            {getSubtitle()}
+          </Text>
+        </View>
+        <Ionicons name="chevron-forward" size={18} color={colors.textMuted} />
+      </Pressable>
+
+      {/* Reintroduction progress: one dot per subgroup */}
+      {plan && plan.challenges.length > 0 && (
+        <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 8, padding: 12 }}>
+          {CHALLENGE_ORDER.map(subgroup => {
+            const result = plan.challenges.find(r => r.challenge.subgroup === subgroup);
+            const color = result?.verdict ? verdictColors[result.verdict] : colors.textMuted;
+            return (
+              <View
+                key={subgroup}
+                style={{
+                  flexDirection: 'row',
+                  alignItems: 'center',
+                  gap: 4,
+                  paddingHorizontal: 8,
+                  paddingVertical: 4,
+                  borderRadius: 10,
+                  backgroundColor: result ? color + '20' : colors.cardElevated,
+                }}
+              >
+                <View style={{ width: 8, height: 8, borderRadius: 4, backgroundColor: result ? color : colors.border }} />
+                <Text style={{ fontSize: 11, fontWeight: '600', color: result ? color : colors.textMuted }}>
+                  {getSubgroupLabel(subgroup)}
+                  {result?.verdict && ` · ${CHALLENGE_VERDICT_LABELS[result.verdict]}`}
+                </Text>
+              </View>
+            );
+          })}
+        </View>
+      )}
+    </Card>
+  );
+}
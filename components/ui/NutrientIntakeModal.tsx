@@ -0,0 +1,217 @@
+import { useTheme } from '@/contexts/ThemeContext';
+import {
+  getFiberAdvice,
+  IntakeReport,
+  IntakeStatus,
+  loadIntakeReport,
+  LOW_FODMAP_FIBER_SOURCES,
+  NUTRIENT_GROUP_LABELS,
+  NutrientGroup,
+  NutrientIntake,
+} from '@/lib/nutrient-intake';
+import { UserProfile } from '@/lib/types';
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import { Modal, Pressable, ScrollView, Text, View } from 'react-native';
+
+interface NutrientIntakeModalProps {
+  visible: boolean;
+  profile: UserProfile | null;
+  onClose: () => void;
+}
+
+type Period = 'day' | 'week';
+
+const PERIOD_DAYS: Record<Period, number> = { day: 1, week: 7 };
+
+function formatAmount(value: number): string {
+  const rounded = value >= 100 ? Math.round(value) : Math.round(value * 10) / 10;
+  return rounded.toLocaleString('es-ES');
+}
+
+export function NutrientIntakeModal({ visible, profile, onClose }: NutrientIntakeModalProps) {
+  const { colors } = useTheme();
+  const [period, setPeriod] = useState<Period>('day');
+  const [report, setReport] = useState<IntakeReport | null>(null);
+
+  useEffect(() => {
+    if (!visible) return;
+    const today = new Date().toISOString().split('T')[0];
+    loadIntakeReport(profile, today, PERIOD_DAYS[period])
+      .then(setReport)
+      .catch(error => console.error('Error loading nutrient intake:', error));
+  }, [visible, period, profile]);
+
+  const statusColors: Record<IntakeStatus, string> = {
+    met: colors.fodmapLow,
+    below: colors.fodmapMedium,
+    over: colors.fodmapHigh,
+    untracked: colors.textMuted,
+  };
+
+  const NutrientRow = ({ nutrient }: { nutrient: NutrientIntake }) => {
+    const color = statusColors[nutrient.status];
+    return (
+      <View style={{ marginBottom: 12 }}>
+        <View style={{ flexDirection: 'row', alignItems: 'baseline', marginBottom: 4 }}>
+          <Text style={{ flex: 1, fontSize: 13, color: colors.text }}>
+            {nutrient.label}
+            {nutrient.target?.kind === 'max' && <Text style={{ color: colors.textMuted }}> (máx.)</Text>}
+          </Text>
+          <Text style={{ fontSize: 13, fontWeight: '600', color }}>
+            {formatAmount(nutrient.amount)}
+          </Text>
+          <Text style={{ fontSize: 12, color: colors.textMuted }}>
+            {nutrient.target ? ` / ${formatAmount(nutrient.target.value)} ${nutrient.unit}` : ` ${nutrient.unit}`}
+          </Text>
+        </View>
+        {nutrient.ratio !== undefined && (
+          <View style={{ height: 6, backgroundColor: colors.cardElevated, borderRadius: 3, overflow: 'hidden' }}>
+            <View style={{
+              width: `${Math.min(nutrient.ratio * 100, 100)}%`,
+              height: '100%',
+              backgroundColor: color,
+              borderRadius: 3,
+            }} />
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  const groups = Object.keys(NUTRIENT_GROUP_LABELS) as NutrientGroup[];
+  const fiber = report?.fiber;
+  const fiberAdvice = fiber && getFiberAdvice(fiber);
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent={true} onRequestClose={onClose}>
+      <View style={{ flex: 1, backgroundColor: 'rgba(0,0,0,0.5)', justifyContent: 'flex-end' }}>
+        <View style={{
+          backgroundColor: colors.card,
+          borderTopLeftRadius: 24,
+          borderTopRightRadius: 24,
+          maxHeight: '90%',
+        }}>
+          {/* Header */}
+          <View style={{
+            flexDirection: 'row',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+            padding: 16,
+            borderBottomWidth: 1,
+            borderBottomColor: colors.border,
+          }}>
+            <View style={{ flexDirection: 'row', alignItems: 'center', gap: 10 }}>
+              <View style={{
+                width: 40,
+                height: 40,
+                borderRadius: 12,
+                backgroundColor: colors.primary + '20',
+                alignItems: 'center',
+                justifyContent: 'center',
+              }}>
+                <Ionicons name="nutrition" size={20} color={colors.primary} />
+              </View>
+              <Text style={{ fontSize: 18, fontWeight: '700', color: colors.text }}>
+                Nutrientes
+              </Text>
+            </View>
+            <Pressable onPress={onClose}>
+              <Ionicons name="close" size={24} color={colors.text} />
+            </Pressable>
+          </View>
+
+          <ScrollView style={{ padding: 16 }}>
+            {/* Period */}
+            <View style={{ flexDirection: 'row', gap: 8, marginBottom: 16 }}>
+              {(['day', 'week'] as Period[]).map(option => (
+                <Pressable
+                  key={option}
+                  onPress={() => setPeriod(option)}
+                  style={{
+                    flex: 1,
+                    paddingVertical: 10,
+                    borderRadius: 10,
+                    alignItems: 'center',
+                    backgroundColor: period === option ? colors.primary : colors.cardElevated,
+                  }}
+                >
+                  <Text style={{ fontSize: 13, fontWeight: '600', color: period === option ? '#FFFFFF' : colors.textSecondary }}>
+                    {option === 'day' ? 'Hoy' : 'Últimos 7 días'}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+
+            {report && period === 'week' && (
+              <Text style={{ fontSize: 12, color: colors.textMuted, marginBottom: 12 }}>
+                Totales de la semana frente al objetivo diario × 7 · {report.loggedDays} de 7 días con comidas registradas
+              </Text>
+            )}
+
+            {/* Fiber */}
+            {fiber && (
+              <View style={{
+                padding: 14,
+                borderRadius: 14,
+                marginBottom: 20,
+                backgroundColor: statusColors[fiber.status] + '12',
+                borderWidth: 1,
+                borderColor: statusColors[fiber.status] + '40',
+              }}>
+                <View style={{ flexDirection: 'row', alignItems: 'center', gap: 8, marginBottom: 8 }}>
+                  <Ionicons name="leaf" size={18} color={statusColors[fiber.status]} />
+                  <Text style={{ flex: 1, fontSize: 15, fontWeight: '700', color: colors.text }}>Fibra</Text>
+                  <Text style={{ fontSize: 18, fontWeight: '800', color: statusColors[fiber.status] }}>
+                    {formatAmount(fiber.amount)}
+                  </Text>
+                  <Text style={{ fontSize: 13, color: colors.textMuted }}>
+                    / {formatAmount(fiber.target?.value || 0)} g
+                  </Text>
+                </View>
+                <View style={{ height: 8, backgroundColor: colors.cardElevated, borderRadius: 4, overflow: 'hidden' }}>
+                  <View style={{
+                    width: `${Math.min((fiber.ratio || 0) * 100, 100)}%`,
+                    height: '100%',
+                    backgroundColor: statusColors[fiber.status],
+                    borderRadius: 4,
+                  }} />
+                </View>
+                <Text style={{ fontSize: 12, color: colors.textSecondary, marginTop: 8 }}>
+                  {fiberAdvice || '¡Objetivo de fibra alcanzado!'}
+                </Text>
+                {fiberAdvice && (
+                  <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 6, marginTop: 8 }}>
+                    {LOW_FODMAP_FIBER_SOURCES.map(source => (
+                      <View key={source} style={{ paddingHorizontal: 8, paddingVertical: 3, borderRadius: 8, backgroundColor: colors.cardElevated }}>
+                        <Text style={{ fontSize: 11, color: colors.textSecondary }}>{source}</Text>
+                      </View>
+                    ))}
+                  </View>
+                )}
+              </View>
+            )}
+
+            {/* All nutrients by group */}
+            {report && groups.map(group => {
+              const nutrients = report.nutrients.filter(n => n.group === group && n.key !== 'fiber_g');
+              if (nutrients.length === 0) return null;
+              return (
+                <View key={group} style={{ marginBottom: 12 }}>
+                  <Text style={{ fontSize: 12, fontWeight: '700', color: colors.textMuted, letterSpacing: 1, marginBottom: 10 }}>
+                    {NUTRIENT_GROUP_LABELS[group].toUpperCase()}
+                  </Text>
+                  {nutrients.map(nutrient => <NutrientRow key={nutrient.key} nutrient={nutrient} />)}
+                </View>
+              );
+            })}
+
+            <Text style={{ fontSize: 11, color: colors.textMuted, marginBottom: 30 }}>
+              Los objetivos sin valor en tu perfil usan ingestas de referencia para adultos según tu edad y sexo. Solo cuentan los alimentos con información nutricional.
+            </Text>
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
@@ -0,0 +1,159 @@
+import { useTheme } from '@/contexts/ThemeContext';
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import { Modal, Pressable, Text, TextInput, View } from 'react-native';
+import { Button } from './Button';
+
+interface PassphraseModalProps {
+  visible: boolean;
+  title: string;
+  message?: string;
+  placeholder?: string;
+  submitLabel?: string;
+  // Ask twice, for new passphrases
+  confirm?: boolean;
+  minLength?: number;
+  // Extra controls below the fields (e.g. a "remember" switch)
+  children?: React.ReactNode;
+  // Throwing shows the error message in the modal
+  onSubmit: (passphrase: string) => Promise<void> | void;
+  onCancel: () => void;
+}
+
+export function PassphraseModal({
+  visible,
+  title,
+  message,
+  placeholder = 'Contraseña',
+  submitLabel = 'Aceptar',
+  confirm = false,
+  minLength = 1,
+  children,
+  onSubmit,
+  onCancel,
+}: PassphraseModalProps) {
+  const { colors } = useTheme();
+  const [passphrase, setPassphrase] = useState('');
+  const [repeated, setRepeated] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  // Start empty every time it opens
+  useEffect(() => {
+    if (visible) {
+      setPassphrase('');
+      setRepeated('');
+      setError(null);
+    }
+  }, [visible]);
+
+  const handleSubmit = async () => {
+    if (passphrase.length < minLength) {
+      setError(`Debe tener al menos ${minLength} caracteres`);
+      return;
+    }
+    if (confirm && passphrase !== repeated) {
+      setError('Las contraseñas no coinciden');
+      return;
+    }
+
+    setError(null);
+    setSubmitting(true);
+    try {
+      await onSubmit(passphrase);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'No se pudo completar la operación');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const inputStyle = {
+    fontSize: 15,
+    color: colors.text,
+    padding: 12,
+    backgroundColor: colors.cardElevated,
+    borderRadius: 10,
+    marginBottom: 12,
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="fade"
+      transparent={true}
+      onRequestClose={onCancel}
+    >
+      <View style={{
+        flex: 1,
+        backgroundColor: 'rgba(0,0,0,0.5)',
+        justifyContent: 'center',
+        padding: 24,
+      }}>
+        <View style={{
+          backgroundColor: colors.surface,
+          borderRadius: 20,
+          padding: 20,
+        }}>
+          <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 12 }}>
+            <Text style={{ fontSize: 18, fontWeight: '700', color: colors.text, flex: 1 }}>
+              {title}
+            </Text>
+            <Pressable onPress={onCancel}>
+              <Ionicons name="close" size={24} color={colors.textSecondary} />
+            </Pressable>
+          </View>
+
+          {message && (
+            <Text style={{ fontSize: 14, color: colors.textSecondary, marginBottom: 12 }}>
+              {message}
+            </Text>
+          )}
+
+          <TextInput
+            value={passphrase}
+            onChangeText={setPassphrase}
+            placeholder={placeholder}
+            placeholderTextColor={colors.textMuted}
+            secureTextEntry
+            autoFocus
+            autoCapitalize="none"
+            autoCorrect={false}
+            onSubmitEditing={confirm ? undefined : handleSubmit}
+            style={inputStyle}
+          />
+          {confirm && (
+            <TextInput
+              value={repeated}
+              onChangeText={setRepeated}
+              placeholder={`Repetir ${placeholder.toLowerCase()}`}
+              placeholderTextColor={colors.textMuted}
+              secureTextEntry
+              autoCapitalize="none"
+              autoCorrect={false}
+              onSubmitEditing={handleSubmit}
+              style={inputStyle}
+            />
+          )}
+
+          {error && (
+            <Text style={{ fontSize: 13, color: colors.error, marginBottom: 12 }}>
+              {error}
+            </Text>
+          )}
+
+          {children}
+
+          <View style={{ flexDirection: 'row', gap: 12 }}>
+            <Button variant="outline" onPress={onCancel} style={{ flex: 1 }}>
+              Cancelar
+            </Button>
+            <Button onPress={handleSubmit} loading={submitting} style={{ flex: 1 }}>
+              {submitLabel}
+            </Button>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
@@ -0,0 +1,155 @@
+import { useTheme } from '@/contexts/ThemeContext';
+import { createCollection, saveCollectionFile } from '@/lib/recipe-collections';
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import { Alert, Modal, Platform, Pressable, ScrollView, Switch, Text, TextInput, View } from 'react-native';
+import { Button } from './Button';
+
+interface RecipeExportModalProps {
+  visible: boolean;
+  recipeIds: number[];
+  // Suggested collection name (e.g. the recipe name for a single recipe)
+  defaultName?: string;
+  onExported?: () => void;
+  onClose: () => void;
+}
+
+export function RecipeExportModal({ visible, recipeIds, defaultName = 'Mis recetas', onExported, onClose }: RecipeExportModalProps) {
+  const { colors } = useTheme();
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [author, setAuthor] = useState('');
+  const [includeImages, setIncludeImages] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    setName(defaultName);
+    setDescription('');
+  }, [visible, defaultName]);
+
+  const handleExport = async () => {
+    if (!name.trim()) {
+      Alert.alert('Error', 'Ponle un nombre a la colección');
+      return;
+    }
+
+    setExporting(true);
+    try {
+      const { collection, errors } = await createCollection(recipeIds, { name, description, author, includeImages });
+      if (!collection) {
+        Alert.alert('No se puede exportar', errors.slice(0, 5).join('\n'));
+        return;
+      }
+      const file = await saveCollectionFile(collection);
+      onExported?.();
+      onClose();
+      if (Platform.OS === 'web') {
+        Alert.alert('Éxito', `Se descargó ${file.name} con ${collection.meta.recipe_count} receta${collection.meta.recipe_count !== 1 ? 's' : ''}.`);
+      }
+    } catch (error) {
+      console.error('Error exporting recipes:', error);
+      Alert.alert('Error', 'No se pudieron exportar las recetas');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const inputStyle = {
+    fontSize: 15,
+    color: colors.text,
+    padding: 12,
+    backgroundColor: colors.cardElevated,
+    borderRadius: 10,
+    marginBottom: 12,
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={{ flex: 1, backgroundColor: 'rgba(0,0,0,0.5)', justifyContent: 'flex-end' }}>
+        <View style={{
+          backgroundColor: colors.surface,
+          borderTopLeftRadius: 20,
+          borderTopRightRadius: 20,
+          padding: 20,
+          maxHeight: '90%',
+        }}>
+          <View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', marginBottom: 16 }}>
+            <Text style={{ fontSize: 18, fontWeight: '700', color: colors.text }}>
+              {recipeIds.length === 1 ? 'Exportar receta' : `Exportar ${recipeIds.length} recetas`}
+            </Text>
+            <Pressable onPress={onClose}>
+              <Ionicons name="close" size={24} color={colors.text} />
+            </Pressable>
+          </View>
+
+          <ScrollView showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+            <Text style={{ fontSize: 13, color: colors.textSecondary, marginBottom: 12 }}>
+              Se crea un archivo .json en el formato abierto de recetas (Open Recipe Format), con los niveles FODMAP de los ingredientes, que se puede importar en Everyday FODMAP.
+            </Text>
+
+            <Text style={{ fontSize: 13, fontWeight: '600', color: colors.textSecondary, marginBottom: 6 }}>Nombre de la colección</Text>
+            <TextInput
+              value={name}
+              onChangeText={setName}
+              placeholder="Mis recetas"
+              placeholderTextColor={colors.textMuted}
+              style={inputStyle}
+            />
+
+            <Text style={{ fontSize: 13, fontWeight: '600', color: colors.textSecondary, marginBottom: 6 }}>Descripción (opcional)</Text>
+            <TextInput
+              value={description}
+              onChangeText={setDescription}
+              placeholder="Recetas bajas en FODMAP para..."
+              placeholderTextColor={colors.textMuted}
+              multiline
+              style={{ ...inputStyle, minHeight: 60, textAlignVertical: 'top' }}
+            />
+
+            <Text style={{ fontSize: 13, fontWeight: '600', color: colors.textSecondary, marginBottom: 6 }}>Autor (opcional)</Text>
+            <TextInput
+              value={author}
+              onChangeText={setAuthor}
+              placeholder="Tu nombre"
+              placeholderTextColor={colors.textMuted}
+              style={inputStyle}
+            />
+
+            <View style={{
+              flexDirection: 'row',
+              alignItems: 'center',
+              justifyContent: 'space-between',
+              padding: 12,
+              backgroundColor: colors.cardElevated,
+              borderRadius: 10,
+              marginBottom: 16,
+            }}>
+              <View style={{ flex: 1, marginRight: 12 }}>
+                <Text style={{ fontSize: 15, color: colors.text }}>Incluir fotos</Text>
+                <Text style={{ fontSize: 12, color: colors.textMuted, marginTop: 2 }}>
+                  Las fotos van dentro del archivo, que será más grande
+                </Text>
+              </View>
+              <Switch
+                value={includeImages}
+                onValueChange={setIncludeImages}
+                trackColor={{ false: colors.border, true: colors.primary + '50' }}
+                thumbColor={includeImages ? colors.primary : colors.textMuted}
+              />
+            </View>
+
+            <Button
+              onPress={handleExport}
+              loading={exporting}
+              leftIcon={<Ionicons name="share-outline" size={18} color="#FFFFFF" />}
+              fullWidth
+            >
+              Exportar
+            </Button>
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
@@ -0,0 +1,210 @@
+import { useTheme } from '@/contexts/ThemeContext';
+import { CollectionImportReport, importCollection } from '@/lib/recipe-collections';
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import { Alert, Modal, Platform, Pressable, ScrollView, Text, TextInput, View } from 'react-native';
+import { Button } from './Button';
+
+interface RecipeImportModalProps {
+  visible: boolean;
+  // Called after a collection was imported, to reload the recipes
+  onImported: () => void;
+  onClose: () => void;
+}
+
+export function RecipeImportModal({ visible, onImported, onClose }: RecipeImportModalProps) {
+  const { colors } = useTheme();
+  const [importData, setImportData] = useState('');
+  const [importing, setImporting] = useState(false);
+  const [report, setReport] = useState<CollectionImportReport | null>(null);
+
+  useEffect(() => {
+    if (!visible) return;
+    setImportData('');
+    setReport(null);
+  }, [visible]);
+
+  const handleImport = async (content: string) => {
+    if (!content.trim()) {
+      Alert.alert('Error', 'Pega el contenido del archivo JSON de la colección');
+      return;
+    }
+
+    let data: unknown;
+    try {
+      data = JSON.parse(content);
+    } catch (e) {
+      Alert.alert('Error', 'El texto no es un JSON válido');
+      return;
+    }
+
+    setImporting(true);
+    try {
+      const result = await importCollection(data);
+      if (result.errors.length > 0) {
+        Alert.alert('Colección no válida', result.errors.slice(0, 5).join('\n'));
+        return;
+      }
+      setReport(result);
+      if (result.results.some(r => r.status !== 'failed')) onImported();
+    } catch (error) {
+      console.error('Error importing recipes:', error);
+      Alert.alert('Error', 'No se pudieron importar las recetas');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  // Web: pick the .json file and import it right away
+  const handleFileImport = () => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.json';
+    input.onchange = (e: any) => {
+      const file = e.target.files[0];
+      if (file) {
+        const reader = new FileReader();
+        reader.onload = (event) => {
+          const content = event.target?.result as string;
+          setImportData(content);
+          handleImport(content);
+        };
+        reader.readAsText(file);
+      }
+    };
+    input.click();
+  };
+
+  const renderReport = (result: CollectionImportReport) => {
+    const created = result.results.filter(r => r.status === 'created').length;
+    const updated = result.results.filter(r => r.status === 'updated').length;
+    const failed = result.results.filter(r => r.status === 'failed').length;
+    return (
+      <>
+        <Text style={{ fontSize: 15, fontWeight: '600', color: colors.text, marginBottom: 4 }}>
+          {result.name}
+        </Text>
+        <Text style={{ fontSize: 13, color: colors.textSecondary, marginBottom: 12 }}>
+          {created} nuevas · {updated} actualizadas · {failed} con errores
+        </Text>
+
+        <ScrollView style={{ marginBottom: 16 }}>
+          {result.results.map((item) => (
+            <View
+              key={item.index}
+              style={{
+                flexDirection: 'row',
+                alignItems: 'flex-start',
+                gap: 10,
+                padding: 12,
+                backgroundColor: colors.cardElevated,
+                borderRadius: 10,
+                marginBottom: 8,
+              }}
+            >
+              <Ionicons
+                name={item.status === 'failed' ? 'alert-circle' : 'checkmark-circle'}
+                size={20}
+                color={item.status === 'failed' ? colors.error : colors.primary}
+              />
+              <View style={{ flex: 1 }}>
+                <Text style={{ fontSize: 14, fontWeight: '600', color: colors.text }}>{item.name}</Text>
+                {item.status === 'failed' ? (
+                  item.errors.map((error, index) => (
+                    <Text key={index} style={{ fontSize: 12, color: colors.error, marginTop: 2 }}>
+                      • {error}
+                    </Text>
+                  ))
+                ) : (
+                  <Text style={{ fontSize: 12, color: colors.textSecondary, marginTop: 2 }}>
+                    {item.status === 'created' ? 'Importada' : 'Actualizada'} · {item.linked} de {item.ingredients} ingredientes enlazados a tus alimentos
+                  </Text>
+                )}
+              </View>
+            </View>
+          ))}
+        </ScrollView>
+
+        <Button onPress={onClose} fullWidth>
+          Hecho
+        </Button>
+      </>
+    );
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={{ flex: 1, backgroundColor: 'rgba(0,0,0,0.5)', justifyContent: 'flex-end' }}>
+        <View style={{
+          backgroundColor: colors.surface,
+          borderTopLeftRadius: 20,
+          borderTopRightRadius: 20,
+          padding: 20,
+          maxHeight: '90%',
+        }}>
+          <View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', marginBottom: 16 }}>
+            <Text style={{ fontSize: 18, fontWeight: '700', color: colors.text }}>
+              Importar recetas
+            </Text>
+            <Pressable onPress={onClose}>
+              <Ionicons name="close" size={24} color={colors.text} />
+            </Pressable>
+          </View>
+
+          {report ? (
+            renderReport(report)
+          ) : (
+            <>
+              <Text style={{ fontSize: 14, color: colors.textSecondary, marginBottom: 12 }}>
+                {Platform.OS === 'web'
+                  ? 'Elige un archivo .json de una colección de recetas (Open Recipe Format) o pega su contenido:'
+                  : 'Pega el contenido del archivo .json de una colección de recetas (Open Recipe Format):'}
+              </Text>
+
+              {Platform.OS === 'web' && (
+                <Button
+                  variant="outline"
+                  onPress={handleFileImport}
+                  disabled={importing}
+                  leftIcon={<Ionicons name="folder-open-outline" size={18} color={colors.primary} />}
+                  fullWidth
+                  style={{ marginBottom: 12 }}
+                >
+                  Elegir archivo
+                </Button>
+              )}
+
+              <TextInput
+                value={importData}
+                onChangeText={setImportData}
+                placeholder='{"meta": {...}, "recipes": [...]}'
+                placeholderTextColor={colors.textMuted}
+                multiline
+                numberOfLines={10}
+                style={{
+                  fontSize: 13,
+                  fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+                  color: colors.text,
+                  padding: 12,
+                  backgroundColor: colors.cardElevated,
+                  borderRadius: 10,
+                  minHeight: 200,
+                  textAlignVertical: 'top',
+                  marginBottom: 16,
+                }}
+              />
+
+              <Text style={{ fontSize: 12, color: colors.textMuted, marginBottom: 16 }}>
+                Los ingredientes se enlazan a tus alimentos por nombre. Si ya importaste la colección, sus recetas se actualizan.
+              </Text>
+
+              <Button onPress={() => handleImport(importData)} loading={importing} fullWidth>
+                Importar
+              </Button>
+            </>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+}
@@ -5,6 +5,7 @@ import { Card } from './Card';
 import { useTheme } from '@/contexts/ThemeContext';
 import { useDatabase } from '@/contexts/DatabaseContext';
 import { getDatabase } from '@/lib/database';
+import { TreatmentRepository } from '@/lib/repositories';
 import { useFocusEffect, useRouter } from 'expo-router';
 
 const ACTIVITY_COLOR = '#FF9800';
@@ -50,7 +51,6 @@ export function TodayTreatmentsCard({ style }: TodayTreatmentsCardProps) {
   // Load treatments
   const loadTodayTreatments = useCallback(async () => {
     try {
-      const db = await getDatabase();
       const today = new Date().toISOString().split('T')[0];
       const dayOfWeek = new Date().getDay(); // 0 = Sunday
       const dayNames = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
@@ -58,26 +58,19 @@ export function TodayTreatmentsCard({ style }: TodayTreatmentsCardProps) {
 
       console.log('[TodayTreatmentsCard] Loading treatments for:', today, todayDayName);
 
-      // Get ALL active treatments first (simpler query for web compatibility)
-      const allTreatments = await db.getAllAsync(
-        `SELECT * FROM treatments WHERE is_active = 1`,
-        []
-      ) as any[];
+      const allTreatments = await TreatmentRepository.getActive();
 
       console.log('[TodayTreatmentsCard] All active treatments:', allTreatments.length);
 
       // Filter treatments that are valid for today
       const todayTreatments = allTreatments.filter(t => {
         // Chronic treatments are always valid
-        if (t.is_chronic === 1) return true;
+        if (t.is_chronic) return true;
         
         // Check date range
-        const hasStartDate = t.start_date && t.start_date !== '';
-        const hasEndDate = t.end_date && t.end_date !== '';
-        
-        if (!hasStartDate) return true; // No start date = always valid
+        if (!t.start_date) return true; // No start date = always valid
         if (t.start_date > today) return false; // Haven't started yet
-        if (hasEndDate && t.end_date < today) return false; // Already ended
+        if (t.end_date && t.end_date < today) return false; // Already ended
         
         return true;
       });
@@ -117,15 +110,7 @@ export function TodayTreatmentsCard({ style }: TodayTreatmentsCardProps) {
           continue;
         }
 
-        // Parse doses from JSON
-        let treatmentDoses: any[] = [];
-        try {
-          treatmentDoses = treatment.doses ? JSON.parse(treatment.doses) : [];
-          console.log(`[TodayTreatmentsCard]   -> Parsed doses from JSON:`, treatmentDoses);
-        } catch (e) {
-          console.log(`[TodayTreatmentsCard]   -> Could not parse doses, using empty array`);
-          treatmentDoses = [];
-        }
+        let treatmentDoses: any[] = treatment.doses || [];
 
         // Generate doses based on frequency if no specific doses
         if (treatmentDoses.length === 0) {
@@ -135,19 +120,16 @@ export function TodayTreatmentsCard({ style }: TodayTreatmentsCardProps) {
         }
 
         // Get taken logs for today
-        const takenLogs = await db.getAllAsync(
-          'SELECT * FROM treatment_logs WHERE treatment_id = ? AND date = ?',
-          [treatment.id, today]
-        ) as any[];
+        const takenLogs = await TreatmentRepository.getLogsForTreatment(treatment.id, today);
         
         console.log(`[TodayTreatmentsCard] Treatment ${treatment.name}: ${takenLogs.length} logs for today`);
 
         const takenMap = new Map();
         takenLogs.forEach(log => {
           if (log.scheduled_time) {
-            takenMap.set(log.scheduled_time, log.taken === 1);
+            takenMap.set(log.scheduled_time, log.taken);
           } else if (log.dose_index !== undefined) {
-            takenMap.set(log.dose_index.toString(), log.taken === 1);
+            takenMap.set(log.dose_index.toString(), log.taken);
           }
         });
 
@@ -192,40 +174,35 @@ export function TodayTreatmentsCard({ style }: TodayTreatmentsCardProps) {
   // Handler
   const handleMarkDose = async (treatment: any, taken: boolean) => {
     try {
-      const db = await getDatabase();
       const today = new Date().toISOString().split('T')[0];
       const now = new Date();
       const timeStr = `${String(now.getHours()).padStart(2, '0')}:${String(now.getMinutes()).padStart(2, '0')}`;
 
       // Check if already logged for this specific dose
-      const existing = await db.getFirstAsync(
-        'SELECT id FROM treatment_logs WHERE treatment_id = ? AND date = ? AND scheduled_time = ?',
-        [treatment.id, today, treatment.dose_time]
-      ) as any;
+      const existing = await TreatmentRepository.findLog(treatment.id, today, treatment.dose_time);
 
       if (existing) {
         // Update existing log
-        await db.runAsync(
-          'UPDATE treatment_logs SET taken = ?, time = ?, amount_taken = ?, unit = ? WHERE id = ?',
-          [taken ? 1 : 0, timeStr, treatment.dose_amount, treatment.dose_unit, existing.id]
-        );
+        await TreatmentRepository.updateLog(existing.id, {
+          taken,
+          time: timeStr,
+          amount_taken: treatment.dose_amount,
+          unit: treatment.dose_unit,
+        });
       } else {
         // Create new log entry
-        await db.runAsync(
-          'INSERT INTO treatment_logs (treatment_id, treatment_name, scheduled_time, dose_index, date, time, taken, skipped, amount_taken, unit) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
-          [
-            treatment.id,
-            treatment.name,
-            treatment.dose_time,
-            treatment.dose_index,
-            today,
-            timeStr,
-            taken ? 1 : 0,
-            taken ? 0 : 1,
-            treatment.dose_amount,
-            treatment.dose_unit
-          ]
-        );
+        await TreatmentRepository.createLog({
+          treatment_id: treatment.id,
+          treatment_name: treatment.name,
+          scheduled_time: treatment.dose_time,
+          dose_index: treatment.dose_index,
+          date: today,
+          time: timeStr,
+          taken,
+          skipped: !taken,
+          amount_taken: treatment.dose_amount,
+          unit: treatment.dose_unit,
+        });
       }
 
       await loadTodayTreatments();
@@ -5,4 +5,10 @@ export { ImagePickerButton } from './ImagePickerButton';
 export { ProfileCard } from './ProfileCard';
 export { DailyNutritionCard } from './DailyNutritionCard';
 export { TodayTreatmentsCard, TodayActivitiesCard } from './TodayCards';
-
+export { FODMAPProgramCard } from './FODMAPProgramCard';
+export { PassphraseModal } from './PassphraseModal';
+export { AppLockGate } from './AppLockGate';
+export { NutrientIntakeModal } from './NutrientIntakeModal';
+export { BarcodeLookupModal } from './BarcodeLookupModal';
+export { RecipeImportModal } from './RecipeImportModal';
+export { RecipeExportModal } from './RecipeExportModal';
@@ -25,12 +25,7 @@ export function DatabaseProvider({ children }: { children: ReactNode }) {
       setIsReady(true);
     } catch (err) {
       console.error('Database initialization error:', err);
-      // On web, we use mock database, so just set ready
-      if (isWeb) {
-        setIsReady(true);
-      } else {
-        setError(err instanceof Error ? err : new Error('Unknown database error'));
-      }
+      setError(err instanceof Error ? err : new Error('Unknown database error'));
     }
   };
 
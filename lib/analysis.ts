@@ -0,0 +1,278 @@
+/**
+ * Everyday FODMAP - Analysis
+ *
+ * Aggregation queries over the diary for a date range (inclusive,
+ * YYYY-MM-DD). Shared by the analysis screen and the clinical report.
+ */
+
+import { getDatabase } from './database';
+import { TreatmentRepository } from './repositories';
+import { BristolType, FODMAPLevel } from './types';
+
+export interface PeriodStats {
+  meals: number;
+  water: number;
+  symptoms: number;
+  bowel: number;
+  avgSymptomIntensity: number;
+  avgBristol: number;
+}
+
+export interface SymptomSummary {
+  type: string;
+  count: number;
+  avgIntensity: number;
+}
+
+export interface DailyTrend {
+  date: string;
+  meals: number;
+  symptoms: number;
+  water: number;
+}
+
+export interface DailySymptomIntensity {
+  date: string;
+  count: number;
+  avgIntensity: number;
+  maxIntensity: number;
+}
+
+export interface BristolCount {
+  type: BristolType;
+  count: number;
+}
+
+export interface DailyFodmapLevels {
+  date: string;
+  counts: Record<FODMAPLevel, number>;
+  // Names of the medium and high items eaten that day
+  highlights: { name: string; level: 'medium' | 'high' }[];
+}
+
+export interface TreatmentAdherence {
+  treatment: string;
+  taken: number;
+  skipped: number;
+  // Taken out of the doses logged as taken or skipped, null with none logged
+  adherence: number | null;
+}
+
+export interface WeightEntry {
+  date: string;
+  time: string;
+  weightKg: number;
+}
+
+// ============================================================
+// DATES
+// ============================================================
+
+/**
+ * Every date between start and end (inclusive), in order
+ */
+export function getDatesInRange(startDate: string, endDate: string): string[] {
+  const dates: string[] = [];
+  const current = new Date(`${startDate}T00:00:00Z`);
+  const last = new Date(`${endDate}T00:00:00Z`);
+
+  while (current <= last) {
+    dates.push(current.toISOString().split('T')[0]);
+    current.setUTCDate(current.getUTCDate() + 1);
+  }
+  return dates;
+}
+
+// ============================================================
+// SUMMARY
+// ============================================================
+
+export async function getPeriodStats(startDate: string, endDate: string): Promise<PeriodStats> {
+  const db = await getDatabase();
+  const range = [startDate, endDate];
+
+  const [meals, water, symptoms, bowel] = await Promise.all([
+    db.getFirstAsync('SELECT COUNT(*) as count FROM meals WHERE date BETWEEN ? AND ?', range),
+    db.getFirstAsync('SELECT COALESCE(SUM(glasses), 0) as total FROM water_intake WHERE date BETWEEN ? AND ?', range),
+    db.getFirstAsync(
+      'SELECT COUNT(*) as count, COALESCE(AVG(intensity), 0) as avg FROM symptoms WHERE date BETWEEN ? AND ?',
+      range
+    ),
+    db.getFirstAsync(
+      'SELECT COUNT(*) as count, COALESCE(AVG(bristol_type), 0) as avg FROM bowel_movements WHERE date BETWEEN ? AND ?',
+      range
+    ),
+  ]);
+
+  return {
+    meals: meals?.count || 0,
+    water: water?.total || 0,
+    symptoms: symptoms?.count || 0,
+    bowel: bowel?.count || 0,
+    avgSymptomIntensity: symptoms?.avg || 0,
+    avgBristol: bowel?.avg || 0,
+  };
+}
+
+export async function getTopSymptoms(startDate: string, endDate: string, limit = 5): Promise<SymptomSummary[]> {
+  const db = await getDatabase();
+  const rows = await db.getAllAsync(
+    `SELECT type, COUNT(*) as count, AVG(intensity) as avg_intensity
+     FROM symptoms WHERE date BETWEEN ? AND ?
+     GROUP BY type ORDER BY count DESC LIMIT ?`,
+    [startDate, endDate, limit]
+  );
+
+  return rows.map((row: any) => ({
+    type: row.type,
+    count: row.count || 0,
+    avgIntensity: row.avg_intensity || 0,
+  }));
+}
+
+/**
+ * Meals, symptoms and water per day, including days with nothing logged
+ */
+export async function getDailyTrends(startDate: string, endDate: string): Promise<DailyTrend[]> {
+  const db = await getDatabase();
+  const range = [startDate, endDate];
+
+  const [meals, symptoms, water] = await Promise.all([
+    db.getAllAsync('SELECT date, COUNT(*) as value FROM meals WHERE date BETWEEN ? AND ? GROUP BY date', range),
+    db.getAllAsync('SELECT date, COUNT(*) as value FROM symptoms WHERE date BETWEEN ? AND ? GROUP BY date', range),
+    db.getAllAsync(
+      'SELECT date, COALESCE(SUM(glasses), 0) as value FROM water_intake WHERE date BETWEEN ? AND ? GROUP BY date',
+      range
+    ),
+  ]);
+
+  const byDate = (rows: any[]) => new Map<string, number>(rows.map(row => [row.date, row.value || 0]));
+  const mealsByDate = byDate(meals);
+  const symptomsByDate = byDate(symptoms);
+  const waterByDate = byDate(water);
+
+  return getDatesInRange(startDate, endDate).map(date => ({
+    date,
+    meals: mealsByDate.get(date) || 0,
+    symptoms: symptomsByDate.get(date) || 0,
+    water: waterByDate.get(date) || 0,
+  }));
+}
+
+// ============================================================
+// CLINICAL DETAIL
+// ============================================================
+
+/**
+ * Symptom count and intensity per day, including days without symptoms
+ */
+export async function getDailySymptomIntensity(startDate: string, endDate: string): Promise<DailySymptomIntensity[]> {
+  const db = await getDatabase();
+  const rows = await db.getAllAsync(
+    `SELECT date, COUNT(*) as count, AVG(intensity) as avg_intensity, MAX(intensity) as max_intensity
+     FROM symptoms WHERE date BETWEEN ? AND ? GROUP BY date`,
+    [startDate, endDate]
+  );
+  const byDate = new Map<string, any>(rows.map((row: any) => [row.date, row]));
+
+  return getDatesInRange(startDate, endDate).map(date => {
+    const row = byDate.get(date);
+    return {
+      date,
+      count: row?.count || 0,
+      avgIntensity: row?.avg_intensity || 0,
+      maxIntensity: row?.max_intensity || 0,
+    };
+  });
+}
+
+/**
+ * Bowel movements per Bristol type, all seven types in order
+ */
+export async function getBristolDistribution(startDate: string, endDate: string): Promise<BristolCount[]> {
+  const db = await getDatabase();
+  const rows = await db.getAllAsync(
+    'SELECT bristol_type, COUNT(*) as count FROM bowel_movements WHERE date BETWEEN ? AND ? GROUP BY bristol_type',
+    [startDate, endDate]
+  );
+  const byType = new Map<number, number>(rows.map((row: any) => [row.bristol_type, row.count]));
+
+  return ([1, 2, 3, 4, 5, 6, 7] as BristolType[]).map(type => ({
+    type,
+    count: byType.get(type) || 0,
+  }));
+}
+
+/**
+ * FODMAP level of every meal item eaten, per day
+ */
+export async function getDailyFodmapLevels(startDate: string, endDate: string): Promise<DailyFodmapLevels[]> {
+  const db = await getDatabase();
+  const rows = await db.getAllAsync(
+    `SELECT m.date, mi.name, mi.fodmap_level
+     FROM meal_items mi
+     JOIN meals m ON mi.meal_id = m.id
+     WHERE m.date BETWEEN ? AND ?
+     ORDER BY m.date, m.time`,
+    [startDate, endDate]
+  );
+
+  const days = new Map<string, DailyFodmapLevels>(
+    getDatesInRange(startDate, endDate).map(date => [date, {
+      date,
+      counts: { low: 0, medium: 0, high: 0, unknown: 0 },
+      highlights: [],
+    }])
+  );
+
+  for (const row of rows) {
+    const day = days.get(row.date);
+    if (!day) continue;
+
+    const level: FODMAPLevel = row.fodmap_level in day.counts ? row.fodmap_level : 'unknown';
+    day.counts[level]++;
+    if ((level === 'medium' || level === 'high') && row.name
+        && !day.highlights.some(item => item.name === row.name)) {
+      day.highlights.push({ name: row.name, level });
+    }
+  }
+
+  return Array.from(days.values());
+}
+
+/**
+ * Doses taken and skipped per treatment, from the treatment logs
+ */
+export async function getTreatmentAdherence(startDate: string, endDate: string): Promise<TreatmentAdherence[]> {
+  const logs = await TreatmentRepository.getLogsByDateRange(startDate, endDate);
+  const byTreatment = new Map<string, TreatmentAdherence>();
+
+  for (const log of logs) {
+    const name = log.treatment_name || `Tratamiento ${log.treatment_id}`;
+    const entry = byTreatment.get(name) || { treatment: name, taken: 0, skipped: 0, adherence: null };
+    if (log.taken) entry.taken++;
+    else if (log.skipped) entry.skipped++;
+    byTreatment.set(name, entry);
+  }
+
+  return Array.from(byTreatment.values())
+    .map(entry => ({
+      ...entry,
+      adherence: entry.taken + entry.skipped > 0 ? entry.taken / (entry.taken + entry.skipped) : null,
+    }))
+    .sort((a, b) => a.treatment.localeCompare(b.treatment));
+}
+
+export async function getWeightTrend(startDate: string, endDate: string): Promise<WeightEntry[]> {
+  const db = await getDatabase();
+  const rows = await db.getAllAsync(
+    'SELECT date, time, weight_kg FROM weight_logs WHERE date BETWEEN ? AND ? ORDER BY date, time',
+    [startDate, endDate]
+  );
+
+  return rows.map((row: any) => ({
+    date: row.date,
+    time: row.time,
+    weightKg: row.weight_kg,
+  }));
+}
@@ -0,0 +1,53 @@
+/**
+ * Everyday FODMAP - App Lock
+ *
+ * Optional passcode asked when the app is opened. Only a scrypt verifier of
+ * the passcode is kept, in secure storage; the passcode itself is never
+ * stored.
+ */
+
+import { equalBytes } from '@noble/ciphers/utils';
+import { deriveKey, fromBase64, KdfParams, toBase64 } from './encryption';
+import { deleteSecureItem, getSecureItem, setSecureItem } from './secure-storage';
+
+export const MIN_APP_LOCK_PASSCODE_LENGTH = 4;
+
+const APP_LOCK_ITEM = 'app_lock';
+
+interface StoredAppLock {
+  kdf: KdfParams;
+  verifier: string; // base64
+}
+
+async function getStoredAppLock(): Promise<StoredAppLock | null> {
+  const stored = await getSecureItem(APP_LOCK_ITEM);
+  if (!stored) return null;
+
+  try {
+    return JSON.parse(stored);
+  } catch (error) {
+    console.error('[AppLock] Invalid stored lock:', error);
+    return null;
+  }
+}
+
+export async function isAppLockEnabled(): Promise<boolean> {
+  return (await getStoredAppLock()) !== null;
+}
+
+export async function enableAppLock(passcode: string): Promise<void> {
+  const { kdf, key } = await deriveKey(passcode);
+  await setSecureItem(APP_LOCK_ITEM, JSON.stringify({ kdf, verifier: toBase64(key) }));
+}
+
+export async function disableAppLock(): Promise<void> {
+  await deleteSecureItem(APP_LOCK_ITEM);
+}
+
+export async function verifyAppLockPasscode(passcode: string): Promise<boolean> {
+  const stored = await getStoredAppLock();
+  if (!stored) return true;
+
+  const { key } = await deriveKey(passcode, stored.kdf);
+  return equalBytes(key, fromBase64(stored.verifier));
+}
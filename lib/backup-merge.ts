@@ -0,0 +1,319 @@
+/**
+ * Everyday FODMAP - Backup Merge
+ *
+ * Imports a backup on top of the existing data instead of replacing it, e.g.
+ * to combine the history of the phone and the web app. Rows are matched by
+ * their natural key (BackupTable.naturalKey) instead of by id, so the same
+ * symptom or food recorded on both sides ends up as one record. Each local
+ * row matches at most one backup row, so rows that share a key (two glasses
+ * of water logged in the same minute) are all kept.
+ *
+ * Every row of the backup is classified as:
+ * - added: no local row with the same key (or fewer than in the backup), it
+ *   is inserted
+ * - updated: same key, the backup only fills columns that are empty here
+ * - conflict: same key and both sides have different values; the side
+ *   chosen for the row's category wins
+ * - unchanged: same key and same values
+ *
+ * Empty values in the backup never erase local data.
+ */
+
+import { BACKUP_TABLES, Backup, BackupCategory, BackupRow, BackupTable, validateBackup } from './backup';
+import { getDatabase } from './database';
+import { getColumnNames } from './migrations';
+
+export type MergeSide = 'local' | 'backup';
+
+// Winning side per category when a record differs. Defaults to 'local'.
+export type MergeWinners = Partial<Record<BackupCategory, MergeSide>>;
+
+export interface MergeSummary {
+  category: BackupCategory;
+  label: string;
+  added: number;
+  updated: number;
+  conflicts: number;
+  unchanged: number;
+  // Readable keys of the first conflicting records
+  examples: string[];
+}
+
+export const MERGE_CATEGORY_LABELS: Record<BackupCategory, string> = {
+  settings: 'Ajustes y perfil',
+  foods: 'Alimentos',
+  recipes: 'Recetas',
+  meals: 'Comidas',
+  water: 'Agua',
+  treatments: 'Tratamientos',
+  symptoms: 'Síntomas y deposiciones',
+  activities: 'Actividad física',
+  program: 'Programa FODMAP',
+};
+
+// Bookkeeping columns, never compared
+const IGNORED_COLUMNS = new Set(['id', 'created_at', 'updated_at']);
+
+const MAX_EXAMPLES = 3;
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || value === '';
+}
+
+function normalizeKeyValue(value: unknown): unknown {
+  if (isEmpty(value)) return null;
+  return typeof value === 'string' ? value.trim() : value;
+}
+
+function naturalKeyOf(table: BackupTable, row: Record<string, unknown>): string {
+  return JSON.stringify(table.naturalKey.map(column => normalizeKeyValue(row[column])));
+}
+
+// Key values without ids, for showing a record to the user
+function describeRow(table: BackupTable, row: Record<string, unknown>): string {
+  return table.naturalKey
+    .filter(column => !table.references?.[column] && !isEmpty(row[column]))
+    .map(column => String(row[column]))
+    .join(' · ');
+}
+
+function selfReferenceColumns(table: BackupTable): string[] {
+  return Object.entries(table.references || {})
+    .filter(([, target]) => target === table.name)
+    .map(([column]) => column);
+}
+
+// Parents before children, so self references in the natural key
+// (folders.parent_id) are already mapped when a row is matched
+function parentsFirst(table: BackupTable, rows: BackupRow[]): BackupRow[] {
+  const columns = selfReferenceColumns(table);
+  if (columns.length === 0) return rows;
+
+  const ids = new Set(rows.map(row => row.id));
+  const placed = new Set<unknown>();
+  const ordered: BackupRow[] = [];
+  let pending = rows;
+
+  while (pending.length > 0) {
+    const ready = pending.filter(row =>
+      columns.every(column => isEmpty(row[column]) || !ids.has(row[column]) || placed.has(row[column]))
+    );
+    // Cycle: keep the rest as is, their references are set afterwards
+    if (ready.length === 0) {
+      ordered.push(...pending);
+      break;
+    }
+    for (const row of ready) {
+      ordered.push(row);
+      placed.add(row.id);
+    }
+    pending = pending.filter(row => !ready.includes(row));
+  }
+  return ordered;
+}
+
+// ============================================================
+// MERGE
+// ============================================================
+
+/**
+ * Walk the backup table by table, matching rows by natural key.
+ * With winners = null nothing is written (preview); new rows get negative
+ * placeholder ids so the rows pointing at them are still counted correctly.
+ */
+async function mergeTables(db: any, backup: Backup, winners: MergeWinners | null): Promise<MergeSummary[]> {
+  const dryRun = winners === null;
+  const summaries = new Map<BackupCategory, MergeSummary>();
+  const idMaps = new Map<string, Map<number, number>>();
+  let placeholderId = 0;
+  const backupIds = new Map(
+    BACKUP_TABLES.map(table => [table.name, new Set((backup.tables[table.name] || []).map(row => row.id))])
+  );
+
+  const summaryFor = (category: BackupCategory): MergeSummary => {
+    let summary = summaries.get(category);
+    if (!summary) {
+      summary = {
+        category,
+        label: MERGE_CATEGORY_LABELS[category],
+        added: 0,
+        updated: 0,
+        conflicts: 0,
+        unchanged: 0,
+        examples: [],
+      };
+      summaries.set(category, summary);
+    }
+    return summary;
+  };
+
+  // Old id -> local id. undefined = row of this table not processed yet.
+  // Legacy backups may point at catalog rows that were not exported; keep
+  // the reference if the row exists here, otherwise drop it.
+  const resolveReference = async (target: string, oldId: number): Promise<number | null | undefined> => {
+    const mapped = idMaps.get(target)?.get(oldId);
+    if (mapped !== undefined) return mapped;
+    if (backupIds.get(target)?.has(oldId)) return undefined;
+
+    const existing = await db.getFirstAsync(`SELECT id FROM ${target} WHERE id = ?`, [oldId]);
+    return existing ? oldId : null;
+  };
+
+  const writeColumns = async (table: BackupTable, local: BackupRow, values: Record<string, unknown>, columns: string[]) => {
+    if (dryRun || columns.length === 0) return;
+    const where = table.key === 'id' ? ['id'] : table.naturalKey;
+    await db.runAsync(
+      `UPDATE ${table.name} SET ${columns.map(column => `${column} = ?`).join(', ')} WHERE ${where.map(column => `${column} = ?`).join(' AND ')}`,
+      [...columns.map(column => values[column]), ...where.map(column => local[column])]
+    );
+  };
+
+  for (const table of BACKUP_TABLES) {
+    const idMap = new Map<number, number>();
+    idMaps.set(table.name, idMap);
+    const rows = backup.tables[table.name];
+    if (!rows || rows.length === 0) continue;
+
+    const summary = summaryFor(table.category);
+    const winner = winners?.[table.category] ?? 'local';
+    const columns = new Set(await getColumnNames(db, table.name));
+
+    // Local rows not matched yet, per key; each one is consumed by a match
+    const localByKey = new Map<string, BackupRow[]>();
+    for (const row of await db.getAllAsync(`SELECT * FROM ${table.name}`)) {
+      const key = naturalKeyOf(table, row);
+      localByKey.set(key, [...(localByKey.get(key) || []), row]);
+    }
+
+    // Self references of inserted rows that could not be mapped yet
+    const pendingReferences: { id: number; column: string; oldId: number }[] = [];
+
+    for (const row of parentsFirst(table, rows)) {
+      const values: Record<string, unknown> = {};
+      for (const [column, value] of Object.entries(row)) {
+        if (columns.has(column) && !(table.key === 'id' && column === 'id')) {
+          values[column] = value;
+        }
+      }
+
+      const deferred: { column: string; oldId: number }[] = [];
+      for (const [column, target] of Object.entries(table.references || {})) {
+        const oldId = values[column];
+        if (oldId === null || oldId === undefined) continue;
+        const mapped = await resolveReference(target, oldId as number);
+        if (mapped === undefined) {
+          deferred.push({ column, oldId: oldId as number });
+          delete values[column];
+        } else {
+          values[column] = mapped;
+        }
+      }
+
+      const local = localByKey.get(naturalKeyOf(table, values))?.shift();
+
+      if (!local) {
+        summary.added++;
+        let newId = --placeholderId;
+        if (!dryRun) {
+          const keys = Object.keys(values);
+          const result = await db.runAsync(
+            keys.length > 0
+              ? `INSERT INTO ${table.name} (${keys.join(', ')}) VALUES (${keys.map(() => '?').join(', ')})`
+              : `INSERT INTO ${table.name} DEFAULT VALUES`,
+            Object.values(values)
+          );
+          newId = result.lastInsertRowId;
+        }
+        if (table.key === 'id') {
+          idMap.set(row.id as number, newId);
+          for (const ref of deferred) {
+            pendingReferences.push({ id: newId, ...ref });
+          }
+        }
+        continue;
+      }
+
+      if (table.key === 'id') {
+        idMap.set(row.id as number, local.id as number);
+      }
+
+      const changed = Object.keys(values).filter(column =>
+        !IGNORED_COLUMNS.has(column) &&
+        !table.naturalKey.includes(column) &&
+        !isEmpty(values[column]) &&
+        values[column] !== local[column]
+      );
+
+      if (changed.length === 0) {
+        summary.unchanged++;
+      } else if (changed.every(column => isEmpty(local[column]))) {
+        summary.updated++;
+        await writeColumns(table, local, values, changed);
+      } else {
+        summary.conflicts++;
+        if (summary.examples.length < MAX_EXAMPLES) {
+          summary.examples.push(describeRow(table, values));
+        }
+        if (winner === 'backup') {
+          await writeColumns(table, local, values, changed);
+        } else {
+          // Local wins, but empty local columns are still filled in
+          await writeColumns(table, local, values, changed.filter(column => isEmpty(local[column])));
+        }
+      }
+    }
+
+    if (!dryRun) {
+      for (const ref of pendingReferences) {
+        await db.runAsync(
+          `UPDATE ${table.name} SET ${ref.column} = ? WHERE id = ?`,
+          [idMap.get(ref.oldId) ?? null, ref.id]
+        );
+      }
+    }
+  }
+
+  return [...summaries.values()];
+}
+
+async function validOrThrow(data: unknown): Promise<Backup> {
+  const { valid, errors, backup } = await validateBackup(data);
+  if (!valid || !backup) {
+    throw new Error(errors.slice(0, 5).join('\n'));
+  }
+  return backup;
+}
+
+/**
+ * Count what merging a backup would add, update and conflict with, per
+ * category, without writing anything
+ */
+export async function previewMerge(data: unknown): Promise<MergeSummary[]> {
+  const backup = await validOrThrow(data);
+  const db = await getDatabase();
+  return mergeTables(db, backup, null);
+}
+
+/**
+ * Merge a backup into the local data in a single transaction.
+ * Throws (and leaves the database untouched) if the backup is invalid or any
+ * write fails.
+ */
+export async function mergeBackup(data: unknown, winners: MergeWinners): Promise<MergeSummary[]> {
+  const backup = await validOrThrow(data);
+  const db = await getDatabase();
+
+  let summaries: MergeSummary[] = [];
+  await db.withTransactionAsync(async () => {
+    summaries = await mergeTables(db, backup, winners);
+  });
+
+  const total = (field: 'added' | 'updated' | 'conflicts') =>
+    summaries.reduce((sum, summary) => sum + summary[field], 0);
+  console.log(`[Backup] Merged: ${total('added')} added, ${total('updated')} updated, ${total('conflicts')} conflicts`);
+  return summaries;
+}
@@ -0,0 +1,445 @@
+/**
+ * Everyday FODMAP - Backup & Restore
+ *
+ * Versioned JSON snapshot of every table, exported as raw rows so restoring
+ * gives back exactly the same data (JSON columns stay as stored text).
+ *
+ * Restoring validates the whole file against the local schema first, then
+ * replaces the data in a single transaction. Rows get new IDs on insert and
+ * every foreign key is rewritten through an old -> new ID map.
+ */
+
+import { getDatabase } from './database';
+import { getColumnNames, getSchemaVersion, LATEST_SCHEMA_VERSION } from './migrations';
+
+export const BACKUP_FORMAT = 'everyday-fodmap-backup';
+export const BACKUP_VERSION = 2;
+
+export type BackupRow = Record<string, string | number | null>;
+
+export interface Backup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  schemaVersion: number;
+  exportDate: string;
+  // 'full': every row of every table. 'user': legacy v1 export without the
+  // built-in catalog (internal foods/recipes, default activity types)
+  scope: 'full' | 'user';
+  tables: Record<string, BackupRow[]>;
+}
+
+export interface BackupTable {
+  name: string;
+  // 'id': INTEGER PRIMARY KEY, reassigned on restore
+  // 'fixed': primary key kept as is (key/value, singleton and junction tables)
+  key: 'id' | 'fixed';
+  // Foreign key column -> referenced table
+  references?: Record<string, string>;
+  // Rows owned by the user, replaced when restoring a 'user' backup.
+  // Omitted = every row.
+  userRows?: string;
+  // Columns that identify the same record on another device, used when
+  // merging. Foreign keys in it are compared after remapping.
+  naturalKey: string[];
+  // Group shown to the user when merging
+  category: BackupCategory;
+}
+
+export type BackupCategory =
+  | 'settings'
+  | 'foods'
+  | 'recipes'
+  | 'meals'
+  | 'water'
+  | 'treatments'
+  | 'symptoms'
+  | 'activities'
+  | 'program';
+
+// ============================================================
+// TABLES
+// ============================================================
+
+// In restore order: referenced tables come before the tables pointing at them.
+// New tables must be added here to be included in backups.
+export const BACKUP_TABLES: BackupTable[] = [
+  { name: 'settings', key: 'fixed', naturalKey: ['key'], category: 'settings' },
+  { name: 'user_profile', key: 'fixed', naturalKey: ['id'], category: 'settings' },
+  { name: 'weight_logs', key: 'id', naturalKey: ['date', 'time'], category: 'settings' },
+  { name: 'default_meals', key: 'id', naturalKey: ['day_of_week', 'meal_type'], category: 'settings' },
+  { name: 'ingredients', key: 'id', naturalKey: ['name'], category: 'foods' },
+  { name: 'tags', key: 'id', naturalKey: ['name'], category: 'foods' },
+  {
+    name: 'folders',
+    key: 'id',
+    references: { parent_id: 'folders' },
+    naturalKey: ['name', 'parent_id'],
+    category: 'foods',
+  },
+  {
+    name: 'foods',
+    key: 'id',
+    references: { folder_id: 'folders' },
+    userRows: "source = 'user'",
+    naturalKey: ['name', 'source_id'],
+    category: 'foods',
+  },
+  {
+    name: 'food_components',
+    key: 'id',
+    references: { parent_food_id: 'foods', component_food_id: 'foods' },
+    userRows: "parent_food_id IN (SELECT id FROM foods WHERE source = 'user')",
+    naturalKey: ['parent_food_id', 'component_food_id', 'name'],
+    category: 'foods',
+  },
+  {
+    name: 'food_tags',
+    key: 'fixed',
+    references: { food_id: 'foods', tag_id: 'tags' },
+    naturalKey: ['food_id', 'tag_id'],
+    category: 'foods',
+  },
+  {
+    name: 'recipes',
+    key: 'id',
+    references: { folder_id: 'folders', original_recipe_id: 'recipes' },
+    userRows: "source = 'user' OR source IS NULL",
+    naturalKey: ['name', 'source_id'],
+    category: 'recipes',
+  },
+  {
+    name: 'recipe_steps',
+    key: 'id',
+    references: { recipe_id: 'recipes' },
+    userRows: "recipe_id IN (SELECT id FROM recipes WHERE source = 'user' OR source IS NULL)",
+    naturalKey: ['recipe_id', 'step_order'],
+    category: 'recipes',
+  },
+  {
+    name: 'recipe_ingredients',
+    key: 'id',
+    references: { recipe_id: 'recipes', food_id: 'foods' },
+    userRows: "recipe_id IN (SELECT id FROM recipes WHERE source = 'user' OR source IS NULL)",
+    naturalKey: ['recipe_id', 'name'],
+    category: 'recipes',
+  },
+  {
+    name: 'recipe_tags',
+    key: 'fixed',
+    references: { recipe_id: 'recipes', tag_id: 'tags' },
+    naturalKey: ['recipe_id', 'tag_id'],
+    category: 'recipes',
+  },
+  { name: 'meals', key: 'id', naturalKey: ['date', 'time', 'meal_type'], category: 'meals' },
+  {
+    name: 'meal_items',
+    key: 'id',
+    references: { meal_id: 'meals', food_id: 'foods', recipe_id: 'recipes' },
+    naturalKey: ['meal_id', 'food_id', 'recipe_id', 'name'],
+    category: 'meals',
+  },
+  { name: 'water_intake', key: 'id', naturalKey: ['date', 'time'], category: 'water' },
+  { name: 'treatments', key: 'id', naturalKey: ['name'], category: 'treatments' },
+  {
+    name: 'treatment_logs',
+    key: 'id',
+    references: { treatment_id: 'treatments' },
+    naturalKey: ['treatment_id', 'date', 'time'],
+    category: 'treatments',
+  },
+  {
+    name: 'symptoms',
+    key: 'id',
+    references: { meal_id: 'meals', treatment_id: 'treatments' },
+    naturalKey: ['date', 'time', 'type'],
+    category: 'symptoms',
+  },
+  { name: 'bowel_movements', key: 'id', naturalKey: ['date', 'time'], category: 'symptoms' },
+  { name: 'activity_types', key: 'id', userRows: 'is_custom = 1', naturalKey: ['name'], category: 'activities' },
+  {
+    name: 'scheduled_activities',
+    key: 'id',
+    references: { activity_type_id: 'activity_types' },
+    naturalKey: ['activity_type_id', 'name', 'start_date'],
+    category: 'activities',
+  },
+  {
+    name: 'activity_logs',
+    key: 'id',
+    references: { activity_type_id: 'activity_types', scheduled_activity_id: 'scheduled_activities' },
+    naturalKey: ['activity_type_id', 'date', 'time'],
+    category: 'activities',
+  },
+  {
+    name: 'scheduled_activity_logs',
+    key: 'id',
+    references: { scheduled_activity_id: 'scheduled_activities' },
+    naturalKey: ['scheduled_activity_id', 'date'],
+    category: 'activities',
+  },
+  { name: 'fodmap_programs', key: 'id', naturalKey: ['elimination_start'], category: 'program' },
+  {
+    name: 'fodmap_challenges',
+    key: 'id',
+    references: { program_id: 'fodmap_programs' },
+    naturalKey: ['program_id', 'subgroup', 'start_date'],
+    category: 'program',
+  },
+];
+
+// ============================================================
+// EXPORT
+// ============================================================
+
+/**
+ * Snapshot every table into a backup object
+ */
+export async function createBackup(): Promise<Backup> {
+  const db = await getDatabase();
+  const tables: Record<string, BackupRow[]> = {};
+
+  for (const table of BACKUP_TABLES) {
+    tables[table.name] = await db.getAllAsync(`SELECT * FROM ${table.name}`);
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    schemaVersion: await getSchemaVersion(db),
+    exportDate: new Date().toISOString(),
+    scope: 'full',
+    tables,
+  };
+}
+
+export function countBackupRows(backup: Backup): number {
+  return Object.values(backup.tables).reduce((total, rows) => total + rows.length, 0);
+}
+
+// ============================================================
+// VALIDATION
+// ============================================================
+
+// v1 exports (version '1.0.0') had the user tables at the top level
+function fromLegacyBackup(data: Record<string, unknown>): Backup {
+  const tables: Record<string, BackupRow[]> = {};
+  for (const table of BACKUP_TABLES) {
+    if (data[table.name] !== undefined) {
+      tables[table.name] = data[table.name] as BackupRow[];
+    }
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    version: 1,
+    schemaVersion: 0,
+    exportDate: typeof data.exportDate === 'string' ? data.exportDate : '',
+    scope: 'user',
+    tables,
+  };
+}
+
+/**
+ * Check a parsed backup file against the local schema without writing anything.
+ * Returns the normalized backup when valid.
+ */
+export async function validateBackup(data: unknown): Promise<{ valid: boolean; errors: string[]; backup?: Backup }> {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return { valid: false, errors: ['El archivo no es una copia de seguridad'] };
+  }
+
+  const raw = data as Record<string, unknown>;
+  let backup: Backup;
+  if (raw.format === BACKUP_FORMAT) {
+    backup = raw as unknown as Backup;
+  } else if (raw.version === '1.0.0' && raw.exportDate) {
+    backup = fromLegacyBackup(raw);
+  } else {
+    return { valid: false, errors: ['El archivo no es una copia de seguridad'] };
+  }
+
+  if (typeof backup.version !== 'number' || backup.version > BACKUP_VERSION) {
+    return { valid: false, errors: ['La copia se creó con una versión más reciente de la app'] };
+  }
+  if (typeof backup.schemaVersion !== 'number' || backup.schemaVersion > LATEST_SCHEMA_VERSION) {
+    return { valid: false, errors: ['La copia se creó con una versión más reciente de la base de datos'] };
+  }
+  if (backup.scope !== 'full' && backup.scope !== 'user') {
+    return { valid: false, errors: ['Tipo de copia de seguridad desconocido'] };
+  }
+  if (!backup.tables || typeof backup.tables !== 'object') {
+    return { valid: false, errors: ['La copia no contiene tablas'] };
+  }
+
+  const errors: string[] = [];
+  const knownTables = new Set(BACKUP_TABLES.map(t => t.name));
+  for (const name of Object.keys(backup.tables)) {
+    if (!knownTables.has(name)) errors.push(`Tabla desconocida: ${name}`);
+  }
+
+  const db = await getDatabase();
+  const idsByTable = new Map<string, Set<number>>();
+
+  for (const table of BACKUP_TABLES) {
+    const rows = backup.tables[table.name];
+    if (rows === undefined) continue;
+    if (!Array.isArray(rows)) {
+      errors.push(`${table.name}: se esperaba una lista de filas`);
+      continue;
+    }
+
+    const columns = new Set(await getColumnNames(db, table.name));
+    const ids = new Set<number>();
+    idsByTable.set(table.name, ids);
+
+    rows.forEach((row, index) => {
+      const at = `${table.name}[${index}]`;
+      if (!row || typeof row !== 'object' || Array.isArray(row)) {
+        errors.push(`${at}: fila no válida`);
+        return;
+      }
+
+      for (const [column, value] of Object.entries(row)) {
+        // Legacy exports may carry columns that no longer exist; they are dropped
+        if (!columns.has(column)) {
+          if (backup.scope === 'full') errors.push(`${at}: columna desconocida "${column}"`);
+          continue;
+        }
+        if (value !== null && typeof value !== 'string' && typeof value !== 'number') {
+          errors.push(`${at}.${column}: valor no válido`);
+        }
+      }
+
+      if (table.key === 'id') {
+        const id = row.id;
+        if (typeof id !== 'number' || !Number.isInteger(id)) {
+          errors.push(`${at}: falta el id`);
+        } else if (ids.has(id)) {
+          errors.push(`${at}: id ${id} duplicado`);
+        } else {
+          ids.add(id);
+        }
+      }
+    });
+  }
+
+  // In a full backup every foreign key must point at a row of the same backup
+  if (backup.scope === 'full') {
+    for (const table of BACKUP_TABLES) {
+      const rows = backup.tables[table.name];
+      if (!Array.isArray(rows)) continue;
+
+      for (const [column, target] of Object.entries(table.references || {})) {
+        const targetIds = idsByTable.get(target) || new Set<number>();
+        rows.forEach((row, index) => {
+          const value = row?.[column];
+          if (value !== null && value !== undefined && !targetIds.has(value as number)) {
+            errors.push(`${table.name}[${index}].${column}: no existe ${target} con id ${value}`);
+          }
+        });
+      }
+    }
+  }
+
+  return { valid: errors.length === 0, errors, backup };
+}
+
+// ============================================================
+// RESTORE
+// ============================================================
+
+/**
+ * Replace the local data with a backup.
+ * Throws (and leaves the database untouched) if the backup is invalid or any
+ * insert fails. Returns the number of restored rows.
+ */
+export async function restoreBackup(data: unknown): Promise<number> {
+  const { valid, errors, backup } = await validateBackup(data);
+  if (!valid || !backup) {
+    throw new Error(errors.slice(0, 5).join('\n'));
+  }
+
+  const db = await getDatabase();
+  const isFull = backup.scope === 'full';
+  const idMaps = new Map<string, Map<number, number>>();
+  let restored = 0;
+
+  // Legacy backups may point at catalog rows that were not exported; keep the
+  // reference if the row exists here, otherwise drop it
+  const resolveReference = async (target: string, oldId: number): Promise<number | null> => {
+    const newId = idMaps.get(target)?.get(oldId);
+    if (newId !== undefined) return newId;
+    if (isFull) throw new Error(`No existe ${target} con id ${oldId}`);
+
+    const existing = await db.getFirstAsync(`SELECT id FROM ${target} WHERE id = ?`, [oldId]);
+    return existing ? oldId : null;
+  };
+
+  await db.withTransactionAsync(async () => {
+    // Children first, so ON DELETE actions have nothing left to do
+    for (const table of [...BACKUP_TABLES].reverse()) {
+      if (isFull) {
+        await db.runAsync(`DELETE FROM ${table.name}`);
+      } else if (backup.tables[table.name] !== undefined) {
+        await db.runAsync(`DELETE FROM ${table.name}${table.userRows ? ` WHERE ${table.userRows}` : ''}`);
+      }
+    }
+
+    for (const table of BACKUP_TABLES) {
+      const rows = backup.tables[table.name] || [];
+      const columns = new Set(await getColumnNames(db, table.name));
+      const idMap = new Map<number, number>();
+      idMaps.set(table.name, idMap);
+      // Self references (folders.parent_id, recipes.original_recipe_id) are set
+      // once every row of the table has its new id
+      const selfReferences: { id: number; column: string; oldId: number }[] = [];
+
+      for (const row of rows) {
+        const values: Record<string, unknown> = {};
+        for (const [column, value] of Object.entries(row)) {
+          if (columns.has(column) && !(table.key === 'id' && column === 'id')) {
+            values[column] = value;
+          }
+        }
+
+        const selfColumns: { column: string; oldId: number }[] = [];
+        for (const [column, target] of Object.entries(table.references || {})) {
+          const oldId = values[column];
+          if (oldId === null || oldId === undefined) continue;
+          if (target === table.name) {
+            selfColumns.push({ column, oldId: oldId as number });
+            values[column] = null;
+          } else {
+            values[column] = await resolveReference(target, oldId as number);
+          }
+        }
+
+        const keys = Object.keys(values);
+        const result = await db.runAsync(
+          keys.length > 0
+            ? `INSERT INTO ${table.name} (${keys.join(', ')}) VALUES (${keys.map(() => '?').join(', ')})`
+            : `INSERT INTO ${table.name} DEFAULT VALUES`,
+          Object.values(values)
+        );
+        restored++;
+
+        if (table.key === 'id') {
+          idMap.set(row.id as number, result.lastInsertRowId);
+          for (const ref of selfColumns) {
+            selfReferences.push({ id: result.lastInsertRowId, ...ref });
+          }
+        }
+      }
+
+      for (const ref of selfReferences) {
+        await db.runAsync(
+          `UPDATE ${table.name} SET ${ref.column} = ? WHERE id = ?`,
+          [await resolveReference(table.name, ref.oldId), ref.id]
+        );
+      }
+    }
+  });
+
+  console.log(`[Backup] Restored ${restored} rows (${backup.scope}, v${backup.version})`);
+  return restored;
+}
@@ -0,0 +1,411 @@
+/**
+ * Everyday FODMAP - Clinical Report
+ *
+ * "Informe para el especialista": a single self-contained HTML page (inline
+ * CSS and SVG, no external resources) summarising a date range for a
+ * gastroenterology appointment. It prints cleanly to A4, so saving it as PDF
+ * is done from the print dialog.
+ */
+
+import {
+  BristolCount,
+  DailyFodmapLevels,
+  DailySymptomIntensity,
+  getBristolDistribution,
+  getDailyFodmapLevels,
+  getDailySymptomIntensity,
+  getPeriodStats,
+  getTopSymptoms,
+  getTreatmentAdherence,
+  getWeightTrend,
+  PeriodStats,
+  SymptomSummary,
+  TreatmentAdherence,
+  WeightEntry,
+} from './analysis';
+import { CORRELATION_CONFIDENCE_LABELS, CorrelationResult, getFoodCorrelations } from './correlation';
+import { BRISTOL_SCALE, FODMAP_LEVEL_LABELS, FODMAPLevel } from './types';
+
+export interface ClinicalReport {
+  name: string;
+  html: string;
+}
+
+const FODMAP_LEVEL_COLORS: Record<FODMAPLevel, string> = {
+  low: '#22C55E',
+  medium: '#F59E0B',
+  high: '#EF4444',
+  unknown: '#9CA3AF',
+};
+
+const PRIMARY_COLOR = '#2E7D32';
+const INTENSITY_COLOR = '#EF4444';
+
+const STYLES = `
+  * { box-sizing: border-box; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+  body { font-family: -apple-system, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; color: #1F2937; margin: 0 auto; padding: 24px; max-width: 800px; font-size: 13px; line-height: 1.4; }
+  h1 { font-size: 22px; color: ${PRIMARY_COLOR}; margin: 0 0 4px; }
+  h2 { font-size: 16px; color: ${PRIMARY_COLOR}; border-bottom: 2px solid ${PRIMARY_COLOR}; padding-bottom: 4px; margin: 28px 0 12px; }
+  .subtitle { color: #6B7280; margin: 0; }
+  .note { color: #6B7280; font-size: 11px; margin: 6px 0 0; }
+  .empty { color: #6B7280; font-style: italic; }
+  .stats { display: flex; flex-wrap: wrap; gap: 8px; }
+  .stat { flex: 1 1 120px; border: 1px solid #E5E7EB; border-radius: 8px; padding: 10px; }
+  .stat .value { font-size: 20px; font-weight: 700; }
+  .stat .label { color: #6B7280; font-size: 11px; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { text-align: left; padding: 5px 6px; border-bottom: 1px solid #E5E7EB; vertical-align: top; }
+  th { font-size: 11px; color: #6B7280; text-transform: uppercase; }
+  td.num, th.num { text-align: right; white-space: nowrap; }
+  .bar { display: flex; height: 10px; border-radius: 5px; overflow: hidden; background: #F3F4F6; min-width: 120px; }
+  .bar span { display: block; height: 100%; }
+  .tag { display: inline-block; padding: 0 6px; border-radius: 8px; font-size: 11px; margin: 1px 2px 1px 0; color: #FFFFFF; }
+  .legend span { margin-right: 12px; font-size: 11px; color: #6B7280; }
+  .legend i { display: inline-block; width: 10px; height: 10px; border-radius: 2px; margin-right: 4px; vertical-align: middle; }
+  svg { width: 100%; height: auto; }
+  section { page-break-inside: avoid; }
+  footer { margin-top: 32px; color: #9CA3AF; font-size: 11px; }
+  @media print { body { padding: 0; } @page { size: A4; margin: 16mm; } }
+`;
+
+// ============================================================
+// FORMATTING
+// ============================================================
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * YYYY-MM-DD as DD/MM/YYYY
+ */
+function formatDate(date: string): string {
+  const [year, month, day] = date.split('-');
+  return `${day}/${month}/${year}`;
+}
+
+function formatNumber(value: number, decimals = 1): string {
+  return value.toFixed(decimals).replace('.', ',');
+}
+
+function formatPercent(value: number): string {
+  return `${Math.round(value * 100)} %`;
+}
+
+function renderBar(segments: { value: number; color: string }[], total: number): string {
+  if (total <= 0) return '<div class="bar"></div>';
+  const spans = segments
+    .filter(segment => segment.value > 0)
+    .map(segment => `<span style="width:${(segment.value / total) * 100}%;background:${segment.color}"></span>`)
+    .join('');
+  return `<div class="bar">${spans}</div>`;
+}
+
+function renderEmpty(message: string): string {
+  return `<p class="empty">${escapeHtml(message)}</p>`;
+}
+
+// ============================================================
+// SECTIONS
+// ============================================================
+
+function renderSummary(stats: PeriodStats, days: number): string {
+  const items = [
+    { value: String(stats.meals), label: 'Comidas registradas' },
+    { value: String(stats.symptoms), label: 'Síntomas registrados' },
+    { value: stats.symptoms > 0 ? formatNumber(stats.avgSymptomIntensity) : '-', label: 'Intensidad media (1-10)' },
+    { value: String(stats.bowel), label: 'Deposiciones' },
+    { value: stats.bowel > 0 ? formatNumber(stats.avgBristol) : '-', label: 'Bristol medio' },
+    { value: formatNumber(stats.water / days), label: 'Vasos de agua al día' },
+  ];
+
+  return `
+    <section>
+      <h2>Resumen del período</h2>
+      <div class="stats">
+        ${items.map(item => `
+          <div class="stat"><div class="value">${item.value}</div><div class="label">${item.label}</div></div>
+        `).join('')}
+      </div>
+    </section>`;
+}
+
+function renderSymptoms(daily: DailySymptomIntensity[], top: SymptomSummary[]): string {
+  if (!daily.some(day => day.count > 0)) {
+    return `<section><h2>Síntomas</h2>${renderEmpty('No hay síntomas registrados en este período.')}</section>`;
+  }
+
+  // Average intensity as a bar, maximum as a tick, on a 0-10 scale
+  const width = 760;
+  const height = 160;
+  const chartTop = 10;
+  const chartHeight = height - 30;
+  const slot = width / daily.length;
+  const barWidth = Math.max(slot * 0.7, 1);
+  const y = (intensity: number) => chartTop + chartHeight - (intensity / 10) * chartHeight;
+  const labelEvery = Math.ceil(daily.length / 10);
+
+  const bars = daily.map((day, index) => {
+    const x = index * slot + (slot - barWidth) / 2;
+    const label = index % labelEvery === 0
+      ? `<text x="${x + barWidth / 2}" y="${height - 4}" font-size="10" text-anchor="middle" fill="#6B7280">${formatDate(day.date).slice(0, 5)}</text>`
+      : '';
+    if (day.count === 0) return label;
+    return `
+      <rect x="${x}" y="${y(day.avgIntensity)}" width="${barWidth}" height="${chartTop + chartHeight - y(day.avgIntensity)}" fill="${INTENSITY_COLOR}" opacity="0.6" />
+      <rect x="${x}" y="${y(day.maxIntensity) - 1}" width="${barWidth}" height="2" fill="${INTENSITY_COLOR}" />
+      ${label}`;
+  }).join('');
+
+  const gridLines = [0, 5, 10].map(value => `
+    <line x1="0" x2="${width}" y1="${y(value)}" y2="${y(value)}" stroke="#E5E7EB" />
+    <text x="2" y="${y(value) - 2}" font-size="9" fill="#9CA3AF">${value}</text>`).join('');
+
+  const topRows = top.map(symptom => `
+    <tr>
+      <td>${escapeHtml(symptom.type)}</td>
+      <td class="num">${symptom.count}</td>
+      <td class="num">${formatNumber(symptom.avgIntensity)}</td>
+    </tr>`).join('');
+
+  return `
+    <section>
+      <h2>Intensidad diaria de los síntomas</h2>
+      <svg viewBox="0 0 ${width} ${height}" xmlns="http://www.w3.org/2000/svg">${gridLines}${bars}</svg>
+      <p class="note">Barra: intensidad media del día. Marca: intensidad máxima. Escala 1-10.</p>
+      <table style="margin-top:12px">
+        <tr><th>Síntoma más frecuente</th><th class="num">Veces</th><th class="num">Intensidad media</th></tr>
+        ${topRows}
+      </table>
+    </section>`;
+}
+
+function renderBristol(distribution: BristolCount[]): string {
+  const total = distribution.reduce((sum, entry) => sum + entry.count, 0);
+  if (total === 0) {
+    return `<section><h2>Escala de Bristol</h2>${renderEmpty('No hay deposiciones registradas en este período.')}</section>`;
+  }
+
+  const rows = distribution.map(entry => {
+    const bristol = BRISTOL_SCALE[entry.type];
+    // Types 3-4 are normal, 1-2 point to constipation and 5-7 to diarrhoea
+    const color = entry.type <= 2 ? '#B45309' : entry.type <= 4 ? PRIMARY_COLOR : '#DC2626';
+    return `
+      <tr>
+        <td>${bristol.label}</td>
+        <td>${escapeHtml(bristol.name)}</td>
+        <td style="width:40%">${renderBar([{ value: entry.count, color }], total)}</td>
+        <td class="num">${entry.count}</td>
+        <td class="num">${formatPercent(entry.count / total)}</td>
+      </tr>`;
+  }).join('');
+
+  return `
+    <section>
+      <h2>Escala de Bristol</h2>
+      <table>
+        <tr><th>Tipo</th><th>Descripción</th><th></th><th class="num">Veces</th><th class="num">%</th></tr>
+        ${rows}
+      </table>
+    </section>`;
+}
+
+function renderFodmap(days: DailyFodmapLevels[]): string {
+  const levels: FODMAPLevel[] = ['low', 'medium', 'high', 'unknown'];
+  const daysWithItems = days.filter(day => levels.some(level => day.counts[level] > 0));
+  if (daysWithItems.length === 0) {
+    return `<section><h2>Nivel FODMAP de lo consumido</h2>${renderEmpty('No hay comidas con ingredientes registradas en este período.')}</section>`;
+  }
+
+  const legend = levels
+    .map(level => `<span><i style="background:${FODMAP_LEVEL_COLORS[level]}"></i>${FODMAP_LEVEL_LABELS[level]}</span>`)
+    .join('');
+
+  const rows = daysWithItems.map(day => {
+    const total = levels.reduce((sum, level) => sum + day.counts[level], 0);
+    const highlights = day.highlights
+      .map(item => `<span class="tag" style="background:${FODMAP_LEVEL_COLORS[item.level]}">${escapeHtml(item.name)}</span>`)
+      .join('');
+    return `
+      <tr>
+        <td style="white-space:nowrap">${formatDate(day.date)}</td>
+        <td>${renderBar(levels.map(level => ({ value: day.counts[level], color: FODMAP_LEVEL_COLORS[level] })), total)}</td>
+        ${levels.map(level => `<td class="num">${day.counts[level]}</td>`).join('')}
+        <td>${highlights}</td>
+      </tr>`;
+  }).join('');
+
+  return `
+    <section>
+      <h2>Nivel FODMAP de lo consumido</h2>
+      <div class="legend">${legend}</div>
+      <table style="margin-top:8px">
+        <tr>
+          <th>Fecha</th><th></th>
+          ${levels.map(level => `<th class="num">${FODMAP_LEVEL_LABELS[level]}</th>`).join('')}
+          <th>FODMAP medio/alto</th>
+        </tr>
+        ${rows}
+      </table>
+      <p class="note">Número de ingredientes por nivel FODMAP y día.</p>
+    </section>`;
+}
+
+function renderTreatments(adherence: TreatmentAdherence[]): string {
+  if (adherence.length === 0) {
+    return `<section><h2>Adherencia al tratamiento</h2>${renderEmpty('No hay tomas registradas en este período.')}</section>`;
+  }
+
+  const rows = adherence.map(entry => `
+    <tr>
+      <td>${escapeHtml(entry.treatment)}</td>
+      <td class="num">${entry.taken}</td>
+      <td class="num">${entry.skipped}</td>
+      <td style="width:30%">${renderBar([
+        { value: entry.taken, color: PRIMARY_COLOR },
+        { value: entry.skipped, color: INTENSITY_COLOR },
+      ], entry.taken + entry.skipped)}</td>
+      <td class="num">${entry.adherence === null ? '-' : formatPercent(entry.adherence)}</td>
+    </tr>`).join('');
+
+  return `
+    <section>
+      <h2>Adherencia al tratamiento</h2>
+      <table>
+        <tr><th>Tratamiento</th><th class="num">Tomadas</th><th class="num">Omitidas</th><th></th><th class="num">Adherencia</th></tr>
+        ${rows}
+      </table>
+      <p class="note">Calculada sobre las tomas registradas como tomadas u omitidas.</p>
+    </section>`;
+}
+
+function renderWeight(entries: WeightEntry[]): string {
+  if (entries.length === 0) {
+    return `<section><h2>Evolución del peso</h2>${renderEmpty('No hay registros de peso en este período.')}</section>`;
+  }
+
+  const first = entries[0];
+  const last = entries[entries.length - 1];
+  const change = last.weightKg - first.weightKg;
+  const summary = `
+    <div class="stats">
+      <div class="stat"><div class="value">${formatNumber(first.weightKg)} kg</div><div class="label">Inicial (${formatDate(first.date)})</div></div>
+      <div class="stat"><div class="value">${formatNumber(last.weightKg)} kg</div><div class="label">Final (${formatDate(last.date)})</div></div>
+      <div class="stat"><div class="value">${change > 0 ? '+' : ''}${formatNumber(change)} kg</div><div class="label">Variación</div></div>
+    </div>`;
+
+  if (entries.length < 2) {
+    return `<section><h2>Evolución del peso</h2>${summary}</section>`;
+  }
+
+  const width = 760;
+  const height = 140;
+  const padding = 16;
+  const weights = entries.map(entry => entry.weightKg);
+  const min = Math.min(...weights);
+  const range = Math.max(Math.max(...weights) - min, 1);
+  const points = entries.map((entry, index) => {
+    const x = padding + (index / (entries.length - 1)) * (width - padding * 2);
+    const y = padding + (1 - (entry.weightKg - min) / range) * (height - padding * 2);
+    return `${x.toFixed(1)},${y.toFixed(1)}`;
+  });
+
+  return `
+    <section>
+      <h2>Evolución del peso</h2>
+      ${summary}
+      <svg viewBox="0 0 ${width} ${height}" xmlns="http://www.w3.org/2000/svg" style="margin-top:12px">
+        <polyline points="${points.join(' ')}" fill="none" stroke="${PRIMARY_COLOR}" stroke-width="2" />
+        ${points.map(point => {
+          const [x, y] = point.split(',');
+          return `<circle cx="${x}" cy="${y}" r="3" fill="${PRIMARY_COLOR}" />`;
+        }).join('')}
+      </svg>
+    </section>`;
+}
+
+function renderSuspectFoods(correlations: CorrelationResult): string {
+  const suspects = correlations.foods
+    .filter(food => food.relativeRisk > 1 && food.attributedSymptoms > 0)
+    .slice(0, 10);
+  if (suspects.length === 0) {
+    return `<section><h2>Alimentos sospechosos</h2>${renderEmpty('No se han encontrado alimentos asociados a más síntomas.')}</section>`;
+  }
+
+  const rows = suspects.map((food, index) => `
+    <tr>
+      <td class="num" style="width:32px">${index + 1}</td>
+      <td>${escapeHtml(food.name)}</td>
+      <td class="num">${food.exposures}</td>
+      <td class="num">${food.attributedSymptoms}</td>
+      <td class="num">${food.attributedSymptoms > 0 ? formatNumber(food.avgIntensity) : '-'}</td>
+      <td class="num">${formatNumber(food.relativeRisk)}</td>
+      <td>${CORRELATION_CONFIDENCE_LABELS[food.confidence]}</td>
+    </tr>`).join('');
+
+  const { startHours, endHours } = correlations.window;
+  return `
+    <section>
+      <h2>Alimentos sospechosos</h2>
+      <table>
+        <tr>
+          <th class="num">#</th><th>Alimento</th><th class="num">Tomas</th><th class="num">Síntomas</th>
+          <th class="num">Intensidad</th><th class="num">Riesgo relativo</th><th>Confianza</th>
+        </tr>
+        ${rows}
+      </table>
+      <p class="note">Síntomas iniciados entre ${startHours} y ${endHours} h después de comer el alimento. El riesgo relativo compara, ponderado por intensidad, los días con y sin el alimento (${correlations.analyzedDays} días con comidas registradas). Es una asociación orientativa, no un diagnóstico.</p>
+    </section>`;
+}
+
+// ============================================================
+// REPORT
+// ============================================================
+
+/**
+ * Build the report for the given range (inclusive, YYYY-MM-DD).
+ * The file name includes the range, e.g. "informe_2026-01-01_2026-01-31.html".
+ */
+export async function createClinicalReport(startDate: string, endDate: string): Promise<ClinicalReport> {
+  const [stats, dailySymptoms, topSymptoms, bristol, fodmap, adherence, weight, correlations] = await Promise.all([
+    getPeriodStats(startDate, endDate),
+    getDailySymptomIntensity(startDate, endDate),
+    getTopSymptoms(startDate, endDate),
+    getBristolDistribution(startDate, endDate),
+    getDailyFodmapLevels(startDate, endDate),
+    getTreatmentAdherence(startDate, endDate),
+    getWeightTrend(startDate, endDate),
+    getFoodCorrelations(startDate, endDate),
+  ]);
+
+  const generatedAt = new Date().toISOString().split('T')[0];
+  const html = `<!DOCTYPE html>
+<html lang="es">
+<head>
+  <meta charset="utf-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1" />
+  <title>Informe para el especialista ${formatDate(startDate)} - ${formatDate(endDate)}</title>
+  <style>${STYLES}</style>
+</head>
+<body>
+  <h1>Informe para el especialista</h1>
+  <p class="subtitle">Período: ${formatDate(startDate)} - ${formatDate(endDate)} (${dailySymptoms.length} días)</p>
+  ${renderSummary(stats, dailySymptoms.length)}
+  ${renderSymptoms(dailySymptoms, topSymptoms)}
+  ${renderBristol(bristol)}
+  ${renderFodmap(fodmap)}
+  ${renderTreatments(adherence)}
+  ${renderWeight(weight)}
+  ${renderSuspectFoods(correlations)}
+  <footer>Generado con Everyday FODMAP el ${formatDate(generatedAt)}. Datos registrados por el paciente.</footer>
+</body>
+</html>
+`;
+
+  return { name: `informe_${startDate}_${endDate}.html`, html };
+}
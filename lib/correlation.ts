@@ -0,0 +1,315 @@
+/**
+ * Everyday FODMAP - Food/Symptom Correlation
+ *
+ * Links symptoms to the foods eaten in a time window before them (e.g. 2-48h,
+ * so dinner followed by symptoms after midnight still counts) and compares,
+ * per food, the symptom risk of days it was eaten with days it wasn't.
+ *
+ * Foods are the individual meal items (by food or recipe id, or by name for
+ * free-text items); meals logged without items count as one food named
+ * after the meal.
+ */
+
+import { getDatabase } from './database';
+import { getDatesInRange } from './analysis';
+
+export type CorrelationConfidence = 'low' | 'medium' | 'high';
+
+export interface CorrelationWindow {
+  startHours: number;
+  endHours: number;
+}
+
+// Days with some exposure (a food, a FODMAP subgroup...) against days without it
+export interface ExposureRisk {
+  // Times eaten in the period
+  exposures: number;
+  exposedDays: number;
+  unexposedDays: number;
+  // Symptoms that started inside the window after eating it
+  attributedSymptoms: number;
+  avgIntensity: number;
+  // Intensity-weighted symptom risk (0-1) of days with and without the food
+  riskExposed: number;
+  riskUnexposed: number;
+  relativeRisk: number;
+  confidence: CorrelationConfidence;
+}
+
+export interface FoodCorrelation extends ExposureRisk {
+  key: string;
+  name: string;
+  foodId?: number;
+  recipeId?: number;
+}
+
+export interface CorrelationResult {
+  window: CorrelationWindow;
+  analyzedDays: number;
+  symptoms: number;
+  // Sorted by relative risk, highest first
+  foods: FoodCorrelation[];
+}
+
+export const DEFAULT_CORRELATION_WINDOW: CorrelationWindow = { startHours: 2, endHours: 48 };
+
+export const CORRELATION_CONFIDENCE_LABELS: Record<CorrelationConfidence, string> = {
+  low: 'Confianza baja',
+  medium: 'Confianza media',
+  high: 'Confianza alta',
+};
+
+// Days with and without the food needed for each confidence level
+const CONFIDENCE_MIN_DAYS: Record<Exclude<CorrelationConfidence, 'low'>, number> = {
+  medium: 4,
+  high: 8,
+};
+
+// Meals logged without a time are placed at midday
+const DEFAULT_MEAL_TIME = '12:00';
+
+export interface Eating {
+  key: string;
+  name: string;
+  foodId?: number;
+  recipeId?: number;
+  date: string;
+  minute: number;
+}
+
+export interface SymptomEvent {
+  minute: number;
+  // Intensity scaled to 0-1
+  weight: number;
+}
+
+export interface CorrelationContext {
+  window: CorrelationWindow;
+  eatings: Eating[];
+  symptoms: SymptomEvent[];
+  // Days with meals logged, each one observation
+  days: string[];
+  dayRisk: Map<string, number>;
+  totalDayRisk: number;
+  meanDayRisk: number;
+}
+
+// ============================================================
+// TIME
+// ============================================================
+
+/**
+ * Minutes since the epoch for a stored date and time, ignoring time zones
+ * so differences don't shift with daylight saving changes
+ */
+function toMinutes(date: string, time?: string | null): number {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hours, minutes] = (time || DEFAULT_MEAL_TIME).split(':').map(Number);
+  return Date.UTC(year, month - 1, day, hours || 0, minutes || 0) / 60000;
+}
+
+function addDays(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().split('T')[0];
+}
+
+/**
+ * Highest symptom weight inside the window after any of the given times
+ */
+function windowRisk(symptoms: SymptomEvent[], times: number[], window: CorrelationWindow): number {
+  let risk = 0;
+  for (const symptom of symptoms) {
+    const inWindow = times.some(time =>
+      symptom.minute >= time + window.startHours * 60 && symptom.minute <= time + window.endHours * 60
+    );
+    if (inWindow && symptom.weight > risk) risk = symptom.weight;
+  }
+  return risk;
+}
+
+function getConfidence(exposedDays: number, unexposedDays: number): CorrelationConfidence {
+  const days = Math.min(exposedDays, unexposedDays);
+  if (days >= CONFIDENCE_MIN_DAYS.high) return 'high';
+  if (days >= CONFIDENCE_MIN_DAYS.medium) return 'medium';
+  return 'low';
+}
+
+// ============================================================
+// DATA
+// ============================================================
+
+async function loadEatings(startDate: string, endDate: string): Promise<Eating[]> {
+  const db = await getDatabase();
+  const rows = await db.getAllAsync(
+    `SELECT m.name AS meal_name, m.date, m.time, mi.food_id, mi.recipe_id,
+            COALESCE(f.name, r.name, mi.name) AS item_name
+     FROM meals m
+     LEFT JOIN meal_items mi ON mi.meal_id = m.id
+     LEFT JOIN foods f ON mi.food_id = f.id
+     LEFT JOIN recipes r ON mi.recipe_id = r.id
+     WHERE m.date BETWEEN ? AND ?`,
+    [startDate, endDate]
+  );
+
+  return rows.map((row: any) => {
+    const name: string = (row.item_name || row.meal_name || '').trim();
+    const key = row.food_id ? `food:${row.food_id}`
+      : row.recipe_id ? `recipe:${row.recipe_id}`
+      : `name:${name.toLowerCase()}`;
+    return {
+      key,
+      name,
+      foodId: row.food_id ?? undefined,
+      recipeId: row.recipe_id ?? undefined,
+      date: row.date,
+      minute: toMinutes(row.date, row.time),
+    };
+  }).filter((eating: Eating) => eating.name !== '');
+}
+
+async function loadSymptoms(startDate: string, endDate: string): Promise<SymptomEvent[]> {
+  const db = await getDatabase();
+  const rows = await db.getAllAsync(
+    'SELECT date, time, intensity FROM symptoms WHERE date BETWEEN ? AND ?',
+    [startDate, endDate]
+  );
+
+  return rows
+    .map((row: any) => ({
+      minute: toMinutes(row.date, row.time),
+      weight: Math.min(Math.max(row.intensity ?? 5, 1), 10) / 10,
+    }))
+    .sort((a: SymptomEvent, b: SymptomEvent) => a.minute - b.minute);
+}
+
+// ============================================================
+// CORRELATION
+// ============================================================
+
+/**
+ * Load the meals and symptoms of a period and the risk of each day with
+ * meals: the highest symptom intensity (scaled to 0-1) inside the window
+ * after that day's meals.
+ */
+export async function loadCorrelationContext(
+  startDate: string,
+  endDate: string,
+  window: CorrelationWindow = DEFAULT_CORRELATION_WINDOW
+): Promise<CorrelationContext> {
+  const eatings = await loadEatings(startDate, endDate);
+  const symptoms = await loadSymptoms(startDate, addDays(endDate, Math.ceil(window.endHours / 24)));
+
+  const mealTimesByDay = new Map<string, number[]>();
+  for (const eating of eatings) {
+    const times = mealTimesByDay.get(eating.date) || [];
+    if (!times.includes(eating.minute)) times.push(eating.minute);
+    mealTimesByDay.set(eating.date, times);
+  }
+
+  const days = getDatesInRange(startDate, endDate).filter(date => mealTimesByDay.has(date));
+  const dayRisk = new Map<string, number>(
+    days.map(date => [date, windowRisk(symptoms, mealTimesByDay.get(date)!, window)])
+  );
+  const totalDayRisk = days.reduce((sum, date) => sum + dayRisk.get(date)!, 0);
+
+  return {
+    window,
+    eatings,
+    symptoms,
+    days,
+    dayRisk,
+    totalDayRisk,
+    meanDayRisk: days.length > 0 ? totalDayRisk / days.length : 0,
+  };
+}
+
+/**
+ * Compare the days with the given eatings against the other days with meals.
+ *
+ * On exposed days the risk is measured in the window after the exposing
+ * eatings only. Relative risk compares the mean risk of exposed days against
+ * unexposed days. Both means get one extra day at the overall mean risk, so
+ * exposures present on every (or almost no) day stay close to 1 instead of
+ * dividing by zero.
+ */
+export function compareExposure(context: CorrelationContext, exposure: Eating[]): ExposureRisk {
+  const { window, symptoms, days, dayRisk, totalDayRisk, meanDayRisk } = context;
+
+  // Symptoms attributed to the exposure: started inside the window after any of its times
+  const times = exposure.map(eating => eating.minute);
+  const attributed = symptoms.filter(symptom => times.some(time =>
+    symptom.minute >= time + window.startHours * 60 && symptom.minute <= time + window.endHours * 60
+  ));
+
+  const timesByDay = new Map<string, number[]>();
+  for (const eating of exposure) {
+    timesByDay.set(eating.date, [...(timesByDay.get(eating.date) || []), eating.minute]);
+  }
+
+  let exposedRisk = 0;
+  let exposedBaseline = 0;
+  for (const [date, dayTimes] of timesByDay) {
+    exposedRisk += windowRisk(symptoms, dayTimes, window);
+    exposedBaseline += dayRisk.get(date) || 0;
+  }
+
+  const exposedDays = timesByDay.size;
+  const unexposedDays = days.length - exposedDays;
+  const riskExposed = (exposedRisk + meanDayRisk) / (exposedDays + 1);
+  const riskUnexposed = (totalDayRisk - exposedBaseline + meanDayRisk) / (unexposedDays + 1);
+
+  return {
+    exposures: exposure.length,
+    exposedDays,
+    unexposedDays,
+    attributedSymptoms: attributed.length,
+    avgIntensity: attributed.length > 0
+      ? (attributed.reduce((sum, symptom) => sum + symptom.weight, 0) / attributed.length) * 10
+      : 0,
+    riskExposed,
+    riskUnexposed,
+    relativeRisk: riskUnexposed > 0 ? riskExposed / riskUnexposed : 1,
+    confidence: getConfidence(exposedDays, unexposedDays),
+  };
+}
+
+/**
+ * Correlate the foods eaten between start and end (inclusive, YYYY-MM-DD)
+ * with the symptoms that followed them (see `compareExposure`). Foods eaten
+ * fewer than `minExposures` times are left out.
+ */
+export async function getFoodCorrelations(
+  startDate: string,
+  endDate: string,
+  window: CorrelationWindow = DEFAULT_CORRELATION_WINDOW,
+  minExposures = 2
+): Promise<CorrelationResult> {
+  const context = await loadCorrelationContext(startDate, endDate, window);
+
+  const eatingsByFood = new Map<string, Eating[]>();
+  for (const eating of context.eatings) {
+    eatingsByFood.set(eating.key, [...(eatingsByFood.get(eating.key) || []), eating]);
+  }
+
+  const foods: FoodCorrelation[] = [];
+  for (const [key, foodEatings] of eatingsByFood) {
+    if (foodEatings.length < minExposures) continue;
+    foods.push({
+      key,
+      name: foodEatings[0].name,
+      foodId: foodEatings[0].foodId,
+      recipeId: foodEatings[0].recipeId,
+      ...compareExposure(context, foodEatings),
+    });
+  }
+
+  foods.sort((a, b) => b.relativeRisk - a.relativeRisk || b.exposedDays - a.exposedDays);
+
+  return {
+    window,
+    analyzedDays: context.days.length,
+    symptoms: context.symptoms.filter(symptom => symptom.minute <= toMinutes(endDate, '23:59')).length,
+    foods,
+  };
+}
@@ -0,0 +1,271 @@
+/**
+ * Everyday FODMAP - CSV Export
+ *
+ * Diary export for clinicians: one CSV file per log type for a date range,
+ * ready to open in a spreadsheet. Files are UTF-8 with BOM (so accents show
+ * correctly in Excel), comma separated with RFC 4180 quoting and CRLF line
+ * endings. Timestamps are ISO 8601 local time (YYYY-MM-DDTHH:mm:ss).
+ */
+
+import { getDatabase } from './database';
+import { MealRepository, SymptomRepository, TreatmentRepository } from './repositories';
+import { BRISTOL_SCALE, BristolType, FODMAP_LEVEL_LABELS, FODMAPLevel, MEAL_TYPE_LABELS, MealType } from './types';
+
+export interface CsvFile {
+  name: string;
+  content: string;
+  rows: number;
+}
+
+type CsvValue = string | number | boolean | null | undefined;
+
+const BOM = '\uFEFF';
+
+const STRESS_TYPE_LABELS: Record<string, string> = {
+  personal: 'Personal',
+  professional: 'Profesional',
+  other: 'Otro',
+};
+
+// ============================================================
+// CSV FORMATTING
+// ============================================================
+
+function formatCell(value: CsvValue): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'boolean') return value ? 'Sí' : 'No';
+  if (typeof value === 'number') return String(value);
+
+  let text = value;
+  // Spreadsheets run cells starting with these as formulas
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  if (/[",\r\n]/.test(text) || text !== text.trim()) {
+    text = `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
+
+export function toCsv(headers: string[], rows: CsvValue[][]): string {
+  const lines = [headers, ...rows].map(row => row.map(formatCell).join(','));
+  return BOM + lines.join('\r\n') + '\r\n';
+}
+
+/**
+ * ISO 8601 local timestamp from the stored date (YYYY-MM-DD) and time (HH:mm)
+ */
+export function toIsoTimestamp(date: string, time?: string | null): string {
+  if (!time) return date;
+  return `${date}T${time.length === 5 ? `${time}:00` : time}`;
+}
+
+function fodmapLabel(level?: string | null): string {
+  return level ? FODMAP_LEVEL_LABELS[level as FODMAPLevel] || level : '';
+}
+
+// ============================================================
+// LOG TYPES
+// ============================================================
+
+async function exportMeals(startDate: string, endDate: string): Promise<CsvFile> {
+  const meals = await MealRepository.getByDateRange(startDate, endDate);
+  const rows: CsvValue[][] = [];
+
+  // One row per item, repeating the meal columns
+  for (const meal of meals) {
+    const mealColumns = [
+      toIsoTimestamp(meal.date, meal.time),
+      MEAL_TYPE_LABELS[meal.meal_type as MealType] || meal.meal_type,
+      meal.name,
+    ];
+    const items = meal.items || [];
+    if (items.length === 0) {
+      rows.push([...mealColumns, '', '', '', '', '', meal.notes]);
+      continue;
+    }
+    for (const item of items) {
+      rows.push([
+        ...mealColumns,
+        item.name,
+        item.recipe_id ? 'Receta' : item.food_id ? 'Alimento' : '',
+        item.quantity,
+        item.unit,
+        fodmapLabel(item.fodmap_level),
+        meal.notes,
+      ]);
+    }
+  }
+
+  return {
+    name: 'comidas',
+    rows: rows.length,
+    content: toCsv(
+      ['Fecha y hora', 'Tipo de comida', 'Comida', 'Ingrediente', 'Origen', 'Cantidad', 'Unidad', 'Nivel FODMAP', 'Notas'],
+      rows
+    ),
+  };
+}
+
+async function exportSymptoms(startDate: string, endDate: string): Promise<CsvFile> {
+  const db = await getDatabase();
+  const symptoms = await SymptomRepository.getByDateRange(startDate, endDate);
+  const mealNames = new Map<number, string>(
+    (await db.getAllAsync(
+      'SELECT id, name, date, time FROM meals WHERE id IN (SELECT meal_id FROM symptoms WHERE date BETWEEN ? AND ?)',
+      [startDate, endDate]
+    )).map((meal: any) => [
+      meal.id,
+      `${meal.name} (${toIsoTimestamp(meal.date, meal.time)})`,
+    ])
+  );
+
+  const rows = symptoms.map(symptom => [
+    toIsoTimestamp(symptom.date, symptom.time),
+    symptom.type,
+    symptom.intensity,
+    symptom.duration_minutes,
+    symptom.meal_id ? mealNames.get(symptom.meal_id) : '',
+    symptom.stress_type ? STRESS_TYPE_LABELS[symptom.stress_type] : '',
+    symptom.stress_notes,
+    symptom.notes,
+  ]);
+
+  return {
+    name: 'sintomas',
+    rows: rows.length,
+    content: toCsv(
+      ['Fecha y hora', 'Síntoma', 'Intensidad (1-10)', 'Duración (min)', 'Comida relacionada', 'Estrés', 'Notas de estrés', 'Notas'],
+      rows
+    ),
+  };
+}
+
+async function exportBowelMovements(startDate: string, endDate: string): Promise<CsvFile> {
+  const db = await getDatabase();
+  const movements = await db.getAllAsync(
+    'SELECT * FROM bowel_movements WHERE date BETWEEN ? AND ? ORDER BY date, time',
+    [startDate, endDate]
+  );
+
+  const rows = movements.map((bm: any) => {
+    const bristol = BRISTOL_SCALE[bm.bristol_type as BristolType];
+    return [
+      toIsoTimestamp(bm.date, bm.time),
+      bm.bristol_type,
+      bristol ? `${bristol.label} - ${bristol.name}` : '',
+      bm.urgency,
+      bm.pain,
+      bm.discomfort,
+      bm.color,
+      bm.notes,
+    ];
+  });
+
+  return {
+    name: 'deposiciones',
+    rows: rows.length,
+    content: toCsv(
+      ['Fecha y hora', 'Bristol', 'Tipo Bristol', 'Urgencia (1-5)', 'Dolor (0-10)', 'Molestia (0-10)', 'Color', 'Notas'],
+      rows
+    ),
+  };
+}
+
+async function exportTreatmentLogs(startDate: string, endDate: string): Promise<CsvFile> {
+  const logs = await TreatmentRepository.getLogsByDateRange(startDate, endDate);
+
+  const rows = logs.map(log => [
+    toIsoTimestamp(log.date, log.time),
+    log.treatment_name,
+    log.scheduled_time,
+    log.amount_taken ?? log.dosage_amount,
+    log.unit || log.dosage_unit,
+    log.taken,
+    log.skipped,
+    log.skip_reason,
+    log.notes,
+  ]);
+
+  return {
+    name: 'tratamientos',
+    rows: rows.length,
+    content: toCsv(
+      ['Fecha y hora', 'Tratamiento', 'Hora programada', 'Cantidad', 'Unidad', 'Tomado', 'Omitido', 'Motivo', 'Notas'],
+      rows
+    ),
+  };
+}
+
+async function exportWaterIntake(startDate: string, endDate: string): Promise<CsvFile> {
+  const db = await getDatabase();
+  const entries = await db.getAllAsync(
+    'SELECT * FROM water_intake WHERE date BETWEEN ? AND ? ORDER BY date, time',
+    [startDate, endDate]
+  );
+
+  const rows = entries.map((entry: any) => [
+    toIsoTimestamp(entry.date, entry.time),
+    entry.glasses,
+    entry.amount_ml,
+  ]);
+
+  return {
+    name: 'agua',
+    rows: rows.length,
+    content: toCsv(['Fecha y hora', 'Vasos', 'Cantidad (ml)'], rows),
+  };
+}
+
+async function exportActivityLogs(startDate: string, endDate: string): Promise<CsvFile> {
+  const db = await getDatabase();
+  const logs = await db.getAllAsync(
+    `SELECT al.*, at.name AS activity_name, sa.name AS scheduled_name
+     FROM activity_logs al
+     LEFT JOIN activity_types at ON al.activity_type_id = at.id
+     LEFT JOIN scheduled_activities sa ON al.scheduled_activity_id = sa.id
+     WHERE al.date BETWEEN ? AND ? ORDER BY al.date, al.time`,
+    [startDate, endDate]
+  );
+
+  const rows = logs.map((log: any) => [
+    toIsoTimestamp(log.date, log.time),
+    log.activity_name,
+    log.duration_minutes,
+    log.intensity,
+    log.distance_km,
+    log.calories,
+    log.scheduled_name,
+    log.notes,
+  ]);
+
+  return {
+    name: 'actividad',
+    rows: rows.length,
+    content: toCsv(
+      ['Fecha y hora', 'Actividad', 'Duración (min)', 'Intensidad (1-10)', 'Distancia (km)', 'Calorías', 'Actividad programada', 'Notas'],
+      rows
+    ),
+  };
+}
+
+// ============================================================
+// EXPORT
+// ============================================================
+
+/**
+ * Build one CSV per log type for the given range (inclusive, YYYY-MM-DD).
+ * File names include the range, e.g. "sintomas_2026-01-01_2026-01-31.csv".
+ */
+export async function createCsvExport(startDate: string, endDate: string): Promise<CsvFile[]> {
+  const files = [
+    await exportMeals(startDate, endDate),
+    await exportSymptoms(startDate, endDate),
+    await exportBowelMovements(startDate, endDate),
+    await exportTreatmentLogs(startDate, endDate),
+    await exportWaterIntake(startDate, endDate),
+    await exportActivityLogs(startDate, endDate),
+  ];
+
+  return files.map(file => ({ ...file, name: `${file.name}_${startDate}_${endDate}.csv` }));
+}
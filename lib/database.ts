@@ -1,861 +1,90 @@
 import { Platform } from 'react-native';
-import { INTERNAL_FOODS, INTERNAL_RECIPES, loadInternalData } from './internal-data';
+import { loadInternalData } from './internal-data';
+import { runMigrations } from './migrations';
 
 const DATABASE_NAME = 'everyday_fodmap.db';
-const WEB_STORAGE_KEY = 'everyday_fodmap_webdb';
+// Key used by the old localStorage-based web preview database
+const LEGACY_WEB_STORAGE_KEY = 'everyday_fodmap_webdb';
 
-// In-memory storage for web preview - make it accessible for debugging
-let webStorage: Record<string, any[]> = {};
+let db: any = null;
+let dbPromise: Promise<any> | null = null;
+let SQLiteModule: any = null;
 
-// Load from localStorage on init (web only)
-function loadWebStorage(): Record<string, any[]> {
-  if (typeof window !== 'undefined' && window.localStorage) {
-    try {
-      const saved = localStorage.getItem(WEB_STORAGE_KEY);
-      if (saved) {
-        const parsed = JSON.parse(saved);
-        console.log('[WebDB] Loaded from localStorage:', Object.keys(parsed));
-        return parsed;
-      }
-    } catch (e) {
-      console.error('[WebDB] Error loading from localStorage:', e);
+export async function getDatabase(): Promise<any> {
+  if (db) return db;
+  if (dbPromise) return dbPromise;
+
+  dbPromise = (async () => {
+    if (Platform.OS === 'web') {
+      // Same SQL engine as native, compiled to WebAssembly and persisted to IndexedDB
+      const { openWebDatabaseAsync } = require('./web-sqlite');
+      db = await openWebDatabaseAsync(DATABASE_NAME);
+      return db;
     }
-  }
-  return {};
-}
 
-// Save to localStorage (web only)
-function saveWebStorage(): void {
-  if (typeof window !== 'undefined' && window.localStorage) {
-    try {
-      localStorage.setItem(WEB_STORAGE_KEY, JSON.stringify(webStorage));
-      console.log('[WebDB] Saved to localStorage');
-    } catch (e) {
-      console.error('[WebDB] Error saving to localStorage:', e);
+    // Dynamic import for native platforms only
+    if (!SQLiteModule) {
+      SQLiteModule = require('expo-sqlite');
     }
-  }
-}
-
-// Initialize webStorage from localStorage
-if (typeof window !== 'undefined') {
-  webStorage = loadWebStorage();
-  (window as any).__webStorage = webStorage;
-  (window as any).__saveWebStorage = saveWebStorage;
-  (window as any).__clearWebStorage = () => {
-    webStorage = {};
-    localStorage.removeItem(WEB_STORAGE_KEY);
-    console.log('[WebDB] Storage cleared');
-  };
-}
+    db = await SQLiteModule.openDatabaseAsync(DATABASE_NAME);
+    return db;
+  })();
 
-// Helper to parse INSERT query and extract column names and value info
-function parseInsertQuery(sql: string): { table: string; columns: string[]; literalValues: (any | null)[] } | null {
-  // Normalize whitespace (handle multiline queries)
-  const normalizedSql = sql.replace(/\s+/g, ' ').trim();
-  
-  // Match: INSERT INTO table (col1, col2, ...) VALUES (?, ?, ...)
-  const match = normalizedSql.match(/INSERT\s+(?:OR\s+\w+\s+)?INTO\s+(\w+)\s*\(([^)]+)\)\s*VALUES\s*\(([^)]+)\)/i);
-  if (match) {
-    const table = match[1];
-    const columns = match[2].split(',').map(c => c.trim());
-    const valuesStr = match[3];
-    
-    // Parse values to detect literals vs placeholders
-    const valuesParts = valuesStr.split(',').map(v => v.trim());
-    const literalValues: (any | null)[] = valuesParts.map(v => {
-      if (v === '?') return null; // placeholder
-      if (v === 'CURRENT_TIMESTAMP') return new Date().toISOString();
-      if (v.match(/^'[^']*'$/)) return v.slice(1, -1); // string literal
-      if (v.match(/^-?\d+(\.\d+)?$/)) return parseFloat(v); // number literal
-      if (v.toLowerCase() === 'null') return undefined; // NULL literal
-      return null; // treat as placeholder if unclear
-    });
-    
-    console.log(`[WebDB] Parsed INSERT: table=${table}, columns=`, columns, 'literalValues=', literalValues);
-    return { table, columns, literalValues };
-  }
-  // Match: INSERT INTO table VALUES (...)
-  const simpleMatch = normalizedSql.match(/INSERT\s+(?:OR\s+\w+\s+)?INTO\s+(\w+)\s+VALUES/i);
-  if (simpleMatch) {
-    console.log(`[WebDB] Parsed simple INSERT: table=${simpleMatch[1]}`);
-    return { table: simpleMatch[1], columns: [], literalValues: [] };
+  try {
+    return await dbPromise;
+  } finally {
+    dbPromise = null;
   }
-  console.log(`[WebDB] Could not parse INSERT query: ${normalizedSql.substring(0, 100)}`);
-  return null;
 }
 
-// Helper to compare values with type coercion
-function valuesEqual(a: any, b: any): boolean {
-  if (a === b) return true;
-  // Handle number/string comparison
-  if (typeof a === 'number' && typeof b === 'string') return a === parseInt(b);
-  if (typeof a === 'string' && typeof b === 'number') return parseInt(a) === b;
-  return String(a) === String(b);
-}
-
-// Helper to filter items based on WHERE clause
-function filterByWhere(items: any[], sql: string, params?: any[]): any[] {
-  const whereMatch = sql.match(/WHERE\s+(.+?)(?:\s+ORDER|\s+GROUP|\s+LIMIT|$)/i);
-  
-  // No WHERE clause - return all items
-  if (!whereMatch) {
-    return items;
-  }
-  
-  const whereClause = whereMatch[1];
-  console.log(`[WebDB] Processing WHERE: ${whereClause.substring(0, 100)}`);
-  console.log(`[WebDB] With params:`, params);
-  
-  // Create a parameter index counter
-  let paramIndex = 0;
-  const getNextParam = () => {
-    if (!params || paramIndex >= params.length) return null;
-    return params[paramIndex++];
-  };
-  
-  // Evaluate the WHERE clause for each item
-  const filtered = items.filter(item => {
-    // Reset param index for each item
-    paramIndex = 0;
-    return evaluateCondition(item, whereClause, getNextParam);
-  });
-  
-  console.log(`[WebDB] Filter result: ${items.length} -> ${filtered.length}`);
-  return filtered;
-}
+// One-time import of data saved by the old localStorage web database
+async function importLegacyWebStorage(database: any): Promise<void> {
+  if (typeof window === 'undefined' || !window.localStorage) return;
 
-// Evaluate a condition for an item
-function evaluateCondition(item: any, clause: string, getNextParam: () => any): boolean {
-  // Remove outer parentheses
-  clause = clause.trim();
-  while (clause.startsWith('(') && clause.endsWith(')')) {
-    // Check if these are matching parentheses
-    let depth = 0;
-    let allInner = true;
-    for (let i = 0; i < clause.length; i++) {
-      if (clause[i] === '(') depth++;
-      else if (clause[i] === ')') depth--;
-      if (depth === 0 && i < clause.length - 1) {
-        allInner = false;
-        break;
-      }
-    }
-    if (allInner) {
-      clause = clause.slice(1, -1).trim();
-    } else {
-      break;
-    }
-  }
-  
-  // Handle AND - split on top-level AND
-  const andParts = splitOnTopLevel(clause, 'AND');
-  if (andParts.length > 1) {
-    return andParts.every(part => evaluateCondition(item, part.trim(), getNextParam));
-  }
-  
-  // Handle OR - split on top-level OR
-  const orParts = splitOnTopLevel(clause, 'OR');
-  if (orParts.length > 1) {
-    return orParts.some(part => evaluateCondition(item, part.trim(), getNextParam));
-  }
-  
-  // Now evaluate a simple condition
-  return evaluateSimpleCondition(item, clause, getNextParam);
-}
+  const saved = localStorage.getItem(LEGACY_WEB_STORAGE_KEY);
+  if (!saved) return;
 
-// Split a clause on a keyword, respecting parentheses
-function splitOnTopLevel(clause: string, keyword: string): string[] {
-  const parts: string[] = [];
-  let current = '';
-  let depth = 0;
-  const words = clause.split(/(\s+)/);
-  
-  for (let i = 0; i < words.length; i++) {
-    const word = words[i];
-    
-    // Count parentheses
-    for (const char of word) {
-      if (char === '(') depth++;
-      else if (char === ')') depth--;
-    }
-    
-    // Check if this word is the keyword at depth 0
-    if (depth === 0 && word.toUpperCase() === keyword) {
-      if (current.trim()) {
-        parts.push(current.trim());
-      }
-      current = '';
-    } else {
-      current += word;
-    }
-  }
-  
-  if (current.trim()) {
-    parts.push(current.trim());
-  }
-  
-  return parts;
-}
-
-// Evaluate a simple condition (column op value)
-function evaluateSimpleCondition(item: any, clause: string, getNextParam: () => any): boolean {
-  clause = clause.trim();
-  
-  // Handle parentheses
-  if (clause.startsWith('(')) {
-    return evaluateCondition(item, clause, getNextParam);
-  }
-  
-  // Handle: column IS NULL
-  const isNullMatch = clause.match(/^(\w+)\s+IS\s+NULL$/i);
-  if (isNullMatch) {
-    const column = isNullMatch[1];
-    const value = item[column];
-    return value === null || value === undefined;
-  }
-  
-  // Handle: column IS NOT NULL
-  const isNotNullMatch = clause.match(/^(\w+)\s+IS\s+NOT\s+NULL$/i);
-  if (isNotNullMatch) {
-    const column = isNotNullMatch[1];
-    const value = item[column];
-    return value !== null && value !== undefined;
-  }
-  
-  // Handle: column BETWEEN ? AND ?
-  const betweenMatch = clause.match(/^(\w+)\s+BETWEEN\s+\?\s+AND\s+\?$/i);
-  if (betweenMatch) {
-    const column = betweenMatch[1];
-    const start = getNextParam();
-    const end = getNextParam();
-    const value = item[column];
-    return value >= start && value <= end;
-  }
-  
-  // Handle: column <= ?
-  const lteParamMatch = clause.match(/^(\w+)\s*<=\s*\?$/);
-  if (lteParamMatch) {
-    const column = lteParamMatch[1];
-    const paramValue = getNextParam();
-    const itemValue = item[column];
-    if (itemValue === null || itemValue === undefined) return false;
-    return itemValue <= paramValue;
-  }
-  
-  // Handle: column >= ?
-  const gteParamMatch = clause.match(/^(\w+)\s*>=\s*\?$/);
-  if (gteParamMatch) {
-    const column = gteParamMatch[1];
-    const paramValue = getNextParam();
-    const itemValue = item[column];
-    if (itemValue === null || itemValue === undefined) return false;
-    return itemValue >= paramValue;
-  }
-  
-  // Handle: column < ?
-  const ltParamMatch = clause.match(/^(\w+)\s*<\s*\?$/);
-  if (ltParamMatch) {
-    const column = ltParamMatch[1];
-    const paramValue = getNextParam();
-    const itemValue = item[column];
-    if (itemValue === null || itemValue === undefined) return false;
-    return itemValue < paramValue;
-  }
-  
-  // Handle: column > ?
-  const gtParamMatch = clause.match(/^(\w+)\s*>\s*\?$/);
-  if (gtParamMatch) {
-    const column = gtParamMatch[1];
-    const paramValue = getNextParam();
-    const itemValue = item[column];
-    if (itemValue === null || itemValue === undefined) return false;
-    return itemValue > paramValue;
-  }
-  
-  // Handle: column = ?
-  const eqParamMatch = clause.match(/^(\w+)\s*=\s*\?$/);
-  if (eqParamMatch) {
-    const column = eqParamMatch[1];
-    const paramValue = getNextParam();
-    return valuesEqual(item[column], paramValue);
-  }
-  
-  // Handle: column = number (literal)
-  const eqNumMatch = clause.match(/^(\w+)\s*=\s*(\d+)$/);
-  if (eqNumMatch) {
-    const column = eqNumMatch[1];
-    const value = parseInt(eqNumMatch[2]);
-    return valuesEqual(item[column], value);
-  }
-  
-  // Handle: column = 'string' (literal)
-  const eqStrMatch = clause.match(/^(\w+)\s*=\s*'([^']*)'$/);
-  if (eqStrMatch) {
-    const column = eqStrMatch[1];
-    const value = eqStrMatch[2];
-    return valuesEqual(item[column], value);
-  }
-  
-  // Handle: column <= 'string' (date comparison)
-  const lteStrMatch = clause.match(/^(\w+)\s*<=\s*'([^']*)'$/);
-  if (lteStrMatch) {
-    const column = lteStrMatch[1];
-    const value = lteStrMatch[2];
-    const itemValue = item[column];
-    if (itemValue === null || itemValue === undefined) return false;
-    return itemValue <= value;
-  }
-  
-  // Handle: column >= 'string' (date comparison)
-  const gteStrMatch = clause.match(/^(\w+)\s*>=\s*'([^']*)'$/);
-  if (gteStrMatch) {
-    const column = gteStrMatch[1];
-    const value = gteStrMatch[2];
-    const itemValue = item[column];
-    if (itemValue === null || itemValue === undefined) return false;
-    return itemValue >= value;
-  }
-  
-  // Handle: t.column = value (with table alias)
-  const aliasMatch = clause.match(/^(\w+)\.(\w+)\s*=\s*(\d+)$/);
-  if (aliasMatch) {
-    const column = aliasMatch[2];
-    const value = parseInt(aliasMatch[3]);
-    return valuesEqual(item[column], value);
-  }
-  
-  // Handle: t.column = ? (with table alias)
-  const aliasParamMatch = clause.match(/^(\w+)\.(\w+)\s*=\s*\?$/);
-  if (aliasParamMatch) {
-    const column = aliasParamMatch[2];
-    const paramValue = getNextParam();
-    return valuesEqual(item[column], paramValue);
-  }
-  
-  // If we can't parse, return true (don't filter out)
-  console.log(`[WebDB] Could not parse condition: ${clause}, returning true`);
-  return true;
-}
-
-// Web mock database implementation
-function createWebMockDatabase() {
-  console.log('[WebDB] Creating web mock database');
-  
-  return {
-    execAsync: async (sql: string) => {
-      console.log('[WebDB] execAsync called');
-      const tableMatches = sql.matchAll(/CREATE TABLE IF NOT EXISTS (\w+)/g);
-      let tablesCreated = false;
-      for (const match of tableMatches) {
-        if (!webStorage[match[1]]) {
-          webStorage[match[1]] = [];
-          console.log(`[WebDB] Created table: ${match[1]}`);
-          tablesCreated = true;
-        }
-      }
-      if (tablesCreated) {
-        saveWebStorage();
-      }
-    },
-    runAsync: async (sql: string, params?: any[]) => {
-      const normalizedForLog = sql.replace(/\s+/g, ' ').trim();
-      console.log('[WebDB] runAsync:', normalizedForLog.substring(0, 100));
-      console.log('[WebDB] params:', JSON.stringify(params));
-      
-      // Handle INSERT
-      const insertInfo = parseInsertQuery(sql);
-      if (insertInfo) {
-        const { table, columns, literalValues } = insertInfo;
-        if (!webStorage[table]) {
-          webStorage[table] = [];
-          console.log(`[WebDB] Auto-created table: ${table}`);
-        }
-        
-        // Generate unique ID (unless provided in literal values)
-        const idColIndex = columns.indexOf('id');
-        let id: number;
-        let existingItemIndex = -1;
-        
-        if (idColIndex !== -1 && literalValues[idColIndex] !== null) {
-          id = literalValues[idColIndex] as number;
-          // Check if item with this ID already exists
-          existingItemIndex = webStorage[table].findIndex((item: any) => item.id === id);
-        } else {
-          const maxId = webStorage[table].reduce((max, item) => Math.max(max, item.id || 0), 0);
-          id = maxId + 1;
-        }
-        
-        const newRow: Record<string, any> = { id, created_at: new Date().toISOString() };
-        
-        if (columns.length > 0) {
-          let paramIndex = 0;
-          columns.forEach((col, i) => {
-            if (col === 'id' && idColIndex !== -1 && literalValues[idColIndex] !== null) {
-              // ID was a literal, already set
-              return;
-            }
-            if (literalValues[i] !== null && literalValues[i] !== undefined) {
-              // Use literal value
-              newRow[col] = literalValues[i];
-            } else if (params && paramIndex < params.length) {
-              // Use next param value
-              newRow[col] = params[paramIndex];
-              paramIndex++;
-            }
-          });
-        }
-        
-        // If item exists with same ID, update it instead of creating duplicate
-        if (existingItemIndex !== -1) {
-          const existingItem = webStorage[table][existingItemIndex];
-          Object.assign(existingItem, newRow);
-          existingItem.updated_at = new Date().toISOString();
-          console.log(`[WebDB] INSERT updated existing row in ${table}:`, existingItem);
-        } else {
-          webStorage[table].push(newRow);
-          console.log(`[WebDB] INSERT into ${table}:`, newRow);
-        }
-        
-        console.log(`[WebDB] Table ${table} now has ${webStorage[table].length} rows`);
-        saveWebStorage();
-        return { lastInsertRowId: id };
-      }
-      
-      // Handle DELETE
-      const normalizedSql = sql.replace(/\s+/g, ' ').trim();
-      const deleteTableMatch = normalizedSql.match(/DELETE FROM (\w+)/i);
-      
-      if (deleteTableMatch) {
-        const table = deleteTableMatch[1];
-        
-        if (!webStorage[table]) {
-          webStorage[table] = [];
-          return { changes: 0 };
-        }
-        
-        const items = webStorage[table];
-        const initialLength = items.length;
-        
-        // Check for WHERE clause with placeholder
-        const whereParamMatch = normalizedSql.match(/WHERE\s+(\w+)\s*=\s*\?/i);
-        if (whereParamMatch && params && params.length > 0) {
-          const column = whereParamMatch[1];
-          const value = params[0];
-          webStorage[table] = items.filter((item: any) => !valuesEqual(item[column], value));
-          const deletedCount = initialLength - webStorage[table].length;
-          console.log(`[WebDB] DELETE from ${table} WHERE ${column}=${value}, deleted ${deletedCount}/${initialLength} rows`);
-          if (deletedCount > 0) saveWebStorage();
-          return { changes: deletedCount };
-        }
-        
-        // Check for WHERE clause with literal string value (e.g., source = 'user')
-        const whereLiteralMatch = normalizedSql.match(/WHERE\s+(\w+)\s*=\s*'([^']+)'/i);
-        if (whereLiteralMatch) {
-          const column = whereLiteralMatch[1];
-          const value = whereLiteralMatch[2];
-          webStorage[table] = items.filter((item: any) => !valuesEqual(item[column], value));
-          const deletedCount = initialLength - webStorage[table].length;
-          console.log(`[WebDB] DELETE from ${table} WHERE ${column}='${value}', deleted ${deletedCount}/${initialLength} rows`);
-          if (deletedCount > 0) saveWebStorage();
-          return { changes: deletedCount };
-        }
-        
-        // No WHERE clause - delete all rows
-        if (!normalizedSql.includes('WHERE')) {
-          webStorage[table] = [];
-          console.log(`[WebDB] DELETE ALL from ${table}, deleted ${initialLength} rows`);
-          if (initialLength > 0) saveWebStorage();
-          return { changes: initialLength };
-        }
-        
-        console.log(`[WebDB] Unhandled DELETE query: ${normalizedSql}`);
-        return { changes: 0 };
-      }
-      
-      // Handle UPDATE
-      const normalizedUpdate = sql.replace(/\s+/g, ' ').trim();
-      const updateMatch = normalizedUpdate.match(/UPDATE\s+(\w+)\s+SET\s+(.+?)\s+WHERE\s+(.+)/i);
-      if (updateMatch && params) {
-        const table = updateMatch[1];
-        const setClause = updateMatch[2];
-        const whereClause = updateMatch[3];
-        const items = webStorage[table] || [];
-        
-        // Parse SET clause to get column names and detect literals vs placeholders
-        const setAssignments = setClause.split(',').map(s => {
-          const parts = s.split('=');
-          const col = parts[0].trim();
-          const value = parts[1]?.trim() || '';
-          const isPlaceholder = value === '?';
-          let literalValue: any = null;
-          if (!isPlaceholder) {
-            if (value === 'CURRENT_TIMESTAMP') {
-              literalValue = new Date().toISOString();
-            } else if (value.match(/^'[^']*'$/)) {
-              literalValue = value.slice(1, -1);
-            } else if (value.match(/^-?\d+(\.\d+)?$/)) {
-              literalValue = parseFloat(value);
-            }
-          }
-          return { col, isPlaceholder, literalValue };
-        });
-        
-        // Determine which item to update based on WHERE clause
-        let targetItem: any = null;
-        let whereUsesParam = false;
-        
-        // Handle WHERE id = 1 (literal)
-        const literalIdMatch = whereClause.match(/id\s*=\s*(\d+)/i);
-        if (literalIdMatch) {
-          const id = parseInt(literalIdMatch[1]);
-          targetItem = items.find((i: any) => i.id === id);
-        } 
-        // Handle WHERE id = ?
-        else if (whereClause.match(/id\s*=\s*\?/i)) {
-          whereUsesParam = true;
-          const id = params[params.length - 1];
-          targetItem = items.find((i: any) => i.id === id);
-        }
-        // Handle WHERE column = ?
-        else {
-          const colMatch = whereClause.match(/(\w+)\s*=\s*\?/i);
-          if (colMatch) {
-            whereUsesParam = true;
-            const col = colMatch[1];
-            const value = params[params.length - 1];
-            targetItem = items.find((i: any) => valuesEqual(i[col], value));
-          }
-        }
-        
-        if (targetItem) {
-          let paramIndex = 0;
-          const maxParamIndex = whereUsesParam ? params.length - 1 : params.length;
-          
-          setAssignments.forEach(({ col, isPlaceholder, literalValue }) => {
-            if (isPlaceholder && paramIndex < maxParamIndex) {
-              targetItem[col] = params[paramIndex];
-              paramIndex++;
-            } else if (!isPlaceholder && literalValue !== null) {
-              targetItem[col] = literalValue;
-            }
-          });
-          
-          console.log(`[WebDB] UPDATE ${table}:`, targetItem);
-          saveWebStorage();
-        }
-      }
-      
-      return { lastInsertRowId: 0 };
-    },
-    getAllAsync: async <T>(sql: string, params?: any[]): Promise<T[]> => {
-      console.log('[WebDB] getAllAsync:', sql.substring(0, 80), params);
-      
-      // Extract main table from query
-      const fromMatch = sql.match(/FROM\s+(\w+)/i);
-      if (!fromMatch) {
-        console.log('[WebDB] Could not extract table name from query');
-        return [];
-      }
-      
-      const table = fromMatch[1];
-      
-      // Ensure table exists
-      if (!webStorage[table]) {
-        webStorage[table] = [];
-        console.log(`[WebDB] Table ${table} does not exist, returning empty`);
-      }
-      
-      let items = [...webStorage[table]];
-      console.log(`[WebDB] SELECT from ${table}: found ${items.length} total rows`);
-      
-      // Apply WHERE filter
-      items = filterByWhere(items, sql, params);
-      
-      // Handle COUNT(*)
-      if (sql.toLowerCase().includes('count(*)')) {
-        console.log(`[WebDB] COUNT result: ${items.length}`);
-        return [{ count: items.length }] as T[];
-      }
-      
-      // Handle SUM(glasses) for water
-      if (sql.toLowerCase().includes('sum(glasses)')) {
-        const total = items.reduce((acc, item) => acc + (item.glasses || 0), 0);
-        console.log(`[WebDB] SUM(glasses) result: ${total}`);
-        return [{ total }] as T[];
-      }
-      
-      // Handle GROUP BY date
-      if (sql.toLowerCase().includes('group by date')) {
-        const grouped: Record<string, any> = {};
-        items.forEach(item => {
-          if (!grouped[item.date]) {
-            grouped[item.date] = { date: item.date, count: 0, total: 0 };
-          }
-          grouped[item.date].count++;
-          if (item.glasses) grouped[item.date].total += item.glasses;
-        });
-        return Object.values(grouped) as T[];
-      }
-      
-      // Handle ORDER BY
-      if (sql.toLowerCase().includes('order by')) {
-        const orderMatch = sql.match(/ORDER BY\s+(\w+)(?:\s+(DESC|ASC))?/i);
-        if (orderMatch) {
-          const orderCol = orderMatch[1];
-          const desc = orderMatch[2]?.toUpperCase() === 'DESC';
-          items.sort((a, b) => {
-            const aVal = a[orderCol];
-            const bVal = b[orderCol];
-            if (aVal < bVal) return desc ? 1 : -1;
-            if (aVal > bVal) return desc ? -1 : 1;
-            return 0;
-          });
-        }
-      }
-      
-      // Handle LIMIT
-      const limitMatch = sql.match(/LIMIT\s+(\d+)/i);
-      if (limitMatch) {
-        items = items.slice(0, parseInt(limitMatch[1]));
-      }
-      
-      console.log(`[WebDB] getAllAsync returning ${items.length} rows`);
-      return items as T[];
-    },
-    getFirstAsync: async <T>(sql: string, params?: any[]): Promise<T | null> => {
-      console.log('[WebDB] getFirstAsync:', sql.substring(0, 80), params);
-      
-      const fromMatch = sql.match(/FROM\s+(\w+)/i);
-      if (!fromMatch) {
-        console.log('[WebDB] Could not extract table name');
-        return null;
-      }
-      
-      const table = fromMatch[1];
-      
-      // Ensure table exists
-      if (!webStorage[table]) {
-        webStorage[table] = [];
-      }
-      
-      let items = [...webStorage[table]];
-      console.log(`[WebDB] getFirstAsync from ${table}: ${items.length} total rows`);
-      
-      // Apply WHERE filter
-      items = filterByWhere(items, sql, params);
-      console.log(`[WebDB] After WHERE filter: ${items.length} rows`);
-      
-      // Handle COUNT(*)
-      if (sql.toLowerCase().includes('count(*)')) {
-        const result = { count: items.length } as T;
-        console.log(`[WebDB] COUNT result:`, result);
-        return result;
-      }
-      
-      // Handle SUM with COALESCE
-      if (sql.toLowerCase().includes('sum(glasses)') || sql.toLowerCase().includes('coalesce(sum(glasses)')) {
-        const total = items.reduce((acc, item) => acc + (item.glasses || 0), 0);
-        const result = { total } as T;
-        console.log(`[WebDB] SUM result:`, result);
-        return result;
-      }
-      
-      const result = (items[0] as T) || null;
-      console.log(`[WebDB] getFirstAsync result:`, result);
-      return result;
-    },
-  };
-}
-
-let db: any = null;
-let SQLiteModule: any = null;
-
-export async function getDatabase(): Promise<any> {
-  if (db) return db;
-  
-  if (Platform.OS === 'web') {
-    db = createWebMockDatabase();
-    return db;
-  }
-  
-  // Dynamic import for native platforms only
-  if (!SQLiteModule) {
-    SQLiteModule = require('expo-sqlite');
-  }
-  db = await SQLiteModule.openDatabaseAsync(DATABASE_NAME);
-  return db;
-}
-
-// Load internal data for web mock
-async function loadInternalDataWeb(): Promise<void> {
-  // Check if already loaded and has the same count AND has nutrition data
-  const existingInternalFoods = webStorage['foods']?.filter((f: any) => f.source === 'internal') || [];
-  
-  // Check if any internal food is missing nutrition data (needs refresh)
-  const needsRefresh = existingInternalFoods.length < INTERNAL_FOODS.length || 
-    existingInternalFoods.some((f: any) => !f.nutrition);
-  
-  if (!needsRefresh) {
-    console.log('[WebDB] Internal data already loaded with nutrition');
+  let legacy: Record<string, any[]>;
+  try {
+    legacy = JSON.parse(saved);
+  } catch (e) {
+    console.error('[Database] Could not parse legacy web storage, skipping import:', e);
     return;
   }
-  
-  console.log('[WebDB] Refreshing internal foods (count or nutrition missing)');
-  
-  // Remove old internal foods to reload with updated data
-  if (webStorage['foods']) {
-    webStorage['foods'] = webStorage['foods'].filter((f: any) => f.source !== 'internal');
-  }
 
-  // Load foods
-  if (!webStorage['foods']) webStorage['foods'] = [];
-  
-  let foodId = webStorage['foods'].length + 1;
-  for (const food of INTERNAL_FOODS) {
-    webStorage['foods'].push({
-      id: foodId++,
-      name: food.name,
-      category: food.category,
-      fodmap_level: food.fodmap_level,
-      fodmap_details: food.fodmap_details ? JSON.stringify(food.fodmap_details) : null,
-      nutrition: food.nutrition ? JSON.stringify(food.nutrition) : null,
-      serving_size: food.serving_size,
-      notes: food.notes,
-      tags: (food as any).tags ? JSON.stringify((food as any).tags) : null,
-      digestive_effect: (food as any).digestive_effect !== undefined ? (food as any).digestive_effect : 0,
-      source: 'internal',
-      source_id: food.id, // Original ID from JSON (e.g., "zanahoria")
-      is_compound: false,
-      created_at: new Date().toISOString(),
-    });
-  }
+  console.log('[Database] Importing legacy web storage:', Object.keys(legacy));
 
-  // Load recipes
-  if (!webStorage['recipes']) webStorage['recipes'] = [];
-  if (!webStorage['recipe_steps']) webStorage['recipe_steps'] = [];
-  if (!webStorage['recipe_ingredients']) webStorage['recipe_ingredients'] = [];
+  // Old rows may reference ids that no longer exist
+  await database.execAsync('PRAGMA foreign_keys = OFF;');
+  try {
+    await database.withTransactionAsync(async () => {
+      for (const [table, rows] of Object.entries(legacy)) {
+        if (table === 'schema_version' || !Array.isArray(rows) || rows.length === 0) continue;
 
-  let recipeId = webStorage['recipes'].length + 1;
-  let stepId = webStorage['recipe_steps'].length + 1;
-  let ingId = webStorage['recipe_ingredients'].length + 1;
+        const columnInfo = await database.getAllAsync(`PRAGMA table_info(${table})`);
+        const columns = new Set(columnInfo.map((c: { name: string }) => c.name));
+        if (columns.size === 0) continue;
 
-  for (const recipe of INTERNAL_RECIPES) {
-    const currentRecipeId = recipeId++;
-    
-    webStorage['recipes'].push({
-      id: currentRecipeId,
-      name: recipe.name,
-      description: recipe.description,
-      fodmap_level: recipe.fodmap_level,
-      prep_time: recipe.prep_time,
-      cook_time: recipe.cook_time,
-      servings: recipe.servings,
-      difficulty: recipe.difficulty,
-      cuisine: recipe.cuisine,
-      notes: recipe.notes,
-      meal_types: recipe.meal_types ? JSON.stringify(recipe.meal_types) : null,
-      dietary: recipe.dietary ? JSON.stringify(recipe.dietary) : null,
-      nutrition: recipe.nutrition ? JSON.stringify(recipe.nutrition) : null,
-      source: 'internal',
-      source_id: recipe.id, // Original ID from JSON (e.g., "arroz-con-pollo")
-      created_at: new Date().toISOString(),
-    });
-
-    // Add steps
-    if (recipe.steps) {
-      for (const step of recipe.steps) {
-        webStorage['recipe_steps'].push({
-          id: stepId++,
-          recipe_id: currentRecipeId,
-          step_order: step.order,
-          title: step.title,
-          instruction: step.instruction,
-          duration_minutes: step.duration_minutes,
-          tip: step.tip,
-        });
-      }
-    }
-
-    // Add ingredients
-    if (recipe.ingredients) {
-      for (const ing of recipe.ingredients) {
-        webStorage['recipe_ingredients'].push({
-          id: ingId++,
-          recipe_id: currentRecipeId,
-          name: ing.name,
-          quantity: ing.quantity,
-          unit: ing.unit,
-          fodmap_level: ing.fodmap_level,
-          notes: ing.notes,
-          is_optional: ing.optional ? 1 : 0,
-        });
+        for (const row of rows) {
+          const keys = Object.keys(row).filter(k => columns.has(k) && row[k] !== undefined);
+          if (keys.length === 0) continue;
+          await database.runAsync(
+            `INSERT OR IGNORE INTO ${table} (${keys.join(', ')}) VALUES (${keys.map(() => '?').join(', ')})`,
+            keys.map(k => (typeof row[k] === 'object' && row[k] !== null ? JSON.stringify(row[k]) : row[k]))
+          );
+        }
       }
-    }
+    });
+    localStorage.removeItem(LEGACY_WEB_STORAGE_KEY);
+    console.log('[Database] Legacy web storage imported');
+  } finally {
+    await database.execAsync('PRAGMA foreign_keys = ON;');
   }
-
-  saveWebStorage();
-  console.log(`[WebDB] Loaded ${INTERNAL_FOODS.length} internal foods and ${INTERNAL_RECIPES.length} internal recipes`);
 }
 
 export async function initDatabase(): Promise<void> {
   const database = await getDatabase();
 
-  if (Platform.OS === 'web') {
-    // Initialize web mock tables
-    await database.execAsync(`
-      CREATE TABLE IF NOT EXISTS tags;
-      CREATE TABLE IF NOT EXISTS folders;
-      CREATE TABLE IF NOT EXISTS foods;
-      CREATE TABLE IF NOT EXISTS food_components;
-      CREATE TABLE IF NOT EXISTS recipes;
-      CREATE TABLE IF NOT EXISTS recipe_steps;
-      CREATE TABLE IF NOT EXISTS recipe_ingredients;
-      CREATE TABLE IF NOT EXISTS meals;
-      CREATE TABLE IF NOT EXISTS meal_items;
-      CREATE TABLE IF NOT EXISTS water_intake;
-      CREATE TABLE IF NOT EXISTS treatments;
-      CREATE TABLE IF NOT EXISTS treatment_logs;
-      CREATE TABLE IF NOT EXISTS symptoms;
-      CREATE TABLE IF NOT EXISTS bowel_movements;
-      CREATE TABLE IF NOT EXISTS settings;
-      CREATE TABLE IF NOT EXISTS default_meals;
-      CREATE TABLE IF NOT EXISTS activity_types;
-      CREATE TABLE IF NOT EXISTS activity_logs;
-      CREATE TABLE IF NOT EXISTS scheduled_activities;
-      CREATE TABLE IF NOT EXISTS scheduled_activity_logs;
-      CREATE TABLE IF NOT EXISTS ingredients;
-      CREATE TABLE IF NOT EXISTS user_profile;
-      CREATE TABLE IF NOT EXISTS weight_logs;
-    `);
-    
-    // Add default activity types for web (only if not already set)
-    if (!webStorage['activity_types'] || webStorage['activity_types'].length === 0) {
-      const defaultActivities = [
-        { id: 1, name: 'Caminar', icon: 'walk', color: '#4CAF50' },
-        { id: 2, name: 'Correr', icon: 'fitness', color: '#F44336' },
-        { id: 3, name: 'Ciclismo', icon: 'bicycle', color: '#2196F3' },
-        { id: 4, name: 'Natación', icon: 'water', color: '#00BCD4' },
-        { id: 5, name: 'Yoga', icon: 'body', color: '#9C27B0' },
-        { id: 6, name: 'Gimnasio', icon: 'barbell', color: '#FF5722' },
-        { id: 7, name: 'Estiramientos', icon: 'accessibility', color: '#8BC34A' },
-        { id: 8, name: 'Meditación', icon: 'leaf', color: '#607D8B' },
-      ];
-      webStorage['activity_types'] = defaultActivities;
-      saveWebStorage();
-    }
-
-    // Load internal foods data for web
-    await loadInternalDataWeb();
-    
-    console.log('Web mock database initialized');
-    console.log('[WebDB] Current tables:', Object.keys(webStorage));
-    console.log('[WebDB] Current data counts:', Object.fromEntries(
-      Object.entries(webStorage).map(([k, v]) => [k, v.length])
-    ));
-    return;
-  }
-
-  // Native database initialization
   await database.execAsync('PRAGMA foreign_keys = ON;');
 
   await database.execAsync(`
@@ -1213,6 +442,13 @@ export async function initDatabase(): Promise<void> {
     );
   `);
 
+  // Bring tables created by older versions up to date
+  await runMigrations(database);
+
+  if (Platform.OS === 'web') {
+    await importLegacyWebStorage(database);
+  }
+
   // Insert default activity types
   const defaultActivities = [
     { name: 'Caminar', icon: 'walk', color: '#4CAF50' },
@@ -0,0 +1,186 @@
+/**
+ * Everyday FODMAP - Encryption
+ *
+ * Passphrase-based authenticated encryption for backups. Keys are derived
+ * with scrypt and data is sealed with XChaCha20-Poly1305 (@noble, pure JS:
+ * React Native has no WebCrypto). A wrong passphrase or a modified file fails
+ * the authentication check instead of producing garbage.
+ *
+ * The derived backup key can be remembered in secure storage so later
+ * exports don't ask for the passphrase again.
+ */
+
+import { xchacha20poly1305 } from '@noble/ciphers/chacha';
+import { bytesToUtf8, utf8ToBytes } from '@noble/ciphers/utils';
+import { scryptAsync } from '@noble/hashes/scrypt';
+import { getRandomBytes } from 'expo-crypto';
+import { Backup } from './backup';
+import { deleteSecureItem, getSecureItem, setSecureItem } from './secure-storage';
+
+export const ENCRYPTED_BACKUP_FORMAT = 'everyday-fodmap-encrypted-backup';
+export const ENCRYPTED_BACKUP_VERSION = 1;
+export const MIN_BACKUP_PASSPHRASE_LENGTH = 8;
+
+export interface KdfParams {
+  name: 'scrypt';
+  N: number;
+  r: number;
+  p: number;
+  salt: string; // base64
+}
+
+export interface DerivedKey {
+  kdf: KdfParams;
+  key: Uint8Array;
+}
+
+export interface EncryptedBackup {
+  format: typeof ENCRYPTED_BACKUP_FORMAT;
+  version: number;
+  kdf: KdfParams;
+  cipher: 'xchacha20-poly1305';
+  nonce: string; // base64
+  data: string; // base64 ciphertext + tag of the backup JSON
+}
+
+// 32 MB of memory, a second or two on a mid-range phone
+const SCRYPT_COST = { N: 2 ** 15, r: 8, p: 1 };
+// Upper bounds for parameters read from a file, so a crafted file can't
+// make the app allocate gigabytes
+const MAX_SCRYPT_N = 2 ** 20;
+const MAX_SCRYPT_R = 16;
+const MAX_SCRYPT_P = 4;
+
+const SALT_BYTES = 16;
+const NONCE_BYTES = 24;
+const KEY_BYTES = 32;
+
+const BACKUP_KEY_ITEM = 'backup_key';
+
+// ============================================================
+// PRIMITIVES
+// ============================================================
+
+export function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  // Chunked to stay below the argument limit of fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+export function fromBase64(value: string): Uint8Array {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function isValidKdf(kdf: KdfParams): boolean {
+  return (
+    kdf?.name === 'scrypt' &&
+    Number.isInteger(kdf.N) && kdf.N > 1 && kdf.N <= MAX_SCRYPT_N && (kdf.N & (kdf.N - 1)) === 0 &&
+    Number.isInteger(kdf.r) && kdf.r > 0 && kdf.r <= MAX_SCRYPT_R &&
+    Number.isInteger(kdf.p) && kdf.p > 0 && kdf.p <= MAX_SCRYPT_P &&
+    typeof kdf.salt === 'string'
+  );
+}
+
+/**
+ * Derive a key from a passphrase. Without kdf a new random salt is used.
+ */
+export async function deriveKey(passphrase: string, kdf?: KdfParams): Promise<DerivedKey> {
+  const params: KdfParams = kdf || {
+    name: 'scrypt',
+    ...SCRYPT_COST,
+    salt: toBase64(getRandomBytes(SALT_BYTES)),
+  };
+  if (!isValidKdf(params)) {
+    throw new Error('Parámetros de cifrado no válidos');
+  }
+
+  const key = await scryptAsync(passphrase.normalize('NFKC'), fromBase64(params.salt), {
+    N: params.N,
+    r: params.r,
+    p: params.p,
+    dkLen: KEY_BYTES,
+  });
+  return { kdf: params, key };
+}
+
+// ============================================================
+// BACKUPS
+// ============================================================
+
+export function isEncryptedBackup(data: unknown): data is EncryptedBackup {
+  return !!data && typeof data === 'object' && (data as EncryptedBackup).format === ENCRYPTED_BACKUP_FORMAT;
+}
+
+export function encryptBackup(backup: Backup, key: DerivedKey): EncryptedBackup {
+  const nonce = getRandomBytes(NONCE_BYTES);
+  const ciphertext = xchacha20poly1305(key.key, nonce).encrypt(utf8ToBytes(JSON.stringify(backup)));
+
+  return {
+    format: ENCRYPTED_BACKUP_FORMAT,
+    version: ENCRYPTED_BACKUP_VERSION,
+    kdf: key.kdf,
+    cipher: 'xchacha20-poly1305',
+    nonce: toBase64(nonce),
+    data: toBase64(ciphertext),
+  };
+}
+
+/**
+ * Decrypt an encrypted backup with its passphrase (or a remembered key with
+ * the same salt). Returns the parsed backup, still to be validated.
+ */
+export async function decryptBackup(file: EncryptedBackup, secret: string | DerivedKey): Promise<unknown> {
+  if (file.version > ENCRYPTED_BACKUP_VERSION || file.cipher !== 'xchacha20-poly1305') {
+    throw new Error('La copia se creó con una versión más reciente de la app');
+  }
+
+  let key: DerivedKey;
+  if (typeof secret === 'string') {
+    key = await deriveKey(secret, file.kdf);
+  } else if (secret.kdf.salt === file.kdf?.salt) {
+    key = secret;
+  } else {
+    throw new Error('La copia se cifró con otra contraseña');
+  }
+
+  let plaintext: Uint8Array;
+  try {
+    plaintext = xchacha20poly1305(key.key, fromBase64(file.nonce)).decrypt(fromBase64(file.data));
+  } catch (error) {
+    throw new Error('Contraseña incorrecta o archivo dañado');
+  }
+  return JSON.parse(bytesToUtf8(plaintext));
+}
+
+// ============================================================
+// REMEMBERED BACKUP KEY
+// ============================================================
+
+export async function getRememberedBackupKey(): Promise<DerivedKey | null> {
+  const stored = await getSecureItem(BACKUP_KEY_ITEM);
+  if (!stored) return null;
+
+  try {
+    const { kdf, key } = JSON.parse(stored);
+    return { kdf, key: fromBase64(key) };
+  } catch (error) {
+    console.error('[Encryption] Invalid remembered backup key:', error);
+    return null;
+  }
+}
+
+export async function rememberBackupKey(key: DerivedKey): Promise<void> {
+  await setSecureItem(BACKUP_KEY_ITEM, JSON.stringify({ kdf: key.kdf, key: toBase64(key.key) }));
+}
+
+export async function forgetBackupKey(): Promise<void> {
+  await deleteSecureItem(BACKUP_KEY_ITEM);
+}
@@ -0,0 +1,382 @@
+/**
+ * Everyday FODMAP - Ingredient FODMAP Classifier
+ *
+ * Rule-based, provisional FODMAP rating of a packaged product from its
+ * ingredient list (OpenFoodFacts `ingredients`, `ingredients_text` and
+ * `additives_tags`). Known triggers are looked up by OFF taxonomy id and by
+ * their Spanish and English names:
+ *
+ * - Fructans: garlic, onion (and their powders), inulin/FOS/chicory, wheat,
+ *   rye and barley as main ingredients
+ * - GOS: legumes (chickpeas, lentils, beans, peas, whole soy)
+ * - Lactose: lactose, milk, milk powder, whey, cream
+ * - Fructose: honey, HFCS/fructose syrups, agave, apple/pear/mango
+ * - Polyols: E420 sorbitol, E421 mannitol, E965 maltitol, E967 xylitol,
+ *   E953 isomalt, E966 lactitol (counted as sorbitol), mushrooms (mannitol)
+ * A trigger among the main ingredients (≥ 5 % or one of the first three)
+ * rates its subgroup with the rule's level, a minor one with its lower
+ * level. Subgroups without triggers are low when there is an ingredient list.
+ * Amounts are unknown, so the result is an estimate to review, not a test.
+ */
+
+import { foldText } from './search';
+import { FODMAP_CATEGORIES, FODMAPDetails, FODMAPLevel, FODMAPSubgroup, getOverallFODMAP } from './types';
+
+// Ingredient data of a product, as in OpenFoodFacts
+export interface IngredientSource {
+  ingredients_text?: string;
+  ingredients?: any[];
+  additives_tags?: string[];
+}
+
+export interface FODMAPTrigger {
+  // Ingredient as it appears in the product
+  ingredient: string;
+  // What it was recognized as ("Ajo", "Sorbitol (E420)")
+  label: string;
+  subgroups: FODMAPSubgroup[];
+  level: FODMAPLevel;
+  // Among the main ingredients of the product
+  main: boolean;
+  // Why it is a trigger
+  reason: string;
+}
+
+export interface FODMAPClassification {
+  // Provisional details; subgroups without triggers are low
+  details: FODMAPDetails;
+  level: FODMAPLevel;
+  triggers: FODMAPTrigger[];
+  // Why each subgroup got its level, in Spanish
+  explanations: Record<FODMAPSubgroup, string>;
+  // Ingredients analyzed
+  ingredientCount: number;
+}
+
+interface TriggerRule {
+  label: string;
+  subgroups: FODMAPSubgroup[];
+  // OFF taxonomy ids and additive tags ("en:garlic", "en:e420")
+  tags: string[];
+  // Matched against the folded ingredient name
+  pattern: RegExp;
+  // Ingredients that look alike but are not triggers
+  exclude?: RegExp;
+  // Level as a main ingredient and as a minor one
+  level: FODMAPLevel;
+  minorLevel: FODMAPLevel;
+  reason: string;
+}
+
+// First matching rule wins: specific names before general ones
+const TRIGGER_RULES: TriggerRule[] = [
+  {
+    label: 'Ajo', subgroups: ['fructans'],
+    tags: ['en:garlic', 'en:garlic-powder', 'en:dehydrated-garlic'],
+    pattern: /\b(ajo|ajos|garlic)\b/,
+    level: 'high', minorLevel: 'high',
+    reason: 'muy rico en fructanos incluso en pequeñas cantidades',
+  },
+  {
+    label: 'Cebolla', subgroups: ['fructans'],
+    tags: ['en:onion', 'en:onion-powder', 'en:dehydrated-onion', 'en:shallot', 'en:leek'],
+    pattern: /\b(cebollas?|onions?|chalotas?|shallots?|puerros?|leeks?)\b/,
+    exclude: /\b(cebollino|chives?)\b/,
+    level: 'high', minorLevel: 'high',
+    reason: 'muy rica en fructanos incluso en pequeñas cantidades',
+  },
+  {
+    label: 'Inulina / FOS', subgroups: ['fructans'],
+    tags: ['en:inulin', 'en:fructo-oligosaccharide', 'en:oligofructose', 'en:chicory', 'en:chicory-root-fibre', 'en:chicory-fibre'],
+    pattern: /\b(inulina|inulin|fructooligosacaridos?|fructo oligosacaridos?|fructooligosaccharides?|fos|oligofructosa|oligofructose|achicoria|chicory)\b/,
+    level: 'high', minorLevel: 'high',
+    reason: 'fibra añadida que es fructano puro',
+  },
+  {
+    label: 'Trigo, centeno o cebada', subgroups: ['fructans'],
+    tags: ['en:wheat', 'en:wheat-flour', 'en:whole-wheat-flour', 'en:rye', 'en:rye-flour', 'en:barley', 'en:barley-flour'],
+    pattern: /\b(trigo|wheat|centeno|rye|cebada|barley)\b/,
+    exclude: /\b(almidon|starch|gluten|malta|malt|maltodextrina|maltodextrin|jarabe|syrup|salsa de soja|soy sauce)\b/,
+    level: 'high', minorLevel: 'low',
+    reason: 'fuente de fructanos; en poca cantidad suele tolerarse',
+  },
+  {
+    label: 'Legumbres', subgroups: ['gos'],
+    tags: ['en:chickpea', 'en:lentil', 'en:bean', 'en:kidney-bean', 'en:white-bean', 'en:black-bean', 'en:pea', 'en:soya-bean', 'en:soya-flour'],
+    pattern: /\b(garbanzos?|chickpeas?|lentejas?|lentils?|alubias?|judias?|frijoles?|beans?|guisantes?|peas?|habas?|soja|soya|soy|soybeans?)\b/,
+    exclude: /\b(lecitina|lecithin|aceite|oil|salsa|sauce|aislad[oa]|isolate|proteina|protein|judias? verdes?|green beans?|vainilla|vanilla|cacao|cocoa|cafe|coffee)\b/,
+    level: 'high', minorLevel: 'medium',
+    reason: 'las legumbres son ricas en GOS',
+  },
+  {
+    label: 'Lactosa', subgroups: ['lactose'],
+    tags: ['en:lactose'],
+    pattern: /\b(lactosa|lactose)\b/,
+    exclude: /\b(sin lactosa|lactose free|deslactosad[oa])\b/,
+    level: 'high', minorLevel: 'medium',
+    reason: 'azúcar de la leche',
+  },
+  {
+    label: 'Suero de leche', subgroups: ['lactose'],
+    tags: ['en:whey', 'en:whey-powder', 'en:buttermilk', 'en:lactoserum'],
+    pattern: /\b(suero|lactosuero|whey|buttermilk)\b/,
+    exclude: /\b(aislad[oa]|isolate|sin lactosa|lactose free)\b/,
+    level: 'high', minorLevel: 'medium',
+    reason: 'conserva la lactosa de la leche (el aislado de proteína de suero apenas tiene)',
+  },
+  {
+    label: 'Leche', subgroups: ['lactose'],
+    tags: ['en:milk', 'en:whole-milk', 'en:skimmed-milk', 'en:milk-powder', 'en:skimmed-milk-powder', 'en:whole-milk-powder', 'en:condensed-milk', 'en:milk-solids', 'en:cream'],
+    pattern: /\b(leche|milk|lacteos?|nata|cream)\b/,
+    exclude: /\b(sin lactosa|lactose free|deslactosad[oa]|coco|coconut|almendras?|almonds?|avena|oat|arroz|rice|soja|soy|proteinas?|proteins?|grasa|fat|mantequilla|butter|ferment[oa]s?)\b/,
+    level: 'high', minorLevel: 'medium',
+    reason: 'contiene lactosa',
+  },
+  {
+    label: 'Miel', subgroups: ['fructose'],
+    tags: ['en:honey'],
+    pattern: /\b(miel|honey)\b/,
+    level: 'high', minorLevel: 'medium',
+    reason: 'tiene más fructosa que glucosa',
+  },
+  {
+    label: 'Jarabe de glucosa-fructosa', subgroups: ['fructose'],
+    tags: ['en:glucose-fructose-syrup'],
+    pattern: /\b(glucosa fructosa|glucose fructose)\b/,
+    level: 'medium', minorLevel: 'low',
+    reason: 'mezcla con algo menos de fructosa que de glucosa',
+  },
+  {
+    label: 'Jarabe de fructosa', subgroups: ['fructose'],
+    tags: ['en:fructose-glucose-syrup', 'en:high-fructose-corn-syrup', 'en:fructose-syrup', 'en:fructose', 'en:agave-syrup', 'en:agave'],
+    pattern: /\b(jarabe de fructosa|jarabe de maiz alto en fructosa|fructosa glucosa|high fructose|fructose syrup|fructose glucose|fructosa|fructose|agave)\b/,
+    level: 'high', minorLevel: 'medium',
+    reason: 'aporta fructosa en exceso',
+  },
+  {
+    label: 'Manzana, pera o mango', subgroups: ['fructose', 'sorbitol'],
+    tags: ['en:apple', 'en:apple-juice', 'en:concentrated-apple-juice', 'en:pear', 'en:pear-juice', 'en:mango'],
+    pattern: /\b(manzanas?|apples?|peras?|pears?|mangos?|mangoes)\b/,
+    exclude: /\b(vinagre|vinegar|pectina|pectin)\b/,
+    level: 'high', minorLevel: 'medium',
+    reason: 'fruta con fructosa en exceso (y sorbitol en manzana y pera)',
+  },
+  {
+    label: 'Sorbitol (E420)', subgroups: ['sorbitol'],
+    tags: ['en:e420', 'en:e420i', 'en:e420ii', 'en:sorbitol'],
+    pattern: /\b(sorbitol|e ?420i*)\b/,
+    level: 'high', minorLevel: 'medium',
+    reason: 'poliol',
+  },
+  {
+    label: 'Manitol (E421)', subgroups: ['mannitol'],
+    tags: ['en:e421', 'en:mannitol'],
+    pattern: /\b(manitol|mannitol|e ?421)\b/,
+    level: 'high', minorLevel: 'medium',
+    reason: 'poliol',
+  },
+  {
+    label: 'Maltitol (E965)', subgroups: ['sorbitol'],
+    tags: ['en:e965', 'en:e965i', 'en:e965ii', 'en:maltitol', 'en:maltitol-syrup'],
+    pattern: /\b(maltitol|e ?965i*)\b/,
+    level: 'high', minorLevel: 'medium',
+    reason: 'poliol con el mismo efecto que el sorbitol',
+  },
+  {
+    label: 'Xilitol (E967)', subgroups: ['sorbitol'],
+    tags: ['en:e967', 'en:xylitol'],
+    pattern: /\b(xilitol|xylitol|e ?967)\b/,
+    level: 'high', minorLevel: 'medium',
+    reason: 'poliol con el mismo efecto que el sorbitol',
+  },
+  {
+    label: 'Isomalt (E953)', subgroups: ['sorbitol'],
+    tags: ['en:e953', 'en:isomalt'],
+    pattern: /\b(isomalt|isomaltitol|e ?953)\b/,
+    level: 'high', minorLevel: 'medium',
+    reason: 'poliol con el mismo efecto que el sorbitol',
+  },
+  {
+    label: 'Lactitol (E966)', subgroups: ['sorbitol'],
+    tags: ['en:e966', 'en:lactitol'],
+    pattern: /\b(lactitol|e ?966)\b/,
+    level: 'high', minorLevel: 'medium',
+    reason: 'poliol con el mismo efecto que el sorbitol',
+  },
+  {
+    label: 'Champiñones', subgroups: ['mannitol'],
+    tags: ['en:mushroom', 'en:button-mushroom'],
+    pattern: /\b(champinon(es)?|setas?|hongos?|mushrooms?)\b/,
+    level: 'high', minorLevel: 'medium',
+    reason: 'ricos en manitol',
+  },
+];
+
+// Share of the product from which an ingredient counts as main
+const MAIN_PERCENT = 5;
+// Without percentages, the first ingredients of the list are the main ones
+const MAIN_RANK = 3;
+
+const LEVEL_ORDER: Record<FODMAPLevel, number> = { unknown: 0, low: 1, medium: 2, high: 3 };
+
+const LEVEL_WORDS: Record<FODMAPLevel, string> = {
+  low: 'bajo', medium: 'moderado', high: 'alto', unknown: 'desconocido',
+};
+
+// ============================================================
+// INGREDIENTS
+// ============================================================
+
+interface ListedIngredient {
+  text: string;
+  id?: string;
+  main: boolean;
+  // Names of the ingredients it is part of, innermost first
+  parents: string[];
+}
+
+/**
+ * Ingredients of OFF's parsed list, sub-ingredients included; without
+ * percentages a sub-ingredient is as main as its parent
+ */
+function flattenIngredients(items: any[], parentMain?: boolean, parents: string[] = []): ListedIngredient[] {
+  const listed: ListedIngredient[] = [];
+  items.forEach((item, index) => {
+    const percent = parseFloat(item.percent ?? item.percent_estimate);
+    const main = !isNaN(percent)
+      ? percent >= MAIN_PERCENT
+      : parentMain ?? index < MAIN_RANK;
+    const text = String(item.text || item.id || '');
+    listed.push({ text, id: item.id, main, parents });
+    if (Array.isArray(item.ingredients)) listed.push(...flattenIngredients(item.ingredients, main, [text, ...parents]));
+  });
+  return listed;
+}
+
+/**
+ * Ingredients of a plain list: split at commas, semicolons and full stops,
+ * without percentages and class names ("Edulcorantes: maltitol"). The
+ * ingredients in brackets are sub-ingredients of the one before, as main as
+ * it is.
+ */
+function splitIngredientsText(text: string): ListedIngredient[] {
+  const listed: ListedIngredient[] = [];
+  // Open brackets, with the ingredient they belong to (if any)
+  const open: (ListedIngredient | undefined)[] = [];
+  let last: ListedIngredient | undefined;
+  let topLevel = 0;
+
+  const parts = text
+    .replace(/\d+(?:[.,]\d+)?\s*%/g, '')
+    .split(/([()[\]])|[,;]|\s\.\s|\.$/);
+  for (const part of parts) {
+    if (part === '(' || part === '[') {
+      open.push(last);
+    } else if (part === ')' || part === ']') {
+      last = open.pop();
+    } else {
+      const name = part?.replace(/^[^:]*:/, '').trim();
+      if (!name) continue;
+      const parent = open.filter(Boolean).pop();
+      last = parent
+        ? { text: name, main: parent.main, parents: [parent.text, ...parent.parents] }
+        : { text: name, main: topLevel++ < MAIN_RANK, parents: [] };
+      listed.push(last);
+    }
+  }
+  return listed;
+}
+
+/**
+ * Rule matching an ingredient. The exclusions also apply to the names of
+ * its parents ("soja" in "salsa de soja (agua, soja, trigo)").
+ */
+function findRule(ingredient: ListedIngredient): TriggerRule | undefined {
+  const name = foldText(ingredient.text);
+  const names = [name, ...ingredient.parents.map(foldText)];
+  return TRIGGER_RULES.find(rule => {
+    if (rule.exclude && names.some(text => rule.exclude!.test(text))) return false;
+    return (ingredient.id !== undefined && rule.tags.includes(ingredient.id)) || rule.pattern.test(name);
+  });
+}
+
+// ============================================================
+// CLASSIFICATION
+// ============================================================
+
+/**
+ * Provisional FODMAP details of a product from its ingredients, undefined
+ * when it has no ingredient list
+ */
+export function classifyIngredients(source: IngredientSource): FODMAPClassification | undefined {
+  const listed = source.ingredients?.length
+    ? flattenIngredients(source.ingredients)
+    : source.ingredients_text?.trim() ? splitIngredientsText(source.ingredients_text) : [];
+  if (listed.length === 0) return undefined;
+
+  const triggers: FODMAPTrigger[] = [];
+  const found = new Set<TriggerRule>();
+  for (const ingredient of listed) {
+    const rule = findRule(ingredient);
+    if (!rule) continue;
+    found.add(rule);
+    triggers.push({
+      ingredient: ingredient.text,
+      label: rule.label,
+      subgroups: rule.subgroups,
+      level: ingredient.main ? rule.level : rule.minorLevel,
+      main: ingredient.main,
+      reason: rule.reason,
+    });
+  }
+
+  // Additives missing from the parsed list only show up as tags
+  for (const tag of source.additives_tags || []) {
+    const rule = TRIGGER_RULES.find(candidate => candidate.tags.includes(tag));
+    if (!rule || found.has(rule)) continue;
+    found.add(rule);
+    triggers.push({
+      ingredient: rule.label,
+      label: rule.label,
+      subgroups: rule.subgroups,
+      level: rule.minorLevel,
+      main: false,
+      reason: rule.reason,
+    });
+  }
+
+  const details = {} as FODMAPDetails;
+  const explanations = {} as Record<FODMAPSubgroup, string>;
+  for (const { key } of FODMAP_CATEGORIES) {
+    const subgroupTriggers = triggers.filter(trigger => trigger.subgroups.includes(key));
+    const level = subgroupTriggers.reduce<FODMAPLevel>(
+      (max, trigger) => LEVEL_ORDER[trigger.level] > LEVEL_ORDER[max] ? trigger.level : max,
+      'low'
+    );
+    details[key] = level;
+    explanations[key] = subgroupTriggers.length === 0
+      ? 'Sin ingredientes conocidos que lo aporten'
+      : subgroupTriggers
+        .map(trigger => {
+          const position = trigger.main ? 'ingrediente principal' : 'en poca cantidad';
+          return `${trigger.ingredient} (${position}): ${trigger.reason} → ${LEVEL_WORDS[trigger.level]}`;
+        })
+        .join('; ');
+  }
+  details.overall = getOverallFODMAP(details);
+
+  return { details, level: details.overall, triggers, explanations, ingredientCount: listed.length };
+}
+
+/**
+ * Summary for the notes of a food classified from its ingredients
+ */
+export function describeClassification(classification: FODMAPClassification): string {
+  const lines = FODMAP_CATEGORIES
+    .filter(({ key }) => classification.details[key] !== 'low')
+    .map(({ key, label }) => `- ${label}: ${classification.explanations[key]}`);
+  return [
+    'FODMAP estimado a partir de los ingredientes (provisional, revísalo):',
+    ...(lines.length > 0 ? lines : ['- No se han detectado ingredientes ricos en FODMAP']),
+  ].join('\n');
+}
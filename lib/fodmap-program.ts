@@ -0,0 +1,324 @@
+/**
+ * Everyday FODMAP - Elimination & Reintroduction Program
+ *
+ * The three Monash phases: a low FODMAP elimination period, then one
+ * reintroduction challenge per FODMAP subgroup and finally personalization.
+ *
+ * A challenge tests one food on three consecutive days with increasing
+ * doses, followed by low FODMAP washout days before the next challenge.
+ * Its verdict comes from the symptoms logged on the dose days (and the
+ * first washout day, for late reactions to the last dose), compared with
+ * the symptoms of the last week of elimination.
+ */
+
+import { getDatesInRange } from './analysis';
+import { getDatabase } from './database';
+import { FODMAPProgramRepository } from './repositories';
+import {
+  ChallengeVerdict,
+  FODMAP_CATEGORIES,
+  FODMAPChallenge,
+  FODMAPProgram,
+  FODMAPSubgroup,
+  ProgramPhase,
+} from './types';
+
+export type ChallengeStatus = 'scheduled' | 'in_progress' | 'completed';
+
+export interface ChallengeTestFood {
+  food: string;
+  doses: number[];
+  unit: string;
+}
+
+export interface ChallengeDay {
+  date: string;
+  // 1-3 on dose days, undefined on washout days
+  dose?: number;
+  // Highest symptom intensity logged that day (0 = none)
+  maxIntensity: number;
+  reaction: boolean;
+}
+
+export interface ChallengeResult {
+  challenge: FODMAPChallenge;
+  status: ChallengeStatus;
+  // Dose days followed by washout days
+  days: ChallengeDay[];
+  endDate: string;
+  // Dose (1-3) after which symptoms appeared
+  reactionDose?: number;
+  // Known once the challenge is completed or symptoms appeared
+  verdict?: ChallengeVerdict;
+}
+
+export interface ProgramDay {
+  date: string;
+  phase: ProgramPhase;
+  challenge?: FODMAPChallenge;
+  dose?: number;
+}
+
+export interface ProgramPlan {
+  program: FODMAPProgram;
+  challenges: ChallengeResult[];
+  // Phase of today; undefined before the elimination starts
+  today?: ProgramDay;
+  // Average daily peak intensity of the last elimination week
+  baseline: number;
+  // Daily peak intensity that counts as a reaction
+  threshold: number;
+  // Subgroups without a challenge yet, in the recommended order
+  pendingSubgroups: FODMAPSubgroup[];
+  nextChallengeDate: string;
+}
+
+// Recommended reintroduction order: single polyols first, fructans last
+export const CHALLENGE_ORDER: FODMAPSubgroup[] = ['sorbitol', 'mannitol', 'lactose', 'fructose', 'gos', 'fructans'];
+
+// Typical test foods and increasing doses per subgroup (Monash style)
+export const CHALLENGE_TEST_FOODS: Record<FODMAPSubgroup, ChallengeTestFood> = {
+  fructans: { food: 'Pan de trigo', doses: [1, 2, 3], unit: 'rebanadas' },
+  gos: { food: 'Lentejas', doses: [0.25, 0.5, 1], unit: 'taza' },
+  lactose: { food: 'Leche', doses: [60, 125, 250], unit: 'ml' },
+  fructose: { food: 'Miel', doses: [1, 2, 3], unit: 'cucharaditas' },
+  sorbitol: { food: 'Aguacate', doses: [0.25, 0.5, 1], unit: 'unidad' },
+  mannitol: { food: 'Champiñones', doses: [0.25, 0.5, 1], unit: 'taza' },
+};
+
+export const CHALLENGE_STATUS_LABELS: Record<ChallengeStatus, string> = {
+  scheduled: 'Programado',
+  in_progress: 'En curso',
+  completed: 'Completado',
+};
+
+// Consecutive days with an increasing dose
+export const CHALLENGE_DOSE_DAYS = 3;
+
+// Days of elimination used as the symptom baseline
+const BASELINE_DAYS = 7;
+// A reaction needs at least this intensity and this much above the baseline
+const MIN_REACTION_INTENSITY = 4;
+const REACTION_MARGIN = 2;
+// Washout days still attributed to the last dose (late reactions)
+const LATE_REACTION_DAYS = 1;
+
+// ============================================================
+// DATES
+// ============================================================
+
+function addDays(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().split('T')[0];
+}
+
+function today(): string {
+  return new Date().toISOString().split('T')[0];
+}
+
+/**
+ * Last day of a challenge: dose days plus the program's washout days
+ */
+export function getChallengeEndDate(challenge: FODMAPChallenge, washoutDays: number): string {
+  return addDays(challenge.start_date, CHALLENGE_DOSE_DAYS + washoutDays - 1);
+}
+
+/**
+ * Last scheduled day of a program: the end of its last challenge, or of the
+ * elimination when no challenge was scheduled yet
+ */
+export function getProgramEndDate(program: FODMAPProgram, challenges: FODMAPChallenge[]): string {
+  return challenges.reduce((end, challenge) => {
+    const challengeEnd = getChallengeEndDate(challenge, program.washout_days);
+    return challengeEnd > end ? challengeEnd : end;
+  }, program.elimination_end);
+}
+
+/**
+ * First free day for a new challenge: after the elimination and the last
+ * challenge's washout, never in the past
+ */
+export function getNextChallengeDate(program: FODMAPProgram, challenges: FODMAPChallenge[]): string {
+  const firstFree = challenges.length > 0
+    ? addDays(getProgramEndDate(program, challenges), 1)
+    : addDays(program.elimination_end, 1);
+  const current = today();
+  return firstFree > current ? firstFree : current;
+}
+
+/**
+ * Phase of a program on a date, undefined before it starts
+ */
+export function getProgramDay(
+  program: FODMAPProgram,
+  challenges: FODMAPChallenge[],
+  date: string
+): ProgramDay | undefined {
+  if (date < program.elimination_start) return undefined;
+  if (date <= program.elimination_end) return { date, phase: 'elimination' };
+
+  for (const challenge of challenges) {
+    if (date < challenge.start_date) continue;
+    const dose = getDatesInRange(challenge.start_date, date).length;
+    if (dose <= CHALLENGE_DOSE_DAYS) return { date, phase: 'challenge', challenge, dose };
+    if (date <= getChallengeEndDate(challenge, program.washout_days)) return { date, phase: 'washout', challenge };
+  }
+
+  const done = new Set(challenges.map(challenge => challenge.subgroup));
+  const allChallenged = CHALLENGE_ORDER.every(subgroup => done.has(subgroup));
+  if (program.status === 'completed' || (allChallenged && date > getProgramEndDate(program, challenges))) {
+    return { date, phase: 'personalization' };
+  }
+  return { date, phase: 'reintroduction' };
+}
+
+// ============================================================
+// VERDICTS
+// ============================================================
+
+async function loadDailyMaxIntensity(startDate: string, endDate: string): Promise<Map<string, number>> {
+  const db = await getDatabase();
+  const rows = await db.getAllAsync(
+    'SELECT date, MAX(intensity) as max_intensity FROM symptoms WHERE date BETWEEN ? AND ? GROUP BY date',
+    [startDate, endDate]
+  );
+  return new Map<string, number>(rows.map((row: any) => [row.date, row.max_intensity || 0]));
+}
+
+/**
+ * Average daily peak intensity over the last days of elimination,
+ * counting days without symptoms as 0
+ */
+function getBaseline(program: FODMAPProgram, dailyMax: Map<string, number>): number {
+  const start = addDays(program.elimination_end, -(BASELINE_DAYS - 1));
+  const dates = getDatesInRange(start < program.elimination_start ? program.elimination_start : start, program.elimination_end)
+    .filter(date => date <= today());
+  if (dates.length === 0) return 0;
+  return dates.reduce((sum, date) => sum + (dailyMax.get(date) || 0), 0) / dates.length;
+}
+
+/**
+ * Follow a challenge day by day. The first day whose peak intensity reaches
+ * the threshold is a reaction to the dose taken last: on the first dose the
+ * food is not tolerated, on later doses it is tolerated in smaller amounts.
+ */
+export function evaluateChallenge(
+  challenge: FODMAPChallenge,
+  washoutDays: number,
+  dailyMax: Map<string, number>,
+  threshold: number,
+  date: string = today()
+): ChallengeResult {
+  const endDate = getChallengeEndDate(challenge, washoutDays);
+  const days: ChallengeDay[] = getDatesInRange(challenge.start_date, endDate).map((day, index) => ({
+    date: day,
+    dose: index < CHALLENGE_DOSE_DAYS ? index + 1 : undefined,
+    maxIntensity: dailyMax.get(day) || 0,
+    reaction: false,
+  }));
+
+  // Dose days and the late reaction days after them
+  const observed = days.slice(0, CHALLENGE_DOSE_DAYS + Math.min(LATE_REACTION_DAYS, washoutDays));
+  const lastObserved = observed[observed.length - 1].date;
+
+  let reactionDose: number | undefined;
+  for (const [index, day] of observed.entries()) {
+    if (day.date > date) break;
+    if (day.maxIntensity >= threshold) {
+      day.reaction = true;
+      reactionDose = Math.min(index + 1, CHALLENGE_DOSE_DAYS);
+      break;
+    }
+  }
+
+  let status: ChallengeStatus = 'in_progress';
+  if (date < challenge.start_date) status = 'scheduled';
+  else if (reactionDose !== undefined || date > lastObserved) status = 'completed';
+
+  let verdict: ChallengeVerdict | undefined;
+  if (reactionDose === 1) verdict = 'not_tolerated';
+  else if (reactionDose !== undefined) verdict = 'partial';
+  else if (status === 'completed') verdict = 'tolerated';
+
+  return { challenge, status, days, endDate, reactionDose, verdict };
+}
+
+// ============================================================
+// PLAN
+// ============================================================
+
+/**
+ * Everything the screens need about a program (the active one by default):
+ * today's phase, the verdict of each challenge and what comes next
+ */
+export async function loadProgramPlan(program?: FODMAPProgram | null): Promise<ProgramPlan | null> {
+  const current = program === undefined ? await FODMAPProgramRepository.getActive() : program;
+  if (!current) return null;
+
+  const challenges = await FODMAPProgramRepository.getChallenges(current.id);
+  const dailyMax = await loadDailyMaxIntensity(
+    addDays(current.elimination_end, -(BASELINE_DAYS - 1)),
+    getProgramEndDate(current, challenges)
+  );
+
+  const baseline = getBaseline(current, dailyMax);
+  const threshold = Math.max(MIN_REACTION_INTENSITY, baseline + REACTION_MARGIN);
+
+  const challenged = new Set(challenges.map(challenge => challenge.subgroup));
+
+  return {
+    program: current,
+    challenges: challenges.map(challenge => evaluateChallenge(challenge, current.washout_days, dailyMax, threshold)),
+    today: getProgramDay(current, challenges, today()),
+    baseline,
+    threshold,
+    pendingSubgroups: CHALLENGE_ORDER.filter(subgroup => !challenged.has(subgroup)),
+    nextChallengeDate: getNextChallengeDate(current, challenges),
+  };
+}
+
+/**
+ * Program phase of each day in a range, for the calendar. Cancelled
+ * programs are left out; days outside every program are not included.
+ */
+export async function getProgramDays(startDate: string, endDate: string): Promise<Record<string, ProgramDay>> {
+  const programs = (await FODMAPProgramRepository.getAll()).filter(program => program.status !== 'cancelled');
+  const days: Record<string, ProgramDay> = {};
+
+  // Oldest first, so a newer program wins on overlapping days
+  for (const program of [...programs].reverse()) {
+    const challenges = await FODMAPProgramRepository.getChallenges(program.id);
+    const programEnd = getProgramEndDate(program, challenges);
+    if (program.elimination_start > endDate || programEnd < startDate) continue;
+
+    for (const date of getDatesInRange(startDate, endDate)) {
+      if (date > programEnd) break;
+      const day = getProgramDay(program, challenges, date);
+      if (day) days[date] = day;
+    }
+  }
+
+  return days;
+}
+
+/**
+ * Challenge whose days would overlap a new challenge starting on the date
+ */
+export function findOverlappingChallenge(
+  program: FODMAPProgram,
+  challenges: FODMAPChallenge[],
+  startDate: string
+): FODMAPChallenge | undefined {
+  const newChallengeEnd = addDays(startDate, CHALLENGE_DOSE_DAYS + program.washout_days - 1);
+  return challenges.find(challenge =>
+    challenge.start_date <= newChallengeEnd && startDate <= getChallengeEndDate(challenge, program.washout_days)
+  );
+}
+
+/**
+ * Label of a FODMAP subgroup ("Fructanos")
+ */
+export function getSubgroupLabel(subgroup: FODMAPSubgroup): string {
+  return FODMAP_CATEGORIES.find(category => category.key === subgroup)?.label || subgroup;
+}
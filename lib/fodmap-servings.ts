@@ -0,0 +1,163 @@
+/**
+ * Everyday FODMAP - Serving-Dependent FODMAP Levels
+ *
+ * How much FODMAP a food carries depends on the portion eaten. Each subgroup
+ * of a food can have the portion (in grams) at which it turns moderate and
+ * the one at which it turns high (`FODMAPDetails.thresholds`); smaller
+ * portions are low. Subgroups without thresholds keep their rated level at
+ * any portion.
+ *
+ * Foods saved before thresholds existed only describe their servings in
+ * free text (`safe_serving`, `limit_serving`); deriveServingThresholds()
+ * turns those into thresholds for the subgroups the food is rated medium or
+ * high in.
+ *
+ * Portions are converted to grams with lib/units.ts.
+ */
+
+import {
+  FODMAP_CATEGORIES,
+  FODMAPDetails,
+  FODMAPLevel,
+  FODMAPServingThreshold,
+  FODMAPSubgroup,
+  Food,
+} from './types';
+import { parseServingGrams, toGrams, UnitFood } from './units';
+
+export type ServingThresholds = Partial<Record<FODMAPSubgroup, FODMAPServingThreshold>>;
+
+export interface TrafficLightBand {
+  level: Exclude<FODMAPLevel, 'unknown'>;
+  // Portions from from_g up to (not including) to_g; the last band has no end
+  from_g: number;
+  to_g?: number;
+  // Subgroups responsible for a medium or high band
+  subgroups: FODMAPSubgroup[];
+}
+
+const LEVEL_RANK: Record<FODMAPLevel, number> = { unknown: -1, low: 0, medium: 1, high: 2 };
+
+// ============================================================
+// THRESHOLDS
+// ============================================================
+
+/**
+ * Thresholds described by the free-text servings of a food. The subgroups
+ * it is rated medium or high in reach that level at its `limit_serving`,
+ * or else at its reference serving when that is larger than the safe one.
+ * Nothing can be derived from servings that aren't in grams.
+ */
+export function deriveServingThresholds(details: Partial<FODMAPDetails>, servingSize?: string): ServingThresholds {
+  const safeGrams = parseServingGrams(details.safe_serving);
+  const referenceGrams = parseServingGrams(servingSize);
+  const fromGrams = parseServingGrams(details.limit_serving)
+    ?? (referenceGrams !== undefined && (safeGrams === undefined || referenceGrams > safeGrams) ? referenceGrams : undefined);
+  if (fromGrams === undefined) return {};
+
+  const thresholds: ServingThresholds = {};
+  for (const { key } of FODMAP_CATEGORIES) {
+    if (details[key] === 'medium') thresholds[key] = { medium_g: fromGrams };
+    else if (details[key] === 'high') thresholds[key] = { high_g: fromGrams };
+  }
+  return thresholds;
+}
+
+/**
+ * Thresholds of a food: the stored ones, or those derived from its
+ * free-text servings
+ */
+export function getServingThresholds(details: Partial<FODMAPDetails>, servingSize?: string): ServingThresholds {
+  return details.thresholds ?? deriveServingThresholds(details, servingSize);
+}
+
+function hasThreshold(threshold?: FODMAPServingThreshold): threshold is FODMAPServingThreshold {
+  return !!threshold && (threshold.medium_g !== undefined || threshold.high_g !== undefined);
+}
+
+/**
+ * Level of one subgroup at a portion, undefined when the food has no data
+ * for it
+ */
+export function getSubgroupLevelForGrams(
+  details: Partial<FODMAPDetails>,
+  thresholds: ServingThresholds,
+  subgroup: FODMAPSubgroup,
+  grams: number
+): FODMAPLevel | undefined {
+  const threshold = thresholds[subgroup];
+  if (!hasThreshold(threshold)) return details[subgroup];
+  if (threshold.high_g !== undefined && grams >= threshold.high_g) return 'high';
+  if (threshold.medium_g !== undefined && grams >= threshold.medium_g) return 'medium';
+  return 'low';
+}
+
+function maxLevel(levels: (FODMAPLevel | undefined)[]): FODMAPLevel {
+  return levels.reduce<FODMAPLevel>(
+    (max, level) => (level && LEVEL_RANK[level] > LEVEL_RANK[max] ? level : max),
+    'unknown'
+  );
+}
+
+/**
+ * Overall level of a portion: the highest of its subgroups
+ */
+export function getFODMAPLevelForGrams(
+  details: Partial<FODMAPDetails>,
+  grams: number,
+  servingSize?: string
+): FODMAPLevel {
+  const thresholds = getServingThresholds(details, servingSize);
+  return maxLevel(FODMAP_CATEGORIES.map(({ key }) => getSubgroupLevelForGrams(details, thresholds, key, grams)));
+}
+
+/**
+ * Level of a logged quantity of a food. Falls back to the food's own level
+ * when it has no FODMAP details.
+ */
+export function getPortionFODMAPLevel(
+  food: UnitFood & Pick<Food, 'fodmap_level' | 'fodmap_details'>,
+  quantity: number,
+  unit: string
+): FODMAPLevel {
+  if (!food.fodmap_details) return food.fodmap_level;
+  const level = getFODMAPLevelForGrams(food.fodmap_details, toGrams(quantity, unit, food), food.serving_size);
+  return level === 'unknown' ? food.fodmap_level : level;
+}
+
+// ============================================================
+// TRAFFIC LIGHT
+// ============================================================
+
+/**
+ * Portion ranges of a food by level, Monash style: low up to the first
+ * threshold, then moderate, then high. Consecutive ranges at the same level
+ * are merged. Empty when the food has no FODMAP data.
+ */
+export function getTrafficLight(details: Partial<FODMAPDetails>, servingSize?: string): TrafficLightBand[] {
+  const thresholds = getServingThresholds(details, servingSize);
+  const cuts = Array.from(new Set(
+    Object.values(thresholds).flatMap(threshold => [threshold?.medium_g, threshold?.high_g])
+      .filter((grams): grams is number => grams !== undefined && grams > 0)
+  )).sort((a, b) => a - b);
+
+  const bands: TrafficLightBand[] = [];
+  for (const [index, from] of [0, ...cuts].entries()) {
+    const levels = FODMAP_CATEGORIES.map(({ key }) => ({
+      subgroup: key,
+      level: getSubgroupLevelForGrams(details, thresholds, key, from),
+    }));
+    const level = maxLevel(levels.map(entry => entry.level));
+    if (level === 'unknown') return [];
+
+    const subgroups = level === 'low' ? [] : levels.filter(entry => entry.level === level).map(entry => entry.subgroup);
+    const previous = bands[bands.length - 1];
+    if (previous && previous.level === level) {
+      previous.to_g = cuts[index];
+      previous.subgroups = Array.from(new Set([...previous.subgroups, ...subgroups]));
+    } else {
+      bands.push({ level, from_g: from, to_g: cuts[index], subgroups });
+    }
+  }
+  return bands;
+}
@@ -0,0 +1,132 @@
+/**
+ * Everyday FODMAP - Meal FODMAP Stacking
+ *
+ * Several low FODMAP servings of the same subgroup can add up to a moderate
+ * or high load in one meal. Each item contributes a load per subgroup,
+ * scaled by the quantity eaten, and the loads of the meal are summed.
+ *
+ * Loads are multiples of the moderate cutoff: 1 = moderate, 2 = high.
+ * They follow the food's serving thresholds (see fodmap-servings.ts):
+ * - up to the moderate threshold the load grows from 0 to 1
+ * - between the moderate and high thresholds it grows from 1 to 2
+ * - with only a high threshold, that portion is a load of 2
+ * Subgroups without thresholds carry a load only when the food is rated
+ * medium or high in them: a full load of that level per reference serving.
+ */
+
+import { getServingThresholds, ServingThresholds } from './fodmap-servings';
+import { FODMAP_CATEGORIES, FODMAPDetails, FODMAPLevel, FODMAPSubgroup } from './types';
+import { getReferenceGrams, toGrams, UnitFood } from './units';
+
+export interface StackingItem {
+  name: string;
+  quantity: number;
+  unit: string;
+  details?: Partial<FODMAPDetails>;
+  // Serving size and unit data of the food, for the conversion to grams
+  food?: UnitFood;
+}
+
+export interface StackingContribution {
+  name: string;
+  load: number;
+}
+
+export interface SubgroupLoad {
+  subgroup: FODMAPSubgroup;
+  label: string;
+  load: number;
+  level: Exclude<FODMAPLevel, 'unknown'>;
+  // Items adding to it, largest first
+  contributions: StackingContribution[];
+  // Over a threshold only because several items add up
+  stacked: boolean;
+}
+
+export interface MealStacking {
+  // In FODMAP_CATEGORIES order
+  subgroups: SubgroupLoad[];
+  // Subgroups at a moderate or high load
+  warnings: SubgroupLoad[];
+  level: FODMAPLevel;
+  // Items without FODMAP details, left out of the sums
+  unknownItems: string[];
+}
+
+export const MODERATE_LOAD = 1;
+export const HIGH_LOAD = 2;
+
+const LEVEL_LOAD: Record<'medium' | 'high', number> = { medium: MODERATE_LOAD, high: HIGH_LOAD };
+
+// ============================================================
+// ITEMS
+// ============================================================
+
+/**
+ * Load of one item on one subgroup (see the header for the model)
+ */
+function getItemLoad(item: StackingItem, thresholds: ServingThresholds, subgroup: FODMAPSubgroup): number {
+  const grams = toGrams(item.quantity, item.unit, item.food);
+  const { medium_g, high_g } = thresholds[subgroup] ?? {};
+
+  if (medium_g) {
+    if (high_g && high_g > medium_g && grams > medium_g) {
+      return MODERATE_LOAD + ((HIGH_LOAD - MODERATE_LOAD) * (grams - medium_g)) / (high_g - medium_g);
+    }
+    return (MODERATE_LOAD * grams) / medium_g;
+  }
+  if (high_g) return (HIGH_LOAD * grams) / high_g;
+
+  const level = item.details?.[subgroup];
+  if (level !== 'medium' && level !== 'high') return 0;
+  return (LEVEL_LOAD[level] * grams) / getReferenceGrams(item.food);
+}
+
+function getLoadLevel(load: number): SubgroupLoad['level'] {
+  if (load >= HIGH_LOAD) return 'high';
+  if (load >= MODERATE_LOAD) return 'medium';
+  return 'low';
+}
+
+// ============================================================
+// MEAL
+// ============================================================
+
+/**
+ * Sum the per-subgroup loads of every item in a meal
+ */
+export function calculateMealStacking(items: StackingItem[]): MealStacking {
+  const rated = items.filter(item => item.details && FODMAP_CATEGORIES.some(({ key }) => item.details?.[key]));
+  const thresholds = new Map(rated.map(item => [item, getServingThresholds(item.details!, item.food?.serving_size)]));
+
+  const subgroups: SubgroupLoad[] = FODMAP_CATEGORIES.map(category => {
+    const contributions = rated
+      .map(item => ({ name: item.name, load: getItemLoad(item, thresholds.get(item)!, category.key) }))
+      .filter(contribution => contribution.load > 0)
+      .sort((a, b) => b.load - a.load);
+    // Rounded so 0.5 + 0.5 style sums land on the threshold
+    const load = Math.round(contributions.reduce((sum, contribution) => sum + contribution.load, 0) * 1000) / 1000;
+    const level = getLoadLevel(load);
+
+    return {
+      subgroup: category.key,
+      label: category.label,
+      load,
+      level,
+      contributions,
+      stacked: contributions.length > 1 && level !== 'low' && getLoadLevel(contributions[0].load) !== level,
+    };
+  });
+
+  const warnings = subgroups.filter(subgroup => subgroup.level !== 'low');
+
+  return {
+    subgroups,
+    warnings,
+    level: warnings.some(subgroup => subgroup.level === 'high') ? 'high'
+      : warnings.length > 0 ? 'medium'
+      : rated.length > 0 ? 'low'
+      : 'unknown',
+    unknownItems: items.filter(item => !rated.includes(item)).map(item => item.name),
+  };
+}
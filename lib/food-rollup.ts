@@ -0,0 +1,211 @@
+/**
+ * Everyday FODMAP - Compound Food & Recipe Roll-up
+ *
+ * FODMAP data and nutrition of a compound food or a recipe computed from
+ * its parts (components / ingredients) and their quantities, converted with
+ * lib/units.ts. FODMAP data is given for one serving: the compound's
+ * reference amount (its serving size, 100 g when that isn't a weight), or
+ * the recipe divided by its servings. Nutrition is per 100 g (or 100 ml) for
+ * a compound food, like the foods it is made of, and per serving for a recipe.
+ *
+ * FODMAPs follow the stacking model: the loads of the parts in one serving
+ * are summed per subgroup. Loads grow with the portion, so the serving's
+ * load also gives the portions at which the whole turns medium (load 1)
+ * and high (load 2).
+ * Parts without FODMAP details (free text or foods rated only overall)
+ * count with their own level, on the overall level only.
+ */
+
+import { calculateMealStacking, HIGH_LOAD, MODERATE_LOAD, StackingItem, SubgroupLoad } from './fodmap-stacking';
+import {
+  FODMAP_CATEGORIES,
+  FODMAPDetails,
+  FODMAPLevel,
+  FODMAPSubgroup,
+  Food,
+  getOverallFODMAP,
+  NutritionInfo,
+} from './types';
+import { getNutritionFactor, getNutritionGrams, getReferenceGrams, scaleNutrition, toGrams, UnitFood } from './units';
+
+export type RollupFood = UnitFood & Pick<Food, 'fodmap_level' | 'fodmap_details' | 'nutrition'>;
+
+export interface RollupPart {
+  name: string;
+  quantity: number;
+  unit: string;
+  // Level typed for the part itself (free-text parts)
+  fodmap_level?: FODMAPLevel;
+  // The linked food, when the part is one
+  food?: RollupFood;
+}
+
+// A part responsible for a medium or high result
+export interface RollupCulprit {
+  name: string;
+  level: 'medium' | 'high';
+  // Subgroups it adds to; empty for parts with only an overall level
+  subgroups: FODMAPSubgroup[];
+}
+
+export interface FoodRollup {
+  fodmap_level: FODMAPLevel;
+  // Undefined when no part has FODMAP details
+  fodmap_details?: FODMAPDetails;
+  // Undefined when no part has nutrition
+  nutrition?: NutritionInfo;
+  culprits: RollupCulprit[];
+  // Weight of all the parts together
+  totalGrams: number;
+}
+
+const LEVEL_RANK: Record<FODMAPLevel, number> = { unknown: -1, low: 0, medium: 1, high: 2 };
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+// ============================================================
+// ROLL-UP
+// ============================================================
+
+/**
+ * Nutrition of an amount of the whole: each part's nutrition scaled to the
+ * grams of it in that amount (factor = amount / total grams)
+ */
+function rollUpNutrition(parts: RollupPart[], grams: number[], factor: number): NutritionInfo | undefined {
+  const totals: Record<string, number> = {};
+  let found = false;
+
+  parts.forEach(({ food }, index) => {
+    if (!food?.nutrition) return;
+    found = true;
+    const scaled = scaleNutrition(food.nutrition, getNutritionFactor(grams[index] * factor, 'g', food));
+    for (const [key, value] of Object.entries(scaled)) {
+      totals[key] = (totals[key] || 0) + value;
+    }
+  });
+
+  if (!found) return undefined;
+  const nutrition: Record<string, number> = {};
+  for (const [key, value] of Object.entries(totals)) {
+    nutrition[key] = round(value, 2);
+  }
+  return nutrition as NutritionInfo;
+}
+
+/**
+ * FODMAP level, details and culprits of one serving of the parts, and
+ * nutrition of the amount given by getNutritionGrams (the serving by default)
+ */
+function rollUp(
+  parts: RollupPart[],
+  getServingGrams: (totalGrams: number) => number,
+  getNutritionGrams: (totalGrams: number) => number = getServingGrams
+): FoodRollup {
+  const grams = parts.map(({ quantity, unit, food }) => toGrams(quantity, unit, food));
+  const totalGrams = grams.reduce((sum, value) => sum + value, 0);
+  if (totalGrams <= 0) return { fodmap_level: 'unknown', culprits: [], totalGrams: 0 };
+
+  const servingGrams = getServingGrams(totalGrams);
+  const factor = servingGrams / totalGrams;
+
+  // Parts of one serving, in grams
+  const items: StackingItem[] = parts.map(({ name, food }, index) => ({
+    name,
+    quantity: grams[index] * factor,
+    unit: 'g',
+    details: food?.fodmap_details,
+    food,
+  }));
+  const stacking = calculateMealStacking(items);
+
+  let fodmapDetails: FODMAPDetails | undefined;
+  if (stacking.level !== 'unknown') {
+    const rated = items.filter(item => item.details);
+    const details: Partial<FODMAPDetails> = { thresholds: {} };
+    for (const subgroup of stacking.subgroups) {
+      const hasData = rated.some(item => item.details?.[subgroup.subgroup] || item.details?.thresholds?.[subgroup.subgroup]);
+      details[subgroup.subgroup] = hasData ? subgroup.level : 'unknown';
+      if (subgroup.load > 0) {
+        details.thresholds![subgroup.subgroup] = {
+          medium_g: round((servingGrams * MODERATE_LOAD) / subgroup.load, 0),
+          high_g: round((servingGrams * HIGH_LOAD) / subgroup.load, 0),
+        };
+      }
+    }
+    details.overall = getOverallFODMAP(details);
+    fodmapDetails = details as FODMAPDetails;
+  }
+
+  // Parts without details only have their own level
+  const unrated = parts.filter((_, index) => !FODMAP_CATEGORIES.some(({ key }) => items[index].details?.[key]));
+  const unratedLevels = unrated.map(({ fodmap_level, food }) => food?.fodmap_level ?? fodmap_level ?? 'unknown');
+  const fodmapLevel = [fodmapDetails?.overall ?? 'unknown', ...unratedLevels]
+    .reduce((max, level) => (LEVEL_RANK[level] > LEVEL_RANK[max] ? level : max), 'unknown');
+
+  return {
+    fodmap_level: fodmapLevel,
+    fodmap_details: fodmapDetails,
+    nutrition: rollUpNutrition(parts, grams, getNutritionGrams(totalGrams) / totalGrams),
+    culprits: getCulprits(stacking.warnings, unrated.map((part, index) => ({ name: part.name, level: unratedLevels[index] }))),
+    totalGrams,
+  };
+}
+
+/**
+ * Parts adding to a medium or high subgroup, and unrated parts that are
+ * medium or high themselves; highest level first
+ */
+function getCulprits(
+  warnings: SubgroupLoad[],
+  unrated: { name: string; level: FODMAPLevel }[]
+): RollupCulprit[] {
+  const culprits = new Map<string, RollupCulprit>();
+  for (const warning of warnings) {
+    for (const { name } of warning.contributions) {
+      const culprit = culprits.get(name) ?? { name, level: 'medium', subgroups: [] };
+      culprit.subgroups.push(warning.subgroup);
+      if (warning.level === 'high') culprit.level = 'high';
+      culprits.set(name, culprit);
+    }
+  }
+  for (const { name, level } of unrated) {
+    if (level !== 'medium' && level !== 'high') continue;
+    const culprit = culprits.get(name) ?? { name, level, subgroups: [] };
+    if (level === 'high') culprit.level = 'high';
+    culprits.set(name, culprit);
+  }
+  return Array.from(culprits.values()).sort((a, b) => LEVEL_RANK[b.level] - LEVEL_RANK[a.level]);
+}
+
+/**
+ * Roll-up of a compound food from its components: FODMAPs per serving size,
+ * nutrition per 100 g (100 ml when served by volume)
+ */
+export function rollUpFood(components: RollupPart[], compound?: UnitFood): FoodRollup {
+  // The rolled-up nutrition is never per_serving
+  const reference = { ...compound, nutrition: undefined };
+  return rollUp(components, () => getReferenceGrams(compound), () => getNutritionGrams(reference));
+}
+
+/**
+ * Roll-up of a recipe from its ingredients, per serving. Optional
+ * ingredients are left out.
+ */
+export function rollUpRecipe(ingredients: (RollupPart & { optional?: boolean })[], servings: number): FoodRollup {
+  const included = ingredients.filter(ingredient => !ingredient.optional);
+  return rollUp(included, totalGrams => totalGrams / Math.max(1, servings));
+}
+
+/**
+ * Grams of one serving of a recipe, as rollUpRecipe counts it. The recipe's
+ * FODMAP thresholds are in grams of this serving.
+ */
+export function getRecipeServingGrams(ingredients: (RollupPart & { optional?: boolean })[], servings: number): number {
+  const totalGrams = ingredients
+    .filter(ingredient => !ingredient.optional)
+    .reduce((sum, { quantity, unit, food }) => sum + toGrams(quantity, unit, food), 0);
+  return totalGrams / Math.max(1, servings);
+}
@@ -0,0 +1,278 @@
+/**
+ * Everyday FODMAP - Ingredient Line Parser
+ *
+ * Turns pasted Spanish ingredient lines ("2 dientes de ajo picados",
+ * "200 g de arroz basmati", "1/2 taza de leche sin lactosa") into recipe
+ * ingredients: quantity, unit, name and notes, plus the food of the foods
+ * table that best matches the name and its FODMAP level.
+ *
+ * - Quantities: integers, decimals with comma or dot, fractions ("1/2",
+ *   "1 1/2", "1 y 1/2", "½"), ranges (the first value) and number words
+ *   ("dos", "medio", "un par de")
+ * - Units are normalized with lib/units.ts; kitchen measures it can't
+ *   convert (pizca, chorrito, lata...) are kept as typed, and a counted
+ *   ingredient without a unit ("3 huevos") is in piezas
+ * - Text after a comma, in parentheses, preparation words ("picado", "en
+ *   dados") and sizes ("grande") go to the notes; "opcional" marks the
+ *   ingredient optional
+ * Lines without a matching food, with only a doubtful one or without a
+ * quantity are flagged for review.
+ */
+
+import { foldText, tokenize } from './search';
+import { Food, RecipeIngredient } from './types';
+import { MeasureUnit, normalizeUnit } from './units';
+
+export type ReviewReason = 'no_match' | 'weak_match' | 'no_quantity';
+
+export interface FoodMatch {
+  food: Food;
+  // 0-1, how much of the food's name and the ingredient's name overlap
+  score: number;
+}
+
+export interface ParsedIngredientLine {
+  line: string;
+  ingredient: RecipeIngredient;
+  match?: FoodMatch;
+  reviewReasons: ReviewReason[];
+  needsReview: boolean;
+}
+
+export const REVIEW_REASON_LABELS: Record<ReviewReason, string> = {
+  no_match: 'Sin alimento asociado',
+  weak_match: 'Coincidencia dudosa',
+  no_quantity: 'Sin cantidad',
+};
+
+// Lowest score to link a food, and to link it without review
+export const MIN_MATCH_SCORE = 0.5;
+export const CONFIDENT_MATCH_SCORE = 0.75;
+
+const NUMBER_WORDS: Record<string, number> = {
+  un: 1, una: 1, uno: 1, medio: 0.5, media: 0.5,
+  dos: 2, tres: 3, cuatro: 4, cinco: 5, seis: 6, siete: 7, ocho: 8, nueve: 9, diez: 10, doce: 12,
+};
+
+const UNICODE_FRACTIONS: Record<string, number> = {
+  '½': 0.5, '⅓': 1 / 3, '⅔': 2 / 3, '¼': 0.25, '¾': 0.75, '⅛': 0.125,
+};
+
+// Kitchen measures lib/units.ts can't convert, kept by their singular
+const KITCHEN_MEASURES: Record<string, string> = {
+  pizca: 'pizca', pizcas: 'pizca',
+  chorrito: 'chorrito', chorritos: 'chorrito', chorro: 'chorro', chorros: 'chorro',
+  puñado: 'puñado', puñados: 'puñado',
+  lata: 'lata', latas: 'lata', bote: 'bote', botes: 'bote',
+  vaso: 'vaso', vasos: 'vaso', sobre: 'sobre', sobres: 'sobre',
+  rebanada: 'rebanada', rebanadas: 'rebanada', loncha: 'loncha', lonchas: 'loncha',
+  rodaja: 'rodaja', rodajas: 'rodaja', hoja: 'hoja', hojas: 'hoja',
+  ramita: 'ramita', ramitas: 'ramita', rama: 'rama', ramas: 'rama',
+  manojo: 'manojo', manojos: 'manojo', hebra: 'hebra', hebras: 'hebra',
+};
+
+// Words after a unit that only qualify it ("cucharada sopera")
+const UNIT_QUALIFIERS = /^(soperas?|rasas?|colmadas?|grandes?|peque[ñn]as?|de postre|de caf[eé])\b/i;
+
+// Start of the trailing notes of a name ("ajo picado", "zanahoria en dados")
+const NOTE_START = new RegExp(
+  '\\b(' + [
+    '(picad|troce|rallad|pelad|cortad|laminad|filete|escurrid|hervid|derretid|batid|triturad|machacad|desmenuzad|exprimid|lavad|congelad|descongelad|remojad)(o|a|os|as)',
+    '(grande|mediano|mediana|peque[ñn]o|peque[ñn]a)s?',
+    'en (dados|rodajas|tiras|juliana|trozos|cubos|l[aá]minas|gajos|brunoise)',
+    'a temperatura ambiente',
+    'al gusto',
+    'para (decorar|servir)',
+  ].join('|') + ')\\b',
+  'i'
+);
+
+// ============================================================
+// NAMES
+// ============================================================
+
+/**
+ * How well a food's name matches an ingredient name, 0-1: the share of
+ * the food's words and of the ingredient's words in common, with a bonus
+ * when both start alike (Spanish names lead with the noun)
+ */
+function scoreMatch(nameTokens: string[], foodTokens: string[]): number {
+  if (nameTokens.length === 0 || foodTokens.length === 0) return 0;
+  const common = foodTokens.filter(token => nameTokens.includes(token)).length;
+  if (common === 0) return 0;
+  const score = (0.6 * common) / foodTokens.length + (0.4 * common) / nameTokens.length;
+  const bonus = nameTokens[0] === foodTokens[0] ? 0.1 : 0;
+  return Math.min(1, score + bonus);
+}
+
+/**
+ * Food whose name best matches an ingredient name, undefined when none
+ * reaches MIN_MATCH_SCORE. Ties go to the shorter name.
+ */
+export function matchFood(name: string, foods: Food[]): FoodMatch | undefined {
+  const nameTokens = tokenize(name);
+  let best: FoodMatch | undefined;
+  for (const food of foods) {
+    const score = scoreMatch(nameTokens, tokenize(food.name));
+    if (score < MIN_MATCH_SCORE) continue;
+    if (!best || score > best.score || (score === best.score && food.name.length < best.food.name.length)) {
+      best = { food, score };
+    }
+  }
+  return best && { ...best, score: Math.round(best.score * 100) / 100 };
+}
+
+// ============================================================
+// QUANTITIES & UNITS
+// ============================================================
+
+const NUMBER = '\\d+(?:[.,]\\d+)?';
+const FRACTION = '\\d+\\s*/\\s*\\d+';
+const UNICODE_FRACTION = `[${Object.keys(UNICODE_FRACTIONS).join('')}]`;
+// "1 1/2", "1½", "1/2", "½", "1,5"
+const QUANTITY = `(?:\\d+\\s+${FRACTION}|\\d*\\s*${UNICODE_FRACTION}|${FRACTION}|${NUMBER})`;
+// "y medio", "y 1/2", "y ½" after the quantity
+const QUANTITY_PATTERN = new RegExp(
+  `^(${QUANTITY})(?:\\s*(?:-|a)\\s*${QUANTITY}(?![\\d/]))?(?:\\s+y\\s+(medio|media|${FRACTION}|${UNICODE_FRACTION}))?`,
+  'i'
+);
+
+function parseNumber(text: string): number {
+  const value = text.replace(/\s+/g, ' ').trim();
+  const unicode = value.match(new RegExp(`^(\\d*)\\s*(${UNICODE_FRACTION})$`));
+  if (unicode) return (parseInt(unicode[1]) || 0) + UNICODE_FRACTIONS[unicode[2]];
+  const fraction = value.match(/^(?:(\d+) )?(\d+)\s*\/\s*(\d+)$/);
+  if (fraction) {
+    const denominator = parseInt(fraction[3]);
+    return (parseInt(fraction[1]) || 0) + (denominator ? parseInt(fraction[2]) / denominator : 0);
+  }
+  return parseFloat(value.replace(',', '.'));
+}
+
+/**
+ * Quantity at the start of a line and the rest of it; ranges ("2-3") give
+ * their first value
+ */
+export function parseQuantity(text: string): { quantity?: number; rest: string } {
+  const trimmed = text.trim();
+
+  const numeric = trimmed.match(QUANTITY_PATTERN);
+  if (numeric) {
+    const extra = numeric[2] ? (/^medi[oa]$/i.test(numeric[2]) ? 0.5 : parseNumber(numeric[2])) : 0;
+    const quantity = parseNumber(numeric[1]) + extra;
+    return { quantity: Math.round(quantity * 1000) / 1000, rest: trimmed.slice(numeric[0].length).trim() };
+  }
+
+  const pair = trimmed.match(/^un par de\s+/i);
+  if (pair) return { quantity: 2, rest: trimmed.slice(pair[0].length) };
+
+  const word = trimmed.match(/^([a-záéíóú]+)(\s+y\s+(medio|media))?\s+/i);
+  const value = word ? NUMBER_WORDS[foldText(word[1])] : undefined;
+  if (word && value !== undefined) {
+    return { quantity: value + (word[2] ? 0.5 : 0), rest: trimmed.slice(word[0].length) };
+  }
+
+  return { rest: trimmed };
+}
+
+/**
+ * Unit at the start of the text ("g de arroz", "cdas. de aceite") and the
+ * rest, without the "de" that follows it
+ */
+function parseUnit(text: string): { unit?: string; rest: string } {
+  const match = text.match(/^([a-záéíóúñ]+)\.?(?=\s|$)/i);
+  if (!match) return { rest: text };
+
+  const word = match[1].toLowerCase();
+  const unit: MeasureUnit | string | undefined = normalizeUnit(word) ?? KITCHEN_MEASURES[word];
+  if (!unit) return { rest: text };
+
+  let rest = text.slice(match[0].length).trim();
+  rest = rest.replace(UNIT_QUALIFIERS, '').trim();
+  rest = rest.replace(/^(de|del)\s+/i, '');
+  return { unit, rest };
+}
+
+// ============================================================
+// LINES
+// ============================================================
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/**
+ * Parse one ingredient line and link it to the best matching food
+ */
+export function parseIngredientLine(line: string, foods: Food[]): ParsedIngredientLine {
+  const notes: string[] = [];
+  let optional = false;
+
+  // List markers: "- ", "• ", "1) "
+  let text = line.trim().replace(/^([-*•·]|\d+[.)](?=\s))\s*/, '');
+
+  if (/\bopcional\b/i.test(text)) {
+    optional = true;
+    text = text.replace(/\(?\s*\bopcional\b\s*\)?/i, ' ');
+  }
+
+  // Parentheses and text after the first comma are notes. The quantity is
+  // read first, so a decimal comma ("1,5 l") isn't taken for one.
+  text = text.replace(/\(([^)]*)\)/g, (_, inner: string) => {
+    if (inner.trim()) notes.push(inner.trim());
+    return ' ';
+  });
+  const { quantity, rest: afterQuantity } = parseQuantity(text.replace(/\s+/g, ' '));
+  let rest = afterQuantity;
+  const comma = rest.indexOf(',');
+  const afterComma = comma >= 0 ? rest.slice(comma + 1).trim() : '';
+  if (comma >= 0) rest = rest.slice(0, comma).trim();
+
+  const { unit, rest: nameText } = parseUnit(rest);
+
+  let name = nameText;
+  const noteStart = name.search(NOTE_START);
+  if (noteStart > 0) {
+    notes.unshift(name.slice(noteStart).trim());
+    name = name.slice(0, noteStart).trim();
+  }
+  if (afterComma) notes.push(afterComma);
+  name = capitalize(name.replace(/^(de|del)\s+/i, '').trim());
+
+  const toTaste = /\bal gusto\b/i.test(line);
+  const match = matchFood(name, foods);
+
+  const reviewReasons: ReviewReason[] = [];
+  if (!match) reviewReasons.push('no_match');
+  else if (match.score < CONFIDENT_MATCH_SCORE) reviewReasons.push('weak_match');
+  if (quantity === undefined && !toTaste) reviewReasons.push('no_quantity');
+
+  return {
+    line,
+    ingredient: {
+      food_id: match?.food.id,
+      name,
+      // "Al gusto" and missing amounts add nothing to the roll-up
+      quantity: quantity ?? 0,
+      unit: unit ?? (quantity !== undefined ? 'pieza' : 'g'),
+      fodmap_level: match?.food.fodmap_level ?? 'unknown',
+      notes: notes.length > 0 ? notes.join(', ') : undefined,
+      optional,
+    },
+    match,
+    reviewReasons,
+    needsReview: reviewReasons.length > 0,
+  };
+}
+
+/**
+ * Parse pasted text, one ingredient per non-empty line; headings ending in
+ * a colon ("Para la salsa:") are skipped
+ */
+export function parseIngredientLines(text: string, foods: Food[]): ParsedIngredientLine[] {
+  return text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line && !line.endsWith(':'))
+    .map(line => parseIngredientLine(line, foods));
+}
@@ -69,8 +69,11 @@ export interface InternalFoodData {
     overall?: string;
     safe_serving?: string;
     limit_serving?: string;
+    thresholds?: Record<string, { medium_g?: number; high_g?: number }>;
   };
   serving_size?: string;
+  density_g_ml?: number;
+  unit_weights?: Record<string, number>;
   nutrition?: {
     calories?: number;
     protein_g?: number;
@@ -205,8 +208,8 @@ export async function loadInternalData(db: any): Promise<void> {
   for (const food of INTERNAL_FOODS) {
     try {
       await db.runAsync(
-        `INSERT INTO foods (name, category, fodmap_level, fodmap_details, nutrition, serving_size, notes, source, source_id, is_compound)
-         VALUES (?, ?, ?, ?, ?, ?, ?, 'internal', ?, 0)`,
+        `INSERT INTO foods (name, category, fodmap_level, fodmap_details, nutrition, serving_size, density_g_ml, unit_weights, notes, source, source_id, is_compound)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 'internal', ?, 0)`,
         [
           food.name,
           food.category,
@@ -214,6 +217,8 @@ export async function loadInternalData(db: any): Promise<void> {
           food.fodmap_details ? JSON.stringify(food.fodmap_details) : null,
           food.nutrition ? JSON.stringify(food.nutrition) : null,
           food.serving_size || null,
+          food.density_g_ml || null,
+          food.unit_weights ? JSON.stringify(food.unit_weights) : null,
           food.notes || null,
           food.id, // source_id for reference
         ]
@@ -0,0 +1,275 @@
+/**
+ * Everyday FODMAP - Schema Migrations
+ *
+ * Ordered, idempotent schema changes applied on top of the tables created in
+ * initDatabase(). The applied versions are recorded in `schema_version`, so
+ * existing installs pick up new columns without losing data.
+ *
+ * To add a migration, append it to MIGRATIONS with the next version number.
+ * Never edit or reorder a migration that has already shipped.
+ */
+
+import { deriveServingThresholds } from './fodmap-servings';
+import { INTERNAL_FOODS } from './internal-data';
+import { parseJSON } from './repositories/rows';
+import { FODMAPDetails } from './types';
+
+export interface Migration {
+  version: number;
+  name: string;
+  // Schema change. Must be safe to re-run.
+  up: (db: any) => Promise<void>;
+}
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+export async function getColumnNames(db: any, table: string): Promise<string[]> {
+  const columns = await db.getAllAsync(`PRAGMA table_info(${table})`);
+  return columns.map((c: { name: string }) => c.name);
+}
+
+// ALTER TABLE ... ADD COLUMN only when the column is not there yet
+export async function addColumnIfMissing(
+  db: any,
+  table: string,
+  column: string,
+  definition: string
+): Promise<boolean> {
+  const existing = await getColumnNames(db, table);
+  if (existing.includes(column)) return false;
+
+  await db.execAsync(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition};`);
+  console.log(`[Migrations] Added column ${table}.${column}`);
+  return true;
+}
+
+// ============================================================
+// MIGRATIONS
+// ============================================================
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'add_bowel_movement_color',
+    up: async (db) => {
+      await addColumnIfMissing(db, 'bowel_movements', 'color', 'TEXT');
+    },
+  },
+  {
+    version: 2,
+    name: 'add_symptom_stress_fields',
+    up: async (db) => {
+      await addColumnIfMissing(db, 'symptoms', 'stress_type', "TEXT CHECK(stress_type IN ('personal', 'professional', 'other')) NULL");
+      await addColumnIfMissing(db, 'symptoms', 'stress_notes', 'TEXT');
+    },
+  },
+  {
+    version: 3,
+    name: 'add_food_tags_and_digestive_effect',
+    up: async (db) => {
+      await addColumnIfMissing(db, 'foods', 'tags', 'TEXT');
+      await addColumnIfMissing(db, 'foods', 'digestive_effect', 'INTEGER CHECK(digestive_effect BETWEEN -2 AND 2) DEFAULT 0');
+    },
+  },
+  {
+    version: 4,
+    name: 'add_user_profile_water_target',
+    up: async (db) => {
+      await addColumnIfMissing(db, 'user_profile', 'target_water_l', 'REAL DEFAULT 2.5');
+    },
+  },
+  {
+    version: 5,
+    name: 'expand_treatments',
+    up: async (db) => {
+      // Treatments table (chronic/periodic treatments)
+      await addColumnIfMissing(db, 'treatments', 'type', "TEXT DEFAULT 'medication'");
+      await addColumnIfMissing(db, 'treatments', 'dosage_amount', 'REAL');
+      await addColumnIfMissing(db, 'treatments', 'dosage_unit', 'TEXT');
+      await addColumnIfMissing(db, 'treatments', 'frequency_value', 'TEXT');
+      await addColumnIfMissing(db, 'treatments', 'doses', 'TEXT');
+      await addColumnIfMissing(db, 'treatments', 'start_date', 'TEXT');
+      await addColumnIfMissing(db, 'treatments', 'end_date', 'TEXT');
+      await addColumnIfMissing(db, 'treatments', 'is_chronic', 'INTEGER DEFAULT 0');
+      await addColumnIfMissing(db, 'treatments', 'specific_days', 'TEXT');
+      await addColumnIfMissing(db, 'treatments', 'reminder_enabled', 'INTEGER DEFAULT 0');
+      await addColumnIfMissing(db, 'treatments', 'reminder_minutes_before', 'INTEGER DEFAULT 15');
+      await addColumnIfMissing(db, 'treatments', 'instructions', 'TEXT');
+      await addColumnIfMissing(db, 'treatments', 'side_effects', 'TEXT');
+      await addColumnIfMissing(db, 'treatments', 'prescribing_doctor', 'TEXT');
+      await addColumnIfMissing(db, 'treatments', 'pharmacy', 'TEXT');
+      await addColumnIfMissing(db, 'treatments', 'refill_reminder_enabled', 'INTEGER DEFAULT 0');
+      await addColumnIfMissing(db, 'treatments', 'refill_reminder_days', 'INTEGER');
+      await addColumnIfMissing(db, 'treatments', 'current_stock', 'INTEGER');
+      // Treatment logs (per-dose tracking)
+      await addColumnIfMissing(db, 'treatment_logs', 'scheduled_time', 'TEXT');
+      await addColumnIfMissing(db, 'treatment_logs', 'dose_index', 'INTEGER');
+      await addColumnIfMissing(db, 'treatment_logs', 'skipped', 'INTEGER DEFAULT 0');
+      await addColumnIfMissing(db, 'treatment_logs', 'skip_reason', 'TEXT');
+      await addColumnIfMissing(db, 'treatment_logs', 'amount_taken', 'REAL');
+      await addColumnIfMissing(db, 'treatment_logs', 'unit', 'TEXT');
+    },
+  },
+  {
+    version: 6,
+    name: 'add_meal_image',
+    up: async (db) => {
+      await addColumnIfMissing(db, 'meals', 'image_uri', 'TEXT');
+    },
+  },
+  {
+    version: 7,
+    name: 'add_fodmap_program',
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS fodmap_programs (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          elimination_start TEXT NOT NULL,
+          elimination_end TEXT NOT NULL,
+          washout_days INTEGER DEFAULT 3,
+          status TEXT DEFAULT 'active' CHECK(status IN ('active', 'completed', 'cancelled')),
+          notes TEXT,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE IF NOT EXISTS fodmap_challenges (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          program_id INTEGER NOT NULL REFERENCES fodmap_programs(id) ON DELETE CASCADE,
+          subgroup TEXT NOT NULL,
+          food_name TEXT NOT NULL,
+          start_date TEXT NOT NULL,
+          doses TEXT,
+          dose_unit TEXT,
+          notes TEXT,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_fodmap_challenges_program ON fodmap_challenges(program_id);
+      `);
+    },
+  },
+  {
+    version: 8,
+    name: 'add_fodmap_serving_thresholds',
+    up: async (db) => {
+      // Structured thresholds from the free-text servings of existing foods
+      const rows = await db.getAllAsync('SELECT id, fodmap_details, serving_size FROM foods WHERE fodmap_details IS NOT NULL');
+      for (const row of rows) {
+        const details = parseJSON<Partial<FODMAPDetails> | null>(row.fodmap_details, null);
+        if (!details || details.thresholds) continue;
+
+        details.thresholds = deriveServingThresholds(details, row.serving_size || undefined);
+        await db.runAsync('UPDATE foods SET fodmap_details = ? WHERE id = ?', [JSON.stringify(details), row.id]);
+      }
+    },
+  },
+  {
+    version: 9,
+    name: 'add_food_derived_flags',
+    up: async (db) => {
+      await addColumnIfMissing(db, 'foods', 'fodmap_derived', 'INTEGER DEFAULT 0');
+      await addColumnIfMissing(db, 'foods', 'nutrition_derived', 'INTEGER DEFAULT 0');
+    },
+  },
+  {
+    version: 10,
+    name: 'add_recipe_derived_flags',
+    up: async (db) => {
+      await addColumnIfMissing(db, 'recipes', 'fodmap_derived', 'INTEGER DEFAULT 0');
+      if (await addColumnIfMissing(db, 'recipes', 'nutrition_derived', 'INTEGER DEFAULT 0')) {
+        // No nutrition typed by hand to keep
+        await db.runAsync('UPDATE recipes SET nutrition_derived = 1 WHERE nutrition IS NULL');
+      }
+    },
+  },
+  {
+    version: 11,
+    name: 'add_food_unit_conversion',
+    up: async (db) => {
+      await addColumnIfMissing(db, 'foods', 'density_g_ml', 'REAL');
+      await addColumnIfMissing(db, 'foods', 'unit_weights', 'TEXT');
+      // Unit data of the bundled foods already loaded
+      for (const food of INTERNAL_FOODS) {
+        if (!food.density_g_ml && !food.unit_weights) continue;
+        await db.runAsync(
+          `UPDATE foods SET density_g_ml = COALESCE(density_g_ml, ?), unit_weights = COALESCE(unit_weights, ?)
+           WHERE source = 'internal' AND source_id = ?`,
+          [food.density_g_ml || null, food.unit_weights ? JSON.stringify(food.unit_weights) : null, food.id]
+        );
+      }
+    },
+  },
+  {
+    version: 12,
+    name: 'add_off_cache',
+    up: async (db) => {
+      // OpenFoodFacts responses (lib/off-client.ts); not backed up
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS off_cache (
+          key TEXT PRIMARY KEY,
+          value TEXT NOT NULL,
+          fetched_at INTEGER NOT NULL
+        );
+      `);
+    },
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// ============================================================
+// RUNNER
+// ============================================================
+
+/**
+ * Get the highest applied migration version (0 if none)
+ */
+export async function getSchemaVersion(db: any): Promise<number> {
+  const row = await db.getFirstAsync('SELECT MAX(version) as version FROM schema_version');
+  return row?.version || 0;
+}
+
+/**
+ * Apply every pending migration in order.
+ * Each migration runs in its own transaction together with its schema_version
+ * record, so a failed step leaves the previous version intact.
+ */
+export async function runMigrations(db: any): Promise<number> {
+  await db.execAsync(`
+    CREATE TABLE IF NOT EXISTS schema_version (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT DEFAULT CURRENT_TIMESTAMP
+    );
+  `);
+
+  const currentVersion = await getSchemaVersion(db);
+  const pending = MIGRATIONS.filter(m => m.version > currentVersion);
+
+  if (pending.length === 0) {
+    console.log(`[Migrations] Schema up to date (v${currentVersion})`);
+    return currentVersion;
+  }
+
+  console.log(`[Migrations] Upgrading schema v${currentVersion} -> v${LATEST_SCHEMA_VERSION}`);
+
+  for (const migration of pending) {
+    try {
+      await db.withTransactionAsync(async () => {
+        await migration.up(db);
+        await db.runAsync(
+          'INSERT INTO schema_version (version, name, applied_at) VALUES (?, ?, ?)',
+          [migration.version, migration.name, new Date().toISOString()]
+        );
+      });
+      console.log(`[Migrations] Applied v${migration.version} ${migration.name}`);
+    } catch (e) {
+      console.error(`[Migrations] Failed at v${migration.version} ${migration.name}:`, e);
+      throw e;
+    }
+  }
+
+  return LATEST_SCHEMA_VERSION;
+}
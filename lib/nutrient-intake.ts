@@ -0,0 +1,305 @@
+/**
+ * Everyday FODMAP - Nutrient Intake
+ *
+ * Daily and weekly totals of every NutritionInfo field from the logged meals,
+ * compared with the user's targets. Calories and macros come from the
+ * profile's calorie and macro split; the detailed targets of the profile
+ * (fiber, sugars, sodium, potassium, saturated fat, cholesterol) win over the
+ * reference intakes, which depend on age and gender (EFSA / IOM adult values).
+ *
+ * Some nutrients are minimums to reach (fiber, vitamins, minerals) and
+ * others limits not to exceed (sodium, saturated fat, sugars, cholesterol).
+ * Fiber gets its own advice: cutting high FODMAP foods often cuts fiber too.
+ */
+
+import { MealRepository } from './repositories';
+import { calculateAge, calculateMacroGrams, NutritionInfo, UserProfile } from './types';
+
+export type NutrientKey = Exclude<keyof NutritionInfo, 'per_serving' | 'serving_size'>;
+export type NutrientGroup = 'energy' | 'macros' | 'fats' | 'minerals' | 'vitamins' | 'other';
+// min: reach at least the target; max: stay under it
+export type TargetKind = 'min' | 'max';
+export type IntakeStatus = 'below' | 'met' | 'over' | 'untracked';
+
+export interface NutrientDefinition {
+  key: NutrientKey;
+  label: string;
+  unit: string;
+  group: NutrientGroup;
+}
+
+export interface NutrientTarget {
+  value: number;
+  kind: TargetKind;
+  source: 'profile' | 'reference';
+}
+
+export interface NutrientIntake extends NutrientDefinition {
+  amount: number;
+  // Scaled to the days of the period
+  target?: NutrientTarget;
+  // amount / target
+  ratio?: number;
+  status: IntakeStatus;
+}
+
+export interface IntakeReport {
+  startDate: string;
+  endDate: string;
+  days: number;
+  // Days with at least one meal logged
+  loggedDays: number;
+  // In NUTRIENTS order; nutrients without data or target are left out
+  nutrients: NutrientIntake[];
+  fiber: NutrientIntake;
+}
+
+export const NUTRIENT_GROUP_LABELS: Record<NutrientGroup, string> = {
+  energy: 'Energía',
+  macros: 'Macronutrientes',
+  fats: 'Grasas',
+  minerals: 'Minerales',
+  vitamins: 'Vitaminas',
+  other: 'Otros',
+};
+
+export const NUTRIENTS: NutrientDefinition[] = [
+  { key: 'calories', label: 'Calorías', unit: 'kcal', group: 'energy' },
+  { key: 'protein_g', label: 'Proteínas', unit: 'g', group: 'macros' },
+  { key: 'carbs_g', label: 'Carbohidratos', unit: 'g', group: 'macros' },
+  { key: 'fiber_g', label: 'Fibra', unit: 'g', group: 'macros' },
+  { key: 'sugars_g', label: 'Azúcares', unit: 'g', group: 'macros' },
+  { key: 'added_sugars_g', label: 'Azúcares añadidos', unit: 'g', group: 'macros' },
+  { key: 'fat_g', label: 'Grasas', unit: 'g', group: 'fats' },
+  { key: 'saturated_fat_g', label: 'Saturadas', unit: 'g', group: 'fats' },
+  { key: 'monounsaturated_fat_g', label: 'Monoinsaturadas', unit: 'g', group: 'fats' },
+  { key: 'polyunsaturated_fat_g', label: 'Poliinsaturadas', unit: 'g', group: 'fats' },
+  { key: 'trans_fat_g', label: 'Trans', unit: 'g', group: 'fats' },
+  { key: 'cholesterol_mg', label: 'Colesterol', unit: 'mg', group: 'fats' },
+  { key: 'sodium_mg', label: 'Sodio', unit: 'mg', group: 'minerals' },
+  { key: 'potassium_mg', label: 'Potasio', unit: 'mg', group: 'minerals' },
+  { key: 'calcium_mg', label: 'Calcio', unit: 'mg', group: 'minerals' },
+  { key: 'iron_mg', label: 'Hierro', unit: 'mg', group: 'minerals' },
+  { key: 'magnesium_mg', label: 'Magnesio', unit: 'mg', group: 'minerals' },
+  { key: 'phosphorus_mg', label: 'Fósforo', unit: 'mg', group: 'minerals' },
+  { key: 'zinc_mg', label: 'Zinc', unit: 'mg', group: 'minerals' },
+  { key: 'copper_mg', label: 'Cobre', unit: 'mg', group: 'minerals' },
+  { key: 'manganese_mg', label: 'Manganeso', unit: 'mg', group: 'minerals' },
+  { key: 'selenium_mcg', label: 'Selenio', unit: 'µg', group: 'minerals' },
+  { key: 'vitamin_a_mcg', label: 'Vitamina A', unit: 'µg', group: 'vitamins' },
+  { key: 'vitamin_b1_mg', label: 'Vitamina B1', unit: 'mg', group: 'vitamins' },
+  { key: 'vitamin_b2_mg', label: 'Vitamina B2', unit: 'mg', group: 'vitamins' },
+  { key: 'vitamin_b3_mg', label: 'Vitamina B3', unit: 'mg', group: 'vitamins' },
+  { key: 'vitamin_b5_mg', label: 'Vitamina B5', unit: 'mg', group: 'vitamins' },
+  { key: 'vitamin_b6_mg', label: 'Vitamina B6', unit: 'mg', group: 'vitamins' },
+  { key: 'vitamin_b9_mcg', label: 'Folato (B9)', unit: 'µg', group: 'vitamins' },
+  { key: 'vitamin_b12_mcg', label: 'Vitamina B12', unit: 'µg', group: 'vitamins' },
+  { key: 'vitamin_c_mg', label: 'Vitamina C', unit: 'mg', group: 'vitamins' },
+  { key: 'vitamin_d_mcg', label: 'Vitamina D', unit: 'µg', group: 'vitamins' },
+  { key: 'vitamin_e_mg', label: 'Vitamina E', unit: 'mg', group: 'vitamins' },
+  { key: 'vitamin_k_mcg', label: 'Vitamina K', unit: 'µg', group: 'vitamins' },
+  { key: 'water_g', label: 'Agua (alimentos)', unit: 'g', group: 'other' },
+  { key: 'alcohol_g', label: 'Alcohol', unit: 'g', group: 'other' },
+  { key: 'caffeine_mg', label: 'Cafeína', unit: 'mg', group: 'other' },
+];
+
+// Low FODMAP sources of fiber, suggested when fiber falls short
+export const LOW_FODMAP_FIBER_SOURCES = [
+  'Kiwi',
+  'Copos de avena',
+  'Semillas de chía o lino',
+  'Psyllium',
+  'Arroz integral o quinoa',
+  'Zanahoria y patata con piel',
+  'Naranja',
+];
+
+const DEFAULT_TARGET_CALORIES = 2000;
+const DEFAULT_MACRO_SPLIT = { protein: 20, carbs: 50, fat: 30 };
+
+// Daily minimums for adults by gender; `older` applies from 51 years
+type ReferenceRow = { male: number; female: number; older?: { male: number; female: number } };
+
+const REFERENCE_MINIMUMS: Partial<Record<NutrientKey, ReferenceRow>> = {
+  fiber_g: { male: 30, female: 25 },
+  potassium_mg: { male: 3500, female: 3500 },
+  calcium_mg: { male: 1000, female: 1000, older: { male: 1000, female: 1200 } },
+  iron_mg: { male: 8, female: 18, older: { male: 8, female: 8 } },
+  magnesium_mg: { male: 420, female: 320 },
+  phosphorus_mg: { male: 700, female: 700 },
+  zinc_mg: { male: 11, female: 8 },
+  copper_mg: { male: 0.9, female: 0.9 },
+  manganese_mg: { male: 2.3, female: 1.8 },
+  selenium_mcg: { male: 55, female: 55 },
+  vitamin_a_mcg: { male: 900, female: 700 },
+  vitamin_b1_mg: { male: 1.2, female: 1.1 },
+  vitamin_b2_mg: { male: 1.3, female: 1.1 },
+  vitamin_b3_mg: { male: 16, female: 14 },
+  vitamin_b5_mg: { male: 5, female: 5 },
+  vitamin_b6_mg: { male: 1.3, female: 1.3, older: { male: 1.7, female: 1.5 } },
+  vitamin_b9_mcg: { male: 400, female: 400 },
+  vitamin_b12_mcg: { male: 2.4, female: 2.4 },
+  vitamin_c_mg: { male: 90, female: 75 },
+  vitamin_d_mcg: { male: 15, female: 15 },
+  vitamin_e_mg: { male: 15, female: 15 },
+  vitamin_k_mcg: { male: 120, female: 90 },
+};
+
+// Daily limits; sugars and saturated fat are a share of the calories
+const REFERENCE_LIMITS: Partial<Record<NutrientKey, number | ((calories: number) => number)>> = {
+  sodium_mg: 2000,
+  cholesterol_mg: 300,
+  trans_fat_g: 2,
+  saturated_fat_g: calories => (calories * 0.1) / 9,
+  sugars_g: calories => (calories * 0.1) / 4,
+  added_sugars_g: calories => (calories * 0.05) / 4,
+  alcohol_g: 10,
+  caffeine_mg: 400,
+};
+
+// Detailed targets of the profile
+const PROFILE_TARGETS: { key: NutrientKey; field: keyof UserProfile; kind: TargetKind }[] = [
+  { key: 'fiber_g', field: 'target_fiber_g', kind: 'min' },
+  { key: 'potassium_mg', field: 'target_potassium_mg', kind: 'min' },
+  { key: 'sugars_g', field: 'target_sugars_g', kind: 'max' },
+  { key: 'sodium_mg', field: 'target_sodium_mg', kind: 'max' },
+  { key: 'saturated_fat_g', field: 'target_saturated_fat_g', kind: 'max' },
+  { key: 'cholesterol_mg', field: 'target_cholesterol_mg', kind: 'max' },
+];
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+// ============================================================
+// TARGETS
+// ============================================================
+
+function getReferenceMinimum(row: ReferenceRow, profile: UserProfile | null): number {
+  const age = profile?.birth_date ? calculateAge(profile.birth_date) : undefined;
+  const values = row.older && age !== undefined && age >= 51 ? row.older : row;
+  if (profile?.gender === 'male') return values.male;
+  if (profile?.gender === 'female') return values.female;
+  // Unknown gender: the higher of both, so nothing falls short
+  return Math.max(values.male, values.female);
+}
+
+/**
+ * Daily target of every nutrient that has one
+ */
+export function getNutrientTargets(profile: UserProfile | null): Partial<Record<NutrientKey, NutrientTarget>> {
+  const calories = profile?.target_calories || DEFAULT_TARGET_CALORIES;
+  const macros = calculateMacroGrams(
+    calories,
+    profile?.target_protein_pct || DEFAULT_MACRO_SPLIT.protein,
+    profile?.target_carbs_pct || DEFAULT_MACRO_SPLIT.carbs,
+    profile?.target_fat_pct || DEFAULT_MACRO_SPLIT.fat
+  );
+
+  const targets: Partial<Record<NutrientKey, NutrientTarget>> = {
+    calories: { value: calories, kind: 'max', source: 'profile' },
+    protein_g: { value: macros.protein_g, kind: 'min', source: 'profile' },
+    carbs_g: { value: macros.carbs_g, kind: 'max', source: 'profile' },
+    fat_g: { value: macros.fat_g, kind: 'max', source: 'profile' },
+  };
+
+  for (const [key, row] of Object.entries(REFERENCE_MINIMUMS)) {
+    targets[key as NutrientKey] = { value: getReferenceMinimum(row!, profile), kind: 'min', source: 'reference' };
+  }
+  for (const [key, limit] of Object.entries(REFERENCE_LIMITS)) {
+    const value = typeof limit === 'function' ? limit(calories) : limit!;
+    targets[key as NutrientKey] = { value: round(value, 1), kind: 'max', source: 'reference' };
+  }
+  for (const { key, field, kind } of PROFILE_TARGETS) {
+    const value = profile?.[field];
+    if (typeof value === 'number' && value > 0) targets[key] = { value, kind, source: 'profile' };
+  }
+  return targets;
+}
+
+// ============================================================
+// TOTALS
+// ============================================================
+
+/**
+ * Sum of every numeric NutritionInfo field
+ */
+export function sumNutrition(items: (NutritionInfo | undefined)[]): Partial<Record<NutrientKey, number>> {
+  const totals: Partial<Record<NutrientKey, number>> = {};
+  for (const nutrition of items) {
+    if (!nutrition) continue;
+    for (const { key } of NUTRIENTS) {
+      const value = nutrition[key];
+      if (typeof value === 'number') totals[key] = (totals[key] || 0) + value;
+    }
+  }
+  return totals;
+}
+
+function getStatus(amount: number, target?: NutrientTarget): IntakeStatus {
+  if (!target) return 'untracked';
+  if (target.kind === 'max') return amount > target.value ? 'over' : 'met';
+  return amount >= target.value ? 'met' : 'below';
+}
+
+/**
+ * Totals of a period compared with the daily targets times its days.
+ * Nutrients with no data and no target are left out.
+ */
+export function compareIntake(
+  totals: Partial<Record<NutrientKey, number>>,
+  targets: Partial<Record<NutrientKey, NutrientTarget>>,
+  days: number
+): NutrientIntake[] {
+  return NUTRIENTS.flatMap(definition => {
+    const amount = totals[definition.key];
+    const daily = targets[definition.key];
+    if (amount === undefined && !daily) return [];
+
+    const target = daily && { ...daily, value: round(daily.value * days, 1) };
+    const value = round(amount || 0, 1);
+    return [{
+      ...definition,
+      amount: value,
+      target,
+      ratio: target && target.value > 0 ? value / target.value : undefined,
+      status: getStatus(value, target),
+    }];
+  });
+}
+
+function toISODate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Nutrient intake of the `days` days ending on `endDate` (1 = that day only)
+ */
+export async function loadIntakeReport(profile: UserProfile | null, endDate: string, days = 1): Promise<IntakeReport> {
+  const start = new Date(`${endDate}T00:00:00Z`);
+  start.setUTCDate(start.getUTCDate() - (days - 1));
+  const startDate = toISODate(start);
+
+  const meals = await MealRepository.getByDateRange(startDate, endDate);
+  const totals = sumNutrition(meals.flatMap(meal => (meal.items || []).map(item => item.nutrition)));
+  const nutrients = compareIntake(totals, getNutrientTargets(profile), days);
+
+  return {
+    startDate,
+    endDate,
+    days,
+    loggedDays: new Set(meals.map(meal => meal.date)).size,
+    nutrients,
+    fiber: nutrients.find(nutrient => nutrient.key === 'fiber_g')!,
+  };
+}
+
+/**
+ * Advice on the fiber of a period, undefined when the target is met
+ */
+export function getFiberAdvice(fiber: NutrientIntake): string | undefined {
+  if (fiber.status !== 'below' || !fiber.target) return undefined;
+  const missing = round(fiber.target.value - fiber.amount, 0);
+  return `Faltan ${missing} g de fibra. Al reducir FODMAP se suele perder fibra: prueba con ${LOW_FODMAP_FIBER_SOURCES.slice(0, 3).join(', ').toLowerCase()}.`;
+}
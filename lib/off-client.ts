@@ -0,0 +1,390 @@
+/**
+ * Everyday FODMAP - OpenFoodFacts Client
+ *
+ * Single entry point to the OpenFoodFacts API: product lookups, product
+ * search and the taxonomies behind the search filters.
+ *
+ * - The base URL is configurable (configureOFFClient) so the app can be
+ *   pointed at a local stub or a staging server
+ * - Every request has a timeout and is retried on network errors, 429 and
+ *   5xx with a growing delay; requests are rate limited per kind, within
+ *   OFF's limits (100 product lookups, 10 searches per minute)
+ * - Responses are cached with a TTL in the `off_cache` table. Past the TTL
+ *   the cached copy is still used when OFF can't be reached, so products
+ *   viewed before keep working offline
+ * The cache is pluggable (OFFCache) and is not part of backups.
+ */
+
+import { getDatabase } from './database';
+
+export interface ProductSummary {
+  code: string;
+  product_name?: string;
+  image_url?: string;
+  image_front_url?: string;
+  image_front_small_url?: string;
+  brands?: string;
+  categories?: string;
+  nutriscore_grade?: string;
+  ecoscore_grade?: string;
+  nova_group?: number;
+}
+
+export interface ProductDetails {
+  code: string;
+  product_name?: string;
+  image_url?: string;
+  image_front_url?: string;
+  brands?: string;
+  categories?: string;
+  categories_tags?: string[];
+  nutriments?: any;
+  nutriscore_grade?: string;
+  ecoscore_grade?: string;
+  nova_group?: number;
+  ingredients_text?: string;
+  ingredients?: any[];
+  additives_tags?: string[];
+  allergens_tags?: string[];
+  stores?: string;
+  countries?: string;
+  packaging?: string;
+  quantity?: string;
+  serving_size?: string;
+}
+
+export interface ProductSearchParams {
+  search_terms?: string;
+  brands?: string;
+  categories?: string;
+  countries?: string;
+  additives?: string;
+  allergens?: string;
+  stores?: string;
+  page?: number;
+  page_size?: number;
+}
+
+export interface ProductSearchResult {
+  count: number;
+  products: ProductSummary[];
+}
+
+export type OFFTaxonomy = 'brands' | 'categories' | 'countries' | 'additives' | 'allergens' | 'stores';
+
+type RequestKind = 'product' | 'search' | 'taxonomy';
+
+export interface OFFCacheEntry {
+  value: string;
+  // ms since epoch
+  fetched_at: number;
+}
+
+// Persistent key/value store for responses
+export interface OFFCache {
+  get(key: string): Promise<OFFCacheEntry | null>;
+  set(key: string, value: string): Promise<void>;
+  // Remove entries whose key starts with prefix, fetched before the time given
+  prune(prefix: string, before: number): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface OFFClientOptions {
+  baseUrl: string;
+  timeoutMs: number;
+  // Extra attempts after a failed one
+  retries: number;
+  // Delay before the first retry, doubled on each one
+  retryDelayMs: number;
+  requestsPerMinute: Record<RequestKind, number>;
+  // How long a cached response is used without asking OFF again
+  ttlMs: Record<RequestKind, number>;
+  cache: OFFCache;
+}
+
+export interface OFFClient {
+  readonly options: OFFClientOptions;
+  // null when OFF doesn't know the code
+  getProduct(code: string): Promise<ProductDetails | null>;
+  searchProducts(params: ProductSearchParams): Promise<ProductSearchResult>;
+  // First tags of a taxonomy, for the search filters
+  getTaxonomyTags(taxonomy: OFFTaxonomy): Promise<string[]>;
+  clearCache(): Promise<void>;
+}
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+// Fields of a product lookup; OFF returns every field otherwise
+const PRODUCT_FIELDS: (keyof ProductDetails)[] = [
+  'code', 'product_name', 'image_url', 'image_front_url', 'brands', 'categories', 'categories_tags',
+  'nutriments', 'nutriscore_grade', 'ecoscore_grade', 'nova_group', 'ingredients_text', 'ingredients',
+  'additives_tags', 'allergens_tags', 'stores', 'countries', 'packaging', 'quantity', 'serving_size',
+];
+
+// Tags kept per taxonomy (the files themselves are several MB)
+const TAXONOMY_TAG_LIMIT = 50;
+// Taxonomies listed by their English tags, without the "en:" prefix
+const ENGLISH_TAXONOMIES: OFFTaxonomy[] = ['additives', 'allergens'];
+
+// ============================================================
+// CACHE
+// ============================================================
+
+/**
+ * Cache in the app database (`off_cache` table)
+ */
+export const databaseCache: OFFCache = {
+  async get(key) {
+    const db = await getDatabase();
+    return db.getFirstAsync('SELECT value, fetched_at FROM off_cache WHERE key = ?', [key]);
+  },
+
+  async set(key, value) {
+    const db = await getDatabase();
+    await db.runAsync(
+      'INSERT OR REPLACE INTO off_cache (key, value, fetched_at) VALUES (?, ?, ?)',
+      [key, value, Date.now()]
+    );
+  },
+
+  async prune(prefix, before) {
+    const db = await getDatabase();
+    await db.runAsync('DELETE FROM off_cache WHERE key LIKE ? AND fetched_at < ?', [`${prefix}%`, before]);
+  },
+
+  async clear() {
+    const db = await getDatabase();
+    await db.runAsync('DELETE FROM off_cache');
+  },
+};
+
+/**
+ * Cache kept in memory only (stubs, tests)
+ */
+export function createMemoryCache(): OFFCache {
+  const entries = new Map<string, OFFCacheEntry>();
+  return {
+    async get(key) {
+      return entries.get(key) ?? null;
+    },
+    async set(key, value) {
+      entries.set(key, { value, fetched_at: Date.now() });
+    },
+    async prune(prefix, before) {
+      for (const [key, entry] of entries) {
+        if (key.startsWith(prefix) && entry.fetched_at < before) entries.delete(key);
+      }
+    },
+    async clear() {
+      entries.clear();
+    },
+  };
+}
+
+export const DEFAULT_OFF_OPTIONS: OFFClientOptions = {
+  baseUrl: 'https://world.openfoodfacts.org',
+  timeoutMs: 10000,
+  retries: 2,
+  retryDelayMs: 1000,
+  requestsPerMinute: { product: 100, search: 10, taxonomy: 10 },
+  ttlMs: { product: 7 * DAY, search: HOUR, taxonomy: 30 * DAY },
+  cache: databaseCache,
+};
+
+// ============================================================
+// REQUESTS
+// ============================================================
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Waits until a request fits in the last minute's budget
+ */
+function createRateLimiter(perMinute: number): () => Promise<void> {
+  const sent: number[] = [];
+  return async function acquire() {
+    for (;;) {
+      const now = Date.now();
+      while (sent.length > 0 && sent[0] <= now - 60000) sent.shift();
+      if (sent.length < perMinute) {
+        sent.push(now);
+        return;
+      }
+      await sleep(sent[0] + 60000 - now);
+    }
+  };
+}
+
+// Errors worth another attempt
+function isRetryable(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+// ============================================================
+// CLIENT
+// ============================================================
+
+export function createOFFClient(overrides: Partial<OFFClientOptions> = {}): OFFClient {
+  const options: OFFClientOptions = {
+    ...DEFAULT_OFF_OPTIONS,
+    ...overrides,
+    requestsPerMinute: { ...DEFAULT_OFF_OPTIONS.requestsPerMinute, ...overrides.requestsPerMinute },
+    ttlMs: { ...DEFAULT_OFF_OPTIONS.ttlMs, ...overrides.ttlMs },
+  };
+  const baseUrl = options.baseUrl.replace(/\/+$/, '');
+  const limiters: Record<RequestKind, () => Promise<void>> = {
+    product: createRateLimiter(options.requestsPerMinute.product),
+    search: createRateLimiter(options.requestsPerMinute.search),
+    taxonomy: createRateLimiter(options.requestsPerMinute.taxonomy),
+  };
+  // Requests in flight by cache key, so concurrent callers share one
+  const pending = new Map<string, Promise<any>>();
+
+  /**
+   * GET a JSON resource; null on 404
+   */
+  async function request(kind: RequestKind, path: string): Promise<any | null> {
+    let lastError: unknown;
+    for (let attempt = 0; attempt <= options.retries; attempt++) {
+      if (attempt > 0) await sleep(options.retryDelayMs * 2 ** (attempt - 1));
+      await limiters[kind]();
+
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), options.timeoutMs);
+      try {
+        const response = await fetch(`${baseUrl}${path}`, {
+          method: 'GET',
+          headers: { 'Accept': 'application/json' },
+          signal: controller.signal,
+        });
+        if (response.status === 404) return null;
+        if (!response.ok) {
+          lastError = new Error(`HTTP error! status: ${response.status}`);
+          if (!isRetryable(response.status)) break;
+          continue;
+        }
+        return await response.json();
+      } catch (error) {
+        // Network error or timeout (abort)
+        lastError = error;
+      } finally {
+        clearTimeout(timer);
+      }
+    }
+    throw lastError;
+  }
+
+  /**
+   * Cached value of a key, loaded when missing or older than the TTL. When
+   * loading fails an expired copy is returned instead.
+   */
+  async function cached<T>(kind: RequestKind, key: string, load: () => Promise<T | null>): Promise<T | null> {
+    const entry = await options.cache.get(key).catch(() => null);
+    if (entry && Date.now() - entry.fetched_at < options.ttlMs[kind]) {
+      return JSON.parse(entry.value);
+    }
+
+    const inFlight = pending.get(key);
+    if (inFlight) return inFlight;
+
+    const promise = (async () => {
+      try {
+        const value = await load();
+        // Unknown products are not cached: they may be added to OFF later
+        if (value !== null) await options.cache.set(key, JSON.stringify(value)).catch(() => {});
+        return value;
+      } catch (error) {
+        if (entry) {
+          console.warn(`[OFF] Using cached ${key} (offline)`);
+          return JSON.parse(entry.value);
+        }
+        throw error;
+      } finally {
+        pending.delete(key);
+      }
+    })();
+    pending.set(key, promise);
+    return promise;
+  }
+
+  return {
+    options,
+
+    async getProduct(code) {
+      const trimmed = code.trim();
+      return cached('product', `product:${trimmed}`, async () => {
+        const result = await request(
+          'product',
+          `/api/v2/product/${encodeURIComponent(trimmed)}.json?fields=${PRODUCT_FIELDS.join(',')}`
+        );
+        // status 0: "product not found"
+        if (!result || result.status === 0 || !result.product) return null;
+        return { ...result.product, code: result.product.code || trimmed } as ProductDetails;
+      });
+    },
+
+    async searchProducts(params) {
+      const query = new URLSearchParams();
+      query.append('action', 'process');
+      query.append('json', '1');
+      query.append('page_size', String(params.page_size || 24));
+      query.append('page', String(params.page || 1));
+      if (params.search_terms) query.append('search_terms', params.search_terms);
+      if (params.brands) query.append('brands_tags', params.brands);
+      if (params.categories) query.append('categories_tags', params.categories);
+      if (params.countries) query.append('countries_tags', params.countries);
+      if (params.additives) query.append('additives_tags', params.additives);
+      if (params.allergens) query.append('allergens_tags', params.allergens);
+      if (params.stores) query.append('stores_tags', params.stores);
+
+      // Old searches are only worth keeping for a while
+      await options.cache.prune('search:', Date.now() - options.ttlMs.search * 24).catch(() => {});
+
+      const result = await cached('search', `search:${query.toString()}`, async () => {
+        const response = await request('search', `/cgi/search.pl?${query.toString()}`);
+        return {
+          count: response?.count || 0,
+          products: response?.products || [],
+        } as ProductSearchResult;
+      });
+      return result || { count: 0, products: [] };
+    },
+
+    async getTaxonomyTags(taxonomy) {
+      const tags = await cached('taxonomy', `taxonomy:${taxonomy}`, async () => {
+        const data = await request('taxonomy', `/data/taxonomies/${taxonomy}.json`);
+        const keys = Object.keys(data || {});
+        return ENGLISH_TAXONOMIES.includes(taxonomy)
+          ? keys.filter(key => key.startsWith('en:')).map(key => key.replace(/^en:/, '')).slice(0, TAXONOMY_TAG_LIMIT)
+          : keys.slice(0, TAXONOMY_TAG_LIMIT);
+      });
+      return tags || [];
+    },
+
+    async clearCache() {
+      await options.cache.clear();
+    },
+  };
+}
+
+// ============================================================
+// SHARED CLIENT
+// ============================================================
+
+let client = createOFFClient();
+
+export function getOFFClient(): OFFClient {
+  return client;
+}
+
+/**
+ * Replace the shared client, e.g. to use a local stub:
+ * configureOFFClient({ baseUrl: 'http://localhost:8080' })
+ */
+export function configureOFFClient(options: Partial<OFFClientOptions>): OFFClient {
+  client = createOFFClient(options);
+  return client;
+}
@@ -0,0 +1,249 @@
+/**
+ * Everyday FODMAP - OpenFoodFacts Products
+ *
+ * Saves OpenFoodFacts products as local foods (source = 'external',
+ * source_id = product code) and refreshes them from OFF later.
+ *
+ * - Nutriments per 100 g are mapped to NutritionInfo (OFF stores masses in
+ *   grams: minerals and vitamins are converted to mg / µg) and kept per
+ *   100 g like the other foods; the serving size is the food's porción
+ *   (see lib/units.ts)
+ * - nutriscore_grade becomes the NutriScore letter, categories_tags the
+ *   FoodCategory
+ * - The FODMAP level and details are prefilled with the provisional rating
+ *   of the ingredient list (lib/fodmap-classifier.ts), explained in the notes;
+ *   unknown without a list
+ * A user or internal food that shares the barcode is never turned into an
+ * external one; its product data is only updated when the user confirms it.
+ * A refresh only updates the product data (nutrition, Nutri-Score, brand,
+ * barcode, image, serving size), never the name, category, FODMAP rating or
+ * notes the user may have reviewed.
+ *
+ * lookupBarcode() finds a packaged food by its barcode: among the local
+ * foods first, then in OFF.
+ */
+
+import { classifyIngredients, describeClassification } from './fodmap-classifier';
+import { getOFFClient, ProductDetails } from './off-client';
+import { Changes, FoodInput, FoodRepository } from './repositories';
+import { Food, FoodCategory, NutriScore, NutritionInfo } from './types';
+
+// OFF nutriment (per 100 g, in grams) → NutritionInfo field and multiplier
+const NUTRIMENT_FIELDS: [string, keyof NutritionInfo, number][] = [
+  ['energy-kcal_100g', 'calories', 1],
+  ['proteins_100g', 'protein_g', 1],
+  ['carbohydrates_100g', 'carbs_g', 1],
+  ['fat_100g', 'fat_g', 1],
+  ['saturated-fat_100g', 'saturated_fat_g', 1],
+  ['monounsaturated-fat_100g', 'monounsaturated_fat_g', 1],
+  ['polyunsaturated-fat_100g', 'polyunsaturated_fat_g', 1],
+  ['trans-fat_100g', 'trans_fat_g', 1],
+  ['fiber_100g', 'fiber_g', 1],
+  ['sugars_100g', 'sugars_g', 1],
+  ['added-sugars_100g', 'added_sugars_g', 1],
+  ['cholesterol_100g', 'cholesterol_mg', 1000],
+  ['sodium_100g', 'sodium_mg', 1000],
+  ['potassium_100g', 'potassium_mg', 1000],
+  ['calcium_100g', 'calcium_mg', 1000],
+  ['iron_100g', 'iron_mg', 1000],
+  ['magnesium_100g', 'magnesium_mg', 1000],
+  ['phosphorus_100g', 'phosphorus_mg', 1000],
+  ['zinc_100g', 'zinc_mg', 1000],
+  ['copper_100g', 'copper_mg', 1000],
+  ['manganese_100g', 'manganese_mg', 1000],
+  ['selenium_100g', 'selenium_mcg', 1e6],
+  ['vitamin-a_100g', 'vitamin_a_mcg', 1e6],
+  ['vitamin-b1_100g', 'vitamin_b1_mg', 1000],
+  ['vitamin-b2_100g', 'vitamin_b2_mg', 1000],
+  ['vitamin-pp_100g', 'vitamin_b3_mg', 1000],
+  ['pantothenic-acid_100g', 'vitamin_b5_mg', 1000],
+  ['vitamin-b6_100g', 'vitamin_b6_mg', 1000],
+  ['vitamin-b9_100g', 'vitamin_b9_mcg', 1e6],
+  ['vitamin-b12_100g', 'vitamin_b12_mcg', 1e6],
+  ['vitamin-c_100g', 'vitamin_c_mg', 1000],
+  ['vitamin-d_100g', 'vitamin_d_mcg', 1e6],
+  ['vitamin-e_100g', 'vitamin_e_mg', 1000],
+  ['vitamin-k_100g', 'vitamin_k_mcg', 1e6],
+  ['caffeine_100g', 'caffeine_mg', 1000],
+];
+
+// First matching OFF category tag wins
+const CATEGORY_TAGS: [RegExp, FoodCategory][] = [
+  [/beverages|drinks|waters|juices|sodas|teas|coffees/, 'beverage'],
+  [/dairies|milks|cheeses|yogurts|creams/, 'dairy'],
+  [/fats|oils|butters|margarines/, 'fat'],
+  [/condiments|sauces|spices|dressings|vinegars|salts/, 'condiment'],
+  [/fruits/, 'fruit'],
+  [/vegetables|legumes|pulses/, 'vegetable'],
+  [/meats|fishes|seafood|eggs|poultry|tofu/, 'protein'],
+  [/cereals|breads|pastas|rices|flours|grains/, 'grain'],
+];
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+// ============================================================
+// MAPPING
+// ============================================================
+
+/**
+ * Nutrition per 100 g from OFF nutriments, undefined when there is none.
+ * Calories fall back to the energy in kJ, sodium to the salt.
+ */
+export function mapNutriments(nutriments: any): NutritionInfo | undefined {
+  if (!nutriments) return undefined;
+  const nutrition: Record<string, number> = {};
+
+  for (const [key, field, factor] of NUTRIMENT_FIELDS) {
+    const value = parseFloat(nutriments[key]);
+    if (!isNaN(value)) nutrition[field] = round(value * factor, 2);
+  }
+  if (nutrition.calories === undefined && !isNaN(parseFloat(nutriments['energy_100g']))) {
+    nutrition.calories = round(parseFloat(nutriments['energy_100g']) / 4.184, 0);
+  }
+  if (nutrition.sodium_mg === undefined && !isNaN(parseFloat(nutriments['salt_100g']))) {
+    nutrition.sodium_mg = round((parseFloat(nutriments['salt_100g']) / 2.5) * 1000, 0);
+  }
+
+  return Object.keys(nutrition).length > 0 ? nutrition as NutritionInfo : undefined;
+}
+
+export function mapNutriScore(grade?: string): NutriScore {
+  const letter = grade?.trim().toUpperCase();
+  return letter && ['A', 'B', 'C', 'D', 'E'].includes(letter) ? letter as NutriScore : null;
+}
+
+export function mapCategory(tags?: string[]): FoodCategory {
+  // The most specific tags come last
+  for (const tag of [...(tags || [])].reverse()) {
+    const match = CATEGORY_TAGS.find(([pattern]) => pattern.test(tag));
+    if (match) return match[1];
+  }
+  return 'processed';
+}
+
+/**
+ * Product data a refresh updates
+ */
+function getProductData(product: ProductDetails): Changes<FoodInput> {
+  // Per 100 g, like the other foods; the serving size gives the porción
+  const nutrition = mapNutriments(product.nutriments);
+
+  return {
+    nutrition: nutrition ?? null,
+    nutri_score: mapNutriScore(product.nutriscore_grade),
+    serving_size: product.serving_size?.trim() || null,
+    brand: product.brands?.split(',')[0].trim() || null,
+    barcode: product.code,
+    image_uri: product.image_front_url || product.image_url || null,
+  };
+}
+
+/**
+ * A new local food from an OFF product
+ */
+export function productToFood(product: ProductDetails): Changes<FoodInput> & { name: string } {
+  const classification = classifyIngredients(product);
+  return {
+    ...getProductData(product),
+    name: product.product_name?.trim() || `Producto ${product.code}`,
+    category: mapCategory(product.categories_tags),
+    fodmap_level: classification?.level ?? 'unknown',
+    fodmap_details: classification?.details ?? null,
+    notes: classification ? describeClassification(classification) : null,
+    is_compound: false,
+    source: 'external',
+    source_id: product.code,
+  };
+}
+
+// ============================================================
+// SAVING
+// ============================================================
+
+/**
+ * Save a product as a local food, or update the food saved from it before.
+ * A user or internal food with the same barcode keeps its source: it is only
+ * updated with the product data when updateLocalFood is set (after the user
+ * confirmed it), otherwise it is left untouched and updated is false.
+ * Returns the food id, whether it was created and whether it was updated.
+ */
+export async function saveProduct(
+  product: ProductDetails,
+  options: { updateLocalFood?: boolean } = {}
+): Promise<{ id: number; created: boolean; updated: boolean }> {
+  const existing = await findFoodByBarcode(product.code);
+  if (!existing) {
+    return { id: await FoodRepository.create(productToFood(product)), created: true, updated: false };
+  }
+  if (existing.source === 'external') {
+    await FoodRepository.update(existing.id, { ...getProductData(product), source_id: product.code });
+    return { id: existing.id, created: false, updated: true };
+  }
+  if (!options.updateLocalFood) {
+    return { id: existing.id, created: false, updated: false };
+  }
+  await FoodRepository.update(existing.id, getProductData(product));
+  return { id: existing.id, created: false, updated: true };
+}
+
+/**
+ * Update a food saved from OFF with the product's current data
+ */
+export async function refreshProduct(foodId: number): Promise<void> {
+  const food = await FoodRepository.getById(foodId);
+  if (!food || food.source !== 'external' || !food.source_id) {
+    throw new Error(`Food ${foodId} was not saved from OpenFoodFacts`);
+  }
+  const product = await getOFFClient().getProduct(food.source_id);
+  if (!product) {
+    throw new Error(`Product ${food.source_id} not found in OpenFoodFacts`);
+  }
+  await FoodRepository.update(foodId, getProductData(product));
+}
+
+// ============================================================
+// BARCODE LOOKUP
+// ============================================================
+
+export interface BarcodeLookup {
+  code: string;
+  // Local food with this barcode or saved from this product
+  food: Food | null;
+  // OFF product, only looked up when there is no local food
+  product: ProductDetails | null;
+}
+
+/**
+ * Digits of a typed or scanned EAN/UPC code, null when it isn't one
+ */
+export function normalizeBarcode(input: string): string | null {
+  const digits = input.replace(/[\s-]/g, '');
+  return /^\d{8,14}$/.test(digits) ? digits : null;
+}
+
+// A UPC-A code is also written as EAN-13 with a leading zero
+function getBarcodeVariants(code: string): string[] {
+  if (code.length === 12) return [code, `0${code}`];
+  if (code.length === 13 && code.startsWith('0')) return [code, code.slice(1)];
+  return [code];
+}
+
+export async function findFoodByBarcode(code: string): Promise<Food | null> {
+  for (const variant of getBarcodeVariants(code)) {
+    const food = await FoodRepository.getByBarcode(variant) ?? await FoodRepository.getBySource('external', variant);
+    if (food) return food;
+  }
+  return null;
+}
+
+/**
+ * Look a barcode up in the local foods first, then in OpenFoodFacts
+ */
+export async function lookupBarcode(code: string): Promise<BarcodeLookup> {
+  const food = await findFoodByBarcode(code);
+  if (food) return { code, food, product: null };
+  return { code, food: null, product: await getOFFClient().getProduct(code) };
+}
@@ -0,0 +1,248 @@
+/**
+ * Everyday FODMAP - Recipe Collections
+ *
+ * Imports and exports recipe collections in the Open Recipe Format
+ * (lib/recipe-format.ts).
+ *
+ * - The collection metadata must be valid; each recipe is then validated and
+ *   imported on its own, so one broken recipe doesn't stop the others
+ * - Recipes are stored with source = 'external', source_id = the recipe id
+ *   and source_name = the collection name. Importing the same collection
+ *   again updates those recipes instead of duplicating them
+ * - Markdown instructions become steps and ingredients are linked to the
+ *   local foods with a clearly matching name
+ *
+ * Exports build the collection meta (recipe_count, updated_at), render the
+ * steps as markdown and can embed the images as data URIs. The collection is
+ * checked with validateCollection() before it is written.
+ */
+
+import { Platform, Share } from 'react-native';
+import {
+  databaseToOpenRecipe,
+  OpenRecipe,
+  openRecipeToDatabase,
+  RecipeCollection,
+  validateCollection,
+  validateCollectionMeta,
+  validateRecipe,
+} from './recipe-format';
+import { FoodRepository, RecipeRepository } from './repositories';
+import { Recipe } from './types';
+
+export interface RecipeImportResult {
+  // Position in the collection
+  index: number;
+  name: string;
+  status: 'created' | 'updated' | 'failed';
+  recipeId?: number;
+  errors: string[];
+  // Ingredients linked to a local food, out of the total
+  linked: number;
+  ingredients: number;
+}
+
+export interface CollectionImportReport {
+  name: string;
+  // Problems with the collection itself; no recipe is imported then
+  errors: string[];
+  results: RecipeImportResult[];
+}
+
+export interface CollectionExportOptions {
+  name: string;
+  description?: string;
+  author?: string;
+  // Embed the recipe images in the file; otherwise only web images are linked
+  includeImages?: boolean;
+}
+
+export interface CollectionFile {
+  name: string;
+  content: string;
+}
+
+// ============================================================
+// IMPORT
+// ============================================================
+
+function getRecipeName(recipe: unknown, index: number): string {
+  const name = (recipe as { name?: unknown } | null)?.name;
+  return typeof name === 'string' && name.trim() ? name : `Receta ${index + 1}`;
+}
+
+/**
+ * Import the recipes of a parsed collection file
+ */
+export async function importCollection(data: unknown): Promise<CollectionImportReport> {
+  if (!data || typeof data !== 'object') {
+    return { name: '', errors: ['Collection must be an object'], results: [] };
+  }
+
+  const collection = data as { meta?: any; recipes?: unknown };
+  const errors = validateCollectionMeta(collection.meta);
+  if (!Array.isArray(collection.recipes)) errors.push('Missing "recipes" array');
+  const sourceName: string = typeof collection.meta?.name === 'string' ? collection.meta.name : '';
+  if (errors.length > 0 || !Array.isArray(collection.recipes)) {
+    return { name: sourceName, errors, results: [] };
+  }
+
+  const foods = await FoodRepository.getAll();
+  const results: RecipeImportResult[] = [];
+
+  for (const [index, recipe] of collection.recipes.entries()) {
+    const name = getRecipeName(recipe, index);
+    const validation = validateRecipe(recipe);
+    if (!validation.valid) {
+      results.push({ index, name, status: 'failed', errors: validation.errors, linked: 0, ingredients: 0 });
+      continue;
+    }
+
+    const openRecipe = recipe as OpenRecipe;
+    const result: RecipeImportResult = {
+      index,
+      name,
+      status: 'failed',
+      errors: [],
+      linked: 0,
+      ingredients: openRecipe.ingredients.length,
+    };
+    try {
+      const input = openRecipeToDatabase(openRecipe, { sourceName, foods });
+      result.linked = (input.ingredients || []).filter(ing => ing.food_id).length;
+
+      const existing = await RecipeRepository.getBySource('external', openRecipe.id, sourceName);
+      if (existing) {
+        await RecipeRepository.update(existing.id, input);
+        result.recipeId = existing.id;
+        result.status = 'updated';
+      } else {
+        result.recipeId = await RecipeRepository.create(input);
+        result.status = 'created';
+      }
+    } catch (error) {
+      console.error(`Error importing recipe ${index}:`, error);
+      result.errors.push(error instanceof Error ? error.message : 'Could not save the recipe');
+    }
+    results.push(result);
+  }
+
+  return { name: sourceName, errors: [], results };
+}
+
+// ============================================================
+// EXPORT
+// ============================================================
+
+function isWebImage(uri: string): boolean {
+  return /^https?:\/\//.test(uri);
+}
+
+/**
+ * Image as a data URI. Local images that can't be read are left out; web
+ * images are linked instead.
+ */
+async function embedImage(uri: string): Promise<string | undefined> {
+  if (uri.startsWith('data:')) return uri;
+  try {
+    const response = await fetch(uri);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    const blob = await response.blob();
+    return await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(blob);
+    });
+  } catch (error) {
+    console.warn(`Could not embed image ${uri}:`, error);
+    return isWebImage(uri) ? uri : undefined;
+  }
+}
+
+function getFileName(name: string): string {
+  const slug = name.trim().toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  return `${slug || 'recetas'}.json`;
+}
+
+/**
+ * Build a collection with the given recipes. Recipes that don't fit the
+ * format (e.g. without ingredients or steps) are reported by name and no
+ * collection is returned.
+ */
+export async function createCollection(
+  recipeIds: number[],
+  options: CollectionExportOptions
+): Promise<{ collection?: RecipeCollection; errors: string[] }> {
+  const recipes: Recipe[] = [];
+  for (const id of recipeIds) {
+    const recipe = await RecipeRepository.getById(id);
+    if (recipe) recipes.push(recipe);
+  }
+  if (recipes.length === 0) {
+    return { errors: ['No hay recetas que exportar'] };
+  }
+
+  const errors: string[] = [];
+  const openRecipes: OpenRecipe[] = [];
+  for (const recipe of recipes) {
+    let image: string | undefined;
+    if (recipe.image_uri) {
+      image = options.includeImages
+        ? await embedImage(recipe.image_uri)
+        : (isWebImage(recipe.image_uri) ? recipe.image_uri : undefined);
+    }
+    const openRecipe = databaseToOpenRecipe(recipe, { image_url: image });
+    const problems: string[] = [];
+    if (recipe.ingredients.length === 0) problems.push('no tiene ingredientes');
+    if (recipe.steps.length === 0) problems.push('no tiene pasos');
+    if (problems.length === 0) problems.push(...validateRecipe(openRecipe).errors);
+    if (problems.length > 0) errors.push(`${recipe.name}: ${problems.join(', ')}`);
+    openRecipes.push(openRecipe);
+  }
+
+  const collection: RecipeCollection = {
+    meta: {
+      name: options.name.trim() || 'Mis recetas',
+      description: options.description?.trim() || undefined,
+      version: '1.0.0',
+      format_version: '1.0.0',
+      author: options.author?.trim() || undefined,
+      updated_at: new Date().toISOString(),
+      language: 'es',
+      recipe_count: openRecipes.length,
+    },
+    recipes: openRecipes,
+  };
+
+  // Final check of the whole file
+  const validation = validateCollection(collection);
+  if (errors.length > 0 || !validation.valid) {
+    return { errors: errors.length > 0 ? errors : validation.errors };
+  }
+  return { collection, errors: [] };
+}
+
+/**
+ * Write a collection: downloaded as a .json file on web, sent to the share
+ * sheet on native
+ */
+export async function saveCollectionFile(collection: RecipeCollection): Promise<CollectionFile> {
+  const file = { name: getFileName(collection.meta.name), content: JSON.stringify(collection, null, 2) };
+
+  if (Platform.OS === 'web') {
+    const blob = new Blob([file.content], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = file.name;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  } else {
+    await Share.share({ title: file.name, message: file.content });
+  }
+  return file;
+}
@@ -6,6 +6,12 @@
  * and for loading from external repositories.
  */
 
+import { CONFIDENT_MATCH_SCORE, matchFood } from './ingredient-parser';
+import { Changes, RecipeInput } from './repositories';
+import { foldText } from './search';
+import { DIFFICULTY_LABELS, Food, MEAL_TYPE_LABELS, MealType, Recipe, RecipeDifficulty, RecipeStep } from './types';
+import { MeasureUnit, normalizeUnit } from './units';
+
 // FODMAP levels
 export type FODMAPLevel = 'low' | 'medium' | 'high' | 'unknown';
 
@@ -227,6 +233,23 @@ export function validateRecipe(recipe: unknown): { valid: boolean; errors: strin
   return { valid: errors.length === 0, errors };
 }
 
+/**
+ * Validate the metadata of a collection, without its recipes
+ */
+export function validateCollectionMeta(meta: unknown): string[] {
+  if (!meta || typeof meta !== 'object') {
+    return ['Missing "meta" object'];
+  }
+
+  const m = meta as Record<string, unknown>;
+  const errors: string[] = [];
+  if (!m.name) errors.push('Missing "meta.name"');
+  if (!m.version) errors.push('Missing "meta.version"');
+  if (m.format_version !== '1.0.0') errors.push('Invalid "meta.format_version"');
+  if (!m.language) errors.push('Missing "meta.language"');
+  return errors;
+}
+
 /**
  * Validate a recipe collection
  */
@@ -240,15 +263,7 @@ export function validateCollection(collection: unknown): { valid: boolean; error
   const c = collection as Record<string, unknown>;
   
   // Check meta
-  if (!c.meta || typeof c.meta !== 'object') {
-    errors.push('Missing "meta" object');
-  } else {
-    const meta = c.meta as Record<string, unknown>;
-    if (!meta.name) errors.push('Missing "meta.name"');
-    if (!meta.version) errors.push('Missing "meta.version"');
-    if (meta.format_version !== '1.0.0') errors.push('Invalid "meta.format_version"');
-    if (!meta.language) errors.push('Missing "meta.language"');
-  }
+  errors.push(...validateCollectionMeta(c.meta));
   
   // Check recipes
   if (!Array.isArray(c.recipes)) {
@@ -265,44 +280,224 @@ export function validateCollection(collection: unknown): { valid: boolean; error
   return { valid: errors.length === 0, errors };
 }
 
+// Units of the format and the names the app uses for them
+const UNIT_NAMES: Record<RecipeIngredient['unit'], string> = {
+  g: 'g',
+  kg: 'kg',
+  ml: 'ml',
+  l: 'l',
+  cup: 'taza',
+  tbsp: 'cucharada',
+  tsp: 'cucharadita',
+  piece: 'pieza',
+  slice: 'rebanada',
+  clove: 'diente',
+  pinch: 'pizca',
+  unit: 'pieza',
+};
+
+// App units and kitchen measures in the format; anything else is 'unit'
+const OPEN_UNITS: Record<MeasureUnit | string, RecipeIngredient['unit']> = {
+  g: 'g',
+  kg: 'kg',
+  ml: 'ml',
+  l: 'l',
+  taza: 'cup',
+  cucharada: 'tbsp',
+  cucharadita: 'tsp',
+  pieza: 'piece',
+  diente: 'clove',
+  'porción': 'unit',
+  pizca: 'pinch',
+  rebanada: 'slice',
+  loncha: 'slice',
+  rodaja: 'slice',
+};
+
+const OPEN_DIETARY = ['vegetarian', 'vegan', 'gluten-free', 'dairy-free', 'nut-free'];
+
 /**
- * Convert an OpenRecipe to internal database format
+ * Split markdown instructions into steps. Headings title the step that
+ * follows them, list items and paragraphs are steps and quotes ("> ...")
+ * are the tip of the step before.
  */
-export function openRecipeToDatabase(recipe: OpenRecipe): {
-  recipe: {
-    name: string;
-    description: string | null;
-    instructions: string;
-    prep_time: number;
-    cook_time: number;
-    servings: number;
-    fodmap_level: string;
-  };
-  ingredients: {
-    name: string;
-    quantity: number;
-    unit: string;
-    fodmap_level: string;
-    notes: string | null;
-  }[];
-} {
-  return {
-    recipe: {
-      name: recipe.name,
-      description: recipe.description || null,
-      instructions: recipe.instructions,
-      prep_time: recipe.prep_time,
-      cook_time: recipe.cook_time,
-      servings: recipe.servings,
-      fodmap_level: recipe.fodmap_level,
-    },
-    ingredients: recipe.ingredients.map(ing => ({
+export function splitInstructions(markdown: string): RecipeStep[] {
+  const steps: RecipeStep[] = [];
+  let title: string | undefined;
+  // Lines without a marker continue the step above until a blank line
+  let open = false;
+
+  for (const rawLine of markdown.split(/\r?\n/)) {
+    const line = rawLine.trim().replace(/\*\*|__/g, '');
+    if (!line) {
+      open = false;
+      continue;
+    }
+
+    const heading = line.match(/^#{1,6}\s+(.+)$/);
+    if (heading) {
+      title = heading[1].replace(/:$/, '').trim();
+      open = false;
+      continue;
+    }
+
+    const tip = line.match(/^>\s?(.*)$/);
+    const last = steps[steps.length - 1];
+    if (tip && last) {
+      last.tip = [last.tip, tip[1].trim()].filter(Boolean).join(' ');
+      continue;
+    }
+
+    const item = line.match(/^(?:\d+[.)]|[-*+])\s+(.+)$/);
+    if (!item && open && last) {
+      last.instruction += ` ${line}`;
+      continue;
+    }
+
+    const instruction = item ? item[1] : (tip ? tip[1] : line);
+    const duration = instruction.match(/(\d+)\s*min\b/i);
+    steps.push({
+      order: steps.length + 1,
+      title,
+      instruction,
+      duration_minutes: duration ? parseInt(duration[1]) : undefined,
+    });
+    title = undefined;
+    open = true;
+  }
+
+  return steps.filter(step => step.instruction.trim());
+}
+
+/**
+ * Convert an OpenRecipe to a recipe for RecipeRepository.create().
+ * Ingredients are linked to the given foods when the name matches clearly.
+ */
+export function openRecipeToDatabase(
+  recipe: OpenRecipe,
+  options: { sourceName: string; foods?: Food[] }
+): Changes<RecipeInput> & { name: string } {
+  const ingredients = recipe.ingredients.map(ing => {
+    const match = matchFood(ing.name, options.foods || []);
+    const food = match && match.score >= CONFIDENT_MATCH_SCORE ? match.food : undefined;
+    return {
+      food_id: food?.id,
       name: ing.name,
       quantity: ing.quantity,
-      unit: ing.unit,
-      fodmap_level: ing.fodmap_level,
-      notes: ing.notes || null,
-    })),
+      unit: UNIT_NAMES[ing.unit] ?? normalizeUnit(ing.unit) ?? ing.unit,
+      fodmap_level: food?.fodmap_level ?? ing.fodmap_level,
+      notes: ing.notes,
+      optional: !!ing.optional,
+      alternatives: ing.alternatives,
+    };
+  });
+  const credits = [recipe.source, recipe.source_url].filter(Boolean).join(' · ');
+
+  return {
+    name: recipe.name,
+    description: recipe.description || null,
+    steps: splitInstructions(recipe.instructions),
+    ingredients,
+    notes: credits ? `Fuente: ${credits}` : null,
+    prep_time: recipe.prep_time,
+    cook_time: recipe.cook_time,
+    total_time: recipe.prep_time + recipe.cook_time,
+    servings: recipe.servings,
+    fodmap_level: recipe.fodmap_level,
+    // A level given by the collection is kept; an unknown one is computed
+    fodmap_derived: recipe.fodmap_level === 'unknown' && ingredients.some(ing => ing.food_id),
+    nutrition: recipe.nutrition ? { ...recipe.nutrition, per_serving: true } : null,
+    nutrition_derived: !recipe.nutrition,
+    meal_types: ((recipe.meal_types || []) as string[]).filter((type): type is MealType => type in MEAL_TYPE_LABELS),
+    difficulty: recipe.difficulty && recipe.difficulty in DIFFICULTY_LABELS
+      ? recipe.difficulty as RecipeDifficulty
+      : null,
+    cuisine: recipe.cuisine || null,
+    dietary: recipe.dietary || [],
+    tags: recipe.tags || [],
+    image_uri: recipe.image_url || null,
+    source: 'external',
+    source_id: recipe.id,
+    source_name: options.sourceName,
   };
 }
 
+/**
+ * Render steps as markdown: "## Title" before titled steps, a numbered item
+ * per step and its tip as a quote. splitInstructions() reads it back.
+ */
+export function stepsToMarkdown(steps: RecipeStep[]): string {
+  const lines: string[] = [];
+  [...steps].sort((a, b) => a.order - b.order).forEach((step, index) => {
+    if (step.title) {
+      if (lines.length > 0) lines.push('');
+      lines.push(`## ${step.title}`, '');
+    }
+    let instruction = step.instruction.replace(/\s*\n\s*/g, ' ').trim();
+    if (step.duration_minutes && !/\d+\s*min\b/i.test(instruction)) {
+      instruction += ` (${step.duration_minutes} min)`;
+    }
+    lines.push(`${index + 1}. ${instruction}`);
+    if (step.tip) lines.push(`> ${step.tip.replace(/\s*\n\s*/g, ' ').trim()}`);
+  });
+  return lines.join('\n');
+}
+
+/**
+ * Convert a recipe of the app to an OpenRecipe. Units without an equivalent
+ * are exported as 'unit' with the original unit in the notes.
+ */
+export function databaseToOpenRecipe(recipe: Recipe, options: { image_url?: string } = {}): OpenRecipe {
+  const ingredients: RecipeIngredient[] = recipe.ingredients.map(ing => {
+    const unitName = ing.unit.trim().toLowerCase();
+    const unit = OPEN_UNITS[normalizeUnit(unitName) ?? unitName];
+    const notes = [unit || !unitName ? undefined : unitName, ing.notes].filter(Boolean).join(', ');
+    return {
+      name: ing.name,
+      quantity: ing.quantity || 0,
+      unit: unit ?? 'unit',
+      fodmap_level: ing.fodmap_level ?? 'unknown',
+      notes: notes || undefined,
+      optional: ing.optional || undefined,
+      alternatives: ing.alternatives && ing.alternatives.length > 0 ? ing.alternatives : undefined,
+    };
+  });
+
+  const nutrition: NutritionInfo = {};
+  for (const key of ['calories', 'protein_g', 'carbs_g', 'fat_g', 'fiber_g', 'sodium_mg'] as (keyof NutritionInfo)[]) {
+    const value = recipe.nutrition?.[key];
+    if (typeof value === 'number') nutrition[key] = value;
+  }
+
+  const slug = foldText(recipe.name).replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  const sourceUrl = recipe.source_id && /^https?:\/\//.test(recipe.source_id) ? recipe.source_id : undefined;
+
+  return {
+    // Recipes imported from a collection keep their id
+    id: recipe.source === 'external' && recipe.source_id && !sourceUrl ? recipe.source_id : `${slug || 'receta'}-${recipe.id}`,
+    name: recipe.name,
+    description: recipe.description || undefined,
+    instructions: stepsToMarkdown(recipe.steps),
+    ingredients,
+    prep_time: recipe.prep_time || 0,
+    cook_time: recipe.cook_time || 0,
+    servings: recipe.servings || 1,
+    fodmap_level: recipe.fodmap_level || 'unknown',
+    tags: recipe.tags && recipe.tags.length > 0 ? recipe.tags : undefined,
+    meal_types: (recipe.meal_types || []).filter(
+      (type): type is NonNullable<OpenRecipe['meal_types']>[number] => type !== 'other'
+    ),
+    cuisine: recipe.cuisine || undefined,
+    dietary: (recipe.dietary || []).filter(
+      (diet): diet is NonNullable<OpenRecipe['dietary']>[number] => OPEN_DIETARY.includes(diet)
+    ),
+    difficulty: recipe.difficulty,
+    nutrition: Object.keys(nutrition).length > 0 ? nutrition : undefined,
+    image_url: options.image_url,
+    source: recipe.source_name || undefined,
+    source_url: sourceUrl,
+    created_at: recipe.created_at,
+    updated_at: recipe.updated_at,
+    language: 'es',
+  };
+}
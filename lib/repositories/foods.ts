@@ -0,0 +1,248 @@
+/**
+ * Everyday FODMAP - Food Repository
+ *
+ * Foods and their components (food_components), decoded into the Food model.
+ * Saving or deleting a food refreshes the derived values of the compound
+ * foods and recipes that contain it (see lib/food-rollup.ts).
+ */
+
+import { deleteRow, getDatabase, insertRow, updateRow } from '../database';
+import { RollupPart, rollUpFood } from '../food-rollup';
+import { FODMAPDetails, Food, FoodComponent, NutritionInfo, UnitWeights } from '../types';
+import { RecipeRepository } from './recipes';
+import { Changes, encodeColumns, fromBool, omitNulls, parseJSON, toBool, toJSON } from './rows';
+
+export type FoodInput = Omit<Food, 'id' | 'created_at' | 'updated_at'>;
+
+// ============================================================
+// ROW MAPPING
+// ============================================================
+
+export function decodeFood(row: any): Food {
+  return {
+    ...omitNulls(row),
+    category: row.category || 'other',
+    fodmap_level: row.fodmap_level || 'unknown',
+    fodmap_details: parseJSON<FODMAPDetails | undefined>(row.fodmap_details, undefined),
+    nutrition: parseJSON<NutritionInfo | undefined>(row.nutrition, undefined),
+    unit_weights: parseJSON<UnitWeights | undefined>(row.unit_weights, undefined),
+    tags: parseJSON<string[]>(row.tags, []),
+    digestive_effect: row.digestive_effect ?? 0,
+    is_compound: toBool(row.is_compound),
+    is_favorite: toBool(row.is_favorite),
+    fodmap_derived: toBool(row.fodmap_derived),
+    nutrition_derived: toBool(row.nutrition_derived),
+  };
+}
+
+function decodeComponent(row: any): FoodComponent {
+  return {
+    id: row.id,
+    food_id: row.component_food_id ?? undefined,
+    food_name: row.name || 'Ingrediente',
+    quantity: row.quantity,
+    unit: row.unit || 'g',
+    fodmap_level: row.fodmap_level ?? undefined,
+  };
+}
+
+function encodeFood(changes: Changes<FoodInput>): Record<string, unknown> {
+  const { sub_foods, ...columns } = changes;
+  return encodeColumns(columns, {
+    fodmap_details: toJSON,
+    nutrition: toJSON,
+    unit_weights: toJSON,
+    tags: toJSON,
+    is_compound: fromBool,
+    is_favorite: fromBool,
+    fodmap_derived: fromBool,
+    nutrition_derived: fromBool,
+  });
+}
+
+async function replaceComponents(db: any, foodId: number, components: FoodComponent[]): Promise<void> {
+  await db.runAsync('DELETE FROM food_components WHERE parent_food_id = ?', [foodId]);
+  for (const component of components) {
+    await db.runAsync(
+      `INSERT INTO food_components (parent_food_id, component_food_id, name, quantity, unit, fodmap_level)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [
+        foodId,
+        component.food_id || null,
+        component.food_name || null,
+        component.quantity,
+        component.unit,
+        component.fodmap_level || null,
+      ]
+    );
+  }
+}
+
+async function loadRollupComponents(db: any, components: FoodComponent[]): Promise<RollupPart[]> {
+  const result: RollupPart[] = [];
+  for (const component of components) {
+    const row = component.food_id
+      ? await db.getFirstAsync('SELECT * FROM foods WHERE id = ?', [component.food_id])
+      : null;
+    result.push({
+      name: component.food_name || '',
+      quantity: component.quantity,
+      unit: component.unit,
+      fodmap_level: component.fodmap_level,
+      food: row ? decodeFood(row) : undefined,
+    });
+  }
+  return result;
+}
+
+async function getParentIds(db: any, foodId: number): Promise<number[]> {
+  const rows = await db.getAllAsync(
+    'SELECT DISTINCT parent_food_id FROM food_components WHERE component_food_id = ?',
+    [foodId]
+  );
+  return rows.map((row: any) => row.parent_food_id);
+}
+
+async function getRecipeIds(db: any, foodId: number): Promise<number[]> {
+  const rows = await db.getAllAsync('SELECT DISTINCT recipe_id FROM recipe_ingredients WHERE food_id = ?', [foodId]);
+  return rows.map((row: any) => row.recipe_id);
+}
+
+// ============================================================
+// REPOSITORY
+// ============================================================
+
+export const FoodRepository = {
+  async getAll(): Promise<Food[]> {
+    const db = await getDatabase();
+    const rows = await db.getAllAsync('SELECT * FROM foods ORDER BY name ASC');
+    return rows.map(decodeFood);
+  },
+
+  /**
+   * Get a food with its components in sub_foods
+   */
+  async getById(id: number): Promise<Food | null> {
+    const db = await getDatabase();
+    const row = await db.getFirstAsync('SELECT * FROM foods WHERE id = ?', [id]);
+    if (!row) return null;
+
+    return { ...decodeFood(row), sub_foods: await FoodRepository.getComponents(id) };
+  },
+
+  /**
+   * Get the food imported from an external source entry (e.g. an
+   * OpenFoodFacts product code)
+   */
+  async getBySource(source: Food['source'], sourceId: string): Promise<Food | null> {
+    const db = await getDatabase();
+    const row = await db.getFirstAsync('SELECT * FROM foods WHERE source = ? AND source_id = ?', [source, sourceId]);
+    return row ? decodeFood(row) : null;
+  },
+
+  async getByBarcode(barcode: string): Promise<Food | null> {
+    const db = await getDatabase();
+    const row = await db.getFirstAsync('SELECT * FROM foods WHERE barcode = ? ORDER BY id ASC', [barcode]);
+    return row ? decodeFood(row) : null;
+  },
+
+  async getComponents(foodId: number): Promise<FoodComponent[]> {
+    const db = await getDatabase();
+    const rows = await db.getAllAsync(
+      'SELECT * FROM food_components WHERE parent_food_id = ? ORDER BY id',
+      [foodId]
+    );
+    return rows.map(decodeComponent);
+  },
+
+  /**
+   * Insert a food and its sub_foods. Returns the new id.
+   */
+  async create(food: Changes<FoodInput> & { name: string }): Promise<number> {
+    const db = await getDatabase();
+    let foodId = 0;
+    await db.withTransactionAsync(async () => {
+      foodId = await insertRow('foods', encodeFood(food));
+      if (food.sub_foods) {
+        await replaceComponents(db, foodId, food.sub_foods);
+      }
+    });
+    await FoodRepository.refreshDerived(foodId);
+    return foodId;
+  },
+
+  /**
+   * Update the given fields. Passing sub_foods replaces all components.
+   */
+  async update(id: number, changes: Changes<FoodInput>): Promise<void> {
+    const db = await getDatabase();
+    const columns = encodeFood(changes);
+    await db.withTransactionAsync(async () => {
+      if (Object.keys(columns).length > 0) {
+        await updateRow('foods', id, columns);
+      }
+      if (changes.sub_foods !== undefined) {
+        await replaceComponents(db, id, changes.sub_foods || []);
+      }
+    });
+    await FoodRepository.refreshDerived(id);
+  },
+
+  /**
+   * Delete a food. Compound foods containing it lose the component.
+   */
+  async remove(id: number): Promise<void> {
+    const db = await getDatabase();
+    const parentIds = await getParentIds(db, id);
+    const recipeIds = await getRecipeIds(db, id);
+    await deleteRow('foods', id);
+    for (const parentId of parentIds) {
+      await FoodRepository.refreshDerived(parentId);
+    }
+    for (const recipeId of recipeIds) {
+      await RecipeRepository.refreshDerived(recipeId);
+    }
+  },
+
+  /**
+   * Recompute the derived FODMAP data and nutrition of a food from its
+   * components, then refresh the compound foods and recipes that contain it
+   */
+  async refreshDerived(id: number, visited: Set<number> = new Set()): Promise<void> {
+    if (visited.has(id)) return;
+    visited.add(id);
+
+    const db = await getDatabase();
+    const row = await db.getFirstAsync('SELECT * FROM foods WHERE id = ?', [id]);
+    if (!row) return;
+    let food = decodeFood(row);
+
+    if (food.fodmap_derived || food.nutrition_derived) {
+      const components = await loadRollupComponents(db, await FoodRepository.getComponents(id));
+      const rollup = rollUpFood(components, food);
+      const changes: Changes<FoodInput> = {};
+      if (food.fodmap_derived) {
+        changes.fodmap_level = rollup.fodmap_level;
+        changes.fodmap_details = rollup.fodmap_details ?? null;
+      }
+      if (food.nutrition_derived) {
+        changes.nutrition = rollup.nutrition ?? null;
+      }
+      await updateRow('foods', id, encodeFood(changes));
+      food = { ...food, ...changes } as Food;
+    }
+
+    // Component rows keep a copy of the level for display
+    await db.runAsync(
+      'UPDATE food_components SET fodmap_level = ? WHERE component_food_id = ?',
+      [food.fodmap_level === 'unknown' ? null : food.fodmap_level, id]
+    );
+
+    for (const parentId of await getParentIds(db, id)) {
+      await FoodRepository.refreshDerived(parentId, visited);
+    }
+    for (const recipeId of await getRecipeIds(db, id)) {
+      await RecipeRepository.refreshDerived(recipeId);
+    }
+  },
+};
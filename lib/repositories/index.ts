@@ -0,0 +1,21 @@
+/**
+ * Everyday FODMAP - Repositories
+ *
+ * Typed data access over the SQLite tables. Screens should read and write
+ * foods, recipes, meals, treatments and symptoms through these instead of
+ * writing SQL and JSON.parse calls themselves.
+ */
+
+export { FoodRepository } from './foods';
+export type { FoodInput } from './foods';
+export { RecipeRepository } from './recipes';
+export type { RecipeInput } from './recipes';
+export { MealRepository } from './meals';
+export type { MealInput, MealItemInput, MealItemUsage } from './meals';
+export { TreatmentRepository } from './treatments';
+export type { TreatmentInput, TreatmentLogEntry, TreatmentLogInput } from './treatments';
+export { SymptomRepository } from './symptoms';
+export type { SymptomInput } from './symptoms';
+export { FODMAPProgramRepository } from './programs';
+export type { FODMAPChallengeInput, FODMAPProgramInput } from './programs';
+export type { Changes } from './rows';
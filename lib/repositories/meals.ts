@@ -0,0 +1,199 @@
+/**
+ * Everyday FODMAP - Meal Repository
+ *
+ * Logged meals and their items (meal_items). Items are returned with the name
+ * and FODMAP level of the linked food or recipe filled in, and its nutrition
+ * scaled to the quantity eaten (see lib/units.ts; recipes count portions).
+ */
+
+import { deleteRow, getDatabase, insertRow } from '../database';
+import { Meal, MealItem, MealType, NutritionInfo, UnitWeights } from '../types';
+import { getNutritionFactor, scaleNutrition } from '../units';
+import { Changes, encodeColumns, omitNulls, parseJSON, updateColumns } from './rows';
+
+export type MealItemInput = Omit<MealItem, 'id' | 'meal_id' | 'nutrition'>;
+export type MealInput = Omit<Meal, 'id' | 'created_at' | 'items'> & { items?: MealItemInput[] };
+// How often a food or recipe was logged, and the date it was last
+export type MealItemUsage = { food_id?: number; recipe_id?: number; uses: number; last_used: string };
+
+// Items joined with the food/recipe they reference
+const ITEMS_QUERY = `
+  SELECT mi.*,
+         f.name AS food_name, f.fodmap_level AS food_fodmap, f.nutrition AS food_nutrition,
+         f.category AS food_category, f.serving_size AS food_serving, f.density_g_ml AS food_density,
+         f.unit_weights AS food_unit_weights,
+         r.name AS recipe_name, r.fodmap_level AS recipe_fodmap, r.nutrition AS recipe_nutrition
+  FROM meal_items mi
+  JOIN meals m ON mi.meal_id = m.id
+  LEFT JOIN foods f ON mi.food_id = f.id
+  LEFT JOIN recipes r ON mi.recipe_id = r.id
+`;
+
+// ============================================================
+// ROW MAPPING
+// ============================================================
+
+function decodeMealItem(row: any): MealItem {
+  const nutrition = parseJSON<NutritionInfo | undefined>(row.food_nutrition || row.recipe_nutrition, undefined);
+  const food = row.food_nutrition ? {
+    category: row.food_category ?? undefined,
+    serving_size: row.food_serving ?? undefined,
+    density_g_ml: row.food_density ?? undefined,
+    unit_weights: parseJSON<UnitWeights | undefined>(row.food_unit_weights, undefined),
+    nutrition,
+  } : undefined;
+  return {
+    id: row.id,
+    meal_id: row.meal_id,
+    food_id: row.food_id ?? undefined,
+    recipe_id: row.recipe_id ?? undefined,
+    name: row.name || row.food_name || row.recipe_name || 'Item',
+    quantity: row.quantity ?? 1,
+    unit: row.unit || '',
+    fodmap_level: row.fodmap_level || row.food_fodmap || row.recipe_fodmap || undefined,
+    nutrition: nutrition && scaleNutrition(nutrition, getNutritionFactor(row.quantity ?? 1, row.unit || 'porción', food)),
+  };
+}
+
+function decodeMeal(row: any, items: MealItem[] = []): Meal {
+  return {
+    ...omitNulls(row),
+    meal_type: row.meal_type || 'other',
+    items,
+  };
+}
+
+function encodeMeal(changes: Changes<MealInput>): Record<string, unknown> {
+  const { items, ...columns } = changes;
+  return encodeColumns(columns);
+}
+
+async function replaceItems(db: any, mealId: number, items: MealItemInput[]): Promise<void> {
+  await db.runAsync('DELETE FROM meal_items WHERE meal_id = ?', [mealId]);
+  for (const item of items) {
+    await db.runAsync(
+      `INSERT INTO meal_items (meal_id, food_id, recipe_id, name, quantity, unit, fodmap_level)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [
+        mealId,
+        item.food_id || null,
+        item.recipe_id || null,
+        item.name || null,
+        item.quantity,
+        item.unit,
+        item.fodmap_level || null,
+      ]
+    );
+  }
+}
+
+function attachItems(mealRows: any[], itemRows: any[]): Meal[] {
+  const itemsByMeal = new Map<number, MealItem[]>();
+  for (const row of itemRows) {
+    const list = itemsByMeal.get(row.meal_id) || [];
+    list.push(decodeMealItem(row));
+    itemsByMeal.set(row.meal_id, list);
+  }
+  return mealRows.map(row => decodeMeal(row, itemsByMeal.get(row.id)));
+}
+
+// ============================================================
+// REPOSITORY
+// ============================================================
+
+export const MealRepository = {
+  /**
+   * Get the meals of a day (YYYY-MM-DD) with their items, ordered by time
+   */
+  async getByDate(date: string): Promise<Meal[]> {
+    return MealRepository.getByDateRange(date, date);
+  },
+
+  async getByDateRange(startDate: string, endDate: string): Promise<Meal[]> {
+    const db = await getDatabase();
+    const meals = await db.getAllAsync(
+      'SELECT * FROM meals WHERE date BETWEEN ? AND ? ORDER BY date, time',
+      [startDate, endDate]
+    );
+    const items = await db.getAllAsync(
+      `${ITEMS_QUERY} WHERE m.date BETWEEN ? AND ? ORDER BY mi.id`,
+      [startDate, endDate]
+    );
+    return attachItems(meals, items);
+  },
+
+  async getById(id: number): Promise<Meal | null> {
+    const db = await getDatabase();
+    const row = await db.getFirstAsync('SELECT * FROM meals WHERE id = ?', [id]);
+    if (!row) return null;
+
+    const items = await db.getAllAsync(`${ITEMS_QUERY} WHERE mi.meal_id = ? ORDER BY mi.id`, [id]);
+    return decodeMeal(row, items.map(decodeMealItem));
+  },
+
+  async findByDateAndType(date: string, mealType: MealType): Promise<Meal | null> {
+    const db = await getDatabase();
+    const row = await db.getFirstAsync(
+      'SELECT id FROM meals WHERE date = ? AND meal_type = ? ORDER BY time LIMIT 1',
+      [date, mealType]
+    );
+    return row ? MealRepository.getById(row.id) : null;
+  },
+
+  /**
+   * Insert a meal with its items. Returns the new id.
+   */
+  async create(meal: Changes<MealInput> & Pick<MealInput, 'name' | 'meal_type' | 'date' | 'time'>): Promise<number> {
+    const db = await getDatabase();
+    let mealId = 0;
+    await db.withTransactionAsync(async () => {
+      mealId = await insertRow('meals', encodeMeal(meal));
+      if (meal.items) {
+        await replaceItems(db, mealId, meal.items);
+      }
+    });
+    return mealId;
+  },
+
+  /**
+   * Update the given fields. Passing items replaces all items of the meal.
+   */
+  async update(id: number, changes: Changes<MealInput>): Promise<void> {
+    const db = await getDatabase();
+    await db.withTransactionAsync(async () => {
+      await updateColumns(db, 'meals', id, encodeMeal(changes));
+      if (changes.items !== undefined) {
+        await replaceItems(db, id, changes.items || []);
+      }
+    });
+  },
+
+  async remove(id: number): Promise<void> {
+    await deleteRow('meals', id);
+  },
+
+  async updateItem(itemId: number, changes: Changes<Omit<MealItem, 'id' | 'nutrition'>>): Promise<void> {
+    const db = await getDatabase();
+    await updateColumns(db, 'meal_items', itemId, encodeColumns(changes));
+  },
+
+  async removeItem(itemId: number): Promise<void> {
+    await deleteRow('meal_items', itemId);
+  },
+
+  /**
+   * Foods and recipes logged since a date (YYYY-MM-DD), with their use count
+   */
+  async getItemUsage(since: string): Promise<MealItemUsage[]> {
+    const db = await getDatabase();
+    const rows = await db.getAllAsync(
+      `SELECT mi.food_id, mi.recipe_id, COUNT(*) AS uses, MAX(m.date) AS last_used
+       FROM meal_items mi
+       JOIN meals m ON mi.meal_id = m.id
+       WHERE m.date >= ? AND (mi.food_id IS NOT NULL OR mi.recipe_id IS NOT NULL)
+       GROUP BY mi.food_id, mi.recipe_id`,
+      [since]
+    );
+    return rows.map((row: any) => omitNulls(row) as MealItemUsage);
+  },
+};
@@ -0,0 +1,113 @@
+/**
+ * Everyday FODMAP - FODMAP Program Repository
+ *
+ * Elimination/reintroduction programs (fodmap_programs) and their
+ * reintroduction challenges (fodmap_challenges).
+ */
+
+import { deleteRow, getDatabase, insertRow } from '../database';
+import { FODMAPChallenge, FODMAPProgram } from '../types';
+import { Changes, encodeColumns, omitNulls, parseJSON, toJSON, updateColumns } from './rows';
+
+export type FODMAPProgramInput = Omit<FODMAPProgram, 'id' | 'created_at'>;
+export type FODMAPChallengeInput = Omit<FODMAPChallenge, 'id' | 'created_at'>;
+
+// ============================================================
+// ROW MAPPING
+// ============================================================
+
+function decodeProgram(row: any): FODMAPProgram {
+  return {
+    ...omitNulls(row),
+    washout_days: row.washout_days ?? 3,
+    status: row.status || 'active',
+  };
+}
+
+function decodeChallenge(row: any): FODMAPChallenge {
+  return {
+    ...omitNulls(row),
+    doses: parseJSON<number[]>(row.doses, []),
+  };
+}
+
+function encodeChallenge(changes: Changes<FODMAPChallengeInput>): Record<string, unknown> {
+  return encodeColumns(changes, { doses: toJSON });
+}
+
+// ============================================================
+// REPOSITORY
+// ============================================================
+
+export const FODMAPProgramRepository = {
+  /**
+   * Every program, most recent first
+   */
+  async getAll(): Promise<FODMAPProgram[]> {
+    const db = await getDatabase();
+    const rows = await db.getAllAsync('SELECT * FROM fodmap_programs ORDER BY elimination_start DESC');
+    return rows.map(decodeProgram);
+  },
+
+  /**
+   * The program in progress, if any (the most recent one when several are active)
+   */
+  async getActive(): Promise<FODMAPProgram | null> {
+    const db = await getDatabase();
+    const row = await db.getFirstAsync(
+      "SELECT * FROM fodmap_programs WHERE status = 'active' ORDER BY elimination_start DESC LIMIT 1"
+    );
+    return row ? decodeProgram(row) : null;
+  },
+
+  async getById(id: number): Promise<FODMAPProgram | null> {
+    const db = await getDatabase();
+    const row = await db.getFirstAsync('SELECT * FROM fodmap_programs WHERE id = ?', [id]);
+    return row ? decodeProgram(row) : null;
+  },
+
+  async create(
+    program: Changes<FODMAPProgramInput> & Pick<FODMAPProgramInput, 'elimination_start' | 'elimination_end'>
+  ): Promise<number> {
+    return insertRow('fodmap_programs', encodeColumns(program));
+  },
+
+  async update(id: number, changes: Changes<FODMAPProgramInput>): Promise<void> {
+    const db = await getDatabase();
+    await updateColumns(db, 'fodmap_programs', id, encodeColumns(changes));
+  },
+
+  /**
+   * Delete a program and its challenges
+   */
+  async remove(id: number): Promise<void> {
+    await deleteRow('fodmap_programs', id);
+  },
+
+  // --- Challenges ---
+
+  async getChallenges(programId: number): Promise<FODMAPChallenge[]> {
+    const db = await getDatabase();
+    const rows = await db.getAllAsync(
+      'SELECT * FROM fodmap_challenges WHERE program_id = ? ORDER BY start_date',
+      [programId]
+    );
+    return rows.map(decodeChallenge);
+  },
+
+  async createChallenge(
+    challenge: Changes<FODMAPChallengeInput> &
+      Pick<FODMAPChallengeInput, 'program_id' | 'subgroup' | 'food_name' | 'start_date' | 'doses'>
+  ): Promise<number> {
+    return insertRow('fodmap_challenges', encodeChallenge(challenge));
+  },
+
+  async updateChallenge(id: number, changes: Changes<FODMAPChallengeInput>): Promise<void> {
+    const db = await getDatabase();
+    await updateColumns(db, 'fodmap_challenges', id, encodeChallenge(changes));
+  },
+
+  async removeChallenge(id: number): Promise<void> {
+    await deleteRow('fodmap_challenges', id);
+  },
+};
@@ -0,0 +1,280 @@
+/**
+ * Everyday FODMAP - Recipe Repository
+ *
+ * Recipes with their steps (recipe_steps) and ingredients (recipe_ingredients),
+ * decoded into the Recipe model. Derived FODMAP data and nutrition are
+ * refreshed from the linked foods on save (see lib/food-rollup.ts).
+ */
+
+import { deleteRow, getDatabase, insertRow, updateRow } from '../database';
+import { RollupPart, rollUpRecipe } from '../food-rollup';
+import { FODMAPDetails, MealType, NutritionInfo, Recipe, RecipeIngredient, RecipeStep, UnitWeights } from '../types';
+import { Changes, encodeColumns, fromBool, omitNulls, parseJSON, toBool, toJSON } from './rows';
+
+export type RecipeInput = Omit<Recipe, 'id' | 'created_at' | 'updated_at'>;
+
+// ============================================================
+// ROW MAPPING
+// ============================================================
+
+function decodeStep(row: any): RecipeStep {
+  return {
+    id: row.id,
+    order: row.step_order,
+    title: row.title ?? undefined,
+    instruction: row.instruction,
+    duration_minutes: row.duration_minutes ?? undefined,
+    tip: row.tip ?? undefined,
+  };
+}
+
+function decodeIngredient(row: any): RecipeIngredient {
+  return {
+    id: row.id,
+    food_id: row.food_id ?? undefined,
+    name: row.name,
+    quantity: row.quantity,
+    unit: row.unit || '',
+    fodmap_level: row.fodmap_level ?? undefined,
+    notes: row.notes ?? undefined,
+    optional: toBool(row.is_optional),
+    alternatives: parseJSON<string[]>(row.alternatives, []),
+  };
+}
+
+export function decodeRecipe(row: any, steps: RecipeStep[] = [], ingredients: RecipeIngredient[] = []): Recipe {
+  return {
+    ...omitNulls(row),
+    fodmap_level: row.fodmap_level || 'unknown',
+    fodmap_details: parseJSON<Partial<FODMAPDetails> | undefined>(row.fodmap_details, undefined),
+    nutrition: parseJSON<NutritionInfo | undefined>(row.nutrition, undefined),
+    meal_types: parseJSON<MealType[]>(row.meal_types, []),
+    dietary: parseJSON<string[]>(row.dietary, []),
+    tags: parseJSON<string[]>(row.tags, []),
+    source: row.source || 'user',
+    is_favorite: toBool(row.is_favorite),
+    is_modified_copy: toBool(row.is_modified_copy),
+    is_hidden: toBool(row.is_hidden),
+    fodmap_derived: toBool(row.fodmap_derived),
+    nutrition_derived: toBool(row.nutrition_derived),
+    steps,
+    ingredients,
+  };
+}
+
+function encodeRecipe(changes: Changes<RecipeInput>): Record<string, unknown> {
+  const { steps, ingredients, ...columns } = changes;
+  return encodeColumns(columns, {
+    fodmap_details: toJSON,
+    nutrition: toJSON,
+    meal_types: toJSON,
+    dietary: toJSON,
+    tags: toJSON,
+    is_favorite: fromBool,
+    is_modified_copy: fromBool,
+    is_hidden: fromBool,
+    fodmap_derived: fromBool,
+    nutrition_derived: fromBool,
+  });
+}
+
+async function replaceSteps(db: any, recipeId: number, steps: RecipeStep[]): Promise<void> {
+  await db.runAsync('DELETE FROM recipe_steps WHERE recipe_id = ?', [recipeId]);
+  for (const step of steps) {
+    await db.runAsync(
+      `INSERT INTO recipe_steps (recipe_id, step_order, title, instruction, duration_minutes, tip)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [recipeId, step.order, step.title || null, step.instruction, step.duration_minutes || null, step.tip || null]
+    );
+  }
+}
+
+async function replaceIngredients(db: any, recipeId: number, ingredients: RecipeIngredient[]): Promise<void> {
+  await db.runAsync('DELETE FROM recipe_ingredients WHERE recipe_id = ?', [recipeId]);
+  for (const ing of ingredients) {
+    await db.runAsync(
+      `INSERT INTO recipe_ingredients (recipe_id, food_id, name, quantity, unit, fodmap_level, notes, is_optional, alternatives)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        recipeId,
+        ing.food_id || null,
+        ing.name,
+        ing.quantity,
+        ing.unit,
+        ing.fodmap_level || null,
+        ing.notes || null,
+        fromBool(ing.optional),
+        toJSON(ing.alternatives),
+      ]
+    );
+  }
+}
+
+/**
+ * Ingredients with the data of their linked food, for the roll-up
+ */
+async function loadRollupIngredients(db: any, recipeId: number): Promise<(RollupPart & { optional: boolean })[]> {
+  const rows = await db.getAllAsync(
+    `SELECT ri.*, f.fodmap_level AS food_fodmap, f.fodmap_details AS food_details,
+            f.nutrition AS food_nutrition, f.serving_size AS food_serving, f.category AS food_category,
+            f.density_g_ml AS food_density, f.unit_weights AS food_unit_weights
+     FROM recipe_ingredients ri
+     LEFT JOIN foods f ON f.id = ri.food_id
+     WHERE ri.recipe_id = ?
+     ORDER BY ri.id`,
+    [recipeId]
+  );
+  return rows.map((row: any) => ({
+    name: row.name,
+    quantity: row.quantity,
+    unit: row.unit || '',
+    fodmap_level: row.fodmap_level ?? undefined,
+    optional: toBool(row.is_optional),
+    food: row.food_id ? {
+      fodmap_level: row.food_fodmap || 'unknown',
+      fodmap_details: parseJSON<FODMAPDetails | undefined>(row.food_details, undefined),
+      nutrition: parseJSON<NutritionInfo | undefined>(row.food_nutrition, undefined),
+      serving_size: row.food_serving ?? undefined,
+      category: row.food_category ?? undefined,
+      density_g_ml: row.food_density ?? undefined,
+      unit_weights: parseJSON<UnitWeights | undefined>(row.food_unit_weights, undefined),
+    } : undefined,
+  }));
+}
+
+function groupByRecipe<T>(rows: any[], decode: (row: any) => T): Map<number, T[]> {
+  const groups = new Map<number, T[]>();
+  for (const row of rows) {
+    const list = groups.get(row.recipe_id) || [];
+    list.push(decode(row));
+    groups.set(row.recipe_id, list);
+  }
+  return groups;
+}
+
+// ============================================================
+// REPOSITORY
+// ============================================================
+
+export const RecipeRepository = {
+  /**
+   * Get every recipe with steps and ingredients (three queries in total)
+   */
+  async getAll(): Promise<Recipe[]> {
+    const db = await getDatabase();
+    const rows = await db.getAllAsync('SELECT * FROM recipes ORDER BY name ASC');
+    const steps = groupByRecipe(
+      await db.getAllAsync('SELECT * FROM recipe_steps ORDER BY recipe_id, step_order ASC'),
+      decodeStep
+    );
+    const ingredients = groupByRecipe(
+      await db.getAllAsync('SELECT * FROM recipe_ingredients ORDER BY recipe_id, id'),
+      decodeIngredient
+    );
+
+    return rows.map((row: any) => decodeRecipe(row, steps.get(row.id), ingredients.get(row.id)));
+  },
+
+  async getById(id: number): Promise<Recipe | null> {
+    const db = await getDatabase();
+    const row = await db.getFirstAsync('SELECT * FROM recipes WHERE id = ?', [id]);
+    if (!row) return null;
+
+    const steps = await db.getAllAsync(
+      'SELECT * FROM recipe_steps WHERE recipe_id = ? ORDER BY step_order ASC',
+      [id]
+    );
+    const ingredients = await db.getAllAsync(
+      'SELECT * FROM recipe_ingredients WHERE recipe_id = ? ORDER BY id',
+      [id]
+    );
+    return decodeRecipe(row, steps.map(decodeStep), ingredients.map(decodeIngredient));
+  },
+
+  /**
+   * Get the recipe imported from an entry of an external collection
+   * (without steps and ingredients)
+   */
+  async getBySource(source: Recipe['source'], sourceId: string, sourceName: string): Promise<Recipe | null> {
+    const db = await getDatabase();
+    const row = await db.getFirstAsync(
+      'SELECT * FROM recipes WHERE source = ? AND source_id = ? AND source_name = ?',
+      [source, sourceId, sourceName]
+    );
+    return row ? decodeRecipe(row) : null;
+  },
+
+  /**
+   * Insert a recipe with its steps and ingredients. Returns the new id.
+   */
+  async create(recipe: Changes<RecipeInput> & { name: string }): Promise<number> {
+    const db = await getDatabase();
+    let recipeId = 0;
+    await db.withTransactionAsync(async () => {
+      recipeId = await insertRow('recipes', encodeRecipe(recipe));
+      await replaceSteps(db, recipeId, recipe.steps || []);
+      await replaceIngredients(db, recipeId, recipe.ingredients || []);
+    });
+    await RecipeRepository.refreshDerived(recipeId);
+    return recipeId;
+  },
+
+  /**
+   * Update the given fields. Passing steps or ingredients replaces that list.
+   */
+  async update(id: number, changes: Changes<RecipeInput>): Promise<void> {
+    const db = await getDatabase();
+    const columns = encodeRecipe(changes);
+    await db.withTransactionAsync(async () => {
+      if (Object.keys(columns).length > 0) {
+        await updateRow('recipes', id, columns);
+      }
+      if (changes.steps !== undefined) {
+        await replaceSteps(db, id, changes.steps || []);
+      }
+      if (changes.ingredients !== undefined) {
+        await replaceIngredients(db, id, changes.ingredients || []);
+      }
+    });
+    await RecipeRepository.refreshDerived(id);
+  },
+
+  async remove(id: number): Promise<void> {
+    await deleteRow('recipes', id);
+  },
+
+  /**
+   * Copy the level of the linked foods into the ingredients and recompute
+   * the derived FODMAP data and nutrition of a recipe
+   */
+  async refreshDerived(id: number): Promise<void> {
+    const db = await getDatabase();
+    const row = await db.getFirstAsync(
+      'SELECT servings, fodmap_derived, nutrition_derived FROM recipes WHERE id = ?',
+      [id]
+    );
+    if (!row) return;
+
+    await db.runAsync(
+      `UPDATE recipe_ingredients
+       SET fodmap_level = (SELECT fodmap_level FROM foods WHERE foods.id = recipe_ingredients.food_id)
+       WHERE recipe_id = ? AND food_id IS NOT NULL`,
+      [id]
+    );
+
+    const fodmapDerived = toBool(row.fodmap_derived);
+    const nutritionDerived = toBool(row.nutrition_derived);
+    if (!fodmapDerived && !nutritionDerived) return;
+
+    const rollup = rollUpRecipe(await loadRollupIngredients(db, id), row.servings || 1);
+    const changes: Changes<RecipeInput> = {};
+    if (fodmapDerived) {
+      changes.fodmap_level = rollup.fodmap_level;
+      changes.fodmap_details = rollup.fodmap_details ?? null;
+    }
+    if (nutritionDerived) {
+      changes.nutrition = rollup.nutrition ?? null;
+    }
+    await updateRow('recipes', id, encodeRecipe(changes));
+  },
+};
@@ -0,0 +1,98 @@
+/**
+ * Everyday FODMAP - Row Helpers
+ *
+ * Conversions between raw SQLite rows and the typed models in lib/types.ts.
+ * SQLite has no JSON or boolean columns: JSON is stored as TEXT and booleans
+ * as INTEGER 0/1, so every repository decodes and encodes through here.
+ */
+
+// Fields of T that may also be cleared with null (for partial updates)
+export type Changes<T> = { [K in keyof T]?: T[K] | null };
+
+// ============================================================
+// DECODING (row -> model)
+// ============================================================
+
+/**
+ * Parse a JSON TEXT column, returning the fallback on empty or invalid data
+ */
+export function parseJSON<T>(value: unknown, fallback: T): T {
+  if (value === null || value === undefined || value === '') return fallback;
+  if (typeof value !== 'string') return value as T;
+  try {
+    return JSON.parse(value) as T;
+  } catch (e) {
+    console.log('[Repositories] Invalid JSON column:', value);
+    return fallback;
+  }
+}
+
+export function toBool(value: unknown): boolean {
+  return value === 1 || value === true || value === '1';
+}
+
+// SQLite returns NULL as null, the models use optional (undefined) fields
+export function omitNulls<T extends Record<string, any>>(row: T): T {
+  const result: Record<string, any> = {};
+  for (const key of Object.keys(row)) {
+    if (row[key] !== null) result[key] = row[key];
+  }
+  return result as T;
+}
+
+// ============================================================
+// ENCODING (model -> row)
+// ============================================================
+
+export function toJSON(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  if (Array.isArray(value) && value.length === 0) return null;
+  return JSON.stringify(value);
+}
+
+export function fromBool(value: boolean | null | undefined): number {
+  return value ? 1 : 0;
+}
+
+/**
+ * Build the column/value map for an INSERT or UPDATE.
+ * Keys that are undefined are left out, so partial updates only touch the
+ * columns that were provided; null clears the column.
+ */
+export function encodeColumns<T extends Record<string, any>>(
+  changes: T,
+  encoders: { [K in keyof T]?: (value: NonNullable<T[K]>) => unknown } = {}
+): Record<string, unknown> {
+  const row: Record<string, unknown> = {};
+  for (const key of Object.keys(changes) as (keyof T & string)[]) {
+    const value = changes[key];
+    if (value === undefined) continue;
+    const encode = encoders[key];
+    row[key] = value === null || !encode ? value : encode(value as NonNullable<T[typeof key]>);
+  }
+  return row;
+}
+
+// ============================================================
+// WRITING
+// ============================================================
+
+/**
+ * UPDATE the given columns of a row.
+ * updateRow() in lib/database.ts also sets updated_at, which only foods and
+ * recipes have, so the other repositories go through here.
+ */
+export async function updateColumns(
+  db: any,
+  table: string,
+  id: number,
+  row: Record<string, unknown>
+): Promise<void> {
+  const keys = Object.keys(row);
+  if (keys.length === 0) return;
+
+  await db.runAsync(
+    `UPDATE ${table} SET ${keys.map(key => `${key} = ?`).join(', ')} WHERE id = ?`,
+    [...Object.values(row), id]
+  );
+}
@@ -0,0 +1,50 @@
+/**
+ * Everyday FODMAP - Symptom Repository
+ */
+
+import { deleteRow, getDatabase, insertRow } from '../database';
+import { Symptom } from '../types';
+import { Changes, encodeColumns, omitNulls, updateColumns } from './rows';
+
+export type SymptomInput = Omit<Symptom, 'id' | 'created_at'>;
+
+function decodeSymptom(row: any): Symptom {
+  return omitNulls(row) as Symptom;
+}
+
+export const SymptomRepository = {
+  /**
+   * Get the symptoms of a day (YYYY-MM-DD), ordered by time
+   */
+  async getByDate(date: string): Promise<Symptom[]> {
+    return SymptomRepository.getByDateRange(date, date);
+  },
+
+  async getByDateRange(startDate: string, endDate: string): Promise<Symptom[]> {
+    const db = await getDatabase();
+    const rows = await db.getAllAsync(
+      'SELECT * FROM symptoms WHERE date BETWEEN ? AND ? ORDER BY date, time',
+      [startDate, endDate]
+    );
+    return rows.map(decodeSymptom);
+  },
+
+  async getById(id: number): Promise<Symptom | null> {
+    const db = await getDatabase();
+    const row = await db.getFirstAsync('SELECT * FROM symptoms WHERE id = ?', [id]);
+    return row ? decodeSymptom(row) : null;
+  },
+
+  async create(symptom: Changes<SymptomInput> & Pick<SymptomInput, 'type' | 'intensity' | 'date' | 'time'>): Promise<number> {
+    return insertRow('symptoms', encodeColumns(symptom));
+  },
+
+  async update(id: number, changes: Changes<SymptomInput>): Promise<void> {
+    const db = await getDatabase();
+    await updateColumns(db, 'symptoms', id, encodeColumns(changes));
+  },
+
+  async remove(id: number): Promise<void> {
+    await deleteRow('symptoms', id);
+  },
+};
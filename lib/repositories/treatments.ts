@@ -0,0 +1,161 @@
+/**
+ * Everyday FODMAP - Treatment Repository
+ *
+ * Treatments and their dose logs (treatment_logs), decoded into the Treatment
+ * and TreatmentLog models.
+ */
+
+import { deleteRow, getDatabase, insertRow } from '../database';
+import { DosageUnit, Treatment, TreatmentDose, TreatmentLog } from '../types';
+import { Changes, encodeColumns, fromBool, omitNulls, parseJSON, toBool, toJSON, updateColumns } from './rows';
+
+export type TreatmentInput = Omit<Treatment, 'id' | 'created_at'>;
+export type TreatmentLogInput = Omit<TreatmentLog, 'id' | 'created_at'>;
+
+// Log entry for day views, with the treatment's configured dosage
+export interface TreatmentLogEntry extends TreatmentLog {
+  dosage_amount?: number;
+  dosage_unit?: DosageUnit;
+}
+
+// ============================================================
+// ROW MAPPING
+// ============================================================
+
+export function decodeTreatment(row: any): Treatment {
+  return {
+    ...omitNulls(row),
+    type: row.type || 'medication',
+    frequency: row.frequency || 'once_daily',
+    doses: parseJSON<TreatmentDose[]>(row.doses, []),
+    is_chronic: toBool(row.is_chronic),
+    reminder_enabled: toBool(row.reminder_enabled),
+    refill_reminder_enabled: toBool(row.refill_reminder_enabled),
+    is_active: toBool(row.is_active),
+  };
+}
+
+function decodeTreatmentLog(row: any): TreatmentLog {
+  return {
+    ...omitNulls(row),
+    taken: toBool(row.taken),
+    skipped: toBool(row.skipped),
+  };
+}
+
+function encodeTreatment(changes: Changes<TreatmentInput>): Record<string, unknown> {
+  return encodeColumns(changes, {
+    doses: toJSON,
+    is_chronic: fromBool,
+    reminder_enabled: fromBool,
+    refill_reminder_enabled: fromBool,
+    is_active: fromBool,
+  });
+}
+
+function encodeTreatmentLog(changes: Changes<TreatmentLogInput>): Record<string, unknown> {
+  return encodeColumns(changes, {
+    taken: fromBool,
+    skipped: fromBool,
+  });
+}
+
+// ============================================================
+// REPOSITORY
+// ============================================================
+
+export const TreatmentRepository = {
+  async getAll(): Promise<Treatment[]> {
+    const db = await getDatabase();
+    const rows = await db.getAllAsync('SELECT * FROM treatments ORDER BY name');
+    return rows.map(decodeTreatment);
+  },
+
+  async getActive(): Promise<Treatment[]> {
+    const db = await getDatabase();
+    const rows = await db.getAllAsync('SELECT * FROM treatments WHERE is_active = 1 ORDER BY name');
+    return rows.map(decodeTreatment);
+  },
+
+  async getById(id: number): Promise<Treatment | null> {
+    const db = await getDatabase();
+    const row = await db.getFirstAsync('SELECT * FROM treatments WHERE id = ?', [id]);
+    return row ? decodeTreatment(row) : null;
+  },
+
+  async findByName(name: string): Promise<Treatment | null> {
+    const db = await getDatabase();
+    const row = await db.getFirstAsync('SELECT * FROM treatments WHERE name = ?', [name]);
+    return row ? decodeTreatment(row) : null;
+  },
+
+  async create(treatment: Changes<TreatmentInput> & { name: string }): Promise<number> {
+    return insertRow('treatments', encodeTreatment(treatment));
+  },
+
+  async update(id: number, changes: Changes<TreatmentInput>): Promise<void> {
+    const db = await getDatabase();
+    await updateColumns(db, 'treatments', id, encodeTreatment(changes));
+  },
+
+  async remove(id: number): Promise<void> {
+    await deleteRow('treatments', id);
+  },
+
+  // --- Dose logs ---
+
+  /**
+   * Get every dose logged on a day, ordered by time
+   */
+  async getLogsByDate(date: string): Promise<TreatmentLogEntry[]> {
+    return TreatmentRepository.getLogsByDateRange(date, date);
+  },
+
+  async getLogsByDateRange(startDate: string, endDate: string): Promise<TreatmentLogEntry[]> {
+    const db = await getDatabase();
+    const rows = await db.getAllAsync(
+      `SELECT tl.*, t.name AS current_name, t.dosage_amount, t.dosage_unit
+       FROM treatment_logs tl
+       LEFT JOIN treatments t ON tl.treatment_id = t.id
+       WHERE tl.date BETWEEN ? AND ? ORDER BY tl.date, tl.time`,
+      [startDate, endDate]
+    );
+    return rows.map(({ current_name, dosage_amount, dosage_unit, ...row }: any) => ({
+      ...decodeTreatmentLog(row),
+      treatment_name: row.treatment_name || current_name || undefined,
+      dosage_amount: dosage_amount ?? undefined,
+      dosage_unit: dosage_unit ?? undefined,
+    }));
+  },
+
+  async getLogsForTreatment(treatmentId: number, date: string): Promise<TreatmentLog[]> {
+    const db = await getDatabase();
+    const rows = await db.getAllAsync(
+      'SELECT * FROM treatment_logs WHERE treatment_id = ? AND date = ?',
+      [treatmentId, date]
+    );
+    return rows.map(decodeTreatmentLog);
+  },
+
+  async findLog(treatmentId: number, date: string, scheduledTime: string): Promise<TreatmentLog | null> {
+    const db = await getDatabase();
+    const row = await db.getFirstAsync(
+      'SELECT * FROM treatment_logs WHERE treatment_id = ? AND date = ? AND scheduled_time = ?',
+      [treatmentId, date, scheduledTime]
+    );
+    return row ? decodeTreatmentLog(row) : null;
+  },
+
+  async createLog(log: Changes<TreatmentLogInput> & Pick<TreatmentLogInput, 'treatment_id' | 'date' | 'time'>): Promise<number> {
+    return insertRow('treatment_logs', encodeTreatmentLog(log));
+  },
+
+  async updateLog(id: number, changes: Changes<TreatmentLogInput>): Promise<void> {
+    const db = await getDatabase();
+    await updateColumns(db, 'treatment_logs', id, encodeTreatmentLog(changes));
+  },
+
+  async removeLog(id: number): Promise<void> {
+    await deleteRow('treatment_logs', id);
+  },
+};
@@ -0,0 +1,310 @@
+/**
+ * Everyday FODMAP - Food & Recipe Search
+ *
+ * Shared search index for the foods and recipes tabs, the meal editor and
+ * the food pickers of the editors. Texts are compared as folded words:
+ * lowercase, without accents and in singular, so "platanos" finds
+ * "Plátano verde".
+ *
+ * - A query word matches an item word exactly, as its start ("cala" →
+ *   "calabacín") or with a typo or two ("calabazin")
+ * - Items are indexed with the synonyms of the Spanish names they contain
+ *   ("calabacita", "zucchini" → "Calabacín"), see SYNONYM_GROUPS
+ * - Every query word must match; items are ranked by how well, by whether
+ *   the match is in the name, and by a boost for favorites and recently
+ *   logged items
+ * The index folds every item once when built, so searching thousands of
+ * foods on each keystroke stays fast; rebuild it when the items change.
+ */
+
+import { MealRepository } from './repositories';
+
+export interface SearchIndexOptions<T> {
+  // Searchable texts of an item, the name first
+  fields: (item: T) => (string | null | undefined)[];
+  // Extra score for an item (see getRankingBoost)
+  boost?: (item: T) => number;
+}
+
+export interface SearchIndex<T> {
+  // Items matching the query, best first; all items in their order when empty
+  search(query: string, limit?: number): T[];
+}
+
+export interface ItemUsage {
+  uses: number;
+  last_used: string;
+}
+
+export interface RecentUsage {
+  foods: Map<number, ItemUsage>;
+  recipes: Map<number, ItemUsage>;
+}
+
+// Spanish names of the same food across regions, and common English ones
+export const SYNONYM_GROUPS: string[][] = [
+  ['calabacín', 'calabacita', 'zucchini'],
+  ['plátano', 'banana', 'banano'],
+  ['patata', 'papa'],
+  ['batata', 'boniato', 'camote'],
+  ['judías verdes', 'ejotes', 'vainitas', 'habichuelas'],
+  ['judías', 'alubias', 'frijoles', 'porotos'],
+  ['guisantes', 'arvejas', 'chícharos'],
+  ['garbanzos', 'chickpeas'],
+  ['aguacate', 'palta'],
+  ['maíz', 'choclo', 'elote'],
+  ['fresa', 'frutilla'],
+  ['melocotón', 'durazno'],
+  ['albaricoque', 'damasco', 'chabacano'],
+  ['piña', 'ananá'],
+  ['pomelo', 'toronja'],
+  ['tomate', 'jitomate'],
+  ['pimiento', 'morrón', 'ají'],
+  ['remolacha', 'betabel', 'betarraga'],
+  ['col', 'repollo'],
+  ['calabaza', 'zapallo', 'auyama'],
+  ['cacahuete', 'maní'],
+  ['gambas', 'camarones', 'langostinos'],
+  ['cerdo', 'puerco', 'chancho'],
+  ['pavo', 'guajolote'],
+  ['zumo', 'jugo'],
+  ['mantequilla', 'manteca'],
+  ['nata', 'crema de leche'],
+  ['bizcocho', 'queque', 'pastel'],
+  ['galletas', 'galletitas'],
+  ['cebolleta', 'cebollino', 'cebolla de verdeo'],
+  ['champiñón', 'champiñones', 'setas', 'hongos'],
+  ['azúcar moreno', 'azúcar morena', 'panela'],
+  ['bebida de almendras', 'leche de almendras'],
+  ['bebida de avena', 'leche de avena'],
+  ['bebida de arroz', 'leche de arroz'],
+];
+
+// Left out of queries and names ("sin" is kept: "leche sin lactosa")
+const STOPWORDS = new Set(['de', 'del', 'la', 'el', 'los', 'las', 'con', 'y', 'en', 'a', 'al', 'para']);
+
+// Weight of a match in the name, in the other fields and in a synonym
+const NAME_WEIGHT = 1;
+const FIELD_WEIGHT = 0.6;
+const SYNONYM_WEIGHT = 0.95;
+
+// Days of meal log considered for "recently used"
+const USAGE_DAYS = 90;
+
+// ============================================================
+// TEXT
+// ============================================================
+
+/**
+ * Lowercase, without accents or punctuation ("Plátano, verde" → "platano verde")
+ */
+export function foldText(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Singular of a folded word: nueces → nuez, limones → limon, ajos → ajo
+ */
+export function singularize(word: string): string {
+  if (word.length <= 3) return word;
+  if (word.endsWith('ces')) return word.slice(0, -3) + 'z';
+  if (/[lnrdjz]es$/.test(word)) return word.slice(0, -2);
+  if (word.endsWith('s')) return word.slice(0, -1);
+  return word;
+}
+
+/**
+ * Folded, singular words of a text without stopwords (all words when
+ * there are only stopwords)
+ */
+export function tokenize(text: string): string[] {
+  const words = foldText(text).split(' ').filter(Boolean);
+  const meaningful = words.filter(word => !STOPWORDS.has(word));
+  return (meaningful.length > 0 ? meaningful : words).map(singularize);
+}
+
+// Synonym groups as token phrases, built once
+const SYNONYM_PHRASES = SYNONYM_GROUPS.map(group => group.map(term => tokenize(term)));
+
+function containsPhrase(tokens: string[], phrase: string[]): boolean {
+  for (let start = 0; start + phrase.length <= tokens.length; start++) {
+    if (phrase.every((token, index) => tokens[start + index] === token)) return true;
+  }
+  return false;
+}
+
+/**
+ * Tokens of the synonyms of the names contained in a text
+ */
+function getSynonymTokens(tokens: string[]): string[] {
+  const synonyms = new Set<string>();
+  for (const group of SYNONYM_PHRASES) {
+    if (!group.some(phrase => containsPhrase(tokens, phrase))) continue;
+    for (const phrase of group) {
+      for (const token of phrase) {
+        if (!tokens.includes(token)) synonyms.add(token);
+      }
+    }
+  }
+  return Array.from(synonyms);
+}
+
+// ============================================================
+// MATCHING
+// ============================================================
+
+/**
+ * Edit distance with transpositions, or max + 1 once it exceeds max
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let previous2: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], previous2[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous2 = previous;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * How well a query word matches an item word, 0-1
+ */
+function scoreToken(query: string, token: string): number {
+  if (token === query) return 1;
+  if (token.startsWith(query)) return 0.9;
+  if (query.length < 4) return 0;
+
+  const maxEdits = query.length >= 7 ? 2 : 1;
+  const edits = editDistance(query, token, maxEdits);
+  if (edits <= maxEdits) return edits === 1 ? 0.75 : 0.6;
+  // A typo in a word still being typed ("calabazi")
+  if (query.length >= 5 && token.length > query.length && editDistance(query, token.slice(0, query.length), 1) <= 1) {
+    return 0.6;
+  }
+  return 0;
+}
+
+interface IndexedItem<T> {
+  item: T;
+  order: number;
+  name: string;
+  // Tokens with the weight of a match in them
+  tokens: { token: string; weight: number }[];
+  boost: number;
+}
+
+function indexItem<T>(item: T, order: number, options: SearchIndexOptions<T>): IndexedItem<T> {
+  const fields = options.fields(item);
+  const tokens: IndexedItem<T>['tokens'] = [];
+  fields.forEach((field, index) => {
+    if (!field) return;
+    const fieldTokens = tokenize(field);
+    const weight = index === 0 ? NAME_WEIGHT : FIELD_WEIGHT;
+    fieldTokens.forEach(token => tokens.push({ token, weight }));
+    getSynonymTokens(fieldTokens).forEach(token => tokens.push({ token, weight: weight * SYNONYM_WEIGHT }));
+  });
+  return { item, order, name: foldText(fields[0] || ''), tokens, boost: options.boost?.(item) || 0 };
+}
+
+// Score of each query word against each item word, shared by all items in a search
+type TokenScores = Map<string, number>[];
+
+function scoreItem<T>(indexed: IndexedItem<T>, queryTokens: string[], foldedQuery: string, cache: TokenScores): number {
+  let total = 0;
+  for (let index = 0; index < queryTokens.length; index++) {
+    const scores = cache[index];
+    let best = 0;
+    for (const { token, weight } of indexed.tokens) {
+      let score = scores.get(token);
+      if (score === undefined) {
+        score = scoreToken(queryTokens[index], token);
+        scores.set(token, score);
+      }
+      best = Math.max(best, score * weight);
+    }
+    if (best === 0) return 0;
+    total += best;
+  }
+  const nameBonus = indexed.name.startsWith(foldedQuery) ? 0.2 : 0;
+  return total / queryTokens.length + nameBonus + indexed.boost;
+}
+
+// ============================================================
+// INDEX
+// ============================================================
+
+/**
+ * Build a search index over items (see the header for the matching rules)
+ */
+export function createSearchIndex<T>(items: T[], options: SearchIndexOptions<T>): SearchIndex<T> {
+  const indexed = items.map((item, order) => indexItem(item, order, options));
+
+  return {
+    search(query: string, limit?: number): T[] {
+      const queryTokens = tokenize(query);
+      if (queryTokens.length === 0) return limit ? items.slice(0, limit) : items;
+      const foldedQuery = foldText(query);
+      const cache: TokenScores = queryTokens.map(() => new Map());
+
+      const results: { entry: IndexedItem<T>; score: number }[] = [];
+      for (const entry of indexed) {
+        const score = scoreItem(entry, queryTokens, foldedQuery, cache);
+        if (score > 0) results.push({ entry, score });
+      }
+      results.sort((a, b) => b.score - a.score || a.entry.order - b.entry.order);
+      const ranked = results.map(({ entry }) => entry.item);
+      return limit ? ranked.slice(0, limit) : ranked;
+    },
+  };
+}
+
+// ============================================================
+// RANKING
+// ============================================================
+
+/**
+ * Extra score of an item: favorites, and items logged often or lately
+ */
+export function getRankingBoost(isFavorite: boolean | number | undefined, usage?: ItemUsage): number {
+  let boost = isFavorite ? 0.1 : 0;
+  if (usage) {
+    boost += (Math.min(usage.uses, 10) / 10) * 0.1;
+    const daysAgo = (Date.now() - new Date(usage.last_used).getTime()) / 86400000;
+    if (daysAgo <= 7) boost += 0.1;
+    else if (daysAgo <= 30) boost += 0.05;
+  }
+  return boost;
+}
+
+/**
+ * How often and when last each food and recipe was logged lately
+ */
+export async function loadRecentUsage(): Promise<RecentUsage> {
+  const since = new Date();
+  since.setDate(since.getDate() - USAGE_DAYS);
+  const rows = await MealRepository.getItemUsage(since.toISOString().split('T')[0]);
+
+  const usage: RecentUsage = { foods: new Map(), recipes: new Map() };
+  for (const { food_id, recipe_id, uses, last_used } of rows) {
+    if (food_id) usage.foods.set(food_id, { uses, last_used });
+    if (recipe_id) usage.recipes.set(recipe_id, { uses, last_used });
+  }
+  return usage;
+}
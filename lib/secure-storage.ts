@@ -0,0 +1,42 @@
+/**
+ * Everyday FODMAP - Secure Storage
+ *
+ * Small key/value store for secrets (backup key, app lock). Uses the
+ * platform keychain/keystore through expo-secure-store on iOS and Android.
+ * Browsers have no equivalent, so on web it falls back to AsyncStorage
+ * (localStorage), which is only as safe as the browser profile.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
+import { Platform } from 'react-native';
+
+const WEB_KEY_PREFIX = '@everyday_fodmap_secure_';
+
+export const isSecureStorageNative = Platform.OS !== 'web';
+
+export async function getSecureItem(key: string): Promise<string | null> {
+  if (!isSecureStorageNative) {
+    return AsyncStorage.getItem(WEB_KEY_PREFIX + key);
+  }
+  return SecureStore.getItemAsync(key);
+}
+
+export async function setSecureItem(key: string, value: string): Promise<void> {
+  if (!isSecureStorageNative) {
+    await AsyncStorage.setItem(WEB_KEY_PREFIX + key, value);
+    return;
+  }
+  // Only readable once the device has been unlocked after boot, never synced
+  await SecureStore.setItemAsync(key, value, {
+    keychainAccessible: SecureStore.AFTER_FIRST_UNLOCK_THIS_DEVICE_ONLY,
+  });
+}
+
+export async function deleteSecureItem(key: string): Promise<void> {
+  if (!isSecureStorageNative) {
+    await AsyncStorage.removeItem(WEB_KEY_PREFIX + key);
+    return;
+  }
+  await SecureStore.deleteItemAsync(key);
+}
@@ -0,0 +1,207 @@
+/**
+ * Everyday FODMAP - FODMAP Sensitivity Profile
+ *
+ * Personal tolerance per FODMAP subgroup (fructans, GOS, lactose, fructose,
+ * sorbitol, mannitol): days where something eaten was medium or high in a
+ * subgroup are compared with the other days, using the same time-windowed
+ * risk as the food correlations.
+ *
+ * Subgroup levels come from the `fodmap_details` of foods and recipes;
+ * recipes without details take the highest level of their ingredients.
+ * Items without any details never count as an exposure.
+ */
+
+import {
+  compareExposure,
+  CorrelationWindow,
+  DEFAULT_CORRELATION_WINDOW,
+  Eating,
+  ExposureRisk,
+  loadCorrelationContext,
+} from './correlation';
+import { getDatabase } from './database';
+import { parseJSON } from './repositories/rows';
+import { FODMAP_CATEGORIES, FODMAPDetails, FODMAPLevel, FODMAPSubgroup } from './types';
+
+export type SensitivityVerdict = 'elevated' | 'possible' | 'none' | 'insufficient';
+
+export interface SubgroupSensitivity extends ExposureRisk {
+  subgroup: FODMAPSubgroup;
+  label: string;
+  icon: string;
+  verdict: SensitivityVerdict;
+}
+
+export interface SensitivityProfile {
+  window: CorrelationWindow;
+  analyzedDays: number;
+  // In FODMAP_CATEGORIES order
+  subgroups: SubgroupSensitivity[];
+  // e.g. "Síntomas elevados tras fructanos, sin efecto con lactosa"
+  summary: string;
+}
+
+export const SENSITIVITY_VERDICT_LABELS: Record<SensitivityVerdict, string> = {
+  elevated: 'Síntomas elevados',
+  possible: 'Posible sensibilidad',
+  none: 'Sin efecto',
+  insufficient: 'Datos insuficientes',
+};
+
+// Relative risk from which a subgroup is flagged
+const ELEVATED_RISK = 1.5;
+const POSSIBLE_RISK = 1.2;
+
+type SubgroupLevels = Partial<Record<FODMAPSubgroup, FODMAPLevel>>;
+
+const LEVEL_ORDER: Record<FODMAPLevel, number> = { unknown: 0, low: 1, medium: 2, high: 3 };
+
+// ============================================================
+// SUBGROUP LEVELS
+// ============================================================
+
+function pickSubgroupLevels(details: Partial<FODMAPDetails> | undefined): SubgroupLevels | undefined {
+  if (!details) return undefined;
+  const levels: SubgroupLevels = {};
+  for (const { key } of FODMAP_CATEGORIES) {
+    if (details[key]) levels[key] = details[key];
+  }
+  return Object.keys(levels).length > 0 ? levels : undefined;
+}
+
+function mergeHighest(a: SubgroupLevels, b: SubgroupLevels): SubgroupLevels {
+  const merged = { ...a };
+  for (const { key } of FODMAP_CATEGORIES) {
+    const level = b[key];
+    if (level && LEVEL_ORDER[level] > LEVEL_ORDER[merged[key] || 'unknown']) merged[key] = level;
+  }
+  return merged;
+}
+
+/**
+ * Subgroup levels of every food and recipe eaten, keyed like the eatings
+ */
+async function loadSubgroupLevels(eatings: Eating[]): Promise<Map<string, SubgroupLevels>> {
+  const db = await getDatabase();
+  const levels = new Map<string, SubgroupLevels>();
+
+  const foodIds = [...new Set(eatings.map(eating => eating.foodId).filter((id): id is number => !!id))];
+  const recipeIds = [...new Set(eatings.map(eating => eating.recipeId).filter((id): id is number => !!id))];
+
+  if (foodIds.length > 0) {
+    const rows = await db.getAllAsync(
+      `SELECT id, fodmap_details FROM foods WHERE id IN (${foodIds.map(() => '?').join(', ')})`,
+      foodIds
+    );
+    for (const row of rows) {
+      const details = pickSubgroupLevels(parseJSON<Partial<FODMAPDetails> | undefined>(row.fodmap_details, undefined));
+      if (details) levels.set(`food:${row.id}`, details);
+    }
+  }
+
+  if (recipeIds.length > 0) {
+    const placeholders = recipeIds.map(() => '?').join(', ');
+    const recipes = await db.getAllAsync(
+      `SELECT id, fodmap_details FROM recipes WHERE id IN (${placeholders})`,
+      recipeIds
+    );
+    const ingredients = await db.getAllAsync(
+      `SELECT ri.recipe_id, f.fodmap_details
+       FROM recipe_ingredients ri
+       JOIN foods f ON ri.food_id = f.id
+       WHERE ri.recipe_id IN (${placeholders}) AND f.fodmap_details IS NOT NULL`,
+      recipeIds
+    );
+
+    for (const recipe of recipes) {
+      let details = pickSubgroupLevels(parseJSON<Partial<FODMAPDetails> | undefined>(recipe.fodmap_details, undefined));
+      if (!details) {
+        details = ingredients
+          .filter((ingredient: any) => ingredient.recipe_id === recipe.id)
+          .map((ingredient: any) => pickSubgroupLevels(parseJSON(ingredient.fodmap_details, undefined)))
+          .filter((ingredient: SubgroupLevels | undefined): ingredient is SubgroupLevels => !!ingredient)
+          .reduce(
+            (merged: SubgroupLevels | undefined, ingredient: SubgroupLevels) => mergeHighest(merged || {}, ingredient),
+            undefined
+          );
+      }
+      if (details) levels.set(`recipe:${recipe.id}`, details);
+    }
+  }
+
+  return levels;
+}
+
+// ============================================================
+// PROFILE
+// ============================================================
+
+function getVerdict(risk: ExposureRisk): SensitivityVerdict {
+  if (risk.confidence === 'low') return 'insufficient';
+  if (risk.relativeRisk >= ELEVATED_RISK) return 'elevated';
+  if (risk.relativeRisk >= POSSIBLE_RISK) return 'possible';
+  return 'none';
+}
+
+/**
+ * "a", "a y b", "a, b y c"
+ */
+function joinLabels(labels: string[]): string {
+  if (labels.length <= 1) return labels.join('');
+  return `${labels.slice(0, -1).join(', ')} y ${labels[labels.length - 1]}`;
+}
+
+function describeProfile(subgroups: SubgroupSensitivity[]): string {
+  const labelsFor = (verdict: SensitivityVerdict) => subgroups
+    .filter(subgroup => subgroup.verdict === verdict)
+    // Acronyms (GOS) keep their case
+    .map(subgroup => subgroup.label === subgroup.label.toUpperCase() ? subgroup.label : subgroup.label.toLowerCase());
+
+  const parts: string[] = [];
+  const elevated = labelsFor('elevated');
+  const possible = labelsFor('possible');
+  const none = labelsFor('none');
+  if (elevated.length > 0) parts.push(`síntomas elevados tras ${joinLabels(elevated)}`);
+  if (possible.length > 0) parts.push(`posible sensibilidad a ${joinLabels(possible)}`);
+  if (none.length > 0) parts.push(`sin efecto con ${joinLabels(none)}`);
+
+  if (parts.length === 0) {
+    return 'Aún no hay suficientes días con y sin cada subgrupo FODMAP para sacar conclusiones.';
+  }
+  const summary = parts.join(', ');
+  return summary.charAt(0).toUpperCase() + summary.slice(1);
+}
+
+/**
+ * Sensitivity per FODMAP subgroup for the period (inclusive, YYYY-MM-DD)
+ */
+export async function getSensitivityProfile(
+  startDate: string,
+  endDate: string,
+  window: CorrelationWindow = DEFAULT_CORRELATION_WINDOW
+): Promise<SensitivityProfile> {
+  const context = await loadCorrelationContext(startDate, endDate, window);
+  const levels = await loadSubgroupLevels(context.eatings);
+
+  const subgroups = FODMAP_CATEGORIES.map(category => {
+    const exposure = context.eatings.filter(eating => {
+      const level = levels.get(eating.key)?.[category.key];
+      return level === 'medium' || level === 'high';
+    });
+    const risk = compareExposure(context, exposure);
+    return {
+      ...risk,
+      subgroup: category.key,
+      label: category.label,
+      icon: category.icon,
+      verdict: getVerdict(risk),
+    };
+  });
+
+  return {
+    window,
+    analyzedDays: context.days.length,
+    subgroups,
+    summary: describeProfile(subgroups),
+  };
+}
@@ -5,6 +5,13 @@
 export type FODMAPLevel = 'low' | 'medium' | 'high' | 'unknown';
 export type FODMAPColor = 'green' | 'yellow' | 'red' | 'gray';
 
+export const FODMAP_LEVEL_LABELS: Record<FODMAPLevel, string> = {
+  low: 'Bajo',
+  medium: 'Medio',
+  high: 'Alto',
+  unknown: 'Desconocido',
+};
+
 // Individual FODMAP categories (Monash style)
 export interface FODMAPDetails {
   // Oligosaccharides
@@ -34,6 +41,17 @@ export interface FODMAPDetails {
   safe_serving?: string;
   // Serving that becomes medium/high
   limit_serving?: string;
+
+  // Portion (grams) at which each subgroup turns medium or high.
+  // The level of a logged portion is derived from these (see fodmap-servings.ts)
+  thresholds?: Partial<Record<FODMAPSubgroup, FODMAPServingThreshold>>;
+}
+
+export interface FODMAPServingThreshold {
+  // Moderate (amber) from this portion on
+  medium_g?: number;
+  // High (red) from this portion on
+  high_g?: number;
 }
 
 export const FODMAP_CATEGORIES = [
@@ -45,6 +63,8 @@ export const FODMAP_CATEGORIES = [
   { key: 'mannitol', label: 'Manitol', icon: 'cube-outline' },
 ] as const;
 
+export type FODMAPSubgroup = typeof FODMAP_CATEGORIES[number]['key'];
+
 export function getFODMAPColor(level: FODMAPLevel): FODMAPColor {
   switch (level) {
     case 'low': return 'green';
@@ -165,6 +185,9 @@ export const FOOD_CATEGORIES: { id: FoodCategory; label: string; icon: string }[
   { id: 'other', label: 'Otro', icon: 'ellipse' },
 ];
 
+// Grams in one unit of a food, for unit conversion (see lib/units.ts)
+export type UnitWeights = Partial<Record<'pieza' | 'diente' | 'taza' | 'cucharada' | 'cucharadita', number>>;
+
 // A food item (can be simple or compound)
 export interface Food {
   id: number;
@@ -178,6 +201,9 @@ export interface Food {
   // Compound food - contains other foods/ingredients
   is_compound: boolean;
   sub_foods?: FoodComponent[]; // Only if is_compound
+  // FODMAP data / nutrition computed from the components instead of typed in
+  fodmap_derived?: boolean;
+  nutrition_derived?: boolean;
   
   // Nutrition
   nutrition?: NutritionInfo;
@@ -185,6 +211,9 @@ export interface Food {
   
   // Details
   serving_size?: string;
+  // Unit conversion; category defaults when not set
+  density_g_ml?: number;
+  unit_weights?: UnitWeights;
   brand?: string; // For processed foods
   barcode?: string;
   
@@ -211,7 +240,8 @@ export type Ingredient = Food;
 
 // Component of a compound food
 export interface FoodComponent {
-  food_id: number;
+  id?: number;
+  food_id?: number; // Not set for free-text components
   food_name?: string; // Denormalized for display
   quantity: number;
   unit: string;
@@ -254,6 +284,7 @@ export const DIFFICULTY_LABELS: Record<RecipeDifficulty, string> = {
 
 // A recipe step
 export interface RecipeStep {
+  id?: number;
   order: number;
   title?: string; // Optional section title (e.g., "Preparación", "Cocción")
   instruction: string;
@@ -263,6 +294,7 @@ export interface RecipeStep {
 
 // Ingredient in a recipe
 export interface RecipeIngredient {
+  id?: number;
   food_id?: number; // Reference to food in database
   name: string; // Display name (or custom if no food_id)
   quantity: number;
@@ -295,6 +327,9 @@ export interface Recipe {
   // FODMAP
   fodmap_level: FODMAPLevel;
   fodmap_details?: Partial<FODMAPDetails>;
+  // FODMAP data / nutrition computed from the ingredients instead of typed in
+  fodmap_derived?: boolean;
+  nutrition_derived?: boolean;
   
   // Classification
   meal_types?: MealType[];
@@ -356,6 +391,7 @@ export interface MealItem {
   quantity: number;
   unit: string;
   fodmap_level?: FODMAPLevel;
+  nutrition?: NutritionInfo; // Of the amount eaten, from the linked food/recipe
 }
 
 // ============================================================
@@ -623,6 +659,56 @@ export interface ScheduledActivityLog {
   created_at: string;
 }
 
+// ============================================================
+// FODMAP PROGRAM (Elimination & Reintroduction)
+// ============================================================
+
+export type FODMAPProgramStatus = 'active' | 'completed' | 'cancelled';
+
+// Monash phases: elimination, reintroduction (challenges + washouts), personalization
+export type ProgramPhase = 'elimination' | 'challenge' | 'washout' | 'reintroduction' | 'personalization';
+
+export const PROGRAM_PHASE_LABELS: Record<ProgramPhase, string> = {
+  elimination: 'Eliminación',
+  challenge: 'Reto',
+  washout: 'Descanso',
+  reintroduction: 'Reintroducción',
+  personalization: 'Personalización',
+};
+
+export interface FODMAPProgram {
+  id: number;
+  elimination_start: string;
+  elimination_end: string;
+  // Low FODMAP days after each challenge
+  washout_days: number;
+  status: FODMAPProgramStatus;
+  notes?: string;
+  created_at: string;
+}
+
+// Reintroduction challenge: one test food, increasing doses on three consecutive days
+export interface FODMAPChallenge {
+  id: number;
+  program_id: number;
+  subgroup: FODMAPSubgroup;
+  food_name: string;
+  start_date: string;
+  // Amount for each of the three days
+  doses: number[];
+  dose_unit?: string;
+  notes?: string;
+  created_at: string;
+}
+
+export type ChallengeVerdict = 'tolerated' | 'partial' | 'not_tolerated';
+
+export const CHALLENGE_VERDICT_LABELS: Record<ChallengeVerdict, string> = {
+  tolerated: 'Tolerado',
+  partial: 'Tolerado en poca cantidad',
+  not_tolerated: 'No tolerado',
+};
+
 // ============================================================
 // WATER INTAKE
 // ============================================================
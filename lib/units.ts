@@ -0,0 +1,208 @@
+/**
+ * Everyday FODMAP - Unit Conversion
+ *
+ * Converts the quantities logged in meals, recipes and compound foods to
+ * grams, so nutrition and FODMAP doses can be scaled by the amount eaten.
+ *
+ * - Weights convert directly; volumes (ml, l, taza, cucharada, cucharadita)
+ *   through the food's density
+ * - Pieces and garlic cloves use the food's unit weights
+ * - A porción is the food's serving size; unknown units count as porciones
+ * Foods without their own density or unit weights use the defaults of
+ * their category.
+ *
+ * Nutrition refers to 100 g (100 ml when the serving size is a volume), or
+ * to one porción when it is marked per_serving. FODMAP ratings refer to
+ * the food's serving size when it is a weight or volume ("100g", "250ml"),
+ * and to 100 g otherwise.
+ */
+
+import { Food, FoodCategory, NutritionInfo, UnitWeights } from './types';
+
+export type MeasureUnit =
+  | 'g'
+  | 'kg'
+  | 'ml'
+  | 'l'
+  | 'taza'
+  | 'cucharada'
+  | 'cucharadita'
+  | 'pieza'
+  | 'diente'
+  | 'porción';
+
+export type UnitFood = Partial<Pick<Food, 'category' | 'serving_size' | 'density_g_ml' | 'unit_weights'>>;
+export type NutritionFood = UnitFood & { nutrition?: Pick<NutritionInfo, 'per_serving'> };
+
+export const MEASURE_UNITS: { id: MeasureUnit; label: string }[] = [
+  { id: 'g', label: 'Gramos' },
+  { id: 'ml', label: 'Mililitros' },
+  { id: 'porción', label: 'Porción' },
+  { id: 'pieza', label: 'Pieza' },
+  { id: 'taza', label: 'Taza' },
+  { id: 'cucharada', label: 'Cucharada' },
+  { id: 'cucharadita', label: 'Cucharadita' },
+  { id: 'diente', label: 'Diente' },
+  { id: 'kg', label: 'Kilogramos' },
+  { id: 'l', label: 'Litros' },
+];
+
+// Amount nutrition refers to, and FODMAP ratings when the food's serving size
+// isn't a weight or volume
+export const DEFAULT_SERVING_GRAMS = 100;
+
+// Typical density (g/ml) and weight of one piece by category
+export const CATEGORY_UNIT_DEFAULTS: Record<FoodCategory, { density_g_ml: number; piece_g: number }> = {
+  vegetable: { density_g_ml: 0.6, piece_g: 100 },
+  fruit: { density_g_ml: 0.65, piece_g: 120 },
+  grain: { density_g_ml: 0.8, piece_g: 40 },
+  protein: { density_g_ml: 0.9, piece_g: 120 },
+  dairy: { density_g_ml: 1.03, piece_g: 125 },
+  fat: { density_g_ml: 0.92, piece_g: 10 },
+  beverage: { density_g_ml: 1, piece_g: 250 },
+  condiment: { density_g_ml: 1.1, piece_g: 5 },
+  processed: { density_g_ml: 0.7, piece_g: 50 },
+  other: { density_g_ml: 1, piece_g: 100 },
+};
+
+// Garlic clove, when the food doesn't say
+const DEFAULT_CLOVE_GRAMS = 5;
+
+const VOLUME_ML: Partial<Record<MeasureUnit, number>> = { ml: 1, l: 1000, taza: 240, cucharada: 15, cucharadita: 5 };
+
+const UNIT_ALIASES: Record<string, MeasureUnit> = {
+  g: 'g', gr: 'g', grs: 'g', gramo: 'g', gramos: 'g',
+  kg: 'kg', kilo: 'kg', kilos: 'kg', kilogramo: 'kg', kilogramos: 'kg',
+  ml: 'ml', mililitro: 'ml', mililitros: 'ml',
+  l: 'l', litro: 'l', litros: 'l',
+  taza: 'taza', tazas: 'taza',
+  cucharada: 'cucharada', cucharadas: 'cucharada', cda: 'cucharada', cdas: 'cucharada',
+  cucharadita: 'cucharadita', cucharaditas: 'cucharadita', cdta: 'cucharadita', cdtas: 'cucharadita',
+  pieza: 'pieza', piezas: 'pieza', unidad: 'pieza', unidades: 'pieza', ud: 'pieza', uds: 'pieza',
+  diente: 'diente', dientes: 'diente',
+  porcion: 'porción', porciones: 'porción', racion: 'porción', raciones: 'porción',
+};
+
+// ============================================================
+// UNITS
+// ============================================================
+
+/**
+ * Unit of a free-text unit ("gramos", "cdas", "Porción"), undefined when
+ * it isn't one we know
+ */
+export function normalizeUnit(unit: string): MeasureUnit | undefined {
+  const key = unit.trim().toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/\.$/, '');
+  return UNIT_ALIASES[key];
+}
+
+function getCategoryDefaults(food?: UnitFood) {
+  // Bundled data has a few categories outside FoodCategory
+  return CATEGORY_UNIT_DEFAULTS[food?.category as FoodCategory] ?? CATEGORY_UNIT_DEFAULTS.other;
+}
+
+export function getDensity(food?: UnitFood): number {
+  return food?.density_g_ml || getCategoryDefaults(food).density_g_ml;
+}
+
+/**
+ * Grams in one unit of a food, undefined for porción (see getPortionGrams)
+ */
+export function getUnitGrams(unit: MeasureUnit, food?: UnitFood): number | undefined {
+  const weights: UnitWeights = food?.unit_weights || {};
+  switch (unit) {
+    case 'g': return 1;
+    case 'kg': return 1000;
+    case 'pieza': return weights.pieza || getCategoryDefaults(food).piece_g;
+    case 'diente': return weights.diente || DEFAULT_CLOVE_GRAMS;
+    case 'porción': return undefined;
+    default: {
+      const weight = weights[unit as keyof UnitWeights];
+      return weight || VOLUME_ML[unit]! * getDensity(food);
+    }
+  }
+}
+
+// ============================================================
+// SERVINGS
+// ============================================================
+
+// Quantities in a serving description, in order ("2 huevos (100g)" gives 100 g)
+function parseServing(serving?: string): { quantity: number; unit: MeasureUnit }[] {
+  const parsed: { quantity: number; unit: MeasureUnit }[] = [];
+  for (const match of (serving || '').matchAll(/(\d+(?:[.,]\d+)?)\s*([a-záéíóúñ]+\.?)/gi)) {
+    const unit = normalizeUnit(match[2]);
+    const quantity = parseFloat(match[1].replace(',', '.'));
+    if (unit && quantity > 0) parsed.push({ quantity, unit });
+  }
+  return parsed;
+}
+
+/**
+ * Grams in a serving description when it is a weight or volume ("75g
+ * (cabeza)", "1,5 kg", "250ml"), undefined otherwise ("1 diente")
+ */
+export function parseServingGrams(serving?: string, food?: UnitFood): number | undefined {
+  const parsed = parseServing(serving).find(({ unit }) => ['g', 'kg', 'ml', 'l'].includes(unit));
+  return parsed && parsed.quantity * getUnitGrams(parsed.unit, food)!;
+}
+
+/**
+ * Amount the food's FODMAP ratings refer to
+ */
+export function getReferenceGrams(food?: UnitFood): number {
+  return parseServingGrams(food?.serving_size, food) ?? DEFAULT_SERVING_GRAMS;
+}
+
+/**
+ * Grams in one porción: the food's serving size in any unit ("1 diente",
+ * "2 piezas"), or 100 g when it has none we understand
+ */
+export function getPortionGrams(food?: UnitFood): number {
+  const parsed = parseServing(food?.serving_size).find(({ unit }) => unit !== 'porción');
+  return parsed ? parsed.quantity * getUnitGrams(parsed.unit, food)! : DEFAULT_SERVING_GRAMS;
+}
+
+/**
+ * Grams the food's nutrition refers to: 100 g, 100 ml for foods served by
+ * volume, or one porción when the nutrition is marked per_serving
+ */
+export function getNutritionGrams(food?: NutritionFood): number {
+  if (food?.nutrition?.per_serving) return getPortionGrams(food);
+  const serving = parseServing(food?.serving_size).find(({ unit }) => ['g', 'kg', 'ml', 'l'].includes(unit));
+  return serving && VOLUME_ML[serving.unit]
+    ? DEFAULT_SERVING_GRAMS * getDensity(food)
+    : DEFAULT_SERVING_GRAMS;
+}
+
+// ============================================================
+// CONVERSION
+// ============================================================
+
+/**
+ * Grams in a quantity of a food. Unknown units count as porciones.
+ */
+export function toGrams(quantity: number, unit: string, food?: UnitFood): number {
+  const measure = normalizeUnit(unit);
+  const unitGrams = measure && getUnitGrams(measure, food);
+  return quantity * (unitGrams ?? getPortionGrams(food));
+}
+
+/**
+ * Multiplier for the food's nutrition values for a quantity eaten
+ */
+export function getNutritionFactor(quantity: number, unit: string, food?: NutritionFood): number {
+  return toGrams(quantity, unit, food) / getNutritionGrams(food);
+}
+
+/**
+ * Nutrition values multiplied by a factor, to two decimals; non-numeric
+ * fields are dropped
+ */
+export function scaleNutrition(nutrition: NutritionInfo, factor: number): NutritionInfo {
+  const scaled: Record<string, number> = {};
+  for (const [key, value] of Object.entries(nutrition)) {
+    if (typeof value === 'number') scaled[key] = Math.round(value * factor * 100) / 100;
+  }
+  return scaled as NutritionInfo;
+}
@@ -0,0 +1,190 @@
+/**
+ * Everyday FODMAP - Web SQLite Backend
+ *
+ * Runs the real SQLite engine in the browser (sql.js, compiled to WebAssembly)
+ * so the web build executes exactly the same SQL as native. The database file
+ * is persisted to IndexedDB after writes.
+ *
+ * Only the subset of the expo-sqlite async API used by the app is provided:
+ * execAsync, runAsync, getAllAsync, getFirstAsync and withTransactionAsync.
+ */
+
+import type { Database, SqlJsStatic, SqlValue } from 'sql.js';
+
+const IDB_NAME = 'everyday_fodmap';
+const IDB_STORE = 'databases';
+const SAVE_DELAY_MS = 400;
+
+export interface WebSQLiteDatabase {
+  execAsync: (sql: string) => Promise<void>;
+  runAsync: (sql: string, params?: any[]) => Promise<{ lastInsertRowId: number; changes: number }>;
+  getAllAsync: <T = any>(sql: string, params?: any[]) => Promise<T[]>;
+  getFirstAsync: <T = any>(sql: string, params?: any[]) => Promise<T | null>;
+  withTransactionAsync: (task: () => Promise<void>) => Promise<void>;
+}
+
+// ============================================================
+// INDEXEDDB PERSISTENCE
+// ============================================================
+
+function openIndexedDB(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(IDB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(IDB_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function readDatabaseFile(name: string): Promise<Uint8Array | null> {
+  const idb = await openIndexedDB();
+  return new Promise((resolve, reject) => {
+    const request = idb.transaction(IDB_STORE, 'readonly').objectStore(IDB_STORE).get(name);
+    request.onsuccess = () => resolve(request.result ? new Uint8Array(request.result) : null);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function writeDatabaseFile(name: string, data: Uint8Array): Promise<void> {
+  const idb = await openIndexedDB();
+  return new Promise((resolve, reject) => {
+    const tx = idb.transaction(IDB_STORE, 'readwrite');
+    tx.objectStore(IDB_STORE).put(data, name);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+// ============================================================
+// SQL.JS LOADING
+// ============================================================
+
+let sqlJsPromise: Promise<SqlJsStatic> | null = null;
+
+function loadSqlJs(): Promise<SqlJsStatic> {
+  if (!sqlJsPromise) {
+    const initSqlJs = require('sql.js/dist/sql-wasm-browser.js');
+    const { Asset } = require('expo-asset');
+    const wasmAsset = Asset.fromModule(require('sql.js/dist/sql-wasm-browser.wasm'));
+
+    sqlJsPromise = initSqlJs({ locateFile: () => wasmAsset.uri });
+  }
+  return sqlJsPromise!;
+}
+
+// expo-sqlite accepts undefined and booleans, sql.js does not
+function normalizeParams(params?: any[]): SqlValue[] {
+  return (params || []).map(value => {
+    if (value === undefined) return null;
+    if (typeof value === 'boolean') return value ? 1 : 0;
+    return value;
+  });
+}
+
+// ============================================================
+// DATABASE
+// ============================================================
+
+export async function openWebDatabaseAsync(name: string): Promise<WebSQLiteDatabase> {
+  const SQL = await loadSqlJs();
+
+  let saved: Uint8Array | null = null;
+  try {
+    saved = await readDatabaseFile(name);
+  } catch (e) {
+    console.error('[WebSQLite] Error reading database from IndexedDB:', e);
+  }
+
+  const db: Database = saved ? new SQL.Database(saved) : new SQL.Database();
+  console.log(`[WebSQLite] Opened ${name} (${saved ? `${saved.length} bytes` : 'new'})`);
+
+  let transactionDepth = 0;
+  let saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const flush = async () => {
+    saveTimer = null;
+    // export() closes and reopens the connection, which would end an open transaction
+    if (transactionDepth > 0) {
+      scheduleSave();
+      return;
+    }
+    try {
+      const data = db.export();
+      // Connection-level pragmas are lost when export() reopens the database
+      db.exec('PRAGMA foreign_keys = ON;');
+      await writeDatabaseFile(name, data);
+    } catch (e) {
+      console.error('[WebSQLite] Error saving database to IndexedDB:', e);
+    }
+  };
+
+  const scheduleSave = () => {
+    if (saveTimer) clearTimeout(saveTimer);
+    saveTimer = setTimeout(flush, SAVE_DELAY_MS);
+  };
+
+  if (typeof document !== 'undefined') {
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'hidden' && saveTimer) {
+        clearTimeout(saveTimer);
+        flush();
+      }
+    });
+  }
+
+  const getAll = <T>(sql: string, params?: any[]): T[] => {
+    const statement = db.prepare(sql);
+    try {
+      statement.bind(normalizeParams(params));
+      const rows: T[] = [];
+      while (statement.step()) {
+        rows.push(statement.getAsObject() as T);
+      }
+      return rows;
+    } finally {
+      statement.free();
+    }
+  };
+
+  return {
+    execAsync: async (sql: string) => {
+      db.exec(sql);
+      scheduleSave();
+    },
+    runAsync: async (sql: string, params?: any[]) => {
+      db.run(sql, normalizeParams(params));
+      const changes = db.getRowsModified();
+      const idResult = db.exec('SELECT last_insert_rowid() AS id');
+      const lastInsertRowId = Number(idResult[0]?.values[0]?.[0] || 0);
+      scheduleSave();
+      return { lastInsertRowId, changes };
+    },
+    getAllAsync: async <T>(sql: string, params?: any[]) => getAll<T>(sql, params),
+    getFirstAsync: async <T>(sql: string, params?: any[]) => getAll<T>(sql, params)[0] ?? null,
+    withTransactionAsync: async (task: () => Promise<void>) => {
+      // sql.js has a single connection: a second BEGIN would fail midway
+      if (transactionDepth > 0) {
+        throw new Error('[WebSQLite] Nested transactions are not supported');
+      }
+      db.exec('BEGIN TRANSACTION;');
+      transactionDepth++;
+      try {
+        await task();
+        db.exec('COMMIT;');
+      } catch (e) {
+        // A failed COMMIT may have ended the transaction already
+        try {
+          db.exec('ROLLBACK;');
+        } catch {
+          // Nothing left to roll back
+        }
+        throw e;
+      } finally {
+        transactionDepth--;
+      }
+      scheduleSave();
+    },
+  };
+}
@@ -6,13 +6,19 @@ const config = getDefaultConfig(__dirname);
 // Add wasm extension
 config.resolver.assetExts.push('wasm');
 
-// Exclude expo-sqlite from web bundle since it's not supported
+// Exclude expo-sqlite from web bundle since it's not supported,
+// and the sql.js WebAssembly engine (web only) from native bundles
 config.resolver.resolveRequest = (context, moduleName, platform) => {
   if (platform === 'web' && moduleName === 'expo-sqlite') {
     return {
       type: 'empty',
     };
   }
+  if (platform !== 'web' && moduleName.startsWith('sql.js')) {
+    return {
+      type: 'empty',
+    };
+  }
   // Use default resolution for everything else
   return context.resolveRequest(context, moduleName, platform);
 };